@@ -15,6 +15,7 @@ import { StorageProvider } from './contexts/StorageContext';
 import { AuthProvider } from './contexts/AuthContext';
 import Notifications from './components/ui/Notifications';
 import OfflineManager from './components/ui/OfflineManager';
+import MergeConflictDialog from './components/ui/MergeConflictDialog';
 import StorageControls from './components/ui/StorageControls';
 import Debug from './components/Debug';
 import TestInputs from './components/TestInputs';
@@ -121,6 +122,9 @@ function AppContent() {
       {/* Offline Manager Component */}
       <OfflineManager />
       
+      {/* Colliding edits from other planners */}
+      <MergeConflictDialog />
+      
       {/* Notifications Component */}
       <Notifications />
 
@@ -0,0 +1,374 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Upload, Save, Trash2, ArrowLeft, Loader2, AlertTriangle } from 'lucide-react';
+import useStore from '../store/useStore';
+import { useNotifications } from '../contexts/NotificationContext';
+import { formatDate } from '../lib/utils';
+import { createMoneyFormatter, getProductMoneyFormat } from '../lib/currency';
+import { toDate } from '../lib/seasonality';
+import { getErrorMessage } from '../lib/errorHandling';
+import { readSpreadsheetFile } from '../lib/spreadsheet';
+import type { SpreadsheetRows } from '../lib/spreadsheet';
+import {
+  ACTUALS_IMPORT_FIELDS,
+  ACTUALS_IMPORT_FIELD_LABELS,
+  ACTUALS_IMPORT_ROW_STATUSES,
+  ACTUALS_IMPORT_ROW_STATUS_LABELS,
+  applyActualsImport,
+  applyImportTemplate,
+  deleteImportTemplate,
+  findMatchingTemplate,
+  getImportTemplates,
+  saveImportTemplate,
+  suggestColumnMapping,
+  validateActualsRows
+} from '../lib/actualsImport';
+import type {
+  ActualsColumnMapping,
+  ActualsImportField,
+  ActualsImportRow,
+  ActualsImportRowStatus,
+  ActualsImportTemplate
+} from '../lib/actualsImport';
+import type { Product } from '../types';
+
+interface ActualsImportProps {
+  product: Product;
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+const STATUS_BADGES: Record<ActualsImportRowStatus, 'success' | 'info' | 'warning' | 'destructive'> = {
+  new: 'success',
+  update: 'info',
+  duplicate: 'warning',
+  invalid: 'destructive'
+};
+
+const ActualsImport = ({ product, onClose }: ActualsImportProps) => {
+  const { updateProduct } = useStore();
+  const { addNotification } = useNotifications();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<SpreadsheetRows>([]);
+  const [mapping, setMapping] = useState<ActualsColumnMapping>({});
+  const [templates, setTemplates] = useState<ActualsImportTemplate[]>(() => getImportTemplates());
+  const [templateName, setTemplateName] = useState('');
+  const [replaceExisting, setReplaceExisting] = useState(true);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (rows.length < 2) {
+        throw new Error('The file needs a header row and at least one row of actuals');
+      }
+
+      const fileHeaders = rows[0].map((header, index) => header.trim() || `Column ${index + 1}`);
+      const template = findMatchingTemplate(templates, fileHeaders);
+
+      setFileName(file.name);
+      setHeaders(fileHeaders);
+      setDataRows(rows.slice(1));
+      setMapping(template ? applyImportTemplate(template, fileHeaders) : suggestColumnMapping(fileHeaders));
+      setTemplateName(template?.name || '');
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading actuals file:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsReading(false);
+      event.target.value = '';
+    }
+  };
+
+  const setFieldColumn = (field: ActualsImportField, header: string) => {
+    const updated: ActualsColumnMapping = { ...mapping };
+    if (header) {
+      updated[field] = header;
+    } else {
+      delete updated[field];
+    }
+    setMapping(updated);
+  };
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (template) {
+      setMapping(applyImportTemplate(template, headers));
+      setTemplateName(template.name);
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return;
+    saveImportTemplate(templateName, mapping);
+    setTemplates(getImportTemplates());
+    addNotification({ type: 'success', message: `Saved column mapping "${templateName.trim()}"` });
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    deleteImportTemplate(templateId);
+    setTemplates(getImportTemplates());
+  };
+
+  const previewRows: ActualsImportRow[] = useMemo(() => {
+    if (step !== 'preview') return [];
+    return validateActualsRows(dataRows, headers, mapping, product.actuals || [], toDate(product.info.launchDate));
+  }, [step, dataRows, headers, mapping, product.actuals, product.info.launchDate]);
+
+  const statusCounts = ACTUALS_IMPORT_ROW_STATUSES.reduce((counts, status) => ({
+    ...counts,
+    [status]: previewRows.filter(row => row.status === status).length
+  }), {} as Record<ActualsImportRowStatus, number>);
+  const importCount = statusCounts.new + (replaceExisting ? statusCounts.update : 0);
+
+  const handleImport = () => {
+    const result = applyActualsImport(product.actuals || [], previewRows, replaceExisting);
+    updateProduct({
+      ...product,
+      actuals: result.actuals
+    });
+    addNotification({
+      type: 'success',
+      message: `Imported ${result.added} new and ${result.updated} updated ${result.added + result.updated === 1 ? 'week' : 'weeks'} of actuals from ${fileName}` +
+        (result.skipped > 0 ? `; ${result.skipped} ${result.skipped === 1 ? 'row was' : 'rows were'} skipped` : '')
+    });
+    onClose();
+  };
+
+  const formatMoney = createMoneyFormatter(getProductMoneyFormat(product.info));
+  const hasWeekSource = !!mapping.week || !!mapping.date;
+  const sampleValue = (header: string | undefined): string => {
+    if (!header) return '';
+    const column = headers.indexOf(header);
+    return dataRows.find(row => (row[column] || '').trim())?.[column] || '';
+  };
+
+  const renderUpload = () => (
+    <CardContent>
+      <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-md p-8 cursor-pointer hover:bg-gray-50">
+        {isReading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400 mb-2" />
+        ) : (
+          <Upload className="h-8 w-8 text-gray-400 mb-2" />
+        )}
+        <span className="text-sm font-medium">Choose a CSV or Excel (.xlsx) file</span>
+        <span className="text-xs text-gray-500 mt-1">The first row should hold the column headers</span>
+        <input
+          type="file"
+          accept=".csv,.xlsx,.txt,text/csv"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={isReading}
+        />
+      </label>
+      {error && (
+        <p className="text-sm text-red-600 mt-3 flex items-center gap-1">
+          <AlertTriangle className="h-4 w-4" /> {error}
+        </p>
+      )}
+    </CardContent>
+  );
+
+  const renderMapping = () => (
+    <CardContent className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        {templates.length > 0 && (
+          <div className="space-y-1">
+            <Label htmlFor="import-template">Saved mapping</Label>
+            <select
+              id="import-template"
+              className="w-48 p-2 border rounded text-sm"
+              value={templates.find(t => t.name === templateName)?.id || ''}
+              onChange={(e) => handleApplyTemplate(e.target.value)}
+            >
+              <option value="">Choose a template</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="template-name">Save this mapping as</Label>
+          <Input
+            id="template-name"
+            className="w-48"
+            value={templateName}
+            placeholder="e.g. Square POS"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTemplateName(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+          <Save className="h-4 w-4 mr-1" /> Save Template
+        </Button>
+        {templates.some(t => t.name === templateName) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-500 hover:text-red-700"
+            onClick={() => handleDeleteTemplate(templates.find(t => t.name === templateName)!.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Column in {fileName}</TableHead>
+              <TableHead>First value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ACTUALS_IMPORT_FIELDS.map(field => (
+              <TableRow key={field}>
+                <TableCell className="font-medium">{ACTUALS_IMPORT_FIELD_LABELS[field]}</TableCell>
+                <TableCell>
+                  <select
+                    className="w-full p-1 border rounded text-sm"
+                    value={mapping[field] || ''}
+                    onChange={(e) => setFieldColumn(field, e.target.value)}
+                  >
+                    <option value="">Not imported</option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </TableCell>
+                <TableCell className="text-sm text-gray-500 truncate max-w-[160px]">{sampleValue(mapping[field])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {!hasWeekSource && (
+        <p className="text-sm text-amber-600">Map a Week or Date column so each row can be matched to a week.</p>
+      )}
+    </CardContent>
+  );
+
+  const renderPreview = () => (
+    <CardContent className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {ACTUALS_IMPORT_ROW_STATUSES.map(status => (
+          <Badge key={status} variant={STATUS_BADGES[status]}>
+            {statusCounts[status]} {ACTUALS_IMPORT_ROW_STATUS_LABELS[status]}
+          </Badge>
+        ))}
+      </div>
+
+      {statusCounts.update > 0 && (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={replaceExisting}
+            onChange={(e) => setReplaceExisting(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Replace the figures for weeks that already have actuals
+        </label>
+      )}
+
+      <div className="max-h-80 overflow-y-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Week</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">Costs</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map(row => {
+              const date = toDate(row.fields.date);
+              return (
+                <TableRow key={row.rowNumber} className={row.status === 'invalid' || row.status === 'duplicate' ? 'bg-red-50' : undefined}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell>{row.week ?? '—'}</TableCell>
+                  <TableCell>{date ? formatDate(date) : '—'}</TableCell>
+                  <TableCell className="text-right">{row.fields.totalRevenue !== undefined ? formatMoney(row.fields.totalRevenue) : '—'}</TableCell>
+                  <TableCell className="text-right">{row.fields.totalCosts !== undefined ? formatMoney(row.fields.totalCosts) : '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGES[row.status]}>{ACTUALS_IMPORT_ROW_STATUS_LABELS[row.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {row.errors.map(message => <div key={message} className="text-red-600">{message}</div>)}
+                    {row.warnings.map(message => <div key={message} className="text-amber-600">{message}</div>)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </CardContent>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-4xl mx-4">
+        <CardHeader>
+          <CardTitle>Import Actuals</CardTitle>
+          <CardDescription>
+            {step === 'upload' && `Record weekly actuals for ${product.info.name} from a POS, ticketing or accounting export.`}
+            {step === 'map' && 'Choose which column each figure comes from. Blank cells leave a week\'s existing figures as they are.'}
+            {step === 'preview' && 'Check the rows before they are recorded. Invalid and repeated rows are skipped.'}
+          </CardDescription>
+        </CardHeader>
+
+        {step === 'upload' && renderUpload()}
+        {step === 'map' && renderMapping()}
+        {step === 'preview' && renderPreview()}
+
+        <CardFooter className="flex justify-between">
+          <div>
+            {step !== 'upload' && (
+              <Button variant="outline" onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}>
+                <ArrowLeft className="h-4 w-4 mr-1" /> Back
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            {step === 'map' && (
+              <Button onClick={() => setStep('preview')} disabled={!hasWeekSource}>
+                Preview
+              </Button>
+            )}
+            {step === 'preview' && (
+              <Button onClick={handleImport} disabled={importCount === 0}>
+                Import {importCount} {importCount === 1 ? 'Week' : 'Weeks'}
+              </Button>
+            )}
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ActualsImport;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { AlertTriangle } from 'lucide-react';
+import useStore from '../store/useStore';
+import { getErrorMessage } from '../lib/errorHandling';
+import { createMoneyFormatter, getProductMoneyFormat } from '../lib/currency';
+import { getWeekForDate, toDate } from '../lib/seasonality';
+import { getActualsForWeek, saveActualsRecord } from '../lib/actualsLedger';
+import type { ActualsRecord, ActualsRecordKind, Product } from '../types';
+
+interface ActualsRecordFormProps {
+  product: Product;
+  record?: ActualsRecord; // Record being edited; a new one is added when missing
+  onClose: () => void;
+}
+
+const AMOUNT_FIELDS = [
+  'ticketRevenue',
+  'fbRevenue',
+  'merchandiseRevenue',
+  'digitalRevenue',
+  'staffingCosts',
+  'eventCosts',
+  'additionalCosts'
+] as const;
+
+type AmountField = typeof AMOUNT_FIELDS[number];
+
+const AMOUNT_LABELS: Record<AmountField, string> = {
+  ticketRevenue: 'Ticket Revenue',
+  fbRevenue: 'F&B Revenue',
+  merchandiseRevenue: 'Merchandise Revenue',
+  digitalRevenue: 'Digital Revenue',
+  staffingCosts: 'Staffing Costs',
+  eventCosts: 'Event Costs',
+  additionalCosts: 'Additional Costs'
+};
+
+const REVENUE_FIELDS: AmountField[] = ['ticketRevenue', 'fbRevenue', 'merchandiseRevenue', 'digitalRevenue'];
+const COST_FIELDS: AmountField[] = ['staffingCosts', 'eventCosts', 'additionalCosts'];
+
+// Form values are kept as typed so fields can be left blank
+type AmountValues = Record<AmountField, string>;
+
+const toNumber = (value: string): number => parseFloat(value || '0') || 0;
+
+const ActualsRecordForm = ({ product, record, onClose }: ActualsRecordFormProps) => {
+  const { updateProduct } = useStore();
+
+  const [kind, setKind] = useState<ActualsRecordKind>(record?.kind || 'event');
+  const [date, setDate] = useState(format(record ? new Date(record.date) : new Date(), 'yyyy-MM-dd'));
+  const [name, setName] = useState(record?.name || '');
+  const [numberOfEvents, setNumberOfEvents] = useState(record?.numberOfEvents?.toString() || '');
+  const [attendance, setAttendance] = useState(record?.attendance?.toString() || '');
+  const [notes, setNotes] = useState(record?.notes || '');
+  const [amounts, setAmounts] = useState<AmountValues>(() => AMOUNT_FIELDS.reduce((values, field) => ({
+    ...values,
+    [field]: record?.[field]?.toString() || ''
+  }), {} as AmountValues));
+  const [error, setError] = useState<string | null>(null);
+
+  const launchDate = toDate(product.info.launchDate);
+  const week = launchDate && date ? getWeekForDate(launchDate, new Date(date)) : null;
+  const weekEntry = week !== null ? getActualsForWeek(product.actuals, week) : undefined;
+  const replacesWeekFigures = !!weekEntry && !weekEntry.records?.length && weekEntry.totalRevenue > 0;
+
+  const fbCogPercentage = product.costMetrics?.fbCogPercentage || 0;
+  const fbCogs = toNumber(amounts.fbRevenue) * (fbCogPercentage / 100);
+  const totalRevenue = REVENUE_FIELDS.reduce((sum, field) => sum + toNumber(amounts[field]), 0);
+  const totalCosts = COST_FIELDS.reduce((sum, field) => sum + toNumber(amounts[field]), 0) + fbCogs;
+  const formatMoney = createMoneyFormatter(getProductMoneyFormat(product.info));
+
+  const handleSave = () => {
+    if (!launchDate) return;
+
+    const saved: ActualsRecord = {
+      id: record?.id || crypto.randomUUID(),
+      kind,
+      date: new Date(date).toISOString(),
+      ...(name.trim() ? { name: name.trim() } : {}),
+      ...(kind === 'day' && numberOfEvents ? { numberOfEvents: parseInt(numberOfEvents) || 0 } : {}),
+      attendance: parseInt(attendance || '0') || 0,
+      ...AMOUNT_FIELDS.reduce((values, field) => ({ ...values, [field]: toNumber(amounts[field]) }), {}),
+      fbCogs,
+      totalRevenue,
+      totalCosts,
+      ...(notes.trim() ? { notes: notes.trim() } : {})
+    };
+
+    try {
+      updateProduct({
+        ...product,
+        actuals: saveActualsRecord(product.actuals, saved, launchDate)
+      });
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const renderAmount = (field: AmountField) => (
+    <div key={field} className="space-y-1">
+      <Label htmlFor={`record-${field}`}>{AMOUNT_LABELS[field]}</Label>
+      <Input
+        id={`record-${field}`}
+        type="number"
+        value={amounts[field]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmounts({ ...amounts, [field]: e.target.value })}
+        placeholder="0.00"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl mx-4">
+        <CardHeader>
+          <CardTitle>{record ? 'Edit' : 'Add'} {kind === 'event' ? 'Event' : 'Trading Day'}</CardTitle>
+          <CardDescription>
+            Takings are added to the week the date falls in, counted from the launch date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!launchDate ? (
+            <p className="text-sm text-amber-700 flex items-center gap-1">
+              <AlertTriangle className="h-4 w-4" /> Set a launch date for {product.info.name} to record takings by event or day.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="record-kind">Record</Label>
+                  <select
+                    id="record-kind"
+                    className="w-full p-2 border rounded"
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as ActualsRecordKind)}
+                  >
+                    <option value="event">Event night</option>
+                    <option value="day">Trading day</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="record-date">Date</Label>
+                  <Input
+                    id="record-date"
+                    type="date"
+                    value={date}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+                  />
+                  {week !== null && (
+                    <p className={`text-xs ${week < 1 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {week < 1 ? 'Before the launch date' : `Week ${week}`}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="record-name">{kind === 'event' ? 'Event Name' : 'Label'}</Label>
+                  <Input
+                    id="record-name"
+                    value={name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+                {kind === 'day' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="record-events">Number of Events</Label>
+                    <Input
+                      id="record-events"
+                      type="number"
+                      value={numberOfEvents}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNumberOfEvents(e.target.value)}
+                      placeholder="0"
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="record-attendance">Attendance</Label>
+                  <Input
+                    id="record-attendance"
+                    type="number"
+                    value={attendance}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAttendance(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <h5 className="font-medium mb-2">Revenue</h5>
+                <div className="grid grid-cols-4 gap-4">{REVENUE_FIELDS.map(renderAmount)}</div>
+              </div>
+
+              <div>
+                <h5 className="font-medium mb-2">Costs</h5>
+                <div className="grid grid-cols-4 gap-4">{COST_FIELDS.map(renderAmount)}</div>
+                {fbCogs > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Includes {formatMoney(fbCogs)} F&B COGS at {fbCogPercentage}% of F&B revenue
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="record-notes">Notes</Label>
+                <Input
+                  id="record-notes"
+                  value={notes}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+
+              <div className="flex justify-between text-sm border-t pt-3">
+                <span>Revenue: <span className="font-medium">{formatMoney(totalRevenue)}</span></span>
+                <span>Costs: <span className="font-medium">{formatMoney(totalCosts)}</span></span>
+                <span>
+                  Profit:{' '}
+                  <span className={`font-medium ${totalRevenue - totalCosts >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatMoney(totalRevenue - totalCosts)}
+                  </span>
+                </span>
+              </div>
+
+              {replacesWeekFigures && (
+                <p className="text-sm text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4" />
+                  Week {week} was recorded as a whole; from now on its figures are added up from its events and days.
+                </p>
+              )}
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4" /> {error}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!launchDate || !date || (week !== null && week < 1)}>
+            Save
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ActualsRecordForm;
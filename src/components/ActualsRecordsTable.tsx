@@ -0,0 +1,83 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+import { Pencil, Trash2 } from 'lucide-react';
+import { formatCurrency, formatNumber } from '../lib/utils';
+import { getActualProfit } from '../lib/actualsLedger';
+import type { ActualsRecord } from '../types';
+
+interface ActualsRecordsTableProps {
+  records: ActualsRecord[];
+  formatMoney?: (value: number) => string;
+  onEdit?: (record: ActualsRecord) => void;
+  onDelete?: (record: ActualsRecord) => void;
+}
+
+const describeRecord = (record: ActualsRecord): string =>
+  record.name || (record.kind === 'event' ? 'Event' : 'Trading day');
+
+/**
+ * The event nights and trading days a week's actuals were added up from
+ */
+const ActualsRecordsTable = ({ records, formatMoney = formatCurrency, onEdit, onDelete }: ActualsRecordsTableProps) => {
+  const hasActions = !!onEdit || !!onDelete;
+
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Event / Day</TableHead>
+          <TableHead className="text-right">Events</TableHead>
+          <TableHead className="text-right">Attendance</TableHead>
+          <TableHead className="text-right">Revenue</TableHead>
+          <TableHead className="text-right">Costs</TableHead>
+          <TableHead className="text-right">Profit</TableHead>
+          {hasActions && <TableHead className="text-right">Actions</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {records.map(record => (
+          <TableRow key={record.id}>
+            <TableCell>{format(new Date(record.date), 'EEE d MMM yyyy')}</TableCell>
+            <TableCell>
+              {describeRecord(record)}
+              {record.notes && <div className="text-gray-500">{record.notes}</div>}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatNumber(record.kind === 'event' ? 1 : record.numberOfEvents || 0)}
+            </TableCell>
+            <TableCell className="text-right">{formatNumber(record.attendance || 0)}</TableCell>
+            <TableCell className="text-right">{formatMoney(record.totalRevenue || 0)}</TableCell>
+            <TableCell className="text-right">{formatMoney(record.totalCosts || 0)}</TableCell>
+            <TableCell className="text-right">{formatMoney(getActualProfit(record))}</TableCell>
+            {hasActions && (
+              <TableCell className="text-right">
+                <div className="flex justify-end space-x-1">
+                  {onEdit && (
+                    <Button variant="ghost" size="sm" onClick={() => onEdit(record)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {onDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(record)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ActualsRecordsTable;
@@ -25,13 +25,28 @@ import {
   Trash2,
   Save,
   X,
-  Loader2
+  Loader2,
+  Upload,
+  ChevronDown,
+  ChevronUp
 } from 'lucide-react';
 import useStore from '../store/useStore';
+import ActualsImport from './ActualsImport';
+import ActualsRecordForm from './ActualsRecordForm';
+import ActualsRecordsTable from './ActualsRecordsTable';
 import { formatCurrency, formatNumber, formatPercent } from "../lib/utils";
+import {
+  getActualProfit,
+  getActualsRecords,
+  removeActualsRecord,
+  rollUpRecords,
+  upsertActualsEntry
+} from "../lib/actualsLedger";
+import { getWeekForDate, toDate } from "../lib/seasonality";
 import type { 
   Product, 
-  WeeklyActuals,
+  ActualsEntry,
+  ActualsRecord,
   MarketingChannelItem,
   MarketingChannelPerformance
 } from "../types";
@@ -59,6 +74,10 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth());
   const [isAddingActual, setIsAddingActual] = useState<boolean>(false);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  // Event or day record open in the record form: 'new' when adding one
+  const [recordFormTarget, setRecordFormTarget] = useState<ActualsRecord | 'new' | null>(null);
+  const [expandedActualId, setExpandedActualId] = useState<string | null>(null);
   const [newActualWeek, setNewActualWeek] = useState<number>(1);
   
   const [editingActualId, setEditingActualId] = useState<string | null>(null);
@@ -75,6 +94,12 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
   const [newFBRevenue, setNewFBRevenue] = useState<string>("");
   const [newMerchandiseRevenue, setNewMerchandiseRevenue] = useState<string>("");
   const [newDigitalRevenue, setNewDigitalRevenue] = useState<string>("");
+
+  // Sales counts (optional)
+  const [newTicketsSold, setNewTicketsSold] = useState<string>("");
+  const [newFBTransactions, setNewFBTransactions] = useState<string>("");
+  const [newMerchandiseTransactions, setNewMerchandiseTransactions] = useState<string>("");
+  const [newDigitalPurchases, setNewDigitalPurchases] = useState<string>("");
   
   // Cost breakdown
   const [newMarketingCosts, setNewMarketingCosts] = useState<string>("");
@@ -211,9 +236,11 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
 
   // Ensure actuals is an array
   const actuals = Array.isArray(currentProduct.actuals) ? currentProduct.actuals : [];
+  const launchDate = toDate(currentProduct.info.launchDate);
+  const editingActual = editingActualId ? actuals.find((actual: ActualsEntry) => actual.id === editingActualId) : undefined;
 
   // Filter actuals by selected year and month
-  const weeklyActuals = actuals.filter((actual: WeeklyActuals) => {
+  const weeklyActuals = actuals.filter((actual: ActualsEntry) => {
     try {
       const date = new Date(actual.date);
       return date.getFullYear() === selectedYear && date.getMonth() === selectedMonth;
@@ -221,7 +248,7 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
       console.error("Error filtering actual:", e, actual);
       return false;
     }
-  }).sort((a: WeeklyActuals, b: WeeklyActuals) => {
+  }).sort((a: ActualsEntry, b: ActualsEntry) => {
     try {
       const dateA = new Date(a.date);
       const dateB = new Date(b.date);
@@ -268,6 +295,17 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     return marketingCosts + staffingCosts + eventCosts + additionalCosts;
   };
 
+  // Sales counts are only recorded when entered; a blank count isn't a count of zero
+  const getSalesCounts = (): Pick<ActualsEntry, 'ticketsSold' | 'fbTransactions' | 'merchandiseTransactions' | 'digitalPurchases'> => {
+    const parseCount = (value: string) => value.trim() === '' ? undefined : parseInt(value);
+    return {
+      ticketsSold: parseCount(newTicketsSold),
+      fbTransactions: parseCount(newFBTransactions),
+      merchandiseTransactions: parseCount(newMerchandiseTransactions),
+      digitalPurchases: parseCount(newDigitalPurchases)
+    };
+  };
+
   // Handle adding a new actual
   const handleAddActual = () => {
     const week = parseInt(newWeekNumber);
@@ -280,6 +318,7 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     const merchandiseRevenue = parseFloat(newMerchandiseRevenue || "0");
     const digitalRevenue = parseFloat(newDigitalRevenue || "0");
     const totalRevenue = ticketRevenue + fbRevenue + merchandiseRevenue + digitalRevenue;
+    const salesCounts = getSalesCounts();
     
     // Cost breakdown
     const marketingCosts = parseFloat(newMarketingCosts || "0");
@@ -311,14 +350,9 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     // Add fbCogs to total costs
     const totalCosts = marketingCosts + staffingCosts + eventCosts + additionalCosts + fbCogs;
     
-    // Date parsing
-    const selectedDate = new Date(newDate);
-    
-    // Create a new actual
-    const newActual: WeeklyActuals = {
-      id: `actual-${Date.now()}`,
-      date: selectedDate.toISOString(),
-      week: week,
+    // Record the week in the ledger, keeping anything already recorded for it such as channel figures
+    const updatedActuals = upsertActualsEntry(actuals, week, {
+      date: new Date(newDate).toISOString(),
       numberOfEvents: events,
       footTraffic: footTraffic,
       averageEventAttendance: events > 0 ? Math.round(footTraffic / events) : 0,
@@ -328,7 +362,8 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
       fbRevenue: fbRevenue,
       merchandiseRevenue: merchandiseRevenue,
       digitalRevenue: digitalRevenue,
-      revenue: totalRevenue,
+      totalRevenue: totalRevenue,
+      ...salesCounts,
       
       // Cost breakdown
       marketingCosts: marketingCosts,
@@ -336,74 +371,17 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
       eventCosts: eventCosts,
       additionalCosts: additionalCosts,
       fbCogs: fbCogs, // Add the calculated F&B COGS
-      expenses: totalCosts,
-      
-      conversions: 0,
-      notes: ""
-    };
-    
-    // Create the ActualMetrics object to capture additional analytics
-    const newActualMetrics: any = {
-      id: crypto.randomUUID(),
-      week: week,
-      year: parseInt(format(new Date(newDate), 'yyyy')),
-      date: newDate,
-      
-      // Revenue breakdown
-      revenue: totalRevenue,
-      ticketRevenue: ticketRevenue,
-      fbRevenue: fbRevenue,
-      merchandiseRevenue: merchandiseRevenue,
-      digitalRevenue: digitalRevenue,
-      totalRevenue: totalRevenue,
-      
-      // Attendance metrics
-      eventCount: events,
-      numberOfEvents: events,
-      footTraffic: footTraffic,
-      averageEventAttendance: events > 0 ? Math.round(footTraffic / events) : 0,
-      
-      // Cost breakdowns
-      marketingCost: marketingCosts,
-      staffCost: staffingCosts,
-      eventsCosts: eventCosts,
-      setupCosts: 0,
       totalCosts: totalCosts,
       
-      // Performance metrics
-      weeklyProfit: totalRevenue - totalCosts,
-      cumulativeProfit: 0, // This will need to be calculated elsewhere
-      notes: "",
-      
-      // Add channel performance if we have it
-      channelPerformance: channelPerformance
-    };
+      ...(channelPerformance.length > 0 ? { channelPerformance } : {})
+    });
     
-    // Add channel performance if available
-    if (channelPerformance.length > 0) {
-      // Update the product with both actuals and actualMetrics
-      const updatedActuals = [...actuals, newActual];
-      const updatedActualMetrics = [...(Array.isArray(currentProduct.actualMetrics) ? currentProduct.actualMetrics : []), newActualMetrics];
-      
-      logDebug(`Adding new actual with ${channelPerformance.length} channel breakdowns`);
-      
-      updateProduct({
-        ...currentProduct,
-        actuals: updatedActuals,
-        actualMetrics: updatedActualMetrics
-      });
-    } else {
-      // Add the new actual to the current product without channel performance
-      const updatedActuals = [...actuals, newActual];
-      
-      logDebug(`Adding new actual: Week ${week} with revenue ${totalRevenue} and costs ${totalCosts} (including F&B COGS: ${fbCogs})`);
-      
-      // Update the product with the new actuals
-      updateProduct({
-        ...currentProduct,
-        actuals: updatedActuals
-      });
-    }
+    logDebug(`Recording week ${week} with revenue ${totalRevenue} and costs ${totalCosts} (including F&B COGS: ${fbCogs}, ${channelPerformance.length} channel breakdowns)`);
+    
+    updateProduct({
+      ...currentProduct,
+      actuals: updatedActuals
+    });
     
     // Reset the form
     setIsAddingActual(false);
@@ -422,6 +400,11 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     setNewFBRevenue("");
     setNewMerchandiseRevenue("");
     setNewDigitalRevenue("");
+
+    setNewTicketsSold("");
+    setNewFBTransactions("");
+    setNewMerchandiseTransactions("");
+    setNewDigitalPurchases("");
     
     setNewMarketingCosts("");
     setNewStaffingCosts("");
@@ -447,6 +430,7 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     const merchandiseRevenue = parseFloat(newMerchandiseRevenue || "0");
     const digitalRevenue = parseFloat(newDigitalRevenue || "0");
     const totalRevenue = ticketRevenue + fbRevenue + merchandiseRevenue + digitalRevenue;
+    const salesCounts = getSalesCounts();
     
     // Cost breakdown
     const marketingCosts = parseFloat(newMarketingCosts || "0");
@@ -464,12 +448,13 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     // Add fbCogs to total costs
     const totalCosts = marketingCosts + staffingCosts + eventCosts + additionalCosts + fbCogs;
     
-    // Find the actual being edited
-    const updatedActuals = actuals.map((actual: WeeklyActuals) => {
+    // Update the entry being edited; weeks captured by event or day keep the figures added up from them
+    const updatedActuals = actuals.map((actual: ActualsEntry) => {
       if (actual.id === editingActualId) {
-        return {
+        return rollUpRecords({
           ...actual,
           week: week,
+          date: new Date(newDate).toISOString(),
           numberOfEvents: events,
           footTraffic: footTraffic,
           averageEventAttendance: events > 0 ? Math.round(footTraffic / events) : 0,
@@ -479,7 +464,8 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
           fbRevenue: fbRevenue,
           merchandiseRevenue: merchandiseRevenue,
           digitalRevenue: digitalRevenue,
-          revenue: totalRevenue,
+          totalRevenue: totalRevenue,
+          ...salesCounts,
           
           // Cost breakdown
           marketingCosts: marketingCosts,
@@ -487,45 +473,15 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
           eventCosts: eventCosts,
           additionalCosts: additionalCosts,
           fbCogs: fbCogs, // Add the calculated F&B COGS
-          expenses: totalCosts,
-        };
+          totalCosts: totalCosts,
+        });
       }
       return actual;
     });
-
-    // Also update the actualMetrics if they exist
-    const updatedActualMetrics = currentProduct.actualMetrics ? 
-      currentProduct.actualMetrics.map((metric) => {
-        if (metric.week === week) {
-          return {
-            ...metric,
-            // Update with the same data, but using the correct field names
-            totalRevenue: totalRevenue,
-            ticketRevenue: ticketRevenue,
-            fbRevenue: fbRevenue,
-            merchandiseRevenue: merchandiseRevenue,
-            digitalRevenue: digitalRevenue,
-            
-            numberOfEvents: events,
-            footTraffic: footTraffic,
-            averageEventAttendance: events > 0 ? Math.round(footTraffic / events) : 0,
-            
-            marketingCost: marketingCosts, // Fixed: Use marketingCost not marketingCosts
-            staffCost: staffingCosts,
-            eventsCosts: eventCosts,
-            totalCosts: totalCosts,
-            
-            weeklyProfit: totalRevenue - totalCosts,
-          };
-        }
-        return metric;
-      }) : [];
     
-    // Update the product with the edited actuals and actualMetrics
     updateProduct({
       ...currentProduct,
-      actuals: updatedActuals,
-      actualMetrics: updatedActualMetrics
+      actuals: updatedActuals
     });
     
     // Reset the form
@@ -536,7 +492,7 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
   // Handle deleting an actual
   const handleDeleteActual = (id: string) => {
     // Filter out the actual to delete
-    const updatedActuals = actuals.filter((actual: WeeklyActuals) => actual.id !== id);
+    const updatedActuals = actuals.filter((actual: ActualsEntry) => actual.id !== id);
     
     // Update the product with the filtered actuals
     updateProduct({
@@ -545,8 +501,25 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     });
   };
 
+  // Handle deleting an event or day record; its week is added up again without it
+  const handleDeleteRecord = (record: ActualsRecord) => {
+    updateProduct({
+      ...currentProduct,
+      actuals: removeActualsRecord(actuals, record.id)
+    });
+  };
+
+  // Work out the week from the date when the launch date is known
+  const handleDateChange = (value: string) => {
+    setNewDate(value);
+    if (launchDate && value) {
+      const week = getWeekForDate(launchDate, new Date(value));
+      if (week >= 1) setNewWeekNumber(week.toString());
+    }
+  };
+
   // Handle editing an actual
-  const handleEditActual = (actual: WeeklyActuals) => {
+  const handleEditActual = (actual: ActualsEntry) => {
     setEditingActualId(actual.id);
     
     // Set form values
@@ -560,6 +533,11 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
     setNewFBRevenue(actual.fbRevenue?.toString() || "");
     setNewMerchandiseRevenue(actual.merchandiseRevenue?.toString() || "");
     setNewDigitalRevenue(actual.digitalRevenue?.toString() || "");
+
+    setNewTicketsSold(actual.ticketsSold?.toString() || "");
+    setNewFBTransactions(actual.fbTransactions?.toString() || "");
+    setNewMerchandiseTransactions(actual.merchandiseTransactions?.toString() || "");
+    setNewDigitalPurchases(actual.digitalPurchases?.toString() || "");
     
     setNewMarketingCosts(actual.marketingCosts?.toString() || "");
     setNewStaffingCosts(actual.staffingCosts?.toString() || "");
@@ -576,8 +554,8 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
 
   // Calculate totals for the selected period
   const totals = {
-    revenue: weeklyActuals.reduce((sum, actual) => sum + (actual.revenue || 0), 0),
-    expenses: weeklyActuals.reduce((sum, actual) => sum + (actual.expenses || 0), 0),
+    revenue: weeklyActuals.reduce((sum, actual) => sum + (actual.totalRevenue || 0), 0),
+    expenses: weeklyActuals.reduce((sum, actual) => sum + (actual.totalCosts || 0), 0),
     conversions: weeklyActuals.reduce((sum, actual) => sum + (actual.conversions || 0), 0),
     footTraffic: weeklyActuals.reduce((sum, actual) => sum + (actual.footTraffic || 0), 0),
     events: weeklyActuals.reduce((sum, actual) => sum + (actual.numberOfEvents || 0), 0),
@@ -639,11 +617,28 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
             </Select>
           </div>
           
-          <div>
+          <div className="flex gap-2">
+            <Button 
+              variant="outline" 
+              className="mt-5" 
+              onClick={() => setIsImporting(true)}
+            >
+              <Upload className="h-4 w-4 mr-1" /> Import
+            </Button>
+            <Button 
+              variant="outline" 
+              className="mt-5" 
+              onClick={() => setRecordFormTarget('new')}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Event / Day
+            </Button>
             <Button 
               variant="outline" 
               className="mt-5" 
-              onClick={() => setIsAddingActual(true)}
+              onClick={() => {
+                setIsAddingActual(true);
+                handleDateChange(newDate);
+              }}
               disabled={isAddingActual}
             >
               <Plus className="h-4 w-4 mr-1" /> Add Week
@@ -669,35 +664,61 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {weeklyActuals.map((actual: WeeklyActuals) => (
-                    <TableRow key={actual.id}>
-                      <TableCell>Week {actual.week}</TableCell>
-                      <TableCell>{format(new Date(actual.date), 'MMM d, yyyy')}</TableCell>
-                      <TableCell>{formatNumber(actual.numberOfEvents || 0)}</TableCell>
-                      <TableCell>{formatNumber(actual.averageEventAttendance || 0)}</TableCell>
-                      <TableCell>{formatCurrency(actual.revenue || 0)}</TableCell>
-                      <TableCell>{formatCurrency(actual.expenses || 0)}</TableCell>
-                      <TableCell>{formatCurrency((actual.revenue || 0) - (actual.expenses || 0))}</TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end space-x-1">
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => handleEditActual(actual)}
-                          >
-                            Edit
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => handleDeleteActual(actual.id)}
-                            className="text-red-500 hover:text-red-700"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
+                  {weeklyActuals.map((actual: ActualsEntry) => (
+                    <React.Fragment key={actual.id}>
+                      <TableRow>
+                        <TableCell>
+                          {actual.records?.length ? (
+                            <button
+                              className="flex items-center gap-1 hover:underline"
+                              onClick={() => setExpandedActualId(expandedActualId === actual.id ? null : actual.id)}
+                            >
+                              {expandedActualId === actual.id ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                              Week {actual.week}
+                              <span className="text-xs text-gray-500">({actual.records.length})</span>
+                            </button>
+                          ) : (
+                            `Week ${actual.week}`
+                          )}
+                        </TableCell>
+                        <TableCell>{format(new Date(actual.date), 'MMM d, yyyy')}</TableCell>
+                        <TableCell>{formatNumber(actual.numberOfEvents || 0)}</TableCell>
+                        <TableCell>{formatNumber(actual.averageEventAttendance || 0)}</TableCell>
+                        <TableCell>{formatCurrency(actual.totalRevenue || 0)}</TableCell>
+                        <TableCell>{formatCurrency(actual.totalCosts || 0)}</TableCell>
+                        <TableCell>{formatCurrency(getActualProfit(actual))}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-1">
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              onClick={() => handleEditActual(actual)}
+                            >
+                              Edit
+                            </Button>
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              onClick={() => handleDeleteActual(actual.id)}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {expandedActualId === actual.id && (
+                        <TableRow className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell colSpan={8} className="pl-8">
+                            <ActualsRecordsTable
+                              records={getActualsRecords(actual)}
+                              onEdit={(record: ActualsRecord) => setRecordFormTarget(record)}
+                              onDelete={handleDeleteRecord}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
                   ))}
                   
                   {/* Totals row */}
@@ -725,6 +746,12 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
         {(isAddingActual || editingActualId) && (
           <div className="bg-gray-50 p-4 rounded-md mt-4">
             <h4 className="font-semibold mb-3">{editingActualId ? "Edit Week" : "Add New Week"}</h4>
+            {editingActual?.records?.length ? (
+              <p className="text-sm text-gray-500 mb-3">
+                This week is added up from its {editingActual.records.length} events and days, so its attendance,
+                revenue and venue costs are kept from those; edit the events themselves to change them.
+              </p>
+            ) : null}
             
             <div className="grid grid-cols-2 gap-4 mb-4">
               <div className="space-y-1">
@@ -735,6 +762,9 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
                   value={newWeekNumber}
                   onChange={(e: InputChangeEvent) => setNewWeekNumber(e.target.value)}
                 />
+                {launchDate && (
+                  <p className="text-xs text-gray-500">Worked out from the date, counting from the launch date</p>
+                )}
               </div>
               
               <div className="space-y-1">
@@ -743,7 +773,7 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
                   id="date" 
                   type="date" 
                   value={newDate}
-                  onChange={(e: InputChangeEvent) => setNewDate(e.target.value)}
+                  onChange={(e: InputChangeEvent) => handleDateChange(e.target.value)}
                 />
               </div>
               
@@ -829,6 +859,56 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
               </div>
             </div>
             
+            <h5 className="font-medium mt-6 mb-1">Sales Counts</h5>
+            <p className="text-xs text-gray-500 mb-3">
+              How many people bought from each stream, if you have it. Variance analysis uses these to tell conversion from price.
+            </p>
+            <div className="grid grid-cols-4 gap-4 mb-4">
+              <div className="space-y-1">
+                <Label htmlFor="ticketsSold">Tickets Sold</Label>
+                <Input 
+                  id="ticketsSold" 
+                  type="number" 
+                  value={newTicketsSold}
+                  onChange={(e: InputChangeEvent) => setNewTicketsSold(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              
+              <div className="space-y-1">
+                <Label htmlFor="fbTransactions">F&B Transactions</Label>
+                <Input 
+                  id="fbTransactions" 
+                  type="number" 
+                  value={newFBTransactions}
+                  onChange={(e: InputChangeEvent) => setNewFBTransactions(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              
+              <div className="space-y-1">
+                <Label htmlFor="merchandiseTransactions">Merchandise Transactions</Label>
+                <Input 
+                  id="merchandiseTransactions" 
+                  type="number" 
+                  value={newMerchandiseTransactions}
+                  onChange={(e: InputChangeEvent) => setNewMerchandiseTransactions(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              
+              <div className="space-y-1">
+                <Label htmlFor="digitalPurchases">Digital Purchases</Label>
+                <Input 
+                  id="digitalPurchases" 
+                  type="number" 
+                  value={newDigitalPurchases}
+                  onChange={(e: InputChangeEvent) => setNewDigitalPurchases(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            
             <h5 className="font-medium mt-6 mb-3">Costs Breakdown</h5>
             <div className="grid grid-cols-4 gap-4 mb-4">
               <div className="space-y-1">
@@ -988,6 +1068,18 @@ const ActualsTracker = ({ standalone = false }: ActualsTrackerProps) => {
             </div>
           </div>
         )}
+        
+        {isImporting && (
+          <ActualsImport product={currentProduct} onClose={() => setIsImporting(false)} />
+        )}
+        
+        {recordFormTarget && (
+          <ActualsRecordForm
+            product={currentProduct}
+            record={recordFormTarget === 'new' ? undefined : recordFormTarget}
+            onClose={() => setRecordFormTarget(null)}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import useStore from '../store/useStore';
+import { CURRENCIES } from '../types';
+import type { Currency } from '../types';
+import { CURRENCY_LABELS } from '../lib/currency';
+import { formatDate } from '../lib/utils';
+import { toDate } from '../lib/seasonality';
+
+const toDateInputValue = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function CurrencySettings() {
+  const { reportingCurrency, fxRates, setReportingCurrency, addFxRate, deleteFxRate } = useStore();
+
+  const [from, setFrom] = useState<Currency>('AUD');
+  const [to, setTo] = useState<Currency>('USD');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(toDateInputValue(new Date()));
+
+  const parsedRate = parseFloat(rate);
+  const canAdd = from !== to && parsedRate > 0 && Boolean(effectiveDate);
+
+  const handleAddRate = () => {
+    if (!canAdd) return;
+
+    addFxRate({ from, to, rate: parsedRate, effectiveDate: new Date(effectiveDate) });
+    setRate('');
+  };
+
+  // Newest first, so the rate currently in force for each pair is easy to find
+  const sortedRates = [...fxRates].sort((a, b) =>
+    (toDate(b.effectiveDate)?.getTime() || 0) - (toDate(a.effectiveDate)?.getTime() || 0)
+  );
+
+  const renderCurrencySelect = (id: string, value: Currency, onChange: (value: Currency) => void) => (
+    <Select value={value} onValueChange={(next) => onChange(next as Currency)}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map(currency => (
+          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Currency</CardTitle>
+        <CardDescription>
+          Portfolio figures are converted to the reporting currency at the latest rate on or before the report date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-xs space-y-2">
+          <Label htmlFor="reporting-currency">Reporting Currency</Label>
+          <Select value={reportingCurrency} onValueChange={(value) => setReportingCurrency(value as Currency)}>
+            <SelectTrigger id="reporting-currency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <h4 className="font-medium mb-2">Exchange Rates</h4>
+          <div className="grid gap-4 md:grid-cols-5 items-end mb-4">
+            <div className="space-y-2">
+              <Label htmlFor="fx-from">From</Label>
+              {renderCurrencySelect('fx-from', from, setFrom)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fx-to">To</Label>
+              {renderCurrencySelect('fx-to', to, setTo)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fx-rate">Rate (1 {from} =)</Label>
+              <Input
+                id="fx-rate"
+                type="number"
+                min={0}
+                step={0.0001}
+                value={rate}
+                onChange={e => setRate(e.target.value)}
+                placeholder={`${to} per ${from}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fx-date">Effective From</Label>
+              <Input
+                id="fx-date"
+                type="date"
+                value={effectiveDate}
+                onChange={e => setEffectiveDate(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAddRate} disabled={!canAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+
+          {sortedRates.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Inverse</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRates.map(fxRate => (
+                  <TableRow key={fxRate.id}>
+                    <TableCell>{formatDate(toDate(fxRate.effectiveDate) || new Date())}</TableCell>
+                    <TableCell className="font-medium">{fxRate.from} → {fxRate.to}</TableCell>
+                    <TableCell>{fxRate.rate.toFixed(4)}</TableCell>
+                    <TableCell>{(1 / fxRate.rate).toFixed(4)}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => deleteFxRate(fxRate.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No exchange rates yet. Products in another currency are left out of portfolio totals until a rate is added.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
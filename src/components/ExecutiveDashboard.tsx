@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
-import { formatCurrency, formatPercent } from '../lib/utils';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import CurrencySettings from './CurrencySettings';
+import VarianceWaterfall from './VarianceWaterfall';
+import { formatCurrency, formatPercent, formatDate } from '../lib/utils';
+import { getProductCurrency, getReportingMoneyFormat } from '../lib/currency';
+import { getActualProfit, getActualsForWeek } from '../lib/actualsLedger';
+import { exportPortfolioSummary } from '../lib/exportUtils';
 import useStore from '../store/useStore';
 import {
   BarChart,
@@ -27,7 +34,7 @@ import {
 } from 'recharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Button } from './ui/button';
-import { ChevronDown, ChevronUp, TrendingDown, TrendingUp, DollarSign, AlertCircle, Calendar, Activity } from 'lucide-react';
+import { ChevronDown, ChevronUp, TrendingDown, TrendingUp, DollarSign, AlertCircle, Calendar, Activity, Download } from 'lucide-react';
 
 const COLORS = {
   marketing: '#EF4444',  // red
@@ -48,9 +55,12 @@ const PRODUCT_TYPE_COLORS = {
   'Digital Products': '#a4de6c'
 };
 
+const toDateInputValue = (date: Date) => date.toISOString().slice(0, 10);
+
 export default function ExecutiveDashboard() {
-  const { products, currentProductId } = useStore();
+  const { products, currentProductId, reportingCurrency, fxRates } = useStore();
   const [view, setView] = useState<'current' | 'portfolio'>('current');
+  const [ratesAsOf, setRatesAsOf] = useState(toDateInputValue(new Date()));
   const currentProduct = products.find(p => p.info.id === currentProductId);
   
   if (products.length === 0) {
@@ -73,10 +83,11 @@ export default function ExecutiveDashboard() {
   // CURRENT PRODUCT DASHBOARD
   if (view === 'current' && currentProduct) {
     const { weeklyProjections = [], costMetrics, risks = [], actuals = [] } = currentProduct;
+    const currency = getProductCurrency(currentProduct.info);
 
     // Helper to get actual data for a specific week
     const getActualForWeek = (weekNumber: number) => {
-      return actuals.find(a => a.week === weekNumber);
+      return getActualsForWeek(actuals, weekNumber);
     };
 
     // Integrate actuals with projections for metrics calculations
@@ -90,9 +101,9 @@ export default function ExecutiveDashboard() {
       
       if (actual) {
         // Use actual data when available
-        totalRevenue += actual.revenue;
-        totalCosts += actual.expenses;
-        totalProfit += (actual.revenue - actual.expenses);
+        totalRevenue += actual.totalRevenue;
+        totalCosts += actual.totalCosts;
+        totalProfit += getActualProfit(actual);
         totalFootTraffic += (actual.footTraffic || 0);
       } else {
         // Fall back to projections
@@ -107,60 +118,24 @@ export default function ExecutiveDashboard() {
     const profitMargin = totalRevenue > 0 ? (totalRevenue - totalCosts) / totalRevenue : 0;
     const breakEvenWeek = weeklyProjections.findIndex(w => w.cumulativeProfit > 0) + 1;
 
-    // Calculate total setup costs
-    const totalSetupCosts = costMetrics?.setupCosts?.reduce((sum, cost) => sum + cost.amount, 0) || 0;
-
     // Count high risks
     const highRisks = risks.filter(r => r.impact === 'High' && r.status !== 'Closed').length;
 
-    // Calculate weekly recurring costs
-    const weeklyEventCosts = costMetrics?.eventCosts?.reduce((sum, cost) => sum + cost.amount, 0) || 0;
-    
-    // Calculate staffing costs (both legacy and new role-based)
-    let weeklyStaffingCosts = 0;
-    if (costMetrics?.staffRoles && costMetrics.staffRoles.length > 0) {
-      // Use new role-based staffing
-      weeklyStaffingCosts = costMetrics.staffRoles.reduce((sum, role) => {
-        const roleCount = role.count || 0;
-        const costPerPerson = role.costPerPerson || 0;
-        const eventsPerWeek = currentProduct.info.eventsPerWeek || 1;
-        
-        // Calculate based on full-time or per-event
-        if (role.isFullTime) {
-          return sum + (roleCount * costPerPerson);
-        } else {
-          return sum + (roleCount * costPerPerson * eventsPerWeek);
-        }
-      }, 0);
-    } else {
-      // Use legacy staffing
-      weeklyStaffingCosts = (costMetrics?.additionalStaffingPerEvent || 0) * 
-        (costMetrics?.staffingCostPerPerson || 0) * 
-        (currentProduct.info.eventsPerWeek || 1);
-    }
-    
-    // Calculate marketing costs (both legacy and new channel-based)
-    let weeklyMarketingCosts = 0;
-    if (costMetrics?.marketing?.channels && costMetrics.marketing.channels.length > 0) {
-      // Use new channel-based marketing
-      weeklyMarketingCosts = costMetrics.marketing.channels.reduce((sum, channel) => 
-        sum + (channel.budget || 0), 0);
-    } else {
-      // Use legacy marketing
-      weeklyMarketingCosts = costMetrics?.marketing?.type === 'weekly' 
-        ? (costMetrics?.marketing?.weeklyBudget || 0)
-        : ((costMetrics?.marketing?.campaignBudget || 0) / (costMetrics?.marketing?.campaignDurationWeeks || 12));
-    }
-
-    // Calculate total COGS
-    const totalFbCogs = weeklyProjections.reduce((sum, week) => sum + (week.fbCogs || 0), 0);
-    const totalMerchandiseCogs = weeklyProjections.reduce((sum, week) => sum + (week.merchandiseCogs || 0), 0);
+    // Cost lines over the forecast, as the projection engine works them out
+    const sumProjected = (line: 'marketingCosts' | 'staffingCosts' | 'eventCosts' | 'setupCosts' | 'fbCogs' | 'merchandiseCogs') =>
+      weeklyProjections.reduce((sum, week) => sum + (week[line] || 0), 0);
+    const totalMarketingCosts = sumProjected('marketingCosts');
+    const totalStaffingCosts = sumProjected('staffingCosts');
+    const totalEventCosts = sumProjected('eventCosts');
+    const totalSetupCosts = sumProjected('setupCosts');
+    const totalFbCogs = sumProjected('fbCogs');
+    const totalMerchandiseCogs = sumProjected('merchandiseCogs');
 
     // Prepare cost breakdown data
     const costBreakdownData = [
-      { name: 'Marketing', value: weeklyMarketingCosts * 12, color: COLORS.marketing },
-      { name: 'Staffing', value: weeklyStaffingCosts * 12, color: COLORS.staffing },
-      { name: 'Event Costs', value: weeklyEventCosts * 12, color: COLORS.event },
+      { name: 'Marketing', value: totalMarketingCosts, color: COLORS.marketing },
+      { name: 'Staffing', value: totalStaffingCosts, color: COLORS.staffing },
+      { name: 'Event Costs', value: totalEventCosts, color: COLORS.event },
       { name: 'Setup Costs', value: totalSetupCosts, color: COLORS.setup },
     ];
 
@@ -189,22 +164,25 @@ export default function ExecutiveDashboard() {
       return {
         name: `Week ${week.week}`,
         projected: actual ? null : week.totalCosts,
-        actual: actual ? actual.expenses : null,
+        actual: actual ? actual.totalCosts : null,
         // Use different colors
         projectedColor: '#94A3B8', // Slate color for costs projection
         actualColor: '#EF4444'  // Red color for actual costs
       };
     });
 
+    // Per-channel and per-role budgets over the weeks in the forecast
+    const forecastWeeks = weeklyProjections.length;
+
     // Prepare marketing channel breakdown if channels exist
     const marketingChannelData = costMetrics?.marketing?.channels && costMetrics.marketing.channels.length > 0
       ? costMetrics.marketing.channels.map((channel, index) => ({
           name: channel.name || `Channel ${index + 1}`,
-          value: (channel.budget || 0) * 12,
+          value: (channel.budget || 0) * forecastWeeks,
           weeklyBudget: channel.budget || 0,
           color: COLORS[Object.keys(COLORS)[index % Object.keys(COLORS).length] as keyof typeof COLORS],
           expectedROI: channel.expectedROI || 0,
-          expectedReturn: ((channel.budget || 0) * 12) * ((channel.expectedROI || 0) / 100)
+          expectedReturn: ((channel.budget || 0) * forecastWeeks) * ((channel.expectedROI || 0) / 100)
         }))
       : [];
 
@@ -213,8 +191,8 @@ export default function ExecutiveDashboard() {
       ? costMetrics.staffRoles.map((role, index) => {
           const eventsPerWeek = currentProduct.info.eventsPerWeek || 1;
           const roleCost = role.isFullTime 
-            ? (role.count * role.costPerPerson) * 12
-            : (role.count * role.costPerPerson * eventsPerWeek) * 12;
+            ? (role.count * role.costPerPerson) * forecastWeeks
+            : (role.count * role.costPerPerson * eventsPerWeek) * forecastWeeks;
             
           return {
             name: role.role || `Role ${index + 1}`,
@@ -236,7 +214,7 @@ export default function ExecutiveDashboard() {
         const prevWeeks = array.slice(Math.max(0, index - 2), index + 1);
         const revSum = prevWeeks.reduce((sum, w) => {
           const weekActual = getActualForWeek(w.week);
-          return sum + (weekActual ? weekActual.revenue : w.totalRevenue);
+          return sum + (weekActual ? weekActual.totalRevenue : w.totalRevenue);
         }, 0);
         rollingRevAvg = revSum / prevWeeks.length;
       }
@@ -244,9 +222,9 @@ export default function ExecutiveDashboard() {
       return {
         name: `Week ${week.week}`,
         projectedRevenue: actual ? null : week.totalRevenue,
-        actualRevenue: actual ? actual.revenue : null,
+        actualRevenue: actual ? actual.totalRevenue : null,
         projectedProfit: actual ? null : week.weeklyProfit,
-        actualProfit: actual ? (actual.revenue - actual.expenses) : null,
+        actualProfit: actual ? getActualProfit(actual) : null,
         revenueTrend: rollingRevAvg,
         // Colors
         revenueColor: COLORS.forecast,
@@ -310,7 +288,7 @@ export default function ExecutiveDashboard() {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{formatCurrency(totalRevenue)}</div>
+              <div className="text-2xl font-bold">{formatCurrency(totalRevenue, currency)}</div>
               <p className="text-xs text-muted-foreground">12-week forecast period</p>
             </CardContent>
           </Card>
@@ -411,7 +389,7 @@ export default function ExecutiveDashboard() {
                             ))}
                           </Pie>
                           <Tooltip 
-                            formatter={(value: number) => formatCurrency(value)}
+                            formatter={(value: number) => formatCurrency(value, currency)}
                           />
                           <Legend />
                         </PieChart>
@@ -432,7 +410,7 @@ export default function ExecutiveDashboard() {
                           label={{ value: 'Cost ($)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
                         />
                         <Tooltip 
-                          formatter={(value: number, name: string) => [formatCurrency(value), name === 'projected' ? 'Projected Cost' : 'Actual Cost']}
+                          formatter={(value: number, name: string) => [formatCurrency(value, currency), name === 'projected' ? 'Projected Cost' : 'Actual Cost']}
                         />
                         <Legend />
                         <Line 
@@ -520,7 +498,7 @@ export default function ExecutiveDashboard() {
                                 ))}
                               </Pie>
                               <Tooltip 
-                                formatter={(value: number) => formatCurrency(value)}
+                                formatter={(value: number) => formatCurrency(value, currency)}
                               />
                               <Legend />
                             </PieChart>
@@ -541,7 +519,7 @@ export default function ExecutiveDashboard() {
                               label={{ value: 'Cost ($)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
                             />
                             <Tooltip 
-                              formatter={(value: number, name: string) => [formatCurrency(value), name === 'projected' ? 'Projected Cost' : 'Actual Cost']}
+                              formatter={(value: number, name: string) => [formatCurrency(value, currency), name === 'projected' ? 'Projected Cost' : 'Actual Cost']}
                             />
                             <Legend />
                             <Line 
@@ -601,7 +579,7 @@ export default function ExecutiveDashboard() {
                                 ))}
                               </Pie>
                               <Tooltip 
-                                formatter={(value: number) => formatCurrency(value)}
+                                formatter={(value: number) => formatCurrency(value, currency)}
                               />
                               <Legend />
                             </PieChart>
@@ -645,19 +623,19 @@ export default function ExecutiveDashboard() {
                               {marketingChannelData.map((channel, index) => (
                                 <tr key={index} className={index % 2 === 0 ? 'bg-background' : 'bg-muted/30'}>
                                   <td className="px-4 py-2 font-medium">{channel.name}</td>
-                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.weeklyBudget)}</td>
-                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.value)}</td>
+                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.weeklyBudget, currency)}</td>
+                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.value, currency)}</td>
                                   <td className="px-4 py-2 text-right">{channel.expectedROI}%</td>
-                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.expectedReturn)}</td>
+                                  <td className="px-4 py-2 text-right">{formatCurrency(channel.expectedReturn, currency)}</td>
                                 </tr>
                               ))}
                               <tr className="bg-muted/50 font-medium">
                                 <td className="px-4 py-2">Total</td>
                                 <td className="px-4 py-2 text-right">
-                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.weeklyBudget, 0))}
+                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.weeklyBudget, 0), currency)}
                                 </td>
                                 <td className="px-4 py-2 text-right">
-                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.value, 0))}
+                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.value, 0), currency)}
                                 </td>
                                 <td className="px-4 py-2 text-right">
                                   {marketingChannelData.length > 0 
@@ -665,7 +643,7 @@ export default function ExecutiveDashboard() {
                                     : "0.00"}%
                                 </td>
                                 <td className="px-4 py-2 text-right">
-                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.expectedReturn, 0))}
+                                  {formatCurrency(marketingChannelData.reduce((sum, channel) => sum + channel.expectedReturn, 0), currency)}
                                 </td>
                               </tr>
                             </tbody>
@@ -699,7 +677,7 @@ export default function ExecutiveDashboard() {
                               </Pie>
                               <Tooltip 
                                 formatter={(value: number, name: string, props: any) => [
-                                  formatCurrency(value), 
+                                  formatCurrency(value, currency), 
                                   `${name} (${props.payload.isFullTime ? 'Full-time' : 'Per-event'})`
                                 ]}
                               />
@@ -717,7 +695,7 @@ export default function ExecutiveDashboard() {
                                 <XAxis type="number" />
                                 <YAxis dataKey="name" type="category" />
                                 <Tooltip
-                                  formatter={(value: number) => [formatCurrency(value), 'Annual Cost']}
+                                  formatter={(value: number) => [formatCurrency(value, currency), 'Annual Cost']}
                                 />
                                 <Legend />
                                 <Bar
@@ -738,6 +716,9 @@ export default function ExecutiveDashboard() {
           </CardContent>
         </Card>
 
+        {/* Variance against plan for the recorded weeks, by driver */}
+        <VarianceWaterfall product={currentProduct} />
+
         {/* Revenue & Profit Trend */}
         <Card>
           <CardHeader>
@@ -796,7 +777,7 @@ export default function ExecutiveDashboard() {
                   <Tooltip 
                     formatter={(value, name, props) => {
                       if (value === null) return ['-', name];
-                      const formattedValue = formatCurrency(value);
+                      const formattedValue = formatCurrency(value, currency);
                       let displayName = '';
                       
                       switch(name) {
@@ -915,11 +896,14 @@ export default function ExecutiveDashboard() {
   }
 
   // PORTFOLIO DASHBOARD
-  // Calculate portfolio-level metrics
+  // Calculate portfolio-level metrics, converted to the reporting currency at the rates in force on the report date
+  const ratesAsOfDate = new Date(ratesAsOf);
   const portfolioData = products.map(product => {
     const weeklyProjections = product.weeklyProjections || [];
-    const totalRevenue = weeklyProjections.reduce((sum, week) => sum + week.totalRevenue, 0);
-    const totalCosts = weeklyProjections.reduce((sum, week) => sum + week.totalCosts, 0);
+    const money = getReportingMoneyFormat(product.info, reportingCurrency, fxRates, ratesAsOfDate);
+    const rate = money?.rate ?? 1;
+    const totalRevenue = weeklyProjections.reduce((sum, week) => sum + week.totalRevenue, 0) * rate;
+    const totalCosts = weeklyProjections.reduce((sum, week) => sum + week.totalCosts, 0) * rate;
     const profit = totalRevenue - totalCosts;
     const profitMargin = totalRevenue > 0 ? profit / totalRevenue : 0;
     const breakEvenWeek = weeklyProjections.findIndex(w => w.cumulativeProfit > 0) + 1;
@@ -928,6 +912,9 @@ export default function ExecutiveDashboard() {
       id: product.info.id,
       name: product.info.name,
       type: product.info.type,
+      currency: getProductCurrency(product.info),
+      fxRate: rate,
+      isConverted: money !== null,
       revenue: totalRevenue,
       costs: totalCosts,
       profit: profit,
@@ -938,11 +925,22 @@ export default function ExecutiveDashboard() {
     };
   });
 
+  // Products without a rate to the reporting currency can't be added up with the rest
+  const financialData = portfolioData.filter(product => product.isConverted);
+  const unconvertedProducts = portfolioData.filter(product => !product.isConverted);
+
   // Total portfolio metrics
-  const totalPortfolioRevenue = portfolioData.reduce((sum, product) => sum + product.revenue, 0);
-  const totalPortfolioCosts = portfolioData.reduce((sum, product) => sum + product.costs, 0);
+  const totalPortfolioRevenue = financialData.reduce((sum, product) => sum + product.revenue, 0);
+  const totalPortfolioCosts = financialData.reduce((sum, product) => sum + product.costs, 0);
   const totalPortfolioProfit = totalPortfolioRevenue - totalPortfolioCosts;
   const portfolioProfitMargin = totalPortfolioRevenue > 0 ? totalPortfolioProfit / totalPortfolioRevenue : 0;
+
+  const handleExportPortfolio = () => {
+    exportPortfolioSummary(financialData, reportingCurrency, {
+      fileName: `Portfolio_Summary_${reportingCurrency}_${ratesAsOf}`,
+      includeTimestamp: false
+    });
+  };
   
   // Product type distribution
   const productTypeData = Object.entries(
@@ -958,7 +956,7 @@ export default function ExecutiveDashboard() {
   
   // Revenue by product type
   const revenueByType = Object.entries(
-    portfolioData.reduce((acc, product) => {
+    financialData.reduce((acc, product) => {
       acc[product.type] = (acc[product.type] || 0) + product.revenue;
       return acc;
     }, {} as Record<string, number>)
@@ -969,27 +967,55 @@ export default function ExecutiveDashboard() {
   }));
   
   // Best and worst performers
-  const sortedByProfit = [...portfolioData].sort((a, b) => b.profit - a.profit);
+  const sortedByProfit = [...financialData].sort((a, b) => b.profit - a.profit);
   const bestPerformers = sortedByProfit.slice(0, 3);
   const worstPerformers = [...sortedByProfit].reverse().slice(0, 3);
   
   // Comparison chart data
   const productComparisonData = [
-    { name: 'Revenue', ...Object.fromEntries(portfolioData.map(p => [p.name, p.revenue])) },
-    { name: 'Costs', ...Object.fromEntries(portfolioData.map(p => [p.name, p.costs])) },
-    { name: 'Profit', ...Object.fromEntries(portfolioData.map(p => [p.name, p.profit])) }
+    { name: 'Revenue', ...Object.fromEntries(financialData.map(p => [p.name, p.revenue])) },
+    { name: 'Costs', ...Object.fromEntries(financialData.map(p => [p.name, p.costs])) },
+    { name: 'Profit', ...Object.fromEntries(financialData.map(p => [p.name, p.profit])) }
   ];
   
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Portfolio Dashboard</h2>
-        {currentProduct && (
-          <Button variant="outline" onClick={() => setView('current')}>
-            View {currentProduct.info.name} Dashboard
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleExportPortfolio} disabled={financialData.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Summary
           </Button>
-        )}
+          {currentProduct && (
+            <Button variant="outline" onClick={() => setView('current')}>
+              View {currentProduct.info.name} Dashboard
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span>Amounts in {reportingCurrency}</span>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="rates-as-of">Rates as of</Label>
+          <Input
+            id="rates-as-of"
+            type="date"
+            className="w-auto"
+            value={ratesAsOf}
+            onChange={e => setRatesAsOf(e.target.value || toDateInputValue(new Date()))}
+          />
+        </div>
       </div>
+
+      {unconvertedProducts.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          No exchange rate to {reportingCurrency} on or before {formatDate(ratesAsOfDate)} for{' '}
+          {unconvertedProducts.map(product => `${product.name} (${product.currency})`).join(', ')}.
+          These products are left out of the financial totals below until a rate is added.
+        </div>
+      )}
       
       {/* Portfolio Key Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -1012,7 +1038,7 @@ export default function ExecutiveDashboard() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalPortfolioRevenue)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(totalPortfolioRevenue, reportingCurrency)}</div>
             <p className="text-xs text-muted-foreground">Combined 12-week forecast</p>
           </CardContent>
         </Card>
@@ -1027,7 +1053,7 @@ export default function ExecutiveDashboard() {
             )}
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalPortfolioProfit)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(totalPortfolioProfit, reportingCurrency)}</div>
             <p className="text-xs text-muted-foreground">
               Profit margin: {formatPercent(portfolioProfitMargin)}
             </p>
@@ -1096,13 +1122,13 @@ export default function ExecutiveDashboard() {
                     cx="50%"
                     cy="50%"
                     outerRadius={100}
-                    label={(entry) => `${entry.name}: ${formatCurrency(entry.value)}`}
+                    label={(entry) => `${entry.name}: ${formatCurrency(entry.value, reportingCurrency)}`}
                   >
                     {revenueByType.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value, reportingCurrency)} />
                   <Legend />
                 </PieChart>
               </ResponsiveContainer>
@@ -1131,9 +1157,9 @@ export default function ExecutiveDashboard() {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="name" />
                     <YAxis />
-                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value, reportingCurrency)} />
                     <Legend />
-                    {portfolioData.map((product, index) => (
+                    {financialData.map((product, index) => (
                       <Bar key={product.id} dataKey={product.name} fill={COLORS[Object.keys(COLORS)[index % Object.keys(COLORS).length] as keyof typeof COLORS]} />
                     ))}
                   </BarChart>
@@ -1154,7 +1180,7 @@ export default function ExecutiveDashboard() {
                             <p className="text-sm text-muted-foreground">{product.type}</p>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold text-lg">{formatCurrency(product.profit)}</p>
+                            <p className="font-semibold text-lg">{formatCurrency(product.profit, reportingCurrency)}</p>
                             <p className="text-sm text-muted-foreground">Profit Margin: {formatPercent(product.profitMargin)}</p>
                           </div>
                         </div>
@@ -1180,7 +1206,7 @@ export default function ExecutiveDashboard() {
                             <p className="text-sm text-muted-foreground">{product.type}</p>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold text-lg">{formatCurrency(product.profit)}</p>
+                            <p className="font-semibold text-lg">{formatCurrency(product.profit, reportingCurrency)}</p>
                             <p className="text-sm text-muted-foreground">
                               {product.profit < 0 
                                 ? `Loss Margin: ${formatPercent(Math.abs(product.profitMargin))}` 
@@ -1222,6 +1248,8 @@ export default function ExecutiveDashboard() {
           </div>
         </CardContent>
       </Card>
+
+      <CurrencySettings />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -16,12 +16,23 @@ import {
   Area,
   ReferenceLine
 } from 'recharts';
+import { X } from 'lucide-react';
 import useStore from '../store/useStore';
-import { formatCurrency, formatNumber, formatPercent } from '../lib/utils';
+import ActualsRecordsTable from './ActualsRecordsTable';
+import ForecastViewToggle from './ForecastViewToggle';
+import ForecastSnapshots from './ForecastSnapshots';
+import type { ForecastView } from './ForecastViewToggle';
+import { Button } from './ui/button';
+import { formatCurrency, formatDate, formatNumber, formatPercent } from '../lib/utils';
+import { getActualProfit, getActualsForWeek, getActualsRecords } from '../lib/actualsLedger';
+import { buildLatestEstimate, summarizeByMonth } from '../lib/reforecast';
 
 export default function FinancialProjections() {
   const { products, currentProductId } = useStore();
   const currentProduct = products.find(p => p.info.id === currentProductId);
+  // Week picked on the revenue chart to show the events and days behind its actuals
+  const [drillDownWeek, setDrillDownWeek] = useState<number | null>(null);
+  const [view, setView] = useState<ForecastView>('plan');
 
   if (!currentProduct) {
     return (
@@ -31,11 +42,16 @@ export default function FinancialProjections() {
     );
   }
 
-  const { weeklyProjections, actualMetrics = [], actuals = [] } = currentProduct;
+  const { actuals = [] } = currentProduct;
+  const plan = currentProduct.weeklyProjections;
+  const estimate = buildLatestEstimate(currentProduct);
+  // The latest estimate keeps the recorded weeks and re-projects the rest from them
+  const weeklyProjections = view === 'latest' ? estimate.weeks : plan;
+  const monthEnd = view === 'latest' ? summarizeByMonth(estimate.weeks, plan) : [];
 
   // Get actuals for better integration with projections
   const getActualForWeek = (weekNumber: number) => {
-    return actuals.find(a => a.week === weekNumber);
+    return getActualsForWeek(actuals, weekNumber);
   };
 
   // Calculate key financial metrics with actuals integration
@@ -45,8 +61,8 @@ export default function FinancialProjections() {
   weeklyProjections.forEach(week => {
     const actual = getActualForWeek(week.week);
     if (actual) {
-      totalRevenue += actual.revenue;
-      totalCosts += actual.expenses;
+      totalRevenue += actual.totalRevenue;
+      totalCosts += actual.totalCosts;
     } else {
       totalRevenue += week.totalRevenue;
       totalCosts += week.totalCosts;
@@ -65,7 +81,7 @@ export default function FinancialProjections() {
     const weekActual = getActualForWeek(i);
     
     if (weekActual) {
-      cumulativeProfit += (weekActual.revenue - weekActual.expenses);
+      cumulativeProfit += getActualProfit(weekActual);
     } else if (weekProjection) {
       cumulativeProfit += weekProjection.weeklyProfit;
     }
@@ -132,8 +148,9 @@ export default function FinancialProjections() {
     const actual = getActualForWeek(week.week);
     return {
       week: `Week ${week.week}`,
+      weekNumber: week.week,
       projected: actual ? null : week.totalRevenue, // Only show projected when we don't have actuals
-      actual: actual ? actual.revenue : null,
+      actual: actual ? actual.totalRevenue : null,
       hasActual: !!actual
     };
   });
@@ -143,9 +160,8 @@ export default function FinancialProjections() {
     const actual = getActualForWeek(week.week);
     
     if (actual) {
-      const actualRevenue = actual.revenue;
-      const actualExpenses = actual.expenses;
-      const actualProfit = actualRevenue - actualExpenses;
+      const actualRevenue = actual.totalRevenue;
+      const actualProfit = getActualProfit(actual);
       return {
         week: `Week ${week.week}`,
         projectedMargin: null,
@@ -192,8 +208,8 @@ export default function FinancialProjections() {
   weeklyProjections.forEach(week => {
     const actual = getActualForWeek(week.week);
     if (actual) {
-      actualRevenue += actual.revenue;
-      actualCosts += actual.expenses;
+      actualRevenue += actual.totalRevenue;
+      actualCosts += actual.totalCosts;
     } else {
       projectedRevenue += week.totalRevenue;
       projectedCosts += week.totalCosts;
@@ -211,8 +227,8 @@ export default function FinancialProjections() {
   );
 
   // Also calculate what the original projection would have been (without actuals)
-  const originalTotalRevenue = weeklyProjections.reduce((sum, week) => sum + week.totalRevenue, 0);
-  const originalTotalCosts = weeklyProjections.reduce((sum, week) => sum + week.totalCosts, 0);
+  const originalTotalRevenue = plan.reduce((sum, week) => sum + week.totalRevenue, 0);
+  const originalTotalCosts = plan.reduce((sum, week) => sum + week.totalCosts, 0);
   const originalTotalProfit = originalTotalRevenue - originalTotalCosts;
   
   // Calculate the impact of actuals on the overall projection
@@ -223,6 +239,10 @@ export default function FinancialProjections() {
   const totalFbCogs = weeklyProjections.reduce((sum, week) => sum + (week.fbCogs || 0), 0);
   const totalMerchandiseCogs = weeklyProjections.reduce((sum, week) => sum + (week.merchandiseCogs || 0), 0);
 
+  // Actuals captured per event or day can be drilled into from the revenue chart
+  const hasActualsRecords = actuals.some(actual => (actual.records?.length ?? 0) > 0);
+  const drillDownRecords = drillDownWeek !== null ? getActualsRecords(getActualForWeek(drillDownWeek)) : [];
+
   // Calculate total costs by category
   const totalMarketingCosts = weeklyProjections.reduce((sum, week) => sum + (week.marketingCosts || 0), 0);
   const totalStaffingCosts = weeklyProjections.reduce((sum, week) => sum + (week.staffingCosts || 0), 0);
@@ -231,6 +251,8 @@ export default function FinancialProjections() {
 
   return (
     <div className="space-y-6">
+      <ForecastViewToggle product={currentProduct} estimate={estimate} view={view} onViewChange={setView} />
+
       {/* Key Metrics */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -251,7 +273,7 @@ export default function FinancialProjections() {
               <div className="flex justify-between text-xs text-muted-foreground">
                 <div className="flex flex-col">
                   <span className="font-medium text-green-600">Actual: {formatCurrency(actualRevenue)}</span>
-                  <span className="font-medium text-blue-600">Projected: {formatCurrency(projectedRevenue)}</span>
+                  <span className="font-medium text-blue-600">{view === 'latest' ? 'Forecast' : 'Projected'}: {formatCurrency(projectedRevenue)}</span>
                 </div>
                 {weeksWithActuals > 0 && (
                   <div className="text-xs text-right">
@@ -296,7 +318,7 @@ export default function FinancialProjections() {
               <div className="flex justify-between text-xs text-muted-foreground">
                 <div className="flex flex-col">
                   <span className="font-medium text-green-600">Actual: {formatCurrency(actualProfit)}</span>
-                  <span className="font-medium text-blue-600">Projected: {formatCurrency(projectedProfit)}</span>
+                  <span className="font-medium text-blue-600">{view === 'latest' ? 'Forecast' : 'Projected'}: {formatCurrency(projectedProfit)}</span>
                 </div>
                 {weeksWithActuals > 0 && (
                   <div className="text-xs text-right">
@@ -344,6 +366,60 @@ export default function FinancialProjections() {
         </Card>
       </div>
 
+      {/* Month-end view: actual to date plus forecast for the rest of the month */}
+      {monthEnd.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Month-End View</CardTitle>
+            <CardDescription>Latest estimate by month: recorded weeks plus the forecast for the rest, against the plan</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">Actual Revenue</TableHead>
+                  <TableHead className="text-right">Forecast Revenue</TableHead>
+                  <TableHead className="text-right">Latest Estimate</TableHead>
+                  <TableHead className="text-right">Plan</TableHead>
+                  <TableHead className="text-right">vs Plan</TableHead>
+                  <TableHead className="text-right">Estimated Profit</TableHead>
+                  <TableHead className="text-right">Planned Profit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {monthEnd.map(month => {
+                  const latestRevenue = month.actualRevenue + month.forecastRevenue;
+                  const difference = latestRevenue - month.planRevenue;
+                  return (
+                    <TableRow key={month.month}>
+                      <TableCell>
+                        {formatDate(`${month.month}-01T00:00:00`, { year: 'numeric', month: 'long' })}
+                        <div className="text-xs text-gray-500">
+                          {month.actualWeeks} actual, {month.forecastWeeks} forecast {month.actualWeeks + month.forecastWeeks === 1 ? 'week' : 'weeks'}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">{formatCurrency(month.actualRevenue)}</TableCell>
+                      <TableCell className="text-right text-blue-600">{formatCurrency(month.forecastRevenue)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(latestRevenue)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.planRevenue)}</TableCell>
+                      <TableCell className={`text-right ${difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {difference >= 0 ? '+' : '−'}{formatCurrency(Math.abs(difference))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.actualProfit + month.forecastProfit)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.planProfit)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Saved snapshots, compared with actuals or the current model */}
+      <ForecastSnapshots product={currentProduct} />
+
       {/* Revenue Trend */}
       <Card>
         <CardHeader>
@@ -357,13 +433,18 @@ export default function FinancialProjections() {
             </div>
             <div className="flex items-center">
               <div className="w-3 h-3 border-2 border-blue-500 rounded-full mr-1"></div>
-              <span className="text-sm">Projected Revenue</span>
+              <span className="text-sm">{view === 'latest' ? 'Forecast Revenue' : 'Projected Revenue'}</span>
             </div>
             {lastActualWeekIndex >= 0 && (
               <div className="text-xs text-gray-500">
                 Actuals available for weeks 1-{lastActualWeekIndex + 1}
               </div>
             )}
+            {hasActualsRecords && (
+              <div className="text-xs text-gray-500">
+                Click an actual bar to see the events and days behind it
+              </div>
+            )}
           </div>
           <div className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
@@ -393,6 +474,10 @@ export default function FinancialProjections() {
                   name="Actual Revenue"
                   fill="#10B981"
                   connectNulls={true}
+                  cursor={hasActualsRecords ? 'pointer' : undefined}
+                  onClick={(data: { weekNumber?: number }) => {
+                    if (data?.weekNumber !== undefined) setDrillDownWeek(data.weekNumber);
+                  }}
                 />
                 {/* Add a reference line where actuals end */}
                 {lastActualWeekIndex >= 0 && (
@@ -411,6 +496,21 @@ export default function FinancialProjections() {
               </ComposedChart>
             </ResponsiveContainer>
           </div>
+          {drillDownWeek !== null && (
+            <div className="mt-4 border rounded-md p-3">
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-medium">Week {drillDownWeek} actuals</h4>
+                <Button variant="ghost" size="sm" onClick={() => setDrillDownWeek(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {drillDownRecords.length > 0 ? (
+                <ActualsRecordsTable records={drillDownRecords} />
+              ) : (
+                <p className="text-sm text-gray-500">This week was recorded as a whole rather than by event or day.</p>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
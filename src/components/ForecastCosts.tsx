@@ -8,6 +8,7 @@ import { Button } from './ui/button';
 import { PlusCircle, Trash2, DollarSign, Users, Award } from 'lucide-react';
 import useStore from '../store/useStore';
 import { generateWeeklyProjections } from '../lib/calculations';
+import { runProjection } from '../lib/projectionEngine';
 import { Spinner } from './ui/spinner';
 import { uniqueId, formatCurrency } from '../lib/utils';
 import type { 
@@ -186,7 +187,8 @@ export default function ForecastCosts() {
         currentProduct.info,
         currentProduct.growthMetrics,
         currentProduct.revenueMetrics,
-        costMetrics
+        costMetrics,
+        currentProduct
       );
       
       updateProduct(currentProduct.info.id, {
@@ -328,7 +330,8 @@ export default function ForecastCosts() {
           currentProduct.info,
           currentProduct.growthMetrics,
           currentProduct.revenueMetrics,
-          updatedCostMetrics
+          updatedCostMetrics,
+          currentProduct
         );
         
         updateProduct(currentProduct.info.id, {
@@ -508,50 +511,27 @@ export default function ForecastCosts() {
       : 0;
   };
 
-  // Add F&B calculation helper functions
-  const calculateAverageWeeklyFbRevenue = (product: any, metrics: any) => {
-    if (!product) return 0;
-    
-    const fbSpend = product?.revenueMetrics?.fbSpend || 0;
-    const fbConversionRate = product?.revenueMetrics?.fbConversionRate || 0;
-    const weeklyVisitors = product?.growthMetrics?.weeklyVisitors || 0;
-    const weeklyGrowthRate = (product?.growthMetrics?.weeklyGrowthRate || 0) / 100;
-    
-    let growthSum = 0;
-    for (let i = 0; i < 12; i++) {
-      growthSum += Math.pow(1 + weeklyGrowthRate, i);
+  // F&B figures for the first 12 weeks, taken from the projection engine
+  const fbSummary = useMemo(() => {
+    if (!currentProduct) {
+      return { totalRevenue: 0, totalCogs: 0, weeks: 0 };
     }
-    
-    return fbSpend * fbConversionRate * weeklyVisitors * (growthSum / 12);
-  };
-  
-  const calculateAverageWeeklyFbCogs = (product: any, metrics: any) => {
-    const revenue = calculateAverageWeeklyFbRevenue(product, metrics);
-    const cogsPercentage = (metrics.fbCogPercentage || 30) / 100;
-    return revenue * cogsPercentage;
-  };
-  
-  const calculate12WeekFbRevenue = (product: any, metrics: any) => {
-    if (!product) return 0;
-    
-    const fbSpend = product?.revenueMetrics?.fbSpend || 0;
-    const fbConversionRate = product?.revenueMetrics?.fbConversionRate || 0;
-    const weeklyVisitors = product?.growthMetrics?.weeklyVisitors || 0;
-    const weeklyGrowthRate = (product?.growthMetrics?.weeklyGrowthRate || 0) / 100;
-    
-    let growthSum = 0;
-    for (let i = 0; i < 12; i++) {
-      growthSum += Math.pow(1 + weeklyGrowthRate, i);
-    }
-    
-    return fbSpend * fbConversionRate * weeklyVisitors * growthSum;
-  };
-  
-  const calculate12WeekFbCogs = (product: any, metrics: any) => {
-    const revenue = calculate12WeekFbRevenue(product, metrics);
-    const cogsPercentage = (metrics.fbCogPercentage || 30) / 100;
-    return revenue * cogsPercentage;
-  };
+
+    const { projections } = runProjection({
+      productInfo: currentProduct.info,
+      growthMetrics: currentProduct.growthMetrics,
+      revenueMetrics: currentProduct.revenueMetrics,
+      costMetrics,
+      seasonality: currentProduct
+    });
+    const firstWeeks = projections.slice(0, 12);
+
+    return {
+      totalRevenue: firstWeeks.reduce((sum, week) => sum + week.fbRevenue, 0),
+      totalCogs: firstWeeks.reduce((sum, week) => sum + week.fbCogs, 0),
+      weeks: firstWeeks.length
+    };
+  }, [currentProduct, costMetrics]);
 
   // If loading, show spinner
   if (isLoading) {
@@ -1035,7 +1015,7 @@ export default function ForecastCosts() {
                       <span>Average Weekly F&B Revenue:</span>
                       <span className="font-medium">
                         {formatCurrency(
-                          calculateAverageWeeklyFbRevenue(currentProduct, costMetrics)
+                          fbSummary.weeks > 0 ? fbSummary.totalRevenue / fbSummary.weeks : 0
                         )}
                       </span>
                     </div>
@@ -1043,7 +1023,7 @@ export default function ForecastCosts() {
                       <span>Average Weekly F&B COGS:</span>
                       <span className="font-medium text-orange-700">
                         {formatCurrency(
-                          calculateAverageWeeklyFbCogs(currentProduct, costMetrics)
+                          fbSummary.weeks > 0 ? fbSummary.totalCogs / fbSummary.weeks : 0
                         )}
                       </span>
                     </div>
@@ -1052,7 +1032,7 @@ export default function ForecastCosts() {
                       <span>12-Week F&B Revenue:</span>
                       <span className="font-medium">
                         {formatCurrency(
-                          calculate12WeekFbRevenue(currentProduct, costMetrics)
+                          fbSummary.totalRevenue
                         )}
                       </span>
                     </div>
@@ -1060,7 +1040,7 @@ export default function ForecastCosts() {
                       <span>12-Week F&B COGS:</span>
                       <span className="font-medium text-orange-700">
                         {formatCurrency(
-                          calculate12WeekFbCogs(currentProduct, costMetrics)
+                          fbSummary.totalCogs
                         )}
                       </span>
                     </div>
@@ -1079,7 +1059,8 @@ export default function ForecastCosts() {
                         currentProduct.info,
                         currentProduct.growthMetrics,
                         currentProduct.revenueMetrics,
-                        currentProduct.costMetrics
+                        currentProduct.costMetrics,
+                        currentProduct
                       );
                       
                       // Update only the projections
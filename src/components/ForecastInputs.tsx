@@ -7,6 +7,7 @@ import useStore from '../store/useStore';
 import { generateWeeklyProjections } from '../lib/calculations';
 import IsolatedInput from './IsolatedInput';
 import IsolatedSelect from './IsolatedSelect';
+import { GROWTH_MODELS } from '../types';
 
 export default function ForecastInputs() {
   const { 
@@ -20,8 +21,11 @@ export default function ForecastInputs() {
     setCostMetrics,
     customerMetrics,
     setCustomerMetrics,
-    updateWeeklyProjections
+    updateWeeklyProjections,
+    products,
+    currentProductId
   } = useStore();
+  const currentProduct = products.find(p => p.info.id === currentProductId);
 
   // Update projections whenever metrics change
   useEffect(() => {
@@ -30,11 +34,12 @@ export default function ForecastInputs() {
         productInfo,
         growthMetrics,
         revenueMetrics,
-        costMetrics
+        costMetrics,
+        currentProduct
       );
       updateWeeklyProjections(projections);
     }
-  }, [productInfo, growthMetrics, revenueMetrics, costMetrics, updateWeeklyProjections]);
+  }, [productInfo, growthMetrics, revenueMetrics, costMetrics, currentProduct, updateWeeklyProjections]);
 
   // Handle product info changes
   const handleProductInfoChange = (field: keyof typeof productInfo, value: any) => {
@@ -197,11 +202,7 @@ export default function ForecastInputs() {
               <IsolatedSelect
                 id="growthModel"
                 label="Growth Model"
-                options={[
-                  { value: 'Linear', label: 'Linear' },
-                  { value: 'Exponential', label: 'Exponential' },
-                  { value: 'Decay', label: 'Decay' }
-                ]}
+                options={GROWTH_MODELS.map(model => ({ value: model, label: model }))}
                 value={growthMetrics.growthModel}
                 onChange={(e) => handleGrowthMetricsChange('growthModel', e.target.value)}
                 placeholder="Select growth model"
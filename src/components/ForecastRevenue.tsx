@@ -2,9 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import useStore from '../store/useStore';
 import { generateWeeklyProjections } from '../lib/calculations';
-import type { GrowthMetrics, RevenueMetrics } from '../types';
+import { GROWTH_MODELS } from '../types';
+import type { GrowthMetrics, GrowthModel, RevenueMetrics } from '../types';
 
 export default function ForecastRevenue() {
   const { products, currentProductId, updateProduct } = useStore();
@@ -57,7 +59,8 @@ export default function ForecastRevenue() {
       currentProduct.info,
       fullGrowthMetrics,
       fullRevenueMetrics,
-      currentProduct.costMetrics
+      currentProduct.costMetrics,
+      currentProduct
     );
 
     updateProduct(currentProduct.info.id, {
@@ -67,7 +70,7 @@ export default function ForecastRevenue() {
     });
   }, [currentProduct, updateProduct]);
 
-  const handleGrowthMetricChange = useCallback((field: keyof GrowthMetrics, value: number) => {
+  const handleGrowthMetricChange = useCallback(<K extends keyof GrowthMetrics>(field: K, value: GrowthMetrics[K]) => {
     const newMetrics = { ...growthMetrics, [field]: value };
     setGrowthMetrics(newMetrics);
     updateProjections(newMetrics, revenueMetrics);
@@ -86,6 +89,17 @@ export default function ForecastRevenue() {
     updateProjections(growthMetrics, newRevenueMetrics);
   };
 
+  // Custom curves are entered as comma-separated multipliers, e.g. "1, 0.8, 0.6"
+  const handleAttendanceCurveChange = (value: string) => {
+    const curve = value
+      .split(',')
+      .map(point => parseFloat(point.trim()))
+      .filter(point => !isNaN(point));
+    handleGrowthMetricChange('attendanceCurve', curve);
+  };
+
+  const growthModel = growthMetrics.growthModel || 'Exponential';
+
   if (!currentProduct) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -136,15 +150,113 @@ export default function ForecastRevenue() {
                   </div>
                 )}
                 <div className="space-y-2">
-                  <Label htmlFor="weeklyGrowthRate">Weekly Growth Rate (%)</Label>
+                  <Label htmlFor="growthModel">Growth Model</Label>
+                  <Select
+                    value={growthModel}
+                    onValueChange={(value) => handleGrowthMetricChange('growthModel', value as GrowthModel)}
+                  >
+                    <SelectTrigger id="growthModel">
+                      <SelectValue placeholder="Select growth model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GROWTH_MODELS.map(model => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {growthModel === 'Custom' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="attendanceCurve">Weekly Attendance Curve (multipliers of week 1)</Label>
+                    <Input
+                      id="attendanceCurve"
+                      defaultValue={(growthMetrics.attendanceCurve || []).join(', ')}
+                      placeholder="1, 0.85, 0.7, 0.6"
+                      onBlur={(e) => handleAttendanceCurveChange(e.target.value)}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="weeklyGrowthRate">
+                      {growthModel === 'Decay' ? 'Weekly Decay Rate (%)' : 'Weekly Growth Rate (%)'}
+                    </Label>
+                    <Input
+                      id="weeklyGrowthRate"
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={growthMetrics.weeklyGrowthRate || 0}
+                      onValueChange={(value) => 
+                        handleGrowthMetricChange('weeklyGrowthRate', Number(value))
+                      }
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="peakDayAttendance">Peak Day Attendance</Label>
+                  <Input
+                    id="peakDayAttendance"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={growthMetrics.peakDayAttendance || 0}
+                    onValueChange={(value) => 
+                      handleGrowthMetricChange('peakDayAttendance', Number(value))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lowDayAttendance">Low Day Attendance</Label>
+                  <Input
+                    id="lowDayAttendance"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={growthMetrics.lowDayAttendance || 0}
+                    onValueChange={(value) => 
+                      handleGrowthMetricChange('lowDayAttendance', Number(value))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="returnVisitRate">Return Visit Rate (%)</Label>
+                  <Input
+                    id="returnVisitRate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={(growthMetrics.returnVisitRate || 0) * 100}
+                    onValueChange={(value) => 
+                      handleGrowthMetricChange('returnVisitRate', Number(value) / 100)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="wordOfMouthRate">Word of Mouth Rate (%)</Label>
+                  <Input
+                    id="wordOfMouthRate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={(growthMetrics.wordOfMouthRate || 0) * 100}
+                    onValueChange={(value) => 
+                      handleGrowthMetricChange('wordOfMouthRate', Number(value) / 100)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="socialMediaConversion">Social Media Conversion (%)</Label>
                   <Input
-                    id="weeklyGrowthRate"
+                    id="socialMediaConversion"
                     type="number"
                     min={0}
+                    max={100}
                     step={0.1}
-                    value={growthMetrics.weeklyGrowthRate || 0}
+                    value={(growthMetrics.socialMediaConversion || 0) * 100}
                     onValueChange={(value) => 
-                      handleGrowthMetricChange('weeklyGrowthRate', Number(value))
+                      handleGrowthMetricChange('socialMediaConversion', Number(value) / 100)
                     }
                   />
                 </div>
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Save, Trash2, Download } from 'lucide-react';
+import useStore from '../store/useStore';
+import { useNotifications } from '../contexts/NotificationContext';
+import { formatDate, formatNumber } from '../lib/utils';
+import { createMoneyFormatter, getProductMoneyFormat } from '../lib/currency';
+import { exportSnapshotVariance } from '../lib/exportUtils';
+import {
+  FORECAST_SNAPSHOT_KIND_LABELS,
+  SNAPSHOT_COMPARISON_LABELS,
+  SNAPSHOT_COMPARISON_TARGETS,
+  compareSnapshot
+} from '../lib/forecastSnapshots';
+import type { SnapshotComparison, SnapshotComparisonTarget } from '../lib/forecastSnapshots';
+import type { Product } from '../types';
+
+interface ForecastSnapshotsProps {
+  product: Product;
+}
+
+const ForecastSnapshots = ({ product }: ForecastSnapshotsProps) => {
+  const { saveForecastSnapshot, deleteForecastSnapshot } = useStore();
+  const { addNotification } = useNotifications();
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [target, setTarget] = useState<SnapshotComparisonTarget>('actuals');
+
+  const snapshots = product.forecastSnapshots || [];
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) || snapshots[snapshots.length - 1];
+  const comparison: SnapshotComparison | null = selected ? compareSnapshot(selected, product, target) : null;
+  const comparisonLabel = comparison ? SNAPSHOT_COMPARISON_LABELS[comparison.target] : '';
+  const money = getProductMoneyFormat(product.info);
+  const formatMoney = createMoneyFormatter(money);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    saveForecastSnapshot(product.info.id, name);
+    addNotification({ type: 'success', message: `Saved forecast snapshot "${name.trim()}"` });
+    setName('');
+  };
+
+  const handleDelete = (snapshotId: string, snapshotName: string) => {
+    if (!window.confirm(`Delete the forecast snapshot "${snapshotName}"? This can't be undone.`)) return;
+    deleteForecastSnapshot(product.info.id, snapshotId);
+    if (snapshotId === selectedId) setSelectedId('');
+  };
+
+  const handleExport = () => {
+    if (!comparison) return;
+    exportSnapshotVariance(comparison, {
+      fileName: `${product.info.name}_${comparison.snapshot.name}_vs_${comparisonLabel}`.replace(/[^\w-]+/g, '_'),
+      includeTimestamp: true,
+      money
+    });
+  };
+
+  const renderVariance = (value: number, baseline: number, isCost = false) => {
+    const difference = value - baseline;
+    const good = isCost ? difference <= 0 : difference >= 0;
+    return (
+      <span className={good ? 'text-green-600' : 'text-red-600'}>
+        {difference >= 0 ? '+' : '−'}{formatMoney(Math.abs(difference))}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Forecast Snapshots</CardTitle>
+        <CardDescription>
+          Save the forecast under a name to keep it as it stands, then compare it with the actuals or the current model
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1 flex-1 max-w-sm">
+            <Label htmlFor="snapshot-name">Snapshot name</Label>
+            <Input
+              id="snapshot-name"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              placeholder="e.g. Board-approved Q3"
+            />
+          </div>
+          <Button variant="outline" onClick={handleSave} disabled={!name.trim()}>
+            <Save className="h-4 w-4 mr-1" /> Save Snapshot
+          </Button>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-gray-500">No snapshots saved yet.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {snapshots.map(snapshot => (
+                <div
+                  key={snapshot.id}
+                  className={`flex items-center gap-2 border rounded-md px-2 py-1 text-sm cursor-pointer ${
+                    snapshot.id === selected?.id ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedId(snapshot.id)}
+                >
+                  <span className="font-medium">{snapshot.name}</span>
+                  <Badge variant={snapshot.kind === 'plan' ? 'secondary' : 'info'}>
+                    {FORECAST_SNAPSHOT_KIND_LABELS[snapshot.kind]}
+                  </Badge>
+                  <span className="text-xs text-gray-500">{formatDate(snapshot.createdAt)}</span>
+                  <button
+                    className="text-red-500 hover:text-red-700"
+                    title="Delete snapshot"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(snapshot.id, snapshot.name);
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {comparison && (
+              <div className="space-y-3">
+                <div className="flex items-end justify-between gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="snapshot-target">Compare "{comparison.snapshot.name}" with</Label>
+                    <select
+                      id="snapshot-target"
+                      className="w-48 p-2 border rounded text-sm"
+                      value={target}
+                      onChange={(e) => setTarget(e.target.value as SnapshotComparisonTarget)}
+                    >
+                      {SNAPSHOT_COMPARISON_TARGETS.map(option => (
+                        <option key={option} value={option}>{SNAPSHOT_COMPARISON_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleExport} disabled={comparison.totals.weeks === 0}>
+                    <Download className="h-4 w-4 mr-1" /> Export Variance
+                  </Button>
+                </div>
+
+                {comparison.totals.weeks === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    {target === 'actuals' ? 'No actuals recorded for the weeks in this snapshot yet.' : 'The current model has no weeks to compare.'}
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Week</TableHead>
+                          <TableHead className="text-right">Snapshot Revenue</TableHead>
+                          <TableHead className="text-right">{comparisonLabel} Revenue</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead className="text-right">Snapshot Costs</TableHead>
+                          <TableHead className="text-right">{comparisonLabel} Costs</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead className="text-right">Snapshot Profit</TableHead>
+                          <TableHead className="text-right">{comparisonLabel} Profit</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.weeks.filter(week => week.comparison).map(({ week, snapshot, comparison: compared }) => compared && (
+                          <TableRow key={week}>
+                            <TableCell>Week {week}</TableCell>
+                            <TableCell className="text-right">{formatMoney(snapshot.totalRevenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(compared.totalRevenue)}</TableCell>
+                            <TableCell className="text-right">{renderVariance(compared.totalRevenue, snapshot.totalRevenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(snapshot.totalCosts)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(compared.totalCosts)}</TableCell>
+                            <TableCell className="text-right">{renderVariance(compared.totalCosts, snapshot.totalCosts, true)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(snapshot.profit)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(compared.profit)}</TableCell>
+                            <TableCell className="text-right">{renderVariance(compared.profit, snapshot.profit)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="bg-gray-50 font-medium">
+                          <TableCell>
+                            Total
+                            <div className="text-xs text-gray-500 font-normal">{comparison.totals.weeks} weeks</div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.snapshot.totalRevenue)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.comparison.totalRevenue)}</TableCell>
+                          <TableCell className="text-right">
+                            {renderVariance(comparison.totals.comparison.totalRevenue, comparison.totals.snapshot.totalRevenue)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.snapshot.totalCosts)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.comparison.totalCosts)}</TableCell>
+                          <TableCell className="text-right">
+                            {renderVariance(comparison.totals.comparison.totalCosts, comparison.totals.snapshot.totalCosts, true)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.snapshot.profit)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(comparison.totals.comparison.profit)}</TableCell>
+                          <TableCell className="text-right">
+                            {renderVariance(comparison.totals.comparison.profit, comparison.totals.snapshot.profit)}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {target === 'current' && (
+                  comparison.drivers.length === 0 ? (
+                    <p className="text-sm text-gray-500">No model inputs have changed since this snapshot.</p>
+                  ) : (
+                    <div>
+                      <h4 className="text-sm font-medium mb-1">Inputs changed since the snapshot</h4>
+                      <ul className="text-sm space-y-0.5">
+                        {comparison.drivers.map(driver => (
+                          <li key={driver.key} className="flex justify-between max-w-md">
+                            <span>{driver.label}</span>
+                            <span>
+                              {formatNumber(driver.leftValue)} → <span className="font-medium">{formatNumber(driver.rightValue)}</span>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ForecastSnapshots;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Save } from 'lucide-react';
+import useStore from '../store/useStore';
+import { useNotifications } from '../contexts/NotificationContext';
+import { formatDate, formatPercent } from '../lib/utils';
+import type { LatestEstimate } from '../lib/reforecast';
+import type { Product, ReforecastCalibration } from '../types';
+
+// The original plan, or actuals to date with the rest re-projected from them
+export type ForecastView = 'plan' | 'latest';
+
+interface ForecastViewToggleProps {
+  product: Product;
+  estimate: LatestEstimate;
+  view: ForecastView;
+  onViewChange: (view: ForecastView) => void;
+}
+
+const DRIVER_LABELS: Record<keyof ReforecastCalibration['revenueFactors'], string> = {
+  ticketRevenue: 'Ticket sales rate',
+  fbRevenue: 'F&B spend per head',
+  merchandiseRevenue: 'Merchandise spend per head',
+  digitalRevenue: 'Digital conversion'
+};
+
+const COST_LABELS: Record<keyof ReforecastCalibration['costFactors'], string> = {
+  staffingCosts: 'Staffing costs',
+  eventCosts: 'Event costs'
+};
+
+const ForecastViewToggle = ({ product, estimate, view, onViewChange }: ForecastViewToggleProps) => {
+  const { saveReforecast } = useStore();
+  const { addNotification } = useNotifications();
+  const [name, setName] = useState('');
+
+  const { calibration, actualsThroughWeek } = estimate;
+  const lastReforecast = [...(product.forecastSnapshots || [])].reverse().find(snapshot => snapshot.kind === 'reforecast');
+
+  const handleSave = () => {
+    saveReforecast(product.info.id, name);
+    addNotification({
+      type: 'success',
+      message: `Saved ${name.trim() ? `"${name.trim()}"` : 'the reforecast'} for ${product.info.name}`
+    });
+    setName('');
+  };
+
+  const factors = [
+    { label: 'Attendance', factor: calibration.attendanceFactor, isCost: false },
+    ...Object.entries(calibration.revenueFactors).map(([line, factor]) => ({
+      label: DRIVER_LABELS[line as keyof typeof DRIVER_LABELS],
+      factor,
+      isCost: false
+    })),
+    ...Object.entries(calibration.costFactors).map(([line, factor]) => ({
+      label: COST_LABELS[line as keyof typeof COST_LABELS],
+      factor,
+      isCost: true
+    }))
+  ];
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          <Button size="sm" variant={view === 'plan' ? 'default' : 'outline'} onClick={() => onViewChange('plan')}>
+            Plan
+          </Button>
+          <Button size="sm" variant={view === 'latest' ? 'default' : 'outline'} onClick={() => onViewChange('latest')}>
+            Latest Estimate
+          </Button>
+        </div>
+        {view === 'latest' && actualsThroughWeek > 0 && (
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-56 h-8 text-sm"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              placeholder={`Reforecast after week ${actualsThroughWeek}`}
+            />
+            <Button size="sm" variant="outline" onClick={handleSave}>
+              <Save className="h-4 w-4 mr-1" /> Save Reforecast
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {view === 'latest' && (
+        actualsThroughWeek === 0 ? (
+          <p className="text-sm text-gray-500">
+            No actuals recorded yet, so the latest estimate is the plan.
+          </p>
+        ) : (
+          <div className="text-xs text-gray-600 bg-blue-50 border border-blue-100 rounded-md p-2">
+            <p className="mb-1">
+              Recorded weeks (through week {actualsThroughWeek}) show actuals; the others are re-projected with drivers
+              recalibrated from those {calibration.weeksUsed.length} {calibration.weeksUsed.length === 1 ? 'week' : 'weeks'}:
+            </p>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {factors.map(({ label, factor, isCost }) => (
+                <span key={label}>
+                  {label}{' '}
+                  <span className={`font-medium ${factor === 1 ? '' : (factor > 1) !== isCost ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatPercent(factor)}
+                  </span>{' '}
+                  of plan
+                </span>
+              ))}
+            </div>
+            {lastReforecast && (
+              <p className="mt-1 text-gray-500">
+                Last saved: {lastReforecast.name} on {formatDate(lastReforecast.createdAt)}
+              </p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ForecastViewToggle;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Save, Target } from 'lucide-react';
+import useStore from '../store/useStore';
+import { formatCurrency, formatBreakEvenWeek } from '../lib/utils';
+import { MODEL_INPUTS, findModelInput, toModelInputs } from '../lib/modelInputs';
+import { GOAL_SEEK_TARGETS, GOAL_SEEK_TARGET_LABELS, goalSeek } from '../lib/goalSeek';
+import type { GoalSeekGoal, GoalSeekResult, GoalSeekTarget } from '../lib/goalSeek';
+import { runProjection, getBreakEvenWeek } from '../lib/projectionEngine';
+
+const formatInputValue = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+function describeGoal(goal: GoalSeekGoal): string {
+  switch (goal.target) {
+    case 'margin':
+      return `a ${goal.value}% profit margin`;
+    case 'breakEvenWeek':
+      return `break-even by week ${goal.week}`;
+    case 'cumulativeProfitByWeek':
+      return `${formatCurrency(goal.value)} cumulative profit by week ${goal.week}`;
+    case 'profit':
+    default:
+      return `${formatCurrency(goal.value)} total profit`;
+  }
+}
+
+export default function GoalSeek() {
+  const { products, currentProductId, addScenario } = useStore();
+  const currentProduct = products.find(p => p.info.id === currentProductId);
+
+  const [goal, setGoal] = useState<GoalSeekGoal>({ target: 'breakEvenWeek', value: 0, week: 8 });
+  const [inputKey, setInputKey] = useState('ticketPrice');
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+  const [solvedGoal, setSolvedGoal] = useState<GoalSeekGoal | null>(null);
+  const [scenarioName, setScenarioName] = useState('');
+
+  if (!currentProduct) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No product selected or product not found.
+      </div>
+    );
+  }
+
+  const modelInputs = toModelInputs(
+    currentProduct.info,
+    currentProduct.growthMetrics,
+    currentProduct.revenueMetrics,
+    currentProduct.costMetrics,
+    currentProduct
+  );
+  const forecastWeeks = currentProduct.info.forecastPeriod || 12;
+  const needsWeek = goal.target === 'breakEvenWeek' || goal.target === 'cumulativeProfitByWeek';
+
+  const baseProjections = runProjection(modelInputs).projections;
+  const baseRevenue = baseProjections.reduce((sum, week) => sum + week.totalRevenue, 0);
+  const baseCosts = baseProjections.reduce((sum, week) => sum + week.totalCosts, 0);
+
+  const handleSolve = () => {
+    const input = findModelInput(inputKey);
+    if (!input) return;
+
+    const solved = goalSeek(modelInputs, input, goal);
+    setResult(solved);
+    setSolvedGoal(goal);
+    setScenarioName(`${input.label} for ${describeGoal(goal)}`);
+  };
+
+  const handleSaveScenario = () => {
+    if (!result || !solvedGoal || result.status !== 'solved') return;
+
+    const goalDescription = describeGoal(solvedGoal);
+    addScenario(currentProduct.info.id, {
+      name: scenarioName || `${result.inputLabel} for ${goalDescription}`,
+      description: `Goal seek: ${result.inputLabel} of ${formatInputValue(result.value)} reaches ${goalDescription}.`,
+      productId: currentProduct.info.id,
+      projectedRevenue: result.totalRevenue,
+      projectedCosts: result.totalCosts,
+      projectedProfit: result.totalProfit,
+      originalRevenue: baseRevenue,
+      originalCosts: baseCosts,
+      originalProfit: baseRevenue - baseCosts,
+      overrides: [{ driver: result.inputKey, mode: 'absolute', value: result.value }]
+    });
+    setResult(null);
+    setSolvedGoal(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Goal Seek</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 text-sm text-muted-foreground">
+            Pick a target and the input to change. Every other input stays at its current value.
+          </div>
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">Target</Label>
+              <Select
+                value={goal.target}
+                onValueChange={(value) => setGoal(prev => ({ ...prev, target: value as GoalSeekTarget }))}
+              >
+                <SelectTrigger id="goal-target">
+                  <SelectValue placeholder="Select target" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOAL_SEEK_TARGETS.map(target => (
+                    <SelectItem key={target} value={target}>{GOAL_SEEK_TARGET_LABELS[target]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {goal.target !== 'breakEvenWeek' && (
+              <div className="space-y-2">
+                <Label htmlFor="goal-value">{goal.target === 'margin' ? 'Margin (%)' : 'Profit ($)'}</Label>
+                <Input
+                  id="goal-value"
+                  type="number"
+                  step={goal.target === 'margin' ? 1 : 100}
+                  value={goal.value}
+                  onChange={e => setGoal(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+            )}
+            {needsWeek && (
+              <div className="space-y-2">
+                <Label htmlFor="goal-week">Week</Label>
+                <Input
+                  id="goal-week"
+                  type="number"
+                  min={1}
+                  max={forecastWeeks}
+                  step={1}
+                  value={goal.week || 1}
+                  onChange={e => setGoal(prev => ({
+                    ...prev,
+                    week: Math.min(Math.max(1, parseInt(e.target.value) || 1), forecastWeeks)
+                  }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="goal-input">Solve For</Label>
+              <Select value={inputKey} onValueChange={setInputKey}>
+                <SelectTrigger id="goal-input">
+                  <SelectValue placeholder="Select input" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODEL_INPUTS.map(input => (
+                    <SelectItem key={input.key} value={input.key}>{input.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSolve}>
+              <Target className="h-4 w-4 mr-2" />
+              Solve
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && solvedGoal && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Result</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {result.status === 'solved' ? (
+              <p className="mb-4">
+                Set <span className="font-medium">{result.inputLabel}</span> to{' '}
+                <span className="font-bold">{formatInputValue(result.value)}</span>{' '}
+                (currently {formatInputValue(result.baseValue)}) to reach {describeGoal(solvedGoal)}.
+              </p>
+            ) : result.status === 'alwaysMet' ? (
+              <p className="mb-4 text-green-600">
+                The goal ({describeGoal(solvedGoal)}) is met whatever the value of {result.inputLabel}.
+              </p>
+            ) : (
+              <p className="mb-4 text-red-500">
+                {result.inputLabel} alone can't reach {describeGoal(solvedGoal)}. Try another input or a less ambitious target.
+              </p>
+            )}
+
+            {result.status === 'solved' && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>With Solved Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell className="font-medium">{result.inputLabel}</TableCell>
+                      <TableCell>{formatInputValue(result.baseValue)}</TableCell>
+                      <TableCell>{formatInputValue(result.value)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="font-medium">Total Revenue</TableCell>
+                      <TableCell>{formatCurrency(baseRevenue)}</TableCell>
+                      <TableCell>{formatCurrency(result.totalRevenue)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="font-medium">Total Costs</TableCell>
+                      <TableCell>{formatCurrency(baseCosts)}</TableCell>
+                      <TableCell>{formatCurrency(result.totalCosts)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="font-medium">Total Profit</TableCell>
+                      <TableCell>{formatCurrency(baseRevenue - baseCosts)}</TableCell>
+                      <TableCell>{formatCurrency(result.totalProfit)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="font-medium">Break-even</TableCell>
+                      <TableCell>{formatBreakEvenWeek(getBreakEvenWeek(baseProjections))}</TableCell>
+                      <TableCell>{formatBreakEvenWeek(result.breakEvenWeek)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-end gap-2 mt-4">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="goal-scenario-name">Scenario Name</Label>
+                    <Input
+                      id="goal-scenario-name"
+                      value={scenarioName}
+                      onChange={e => setScenarioName(e.target.value)}
+                    />
+                  </div>
+                  <Button onClick={handleSaveScenario}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save as Scenario
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Input } from './ui/input';
@@ -17,22 +17,16 @@ import {
 } from 'recharts';
 import useStore from '../store/useStore';
 import { formatCurrency, formatPercent, formatNumber } from '../lib/utils';
-
-interface MarketMetrics {
-  totalAddressableMarket: number;
-  servicableAddressableMarket: number;
-  servicableObtainableMarket: number;
-  yearlyGrowthRate: number;
-  costScalingRate: number;
-}
-
-const DEFAULT_MARKET_METRICS: MarketMetrics = {
-  totalAddressableMarket: 100000000,
-  servicableAddressableMarket: 50000000,
-  servicableObtainableMarket: 25000000,
-  yearlyGrowthRate: 25,
-  costScalingRate: 20
-};
+import {
+  generateLongTermForecast,
+  getForecastYears,
+  summarizeByQuarter,
+  summarizeByYear,
+  MIN_FORECAST_YEARS,
+  MAX_FORECAST_YEARS
+} from '../lib/longTermForecast';
+import { DEFAULT_MARKET_METRICS } from '../types';
+import type { MarketMetrics } from '../types';
 
 export default function LongTermProjections() {
   const { products, currentProductId, updateProduct } = useStore();
@@ -42,10 +36,15 @@ export default function LongTermProjections() {
   // Load saved market metrics from product if they exist
   useEffect(() => {
     if (currentProduct?.marketMetrics) {
-      setMarketMetrics(currentProduct.marketMetrics);
+      setMarketMetrics({ ...DEFAULT_MARKET_METRICS, ...currentProduct.marketMetrics });
     }
   }, [currentProduct?.info.id]);
 
+  const longTermProjections = useMemo(() => {
+    if (!currentProduct) return [];
+    return generateLongTermForecast({ ...currentProduct, marketMetrics });
+  }, [currentProduct, marketMetrics]);
+
   if (!currentProduct) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -54,59 +53,23 @@ export default function LongTermProjections() {
     );
   }
 
-  const { weeklyProjections } = currentProduct;
-
-  // Calculate quarterly projections based on weekly data
-  const quarterlyProjections = Array.from({ length: 4 }, (_, quarterIndex) => {
-    const startWeek = quarterIndex * 13;
-    const weeksInQuarter = weeklyProjections.slice(startWeek, startWeek + 13);
-
-    const baseRevenue = weeksInQuarter.reduce((sum, week) => sum + week.totalRevenue, 0);
-    const baseCosts = weeksInQuarter.reduce((sum, week) => sum + week.totalCosts, 0);
-    
-    // Apply growth assumptions for future quarters
-    const quarterGrowthRate = 1 + (0.15 * (quarterIndex + 1)); // 15% quarter-over-quarter growth
-    const costScalingRate = 1 + (0.10 * (quarterIndex + 1)); // 10% cost scaling
-
-    return {
-      quarter: `Q${quarterIndex + 1}`,
-      revenue: baseRevenue * quarterGrowthRate,
-      costs: baseCosts * costScalingRate,
-      profit: (baseRevenue * quarterGrowthRate) - (baseCosts * costScalingRate)
-    };
-  });
-
-  // Calculate annual projections
-  const annualProjections = Array.from({ length: 3 }, (_, yearIndex) => {
-    const baseQuarterRevenue = quarterlyProjections[0].revenue;
-    const baseQuarterCosts = quarterlyProjections[0].costs;
-    
-    // Apply annual growth assumptions
-    const yearlyGrowthRate = 1 + (marketMetrics.yearlyGrowthRate / 100) * (yearIndex + 1);
-    const yearCostScaling = 1 + (marketMetrics.costScalingRate / 100) * (yearIndex + 1);
-
-    const yearlyRevenue = baseQuarterRevenue * 4 * yearlyGrowthRate;
-    const yearlyCosts = baseQuarterCosts * 4 * yearCostScaling;
-
-    return {
-      year: `Year ${yearIndex + 1}`,
-      revenue: yearlyRevenue,
-      costs: yearlyCosts,
-      profit: yearlyRevenue - yearlyCosts,
-      margin: (yearlyRevenue - yearlyCosts) / yearlyRevenue
-    };
-  });
+  const forecastYears = getForecastYears(marketMetrics);
+  const quarterlyProjections = summarizeByQuarter(longTermProjections);
+  const annualProjections = summarizeByYear(longTermProjections);
+  const cappedMonths = longTermProjections.filter(month => month.isCapped).length;
 
   // Calculate market penetration
-  const currentMarketShare = annualProjections[0].revenue / marketMetrics.servicableObtainableMarket;
+  const currentMarketShare = marketMetrics.servicableObtainableMarket > 0 && annualProjections.length > 0
+    ? annualProjections[0].revenue / marketMetrics.servicableObtainableMarket
+    : 0;
 
   // Prepare growth metrics
   const growthMetrics = annualProjections.map((year, index) => ({
-    period: year.year,
-    yoyGrowth: index > 0 
+    period: year.label,
+    yoyGrowth: index > 0 && annualProjections[index - 1].revenue > 0
       ? ((year.revenue - annualProjections[index - 1].revenue) / annualProjections[index - 1].revenue) 
       : 0,
-    marketPenetration: year.revenue / marketMetrics.servicableObtainableMarket
+    marketPenetration: year.marketShare
   }));
 
   // Handle market metrics changes
@@ -114,12 +77,9 @@ export default function LongTermProjections() {
     const newMetrics = { ...marketMetrics, [field]: value };
     setMarketMetrics(newMetrics);
     
-    // Save to product
+    // Save to product; the store rebuilds the saved long-term series from them
     if (currentProduct) {
-      updateProduct(currentProduct.info.id, {
-        ...currentProduct,
-        marketMetrics: newMetrics
-      });
+      updateProduct(currentProduct.info.id, { marketMetrics: newMetrics });
     }
   };
 
@@ -191,6 +151,20 @@ export default function LongTermProjections() {
                   Expected year-over-year revenue growth
                 </p>
               </div>
+              <div>
+                <Label htmlFor="marketGrowth">Market Growth Rate (%)</Label>
+                <Input
+                  id="marketGrowth"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={marketMetrics.marketGrowthRate || 0}
+                  onValueChange={(value) => handleMarketMetricChange('marketGrowthRate', Number(value))}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Yearly growth of the serviceable markets, which cap revenue
+                </p>
+              </div>
               <div>
                 <Label htmlFor="costScaling">Cost Scaling Rate (%)</Label>
                 <Input
@@ -205,6 +179,35 @@ export default function LongTermProjections() {
                   Expected year-over-year cost increase
                 </p>
               </div>
+              <div>
+                <Label htmlFor="inflation">Cost Inflation (%)</Label>
+                <Input
+                  id="inflation"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={marketMetrics.inflationRate || 0}
+                  onValueChange={(value) => handleMarketMetricChange('inflationRate', Number(value))}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Yearly inflation applied to all costs
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="forecastYears">Forecast Horizon (years)</Label>
+                <Input
+                  id="forecastYears"
+                  type="number"
+                  min={MIN_FORECAST_YEARS}
+                  max={MAX_FORECAST_YEARS}
+                  step={1}
+                  value={forecastYears}
+                  onValueChange={(value) => handleMarketMetricChange('forecastYears', Number(value))}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Between {MIN_FORECAST_YEARS} and {MAX_FORECAST_YEARS} years of monthly projections
+                </p>
+              </div>
             </div>
           </div>
         </CardContent>
@@ -234,6 +237,11 @@ export default function LongTermProjections() {
               <p className="text-2xl font-bold">{formatPercent(currentMarketShare)}</p>
             </div>
           </div>
+          {cappedMonths > 0 && (
+            <p className="text-sm text-amber-600 mt-4">
+              Revenue is capped by the obtainable market in {formatNumber(cappedMonths)} of {formatNumber(longTermProjections.length)} months.
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -247,7 +255,7 @@ export default function LongTermProjections() {
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={quarterlyProjections}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="quarter" />
+                <XAxis dataKey="label" />
                 <YAxis />
                 <Tooltip 
                   formatter={(value: number, name: string) => [formatCurrency(value), name]}
@@ -272,13 +280,13 @@ export default function LongTermProjections() {
               </TableHeader>
               <TableBody>
                 {quarterlyProjections.map((quarter) => (
-                  <TableRow key={quarter.quarter}>
-                    <TableCell>{quarter.quarter}</TableCell>
+                  <TableRow key={quarter.label}>
+                    <TableCell>{quarter.label}</TableCell>
                     <TableCell className="text-right">{formatCurrency(quarter.revenue)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(quarter.costs)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(quarter.profit)}</TableCell>
                     <TableCell className="text-right">
-                      {formatPercent(quarter.profit / quarter.revenue)}
+                      {formatPercent(quarter.margin)}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -291,14 +299,14 @@ export default function LongTermProjections() {
       {/* Annual Projections */}
       <Card>
         <CardHeader>
-          <CardTitle>3-Year Projections</CardTitle>
+          <CardTitle>{forecastYears}-Year Projections</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={annualProjections}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" />
+                <XAxis dataKey="label" />
                 <YAxis />
                 <Tooltip 
                   formatter={(value: number, name: string) => [formatCurrency(value), name]}
@@ -323,8 +331,8 @@ export default function LongTermProjections() {
               </TableHeader>
               <TableBody>
                 {annualProjections.map((year) => (
-                  <TableRow key={year.year}>
-                    <TableCell>{year.year}</TableCell>
+                  <TableRow key={year.label}>
+                    <TableCell>{year.label}</TableCell>
                     <TableCell className="text-right">{formatCurrency(year.revenue)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(year.costs)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(year.profit)}</TableCell>
@@ -20,7 +20,20 @@ import {
 } from 'lucide-react';
 import useStore from '../store/useStore';
 import { formatCurrency, formatPercent, formatNumber } from '../lib/utils';
-import type { MarketingChannelItem, WeeklyProjection, ActualMetrics } from '../types';
+import { getActualsForWeek, sortActuals } from '../lib/actualsLedger';
+import { generateWeeklyProjections } from '../lib/calculations';
+import {
+  MARKETING_MIX_OBJECTIVES,
+  MARKETING_MIX_OBJECTIVE_LABELS,
+  applyMarketingMix,
+  fitResponseCurve,
+  getChannelObservations,
+  getCurveResponse,
+  optimizeMarketingMix
+} from '../lib/marketingMix';
+import type { MarketingMixChannel, MarketingMixObjective, MarketingMixResult } from '../lib/marketingMix';
+import { useNotifications } from '../contexts/NotificationContext';
+import type { MarketingChannelItem, WeeklyProjection, ActualsEntry } from '../types';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
 
@@ -120,11 +133,16 @@ interface BudgetAllocationData {
 }
 
 export default function MarketingAnalytics() {
-  const { products, currentProductId } = useStore();
+  const { products, currentProductId, updateProduct } = useStore();
+  const { addNotification } = useNotifications();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [selectedTimeframe, setSelectedTimeframe] = useState<'all' | 'last4weeks' | 'last3months'>('all');
   const [selectedChannels, setSelectedChannels] = useState<string[]>([]);
   const [channelComparisonMetric, setChannelComparisonMetric] = useState<'ratio' | 'spend' | 'revenue' | 'ctr' | 'conversion'>('ratio');
+  const [mixObjective, setMixObjective] = useState<MarketingMixObjective>('revenue');
+  // Weekly budget to allocate; null follows the channels' current total
+  const [mixBudget, setMixBudget] = useState<number | null>(null);
+  const [mixLimits, setMixLimits] = useState<Record<string, { min?: number; max?: number }>>({});
 
   // Get current product
   const currentProduct = useMemo(() => 
@@ -132,21 +150,15 @@ export default function MarketingAnalytics() {
     [products, currentProductId]
   );
 
-  if (!currentProduct) {
-    return (
-      <div className="text-center py-8 text-gray-500">
-        No product selected or product not found.
-      </div>
-    );
-  }
-
-  // Extract marketing channels and actuals from the current product
-  const { costMetrics, actualMetrics = [], weeklyProjections = [] } = currentProduct;
-  const marketingChannels = costMetrics?.marketing?.channels || [];
+  // Marketing channels and actuals from the current product
+  const marketingChannels = useMemo<MarketingChannelItem[]>(
+    () => currentProduct?.costMetrics?.marketing?.channels || [],
+    [currentProduct]
+  );
 
   // Filter actuals based on selected timeframe
   const filteredActuals = useMemo(() => {
-    const sortedActuals = [...actualMetrics].sort((a, b) => a.week - b.week);
+    const sortedActuals = sortActuals(currentProduct?.actuals);
     
     switch (selectedTimeframe) {
       case 'last4weeks':
@@ -156,7 +168,41 @@ export default function MarketingAnalytics() {
       default:
         return sortedActuals;
     }
-  }, [actualMetrics, selectedTimeframe]);
+  }, [currentProduct?.actuals, selectedTimeframe]);
+
+  // Fit a response curve per channel and allocate the weekly budget across them.
+  // Curves only depend on the recorded spend, so editing the budget or limits doesn't refit them
+  const mixCurves = useMemo(() => new Map(marketingChannels.map(channel => [
+    channel.id,
+    fitResponseCurve(getChannelObservations(filteredActuals, channel.id, mixObjective))
+  ])), [marketingChannels, filteredActuals, mixObjective]);
+
+  const currentChannelBudget = marketingChannels.reduce((sum: number, ch: MarketingChannelItem) => sum + (ch.budget || 0), 0);
+  const mixTotalBudget = mixBudget ?? currentChannelBudget;
+
+  const mixChannels: MarketingMixChannel[] = useMemo(() => marketingChannels.map((channel: MarketingChannelItem): MarketingMixChannel => ({
+    id: channel.id,
+    name: channel.name || 'Unnamed Channel',
+    currentBudget: channel.budget || 0,
+    curve: mixCurves.get(channel.id) ?? null,
+    min: mixLimits[channel.id]?.min ?? 0,
+    max: mixLimits[channel.id]?.max ?? Math.max(mixTotalBudget, 0)
+  })), [marketingChannels, mixCurves, mixLimits, mixTotalBudget]);
+
+  const mixResult: MarketingMixResult = useMemo(
+    () => optimizeMarketingMix(mixChannels, mixTotalBudget, mixObjective),
+    [mixChannels, mixTotalBudget, mixObjective]
+  );
+
+  if (!currentProduct) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No product selected or product not found.
+      </div>
+    );
+  }
+
+  const { costMetrics, actuals = [], weeklyProjections = [] } = currentProduct;
 
   // Calculate channel performance metrics
   const channelPerformance = useMemo(() => {
@@ -180,7 +226,7 @@ export default function MarketingAnalytics() {
     });
     
     // Aggregate performance from actuals
-    filteredActuals.forEach((actual: ActualMetrics) => {
+    filteredActuals.forEach((actual: ActualsEntry) => {
       if (actual.channelPerformance) {
         actual.channelPerformance.forEach((perf: ChannelPerformance) => {
           if (channelsMap.has(perf.channelId)) {
@@ -210,11 +256,11 @@ export default function MarketingAnalytics() {
     // Map actuals
     const weeklyRatios = combined.map(week => {
       // Check if we have actual data for this week
-      const actual = actualMetrics.find((a: ActualMetrics) => a.week === week.week);
+      const actual = getActualsForWeek(actuals, week.week);
       
       // Calculate metrics based on actuals or projections
-      const revenue = actual ? (actual.totalRevenue || actual.revenue || 0) : week.totalRevenue;
-      const marketingCost = actual ? (actual.marketingCost || 0) : week.marketingCosts;
+      const revenue = actual ? (actual.totalRevenue || 0) : week.totalRevenue;
+      const marketingCost = actual ? (actual.marketingCosts || 0) : week.marketingCosts;
       
       // Calculate ratio (as percentage)
       const ratio = revenue > 0 ? (marketingCost / revenue) * 100 : 0;
@@ -235,7 +281,7 @@ export default function MarketingAnalytics() {
     });
     
     return weeklyRatios;
-  }, [weeklyProjections, actualMetrics]);
+  }, [weeklyProjections, actuals]);
 
   // Calculate total marketing and revenue metrics
   const marketingSummary = useMemo(() => {
@@ -264,8 +310,8 @@ export default function MarketingAnalytics() {
     const totalProjectedRevenue = weeklyProjections.reduce((sum: number, week: WeeklyProjection) => sum + week.totalRevenue, 0);
     
     // Total actual revenue so far
-    const totalActualRevenue = filteredActuals.reduce((sum: number, actual: ActualMetrics) => 
-      sum + (actual.totalRevenue || actual.revenue || 0), 0);
+    const totalActualRevenue = filteredActuals.reduce((sum: number, actual: ActualsEntry) => 
+      sum + (actual.totalRevenue || 0), 0);
     
     // Calculate average marketing-to-revenue ratio
     const ratio = totalProjectedRevenue > 0 
@@ -362,6 +408,42 @@ export default function MarketingAnalytics() {
     });
   }, [channelPerformance]);
 
+  const handleMixLimitChange = (channelId: string, limit: 'min' | 'max', value: string) => {
+    setMixLimits(prev => ({
+      ...prev,
+      [channelId]: { ...prev[channelId], [limit]: value === '' ? undefined : Math.max(0, Number(value) || 0) }
+    }));
+  };
+
+  const handleApplyMarketingMix = () => {
+    if (mixResult.status !== 'optimized') return;
+
+    const updatedCostMetrics = {
+      ...costMetrics,
+      marketing: {
+        ...costMetrics.marketing,
+        allocationMode: 'channels' as const,
+        channels: applyMarketingMix(marketingChannels, mixResult)
+      }
+    };
+
+    updateProduct(currentProduct.info.id, {
+      costMetrics: updatedCostMetrics,
+      weeklyProjections: generateWeeklyProjections(
+        currentProduct.info,
+        currentProduct.growthMetrics,
+        currentProduct.revenueMetrics,
+        updatedCostMetrics,
+        currentProduct
+      )
+    });
+    setMixBudget(null);
+    addNotification({
+      type: 'success',
+      message: `Marketing channels updated to the recommended ${formatCurrency(mixResult.totalBudget)}/week split`
+    });
+  };
+
   // Get selected channels for comparison
   const selectedChannelData = useMemo(() => {
     if (selectedChannels.length === 0) {
@@ -987,99 +1069,67 @@ export default function MarketingAnalytics() {
 
   // Create a renderBudgetPlanningTab function similar to the other tab rendering functions
   const renderBudgetPlanningTab = () => {
-    // Budget allocation optimization calculations
-    const optimizedAllocation = useMemo(() => {
-      // Calculate optimized allocation based on channel performance
-      const performingChannels = channelEfficiency.filter(c => c.totalRevenue > 0 || c.totalSpend > 0);
-      
-      if (performingChannels.length === 0) return [];
-      
-      // Calculate ROI for each channel
-      const channelsWithROI = performingChannels.map(channel => {
-        const roi = channel.totalSpend > 0 
-          ? (channel.totalRevenue - channel.totalSpend) / channel.totalSpend 
-          : 0;
+    // Performance of channels with recorded activity, with the optimiser's recommended split
+    const optimizedAllocation = channelEfficiency
+      .filter(c => c.totalRevenue > 0 || c.totalSpend > 0)
+      .map(channel => {
+        const recommended = mixResult.status === 'optimized'
+          ? mixResult.allocations.find(allocation => allocation.id === channel.id)
+          : undefined;
         
         return {
           ...channel,
-          roi,
-          // Higher conversion rates should get higher scores
-          conversionScore: Math.min(channel.conversionRate / CHANNEL_BENCHMARKS.conversionRate.high, 2),
-          // Lower cost per conversion is better
-          cpaScore: channel.costPerConversion > 0 
-            ? Math.min(1 / (channel.costPerConversion / 100), 3) 
+          roi: channel.totalSpend > 0 
+            ? (channel.totalRevenue - channel.totalSpend) / channel.totalSpend 
             : 0,
-          // Calculate an overall performance score
-          performanceScore: 0 // Will be calculated below
+          // Without a recommendation the channel keeps its current budget
+          suggestedAllocation: recommended 
+            ? recommended.allocation 
+            : mixTotalBudget > 0 ? (channel.budget / mixTotalBudget) * 100 : 0,
+          suggestedWeeklyAmount: recommended ? recommended.budget : channel.budget
         };
-      });
-      
-      // Normalize scores and calculate overall performance
-      const maxROI = Math.max(...channelsWithROI.map(c => Math.max(c.roi, 0)));
-      const maxConvScore = Math.max(...channelsWithROI.map(c => c.conversionScore));
-      const maxCPAScore = Math.max(...channelsWithROI.map(c => c.cpaScore));
-      
-      // Calculate performance score with weights
-      channelsWithROI.forEach(c => {
-        const roiWeight = 0.5;
-        const convWeight = 0.3;
-        const cpaWeight = 0.2;
-        
-        // Normalize each component 
-        const normalizedROI = maxROI > 0 ? Math.max(c.roi, 0) / maxROI : 0;
-        const normalizedConv = maxConvScore > 0 ? c.conversionScore / maxConvScore : 0;
-        const normalizedCPA = maxCPAScore > 0 ? c.cpaScore / maxCPAScore : 0;
-        
-        c.performanceScore = (normalizedROI * roiWeight) + 
-                             (normalizedConv * convWeight) + 
-                             (normalizedCPA * cpaWeight);
-      });
-      
-      // Sort by performance score
-      channelsWithROI.sort((a, b) => b.performanceScore - a.performanceScore);
+      })
+      .sort((a, b) => b.roi - a.roi);
+    
+    // Format suggestions for better display
+    const formattedSuggestions = optimizedAllocation.map(channel => {
+      // Current share of the weekly channel budget
+      const currentAllocation = currentChannelBudget > 0 ? (channel.budget / currentChannelBudget) * 100 : 0;
       
-      // Calculate new budget allocation percentages
-      const totalScore = channelsWithROI.reduce((sum, c) => sum + Math.max(c.performanceScore, 0.1), 0);
+      // Calculate change
+      const change = channel.suggestedAllocation - currentAllocation;
       
-      return channelsWithROI.map(channel => ({
+      return {
         ...channel,
-        // Ensure even lowest performing channels get some budget (min 5%)
-        suggestedAllocation: Math.max(
-          (channel.performanceScore / totalScore) * 100,
-          5
-        )
-      }));
-    }, [channelEfficiency]);
+        currentAllocation,
+        currentWeeklyAmount: channel.budget,
+        change,
+        impact: channel.roi > 0 ? 'positive' : channel.roi < -0.2 ? 'negative' : 'neutral'
+      };
+    });
     
-    // Format suggestions for better display
-    const formattedSuggestions = useMemo(() => {
-      const currentBudget = marketingSummary.totalBudget;
-      const forecastPeriod = currentProduct.info.forecastPeriod || 12;
-      const weeklyBudget = currentBudget / forecastPeriod;
-      
-      return optimizedAllocation.map(channel => {
-        // Current allocation
-        const currentAllocation = marketingChannels.find(c => c.id === channel.id)?.allocation || 0;
-        
-        // Calculate suggested weekly amount
-        const suggestedWeeklyAmount = (channel.suggestedAllocation / 100) * weeklyBudget;
-        
-        // Current weekly amount
-        const currentWeeklyAmount = (currentAllocation / 100) * weeklyBudget;
-        
-        // Calculate change
-        const change = channel.suggestedAllocation - currentAllocation;
-        
-        return {
-          ...channel,
-          currentAllocation,
-          suggestedWeeklyAmount,
-          currentWeeklyAmount, 
-          change,
-          impact: channel.roi > 0 ? 'positive' : channel.roi < -0.2 ? 'negative' : 'neutral'
-        };
+    const formatMixResponse = (value: number) => 
+      mixObjective === 'revenue' ? formatCurrency(value) : formatNumber(value);
+    
+    const mixUplift = mixResult.currentResponse > 0 
+      ? ((mixResult.response / mixResult.currentResponse) - 1) * 100 
+      : 0;
+    
+    // Expected weekly response of each fitted channel across a range of spend
+    const fittedMixChannels = mixChannels.filter(channel => channel.curve);
+    const curveMaxSpend = Math.max(
+      ...fittedMixChannels.map(channel => channel.currentBudget * 2),
+      ...mixResult.allocations.map(allocation => allocation.budget * 1.5),
+      1
+    );
+    const responseCurveData = fittedMixChannels.length === 0 ? [] : Array.from({ length: 25 }, (_, index) => {
+      const spend = (curveMaxSpend * index) / 24;
+      const point: Record<string, number> = { spend };
+      fittedMixChannels.forEach(channel => {
+        point[channel.id] = getCurveResponse(channel.curve!, spend);
       });
-    }, [optimizedAllocation, marketingSummary.totalBudget, marketingChannels, currentProduct.info.forecastPeriod]);
+      return point;
+    });
     
     // Generate a "what-if" forecast for budget changes
     const generateForecast = (increaseFactor: number) => {
@@ -1136,57 +1186,164 @@ export default function MarketingAnalytics() {
             </CardHeader>
             <CardContent>
               <p className="text-sm mb-4">
-                Based on your historical channel performance data, we've generated the following budget allocation recommendations.
-                These suggestions aim to maximize your marketing ROI by distributing your budget according to each channel's effectiveness.
+                Each channel's recorded weekly spend is fitted to a response curve with diminishing returns, and the weekly budget
+                is split so the next unit of spend earns the same in every channel that isn't held at its minimum or maximum.
               </p>
               
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Allocation Recommendations */}
                 <div>
-                  <h3 className="text-md font-medium mb-2">Suggested Channel Allocation</h3>
+                  <h3 className="text-md font-medium mb-2">Recommended Channel Allocation</h3>
+                  
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div>
+                      <Label htmlFor="mixObjective">Maximise</Label>
+                      <Select 
+                        value={mixObjective} 
+                        onValueChange={(value) => setMixObjective(value as MarketingMixObjective)}
+                      >
+                        <SelectTrigger id="mixObjective">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MARKETING_MIX_OBJECTIVES.map(objective => (
+                            <SelectItem key={objective} value={objective}>
+                              {MARKETING_MIX_OBJECTIVE_LABELS[objective]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="mixBudget">Weekly Budget</Label>
+                      <Input 
+                        id="mixBudget"
+                        type="number"
+                        min={0}
+                        value={mixTotalBudget}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                          setMixBudget(e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+                      />
+                    </div>
+                  </div>
                   
-                  {formattedSuggestions.length === 0 ? (
+                  {mixChannels.length === 0 ? (
                     <div className="bg-gray-50 rounded p-4 text-center">
-                      <p className="text-gray-500">No channel performance data available to generate recommendations.</p>
+                      <p className="text-gray-500">No marketing channels to allocate a budget across.</p>
                       <p className="text-sm text-gray-500 mt-1">
-                        Start tracking channel metrics in the Actuals Tracker to see suggestions.
+                        Add channels to the marketing budget in Costs to see recommendations.
                       </p>
                     </div>
                   ) : (
-                    <div className="overflow-x-auto">
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead>Channel</TableHead>
-                            <TableHead>Current</TableHead>
-                            <TableHead>Suggested</TableHead>
-                            <TableHead className="text-right">Weekly Budget</TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {formattedSuggestions.map(channel => (
-                            <TableRow key={channel.id}>
-                              <TableCell className="font-medium">{channel.name}</TableCell>
-                              <TableCell>{channel.currentAllocation.toFixed(1)}%</TableCell>
-                              <TableCell>
-                                <div className="flex items-center gap-1">
-                                  {channel.suggestedAllocation.toFixed(1)}%
-                                  {Math.abs(channel.change) > 5 && (
-                                    <span className={`ml-1 ${channel.change > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {channel.change > 0 ? '↑' : '↓'}
-                                      {Math.abs(channel.change).toFixed(1)}%
-                                    </span>
-                                  )}
-                                </div>
-                              </TableCell>
-                              <TableCell className="text-right">
-                                {formatCurrency(channel.suggestedWeeklyAmount)}
-                              </TableCell>
+                    <>
+                      {mixResult.message && (
+                        <Alert className="mb-3">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertTitle>{mixResult.status === 'noData' ? 'Not enough data' : 'Budget can\'t be allocated'}</AlertTitle>
+                          <AlertDescription>{mixResult.message}</AlertDescription>
+                        </Alert>
+                      )}
+                      <div className="overflow-x-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Channel</TableHead>
+                              <TableHead>Min</TableHead>
+                              <TableHead>Max</TableHead>
+                              <TableHead className="text-right">Current</TableHead>
+                              <TableHead className="text-right">Recommended</TableHead>
                             </TableRow>
-                          ))}
-                        </TableBody>
-                      </Table>
-                    </div>
+                          </TableHeader>
+                          <TableBody>
+                            {mixChannels.map(channel => {
+                              const recommended = mixResult.allocations.find(allocation => allocation.id === channel.id);
+                              const change = recommended ? recommended.budget - channel.currentBudget : 0;
+                              
+                              return (
+                                <TableRow key={channel.id}>
+                                  <TableCell>
+                                    <div className="font-medium">{channel.name}</div>
+                                    <div className="text-xs text-gray-500">
+                                      {!channel.curve 
+                                        ? 'No spend recorded, kept at current budget' 
+                                        : channel.curve.quality === 'assumed' 
+                                          ? `Saturation assumed from ${channel.curve.observations} week${channel.curve.observations === 1 ? '' : 's'}` 
+                                          : `Fitted on ${channel.curve.observations} weeks${channel.curve.rSquared !== null ? ` (R² ${channel.curve.rSquared.toFixed(2)})` : ''}`}
+                                    </div>
+                                  </TableCell>
+                                  <TableCell>
+                                    <Input 
+                                      type="number"
+                                      min={0}
+                                      className="w-20 h-8"
+                                      aria-label={`${channel.name} minimum weekly budget`}
+                                      value={mixLimits[channel.id]?.min ?? ''}
+                                      placeholder="0"
+                                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleMixLimitChange(channel.id, 'min', e.target.value)}
+                                    />
+                                  </TableCell>
+                                  <TableCell>
+                                    <Input 
+                                      type="number"
+                                      min={0}
+                                      className="w-20 h-8"
+                                      aria-label={`${channel.name} maximum weekly budget`}
+                                      value={mixLimits[channel.id]?.max ?? ''}
+                                      placeholder="Any"
+                                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleMixLimitChange(channel.id, 'max', e.target.value)}
+                                    />
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    {formatCurrency(channel.currentBudget)}
+                                    {recommended?.fitted && (
+                                      <div className="text-xs text-gray-500">{formatMixResponse(recommended.currentResponse)}</div>
+                                    )}
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    {recommended ? (
+                                      <>
+                                        <div>
+                                          {formatCurrency(recommended.budget)}
+                                          {Math.abs(change) >= 1 && (
+                                            <span className={`ml-1 text-xs ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                              {change > 0 ? '↑' : '↓'}
+                                            </span>
+                                          )}
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                          {recommended.allocation.toFixed(1)}%
+                                          {recommended.fitted && ` · ${formatMixResponse(recommended.response)}`}
+                                        </div>
+                                      </>
+                                    ) : '—'}
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Amounts are per week. Figures under each budget are the {MARKETING_MIX_OBJECTIVE_LABELS[mixObjective].toLowerCase()} the channel's curve expects from it.
+                      </p>
+                      
+                      {mixResult.status === 'optimized' && (
+                        <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-green-50 border border-green-100 rounded text-sm">
+                          <div>
+                            <p className="font-medium text-green-800">
+                              Expected weekly {MARKETING_MIX_OBJECTIVE_LABELS[mixObjective].toLowerCase()}: {formatMixResponse(mixResult.response)}
+                            </p>
+                            <p className="text-green-700">
+                              {formatMixResponse(mixResult.currentResponse)} at current budgets
+                              {mixResult.currentResponse > 0 && ` (${mixUplift >= 0 ? '+' : ''}${mixUplift.toFixed(1)}%)`}
+                            </p>
+                          </div>
+                          <Button size="sm" onClick={handleApplyMarketingMix}>
+                            Apply to Channels
+                          </Button>
+                        </div>
+                      )}
+                    </>
                   )}
                 </div>
                 
@@ -1248,6 +1405,46 @@ export default function MarketingAnalytics() {
                 </div>
               </div>
               
+              {/* Fitted Response Curves */}
+              {responseCurveData.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-md font-medium mb-3">Channel Response Curves</h3>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={responseCurveData} margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis 
+                          type="number" 
+                          dataKey="spend" 
+                          tickFormatter={(value: number) => formatCurrency(value)}
+                          label={{ value: 'Weekly Spend', position: 'bottom' }}
+                        />
+                        <YAxis tickFormatter={(value: number) => formatMixResponse(value)} />
+                        <Tooltip 
+                          formatter={(value: number) => formatMixResponse(value)}
+                          labelFormatter={(value: number) => `Spend ${formatCurrency(value)}/week`}
+                        />
+                        <Legend verticalAlign="top" />
+                        {fittedMixChannels.map((channel, index) => (
+                          <Line
+                            key={channel.id}
+                            type="monotone"
+                            dataKey={channel.id}
+                            name={channel.name}
+                            stroke={Object.values(COLORS)[(index + 3) % Object.values(COLORS).length]}
+                            strokeDasharray={channel.curve!.quality === 'assumed' ? '5 5' : undefined}
+                            dot={false}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-2 text-center">
+                    Each curve flattens as the channel saturates. Dashed curves have too few spend levels to see saturation, so it is assumed.
+                  </p>
+                </div>
+              )}
+              
               {/* Channel Performance Visualization */}
               <div className="mt-8">
                 <h3 className="text-md font-medium mb-3">Channel Performance Matrix</h3>
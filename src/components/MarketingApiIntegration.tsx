@@ -21,6 +21,7 @@ import {
   transformApiDataToChannelPerformance
 } from '../lib/marketingApi';
 import { formatCurrency, formatNumber, formatPercent } from '../lib/utils';
+import { getActualsForWeek, upsertActualsEntry } from '../lib/actualsLedger';
 
 export default function MarketingApiIntegration() {
   const { products, currentProductId, updateProduct } = useStore();
@@ -197,47 +198,30 @@ export default function MarketingApiIntegration() {
       );
       
       // Find the latest week in actuals
+      const actuals = currentProduct.actuals || [];
       const latestWeek = Math.max(
-        ...currentProduct.actualMetrics.map(metric => metric.week),
+        ...actuals.map(entry => entry.week),
         0
       );
+      const latestEntry = getActualsForWeek(actuals, latestWeek);
       
-      // Update the latest week's channel performance
-      const updatedActualMetrics = [...currentProduct.actualMetrics];
-      const latestWeekIndex = updatedActualMetrics.findIndex(metric => metric.week === latestWeek);
-      
-      if (latestWeekIndex >= 0) {
-        // Update existing week
-        const existingChannelPerformance = updatedActualMetrics[latestWeekIndex].channelPerformance || [];
-        const existingChannelIndex = existingChannelPerformance.findIndex(
-          cp => cp.channelId === matchingChannel.id
-        );
-        
-        if (existingChannelIndex >= 0) {
-          // Update existing channel
-          existingChannelPerformance[existingChannelIndex] = channelPerformance;
-        } else {
-          // Add new channel
-          existingChannelPerformance.push(channelPerformance);
-        }
+      let updatedActuals;
+      if (latestEntry) {
+        // Update the latest week's channel performance
+        const existingChannelPerformance = latestEntry.channelPerformance || [];
+        const hasChannel = existingChannelPerformance.some(cp => cp.channelId === matchingChannel.id);
         
-        updatedActualMetrics[latestWeekIndex] = {
-          ...updatedActualMetrics[latestWeekIndex],
-          channelPerformance: existingChannelPerformance
-        };
-      } else if (latestWeek > 0) {
-        // Create new week based on the previous one
-        updatedActualMetrics.push({
-          ...updatedActualMetrics[updatedActualMetrics.length - 1],
-          week: latestWeek + 1,
-          channelPerformance: [channelPerformance]
+        updatedActuals = upsertActualsEntry(actuals, latestWeek, {
+          channelPerformance: hasChannel
+            ? existingChannelPerformance.map(cp => cp.channelId === matchingChannel.id ? channelPerformance : cp)
+            : [...existingChannelPerformance, channelPerformance]
         });
       } else {
         // Create first week
-        updatedActualMetrics.push({
-          week: 1,
-          revenue: channelPerformance.revenue,
-          marketingCost: channelPerformance.spend,
+        updatedActuals = upsertActualsEntry(actuals, 1, {
+          totalRevenue: channelPerformance.revenue || 0,
+          marketingCosts: channelPerformance.spend || 0,
+          totalCosts: channelPerformance.spend || 0,
           channelPerformance: [channelPerformance]
         });
       }
@@ -245,7 +229,7 @@ export default function MarketingApiIntegration() {
       // Update product
       updateProduct(currentProduct.info.id, {
         ...currentProduct,
-        actualMetrics: updatedActualMetrics
+        actuals: updatedActuals
       });
       
       setImportStatus('success');
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -30,9 +30,10 @@ import {
 import { Label } from "./ui/label";
 import useStore from '../store/useStore';
 import { formatCurrency, formatNumber, formatPercent } from "../lib/utils";
+import { getActualsForWeek, sortActuals, upsertActualsEntry } from "../lib/actualsLedger";
 import type { 
   Product, 
-  ActualMetrics, 
+  ActualsEntry, 
   MarketingChannelItem,
   MarketingChannelPerformance
 } from "../types";
@@ -45,7 +46,7 @@ const MarketingChannelActuals = ({ weekNumber }: MarketingChannelActualsProps) =
   const { products, currentProductId, updateProduct } = useStore();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedWeek, setSelectedWeek] = useState<number | undefined>(weekNumber);
-  const [weekActuals, setWeekActuals] = useState<ActualMetrics | null>(null);
+  const [weekActuals, setWeekActuals] = useState<ActualsEntry | null>(null);
   const [channelMetrics, setChannelMetrics] = useState<Record<string, ChannelMetricInputs>>({});
   const [isEditing, setIsEditing] = useState(false);
   
@@ -53,11 +54,13 @@ const MarketingChannelActuals = ({ weekNumber }: MarketingChannelActualsProps) =
   const currentProduct = products.find(p => p.info.id === currentProductId);
   
   // Get marketing channels
-  const marketingChannels = currentProduct?.costMetrics?.marketing?.channels || [];
+  const marketingChannels = useMemo<MarketingChannelItem[]>(
+    () => currentProduct?.costMetrics?.marketing?.channels || [],
+    [currentProduct?.costMetrics?.marketing?.channels]
+  );
   
   // Get available actual weeks
-  const actualWeeks = (currentProduct?.actualMetrics || [])
-    .sort((a, b) => a.week - b.week)
+  const actualWeeks = sortActuals(currentProduct?.actuals)
     .map(a => a.week);
   
   // Type for form inputs
@@ -73,9 +76,7 @@ const MarketingChannelActuals = ({ weekNumber }: MarketingChannelActualsProps) =
   useEffect(() => {
     if (!currentProduct || !selectedWeek) return;
     
-    const weekData = (currentProduct.actualMetrics || []).find(
-      actual => actual.week === selectedWeek
-    );
+    const weekData = getActualsForWeek(currentProduct.actuals, selectedWeek);
     
     setWeekActuals(weekData || null);
     
@@ -133,32 +134,15 @@ const MarketingChannelActuals = ({ weekNumber }: MarketingChannelActualsProps) =
       }
     });
     
-    // If we already have actuals for this week, update them
-    const updatedActualMetrics = [...(currentProduct.actualMetrics || [])];
-    const existingIndex = updatedActualMetrics.findIndex(a => a.week === selectedWeek);
-    
-    if (existingIndex >= 0) {
-      // Update existing entry
-      updatedActualMetrics[existingIndex] = {
-        ...updatedActualMetrics[existingIndex],
-        channelPerformance
-      };
-    } else if (channelPerformance.length > 0) {
-      // Create new entry if we have channel data
-      updatedActualMetrics.push({
-        id: `metrics-${Date.now()}`,
-        week: selectedWeek,
-        year: new Date().getFullYear(),
-        channelPerformance
+    // Record the channel figures against the week, creating it if we have channel data
+    const hasWeek = !!getActualsForWeek(currentProduct.actuals, selectedWeek);
+    if (hasWeek || channelPerformance.length > 0) {
+      updateProduct({
+        ...currentProduct,
+        actuals: upsertActualsEntry(currentProduct.actuals, selectedWeek, { channelPerformance })
       });
     }
     
-    // Update the product
-    updateProduct({
-      ...currentProduct,
-      actualMetrics: updatedActualMetrics
-    });
-    
     // Close dialog and reset
     setIsDialogOpen(false);
     setIsEditing(false);
@@ -11,20 +11,7 @@ import { PlusCircle, Trash2, Save, Edit, Check, X, TrendingUp, BarChart2 } from
 import useStore from '../store/useStore';
 import { formatCurrency, formatNumber, formatPercent } from '../lib/utils';
 import * as db from '../lib/database';
-
-// KPI Types
-interface KPI {
-  id: string;
-  name: string;
-  category: 'revenue' | 'engagement' | 'conversion' | 'cost';
-  target: number;
-  current: number;
-  unit: 'currency' | 'percent' | 'number';
-  timeframe: 'weekly' | 'monthly' | 'quarterly';
-  startDate: string;
-  endDate: string;
-  productId?: string;
-}
+import type { MarketingKPI as KPI } from '../types';
 
 // Category data type
 interface CategoryProgress {
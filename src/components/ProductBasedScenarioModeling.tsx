@@ -22,9 +22,14 @@ import {
   CartesianGrid 
 } from 'recharts';
 import useStore from '../store/useStore';
-import { ScenarioModel, Product, WeeklyProjection } from '../types';
+import { Product, Scenario } from '../types';
 import { formatCurrency, formatPercent } from '../lib/utils';
 import { exportScenarioComparison } from '../lib/exportUtils';
+import { toDate } from '../lib/seasonality';
+import { toModelInputs } from '../lib/modelInputs';
+import { runProjection } from '../lib/projectionEngine';
+import { runScenario, sumProjections, getScenarioOutcome, getLeverPercent, setLeverPercent } from '../lib/scenarioEngine';
+import type { ScenarioLever } from '../lib/scenarioEngine';
 
 // Colors for charts
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
@@ -33,72 +38,63 @@ export default function ProductBasedScenarioModeling() {
   const { 
     products, 
     currentProductId, 
-    scenarios,
-    addScenarioModel, 
-    updateScenarioModel, 
-    deleteScenarioModel,
-    getScenariosByProduct
+    addScenario, 
+    updateScenario, 
+    deleteScenario
   } = useStore();
   
   // Selected product state
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [baselineData, setBaselineData] = useState<WeeklyProjection[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(currentProductId);
   
   // Scenario management state
-  const [activeScenario, setActiveScenario] = useState<ScenarioModel | null>(null);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
   const [isCreatingScenario, setIsCreatingScenario] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('parameters');
   
-  // Load current product when component mounts or currentProductId changes
+  const selectedProduct: Product | null = products.find(p => p.info.id === selectedProductId) || null;
+  const productScenarios = selectedProduct?.scenarios || [];
+  const activeScenario = productScenarios.find(s => s.id === activeScenarioId) || null;
+  
+  // Forecast inputs for the selected product, which scenarios override
+  const modelInputs = selectedProduct
+    ? toModelInputs(
+        selectedProduct.info,
+        selectedProduct.growthMetrics,
+        selectedProduct.revenueMetrics,
+        selectedProduct.costMetrics,
+        selectedProduct
+      )
+    : null;
+  const baselineData = modelInputs ? runProjection(modelInputs).projections : [];
+  
+  // Follow the current product when it changes elsewhere in the app
   useEffect(() => {
     if (currentProductId) {
-      const product = products.find(p => p.info.id === currentProductId);
-      if (product) {
-        setSelectedProduct(product);
-        setBaselineData(product.weeklyProjections || []);
-        
-        // Load scenarios for this product
-        const productScenarios = getScenariosByProduct(currentProductId);
-        if (productScenarios.length > 0 && !activeScenario) {
-          setActiveScenario(productScenarios[0]);
-        }
-      }
+      setSelectedProductId(currentProductId);
     }
-  }, [currentProductId, products, getScenariosByProduct, activeScenario]);
+  }, [currentProductId]);
+  
+  // Select the first scenario when none is selected
+  useEffect(() => {
+    const scenarios = selectedProduct?.scenarios || [];
+    if (!activeScenario && scenarios.length > 0) {
+      setActiveScenarioId(scenarios[0].id);
+    }
+  }, [activeScenario, selectedProduct]);
   
   // Create a default blank scenario for the selected product
   const createDefaultScenario = () => {
     if (!selectedProduct) return;
     
-    const newScenario: ScenarioModel = {
-      id: crypto.randomUUID(),
+    const scenarioId = addScenario(selectedProduct.info.id, {
       name: `${selectedProduct.info.name} - New Scenario`,
       productId: selectedProduct.info.id,
       description: `Scenario for ${selectedProduct.info.name}`,
-      modifiers: {
-        revenue: {
-          ticketRevenue: 0,
-          fbRevenue: 0,
-          merchandiseRevenue: 0,
-          digitalRevenue: 0
-        },
-        costs: {
-          marketingCost: 0,
-          staffingCost: 0,
-          eventCost: 0,
-          setupCost: 0
-        },
-        attendance: {
-          footTraffic: 0
-        }
-      },
-      createdAt: new Date().toISOString(),
-      lastModified: new Date().toISOString(),
-      variant: 'custom'
-    };
+      type: 'Custom',
+      overrides: []
+    });
     
-    addScenarioModel(newScenario);
-    setActiveScenario(newScenario);
+    setActiveScenarioId(scenarioId);
     setIsCreatingScenario(false);
   };
   
@@ -106,176 +102,79 @@ export default function ProductBasedScenarioModeling() {
   const handleProductChange = (productId: string) => {
     const product = products.find(p => p.info.id === productId);
     if (product) {
-      setSelectedProduct(product);
-      setBaselineData(product.weeklyProjections || []);
-      
-      // Load scenarios for this product
-      const productScenarios = getScenariosByProduct(productId);
-      setActiveScenario(productScenarios.length > 0 ? productScenarios[0] : null);
+      setSelectedProductId(productId);
+      setActiveScenarioId(product.scenarios && product.scenarios.length > 0 ? product.scenarios[0].id : null);
     }
   };
   
-  // Calculate scenario projections by applying modifiers to baseline data
-  const calculateScenarioProjections = (scenario: ScenarioModel) => {
-    if (!baselineData || baselineData.length === 0) return [];
+  // Update a scenario lever and store the resulting totals on the scenario
+  const updateModifier = (lever: ScenarioLever, value: number) => {
+    if (!activeScenario || !selectedProduct || !modelInputs) return;
     
-    return baselineData.map(week => {
-      const { modifiers } = scenario;
-      
-      // Apply percentage adjustments to baseline values
-      return {
-        ...week,
-        projectedTicketRevenue: week.projectedTicketRevenue * (1 + modifiers.revenue.ticketRevenue / 100),
-        projectedFbRevenue: week.projectedFbRevenue * (1 + modifiers.revenue.fbRevenue / 100),
-        projectedMerchandiseRevenue: week.projectedMerchandiseRevenue * (1 + modifiers.revenue.merchandiseRevenue / 100),
-        projectedDigitalRevenue: week.projectedDigitalRevenue * (1 + modifiers.revenue.digitalRevenue / 100),
-        projectedMarketingCost: week.projectedMarketingCost * (1 + modifiers.costs.marketingCost / 100),
-        projectedStaffingCost: week.projectedStaffingCost * (1 + modifiers.costs.staffingCost / 100),
-        projectedEventCost: week.projectedEventCost * (1 + modifiers.costs.eventCost / 100),
-        projectedSetupCost: week.projectedSetupCost * (1 + modifiers.costs.setupCost / 100),
-        projectedFootTraffic: week.projectedFootTraffic * (1 + modifiers.attendance.footTraffic / 100)
-      };
+    const overrides = setLeverPercent(activeScenario.overrides, lever, value);
+    updateScenario(selectedProduct.info.id, activeScenario.id, {
+      overrides,
+      ...getScenarioOutcome(modelInputs, { overrides })
     });
   };
   
-  // Update a scenario modifier
-  const updateModifier = (
-    category: 'revenue' | 'costs' | 'attendance',
-    key: string,
-    value: number
-  ) => {
-    if (!activeScenario) return;
-    
-    const updatedScenario = {
-      ...activeScenario,
-      modifiers: {
-        ...activeScenario.modifiers,
-        [category]: {
-          ...activeScenario.modifiers[category],
-          [key]: value
-        }
-      },
-      lastModified: new Date().toISOString()
-    };
-    
-    updateScenarioModel(updatedScenario);
-    setActiveScenario(updatedScenario);
-  };
-  
   // Save the current scenario
-  const saveScenario = (name: string, description: string, variant: 'optimistic' | 'pessimistic' | 'neutral' | 'custom' = 'custom') => {
+  const saveScenario = (name: string, description: string, type: Scenario['type'] = 'Custom') => {
     if (!activeScenario || !selectedProduct) return;
     
-    const updatedScenario = {
-      ...activeScenario,
-      name,
-      description,
-      variant,
-      lastModified: new Date().toISOString()
-    };
-    
-    updateScenarioModel(updatedScenario);
-    setActiveScenario(updatedScenario);
+    updateScenario(selectedProduct.info.id, activeScenario.id, { name, description, type });
   };
   
   // Delete a scenario
   const handleDeleteScenario = (scenarioId: string) => {
+    if (!selectedProduct) return;
+    
     if (window.confirm('Are you sure you want to delete this scenario?')) {
-      deleteScenarioModel(scenarioId);
+      deleteScenario(selectedProduct.info.id, scenarioId);
       
       // Select a different scenario if the active one was deleted
-      if (activeScenario?.id === scenarioId) {
-        const remainingScenarios = getScenariosByProduct(selectedProduct?.info.id || '');
-        setActiveScenario(remainingScenarios.length > 0 ? remainingScenarios[0] : null);
+      if (activeScenarioId === scenarioId) {
+        const remainingScenarios = productScenarios.filter(s => s.id !== scenarioId);
+        setActiveScenarioId(remainingScenarios.length > 0 ? remainingScenarios[0].id : null);
       }
     }
   };
   
   // Duplicate a scenario
   const handleDuplicateScenario = (scenarioId: string) => {
-    const scenarioToDuplicate = scenarios.find(s => s.id === scenarioId);
+    const scenarioToDuplicate = productScenarios.find(s => s.id === scenarioId);
     if (!scenarioToDuplicate || !selectedProduct) return;
     
-    const newScenario: ScenarioModel = {
+    const newScenarioId = addScenario(selectedProduct.info.id, {
       ...scenarioToDuplicate,
-      id: crypto.randomUUID(),
       name: `${scenarioToDuplicate.name} (Copy)`,
-      createdAt: new Date().toISOString(),
-      lastModified: new Date().toISOString()
-    };
-    
-    addScenarioModel(newScenario);
-    setActiveScenario(newScenario);
+      parentId: scenarioToDuplicate.id
+    });
+    setActiveScenarioId(newScenarioId);
   };
   
   // Export scenario comparison
   const handleExportScenario = () => {
-    if (!activeScenario || !selectedProduct) return;
+    if (!activeScenario || !selectedProduct || !modelInputs) return;
     
-    const scenarioData = calculateScenarioProjections(activeScenario);
     exportScenarioComparison(
       selectedProduct,
       baselineData,
-      scenarioData,
+      runScenario(modelInputs, activeScenario).projections,
       activeScenario.name
     );
   };
   
   // Calculate totals for baseline and scenario data for charts and tables
   const calculateTotals = () => {
-    if (!baselineData || baselineData.length === 0) {
+    if (!modelInputs || baselineData.length === 0) {
       return { baseline: null, scenario: null };
     }
     
-    const baselineTotals = {
-      ticketRevenue: baselineData.reduce((sum, week) => sum + week.projectedTicketRevenue, 0),
-      fbRevenue: baselineData.reduce((sum, week) => sum + week.projectedFbRevenue, 0),
-      merchandiseRevenue: baselineData.reduce((sum, week) => sum + week.projectedMerchandiseRevenue, 0),
-      digitalRevenue: baselineData.reduce((sum, week) => sum + week.projectedDigitalRevenue, 0),
-      totalRevenue: baselineData.reduce((sum, week) => 
-        sum + week.projectedTicketRevenue + week.projectedFbRevenue + 
-        week.projectedMerchandiseRevenue + week.projectedDigitalRevenue, 0),
-      
-      marketingCost: baselineData.reduce((sum, week) => sum + week.projectedMarketingCost, 0),
-      staffingCost: baselineData.reduce((sum, week) => sum + week.projectedStaffingCost, 0),
-      eventCost: baselineData.reduce((sum, week) => sum + week.projectedEventCost, 0),
-      setupCost: baselineData.reduce((sum, week) => sum + week.projectedSetupCost, 0),
-      totalCost: baselineData.reduce((sum, week) => 
-        sum + week.projectedMarketingCost + week.projectedStaffingCost + 
-        week.projectedEventCost + week.projectedSetupCost, 0),
-      
-      footTraffic: baselineData.reduce((sum, week) => sum + week.projectedFootTraffic, 0)
-    };
-    
-    baselineTotals.profit = baselineTotals.totalRevenue - baselineTotals.totalCost;
-    
+    const baselineTotals = sumProjections(baselineData);
     if (!activeScenario) return { baseline: baselineTotals, scenario: null };
     
-    const scenarioData = calculateScenarioProjections(activeScenario);
-    
-    const scenarioTotals = {
-      ticketRevenue: scenarioData.reduce((sum, week) => sum + week.projectedTicketRevenue, 0),
-      fbRevenue: scenarioData.reduce((sum, week) => sum + week.projectedFbRevenue, 0),
-      merchandiseRevenue: scenarioData.reduce((sum, week) => sum + week.projectedMerchandiseRevenue, 0),
-      digitalRevenue: scenarioData.reduce((sum, week) => sum + week.projectedDigitalRevenue, 0),
-      totalRevenue: scenarioData.reduce((sum, week) => 
-        sum + week.projectedTicketRevenue + week.projectedFbRevenue + 
-        week.projectedMerchandiseRevenue + week.projectedDigitalRevenue, 0),
-      
-      marketingCost: scenarioData.reduce((sum, week) => sum + week.projectedMarketingCost, 0),
-      staffingCost: scenarioData.reduce((sum, week) => sum + week.projectedStaffingCost, 0),
-      eventCost: scenarioData.reduce((sum, week) => sum + week.projectedEventCost, 0),
-      setupCost: scenarioData.reduce((sum, week) => sum + week.projectedSetupCost, 0),
-      totalCost: scenarioData.reduce((sum, week) => 
-        sum + week.projectedMarketingCost + week.projectedStaffingCost + 
-        week.projectedEventCost + week.projectedSetupCost, 0),
-      
-      footTraffic: scenarioData.reduce((sum, week) => sum + week.projectedFootTraffic, 0)
-    };
-    
-    scenarioTotals.profit = scenarioTotals.totalRevenue - scenarioTotals.totalCost;
-    
-    return { baseline: baselineTotals, scenario: scenarioTotals };
+    return { baseline: baselineTotals, scenario: sumProjections(runScenario(modelInputs, activeScenario).projections) };
   };
   
   // Format percentage change between baseline and scenario
@@ -306,9 +205,6 @@ export default function ProductBasedScenarioModeling() {
   
   // Render scenario selection panel
   const renderScenarioPanel = () => {
-    const productScenarios = selectedProduct 
-      ? getScenariosByProduct(selectedProduct.info.id)
-      : [];
     
     return (
       <Card className="mb-4">
@@ -327,11 +223,11 @@ export default function ProductBasedScenarioModeling() {
                   className={`p-2 border rounded-md flex justify-between items-center cursor-pointer ${
                     activeScenario?.id === scenario.id ? 'bg-blue-50 border-blue-300' : ''
                   }`}
-                  onClick={() => setActiveScenario(scenario)}
+                  onClick={() => setActiveScenarioId(scenario.id)}
                 >
                   <div>
                     <div className="font-medium">{scenario.name}</div>
-                    <div className="text-sm text-gray-500">{scenario.variant}</div>
+                    <div className="text-sm text-gray-500">{scenario.type}</div>
                   </div>
                   <div className="flex gap-1">
                     <Button 
@@ -402,69 +298,69 @@ export default function ProductBasedScenarioModeling() {
             <CardContent className="space-y-6">
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Ticket Revenue: {activeScenario.modifiers.revenue.ticketRevenue}%</Label>
+                  <Label>Ticket Revenue: {getLeverPercent(activeScenario, 'ticketRevenue')}%</Label>
                   <span>
                     {formatCurrency(calculateTotals().baseline?.ticketRevenue || 0)} → 
                     {formatCurrency(calculateTotals().scenario?.ticketRevenue || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.revenue.ticketRevenue]} 
+                  value={[getLeverPercent(activeScenario, 'ticketRevenue')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('revenue', 'ticketRevenue', value[0])}
+                  onValueChange={(value) => updateModifier('ticketRevenue', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>F&B Revenue: {activeScenario.modifiers.revenue.fbRevenue}%</Label>
+                  <Label>F&B Revenue: {getLeverPercent(activeScenario, 'fbRevenue')}%</Label>
                   <span>
                     {formatCurrency(calculateTotals().baseline?.fbRevenue || 0)} → 
                     {formatCurrency(calculateTotals().scenario?.fbRevenue || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.revenue.fbRevenue]} 
+                  value={[getLeverPercent(activeScenario, 'fbRevenue')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('revenue', 'fbRevenue', value[0])}
+                  onValueChange={(value) => updateModifier('fbRevenue', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Merchandise Revenue: {activeScenario.modifiers.revenue.merchandiseRevenue}%</Label>
+                  <Label>Merchandise Revenue: {getLeverPercent(activeScenario, 'merchandiseRevenue')}%</Label>
                   <span>
                     {formatCurrency(calculateTotals().baseline?.merchandiseRevenue || 0)} → 
                     {formatCurrency(calculateTotals().scenario?.merchandiseRevenue || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.revenue.merchandiseRevenue]} 
+                  value={[getLeverPercent(activeScenario, 'merchandiseRevenue')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('revenue', 'merchandiseRevenue', value[0])}
+                  onValueChange={(value) => updateModifier('merchandiseRevenue', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Digital Revenue: {activeScenario.modifiers.revenue.digitalRevenue}%</Label>
+                  <Label>Digital Revenue: {getLeverPercent(activeScenario, 'digitalRevenue')}%</Label>
                   <span>
                     {formatCurrency(calculateTotals().baseline?.digitalRevenue || 0)} → 
                     {formatCurrency(calculateTotals().scenario?.digitalRevenue || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.revenue.digitalRevenue]} 
+                  value={[getLeverPercent(activeScenario, 'digitalRevenue')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('revenue', 'digitalRevenue', value[0])}
+                  onValueChange={(value) => updateModifier('digitalRevenue', value[0])}
                 />
               </div>
               
@@ -495,69 +391,69 @@ export default function ProductBasedScenarioModeling() {
             <CardContent className="space-y-6">
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Marketing Cost: {activeScenario.modifiers.costs.marketingCost}%</Label>
+                  <Label>Marketing Cost: {getLeverPercent(activeScenario, 'marketingCost')}%</Label>
                   <span>
-                    {formatCurrency(calculateTotals().baseline?.marketingCost || 0)} → 
-                    {formatCurrency(calculateTotals().scenario?.marketingCost || 0)}
+                    {formatCurrency(calculateTotals().baseline?.marketingCosts || 0)} → 
+                    {formatCurrency(calculateTotals().scenario?.marketingCosts || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.costs.marketingCost]} 
+                  value={[getLeverPercent(activeScenario, 'marketingCost')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('costs', 'marketingCost', value[0])}
+                  onValueChange={(value) => updateModifier('marketingCost', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Staffing Cost: {activeScenario.modifiers.costs.staffingCost}%</Label>
+                  <Label>Staffing Cost: {getLeverPercent(activeScenario, 'staffingCost')}%</Label>
                   <span>
-                    {formatCurrency(calculateTotals().baseline?.staffingCost || 0)} → 
-                    {formatCurrency(calculateTotals().scenario?.staffingCost || 0)}
+                    {formatCurrency(calculateTotals().baseline?.staffingCosts || 0)} → 
+                    {formatCurrency(calculateTotals().scenario?.staffingCosts || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.costs.staffingCost]} 
+                  value={[getLeverPercent(activeScenario, 'staffingCost')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('costs', 'staffingCost', value[0])}
+                  onValueChange={(value) => updateModifier('staffingCost', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Event Cost: {activeScenario.modifiers.costs.eventCost}%</Label>
+                  <Label>Event Cost: {getLeverPercent(activeScenario, 'eventCost')}%</Label>
                   <span>
-                    {formatCurrency(calculateTotals().baseline?.eventCost || 0)} → 
-                    {formatCurrency(calculateTotals().scenario?.eventCost || 0)}
+                    {formatCurrency(calculateTotals().baseline?.eventCosts || 0)} → 
+                    {formatCurrency(calculateTotals().scenario?.eventCosts || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.costs.eventCost]} 
+                  value={[getLeverPercent(activeScenario, 'eventCost')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('costs', 'eventCost', value[0])}
+                  onValueChange={(value) => updateModifier('eventCost', value[0])}
                 />
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Setup Cost: {activeScenario.modifiers.costs.setupCost}%</Label>
+                  <Label>Setup Cost: {getLeverPercent(activeScenario, 'setupCost')}%</Label>
                   <span>
-                    {formatCurrency(calculateTotals().baseline?.setupCost || 0)} → 
-                    {formatCurrency(calculateTotals().scenario?.setupCost || 0)}
+                    {formatCurrency(calculateTotals().baseline?.setupCosts || 0)} → 
+                    {formatCurrency(calculateTotals().scenario?.setupCosts || 0)}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.costs.setupCost]} 
+                  value={[getLeverPercent(activeScenario, 'setupCost')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('costs', 'setupCost', value[0])}
+                  onValueChange={(value) => updateModifier('setupCost', value[0])}
                 />
               </div>
               
@@ -565,12 +461,12 @@ export default function ProductBasedScenarioModeling() {
                 <div className="font-medium flex justify-between">
                   <span>Total Cost Impact</span>
                   <span className={calculateTotals().scenario && calculateTotals().baseline && 
-                    calculateTotals().scenario.totalCost < calculateTotals().baseline.totalCost 
+                    calculateTotals().scenario.totalCosts < calculateTotals().baseline.totalCosts 
                     ? 'text-green-600' 
                     : 'text-red-600'
                   }>
                     {calculateTotals().baseline && calculateTotals().scenario && 
-                      formatChange(calculateTotals().baseline.totalCost, calculateTotals().scenario.totalCost)
+                      formatChange(calculateTotals().baseline.totalCosts, calculateTotals().scenario.totalCosts)
                     }
                   </span>
                 </div>
@@ -588,18 +484,18 @@ export default function ProductBasedScenarioModeling() {
             <CardContent className="space-y-6">
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <Label>Foot Traffic: {activeScenario.modifiers.attendance.footTraffic}%</Label>
+                  <Label>Foot Traffic: {getLeverPercent(activeScenario, 'attendance')}%</Label>
                   <span>
                     {(calculateTotals().baseline?.footTraffic || 0).toLocaleString()} → 
                     {(calculateTotals().scenario?.footTraffic || 0).toLocaleString()}
                   </span>
                 </div>
                 <Slider 
-                  value={[activeScenario.modifiers.attendance.footTraffic]} 
+                  value={[getLeverPercent(activeScenario, 'attendance')]} 
                   min={-50} 
                   max={50} 
                   step={1}
-                  onValueChange={(value) => updateModifier('attendance', 'footTraffic', value[0])}
+                  onValueChange={(value) => updateModifier('attendance', value[0])}
                 />
               </div>
               
@@ -638,15 +534,15 @@ export default function ProductBasedScenarioModeling() {
     ];
     
     const costComparisonData = [
-      { name: 'Marketing', baseline: totals.baseline.marketingCost, scenario: totals.scenario.marketingCost },
-      { name: 'Staffing', baseline: totals.baseline.staffingCost, scenario: totals.scenario.staffingCost },
-      { name: 'Event', baseline: totals.baseline.eventCost, scenario: totals.scenario.eventCost },
-      { name: 'Setup', baseline: totals.baseline.setupCost, scenario: totals.scenario.setupCost }
+      { name: 'Marketing', baseline: totals.baseline.marketingCosts, scenario: totals.scenario.marketingCosts },
+      { name: 'Staffing', baseline: totals.baseline.staffingCosts, scenario: totals.scenario.staffingCosts },
+      { name: 'Event', baseline: totals.baseline.eventCosts, scenario: totals.scenario.eventCosts },
+      { name: 'Setup', baseline: totals.baseline.setupCosts, scenario: totals.scenario.setupCosts }
     ];
     
     const summaryComparisonData = [
       { name: 'Revenue', baseline: totals.baseline.totalRevenue, scenario: totals.scenario.totalRevenue },
-      { name: 'Costs', baseline: totals.baseline.totalCost, scenario: totals.scenario.totalCost },
+      { name: 'Costs', baseline: totals.baseline.totalCosts, scenario: totals.scenario.totalCosts },
       { name: 'Profit', baseline: totals.baseline.profit, scenario: totals.scenario.profit },
       { name: 'Attendance', baseline: totals.baseline.footTraffic, scenario: totals.scenario.footTraffic, isCount: true }
     ];
@@ -781,7 +677,7 @@ export default function ProductBasedScenarioModeling() {
                   <div className="flex justify-between items-center">
                     <CardTitle className="text-2xl">{activeScenario.name}</CardTitle>
                     <div className="text-sm text-gray-500">
-                      Last modified: {new Date(activeScenario.lastModified).toLocaleString()}
+                      Last modified: {toDate(activeScenario.updatedAt)?.toLocaleString() || 'Never'}
                     </div>
                   </div>
                   <CardDescription>{activeScenario.description}</CardDescription>
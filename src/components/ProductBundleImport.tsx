@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Upload, Loader2, AlertTriangle } from 'lucide-react';
+import useStore from '../store/useStore';
+import { useNotifications } from '../contexts/NotificationContext';
+import { formatDate } from '../lib/utils';
+import { BundleValidationError, getErrorMessage } from '../lib/errorHandling';
+import * as db from '../lib/database';
+import {
+  BUNDLE_IMPORT_MODES,
+  BUNDLE_IMPORT_MODE_LABELS,
+  copyBundleEntry,
+  importBundledApiConfigs,
+  mergeBundleEntry,
+  parseProductBundle
+} from '../lib/productBundle';
+import type { BundleImportMode, ProductBundle, ProductBundleEntry } from '../lib/productBundle';
+import type { Product } from '../types';
+
+interface ProductBundleImportProps {
+  onClose: () => void;
+}
+
+const countLabel = (count: number, singular: string, plural = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+/**
+ * Import products from a bundle file, choosing for each product already in the
+ * app whether to merge the bundle into it or add the bundle's copy alongside
+ */
+const ProductBundleImport = ({ onClose }: ProductBundleImportProps) => {
+  const { products, importProducts } = useStore();
+  const { addNotification } = useNotifications();
+
+  const [fileName, setFileName] = useState('');
+  const [bundle, setBundle] = useState<ProductBundle | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [modes, setModes] = useState<Record<number, BundleImportMode>>({});
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const findExisting = (entry: ProductBundleEntry): Product | undefined =>
+    products.find(product => product.info.id === entry.product.info.id);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setIssues([]);
+    setBundle(null);
+    try {
+      const parsed = parseProductBundle(await file.text());
+      setFileName(file.name);
+      setBundle(parsed);
+      setModes({});
+    } catch (err) {
+      console.error('Error reading product bundle:', err);
+      setIssues(err instanceof BundleValidationError ? err.issues : [getErrorMessage(err)]);
+    } finally {
+      setIsReading(false);
+      event.target.value = '';
+    }
+  };
+
+  // Products the bundle adds or merges into, and the KPIs to save against each
+  const prepareImport = (entries: ProductBundleEntry[]) => {
+    const takenNames = products.map(product => product.info.name);
+
+    return entries.map((entry, index) => {
+      const existing = findExisting(entry);
+      if (!existing) return { entry, mode: null, existing };
+
+      const mode = modes[index] || 'copy';
+      if (mode === 'merge') {
+        return { entry: { ...entry, product: mergeBundleEntry(existing, entry) }, mode, existing };
+      }
+
+      const copy = copyBundleEntry(entry, takenNames);
+      takenNames.push(copy.product.info.name);
+      return { entry: copy, mode, existing };
+    });
+  };
+
+  const handleImport = async () => {
+    if (!bundle) return;
+
+    setIsImporting(true);
+    try {
+      const prepared = prepareImport(bundle.products);
+      importProducts(prepared.map(({ entry }) => entry.product));
+
+      // KPIs live apart from the product; merged products update the ones they share by id
+      await Promise.all(prepared.map(async ({ entry, mode }) => {
+        const productId = entry.product.info.id;
+        const existingKpiIds = mode === 'merge'
+          ? new Set((await db.getMarketingKPIs(productId)).map(kpi => kpi.id))
+          : new Set<string>();
+        for (const kpi of entry.marketingKpis) {
+          if (existingKpiIds.has(kpi.id)) {
+            await db.updateMarketingKPI(productId, kpi.id, { ...kpi, productId });
+          } else {
+            await db.addMarketingKPI(productId, { ...kpi, productId });
+          }
+        }
+      }));
+
+      const addedPlatforms = importBundledApiConfigs(bundle.apiConfigs);
+      addNotification({
+        type: 'success',
+        message: `Imported ${countLabel(prepared.length, 'product')} from ${fileName}` +
+          (addedPlatforms.length > 0
+            ? `; added ${countLabel(addedPlatforms.length, 'marketing API connection')}, which need an API key before they can be switched on`
+            : '')
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error importing product bundle:', err);
+      setIssues([getErrorMessage(err)]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const describeContents = ({ product, marketingKpis }: ProductBundleEntry) => [
+    countLabel((product.scenarios || []).length, 'scenario'),
+    countLabel((product.actuals || []).length, 'actuals entry', 'actuals entries'),
+    countLabel((product.risks || []).length, 'risk'),
+    countLabel((product.forecastSnapshots || []).length, 'snapshot'),
+    countLabel(marketingKpis.length, 'KPI')
+  ].join(' · ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Product Bundle</CardTitle>
+        <CardDescription>
+          Bring in products exported from this app, with their scenarios, risks, seasonality, actuals and marketing KPIs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-md p-6 cursor-pointer hover:bg-gray-50">
+          {isReading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400 mb-2" />
+          ) : (
+            <Upload className="h-8 w-8 text-gray-400 mb-2" />
+          )}
+          <span className="text-sm font-medium">{fileName && bundle ? fileName : 'Choose a product bundle (.json)'}</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+            disabled={isReading || isImporting}
+          />
+        </label>
+
+        {issues.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {issues.map(issue => (
+              <p key={issue} className="flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" /> {issue}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {bundle && (
+          <>
+            <p className="text-xs text-gray-500">
+              Exported {formatDate(bundle.exportedAt)} · {countLabel(bundle.products.length, 'product')}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Contents</TableHead>
+                  <TableHead>Import</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bundle.products.map((entry, index) => {
+                  const existing = findExisting(entry);
+                  return (
+                    <TableRow key={`${entry.product.info.id}-${index}`}>
+                      <TableCell>
+                        <div className="font-medium">{entry.product.info.name}</div>
+                        <div className="text-xs text-gray-500">{entry.product.info.type}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-600">{describeContents(entry)}</TableCell>
+                      <TableCell>
+                        {existing ? (
+                          <select
+                            className="p-2 border rounded text-sm"
+                            value={modes[index] || 'copy'}
+                            onChange={(e) => setModes({ ...modes, [index]: e.target.value as BundleImportMode })}
+                          >
+                            {BUNDLE_IMPORT_MODES.map(mode => (
+                              <option key={mode} value={mode}>
+                                {mode === 'merge' ? `Merge into "${existing.info.name}"` : BUNDLE_IMPORT_MODE_LABELS[mode]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-600">New product</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {Object.keys(bundle.apiConfigs).length > 0 && (
+              <p className="text-xs text-gray-500">
+                The bundle also holds {countLabel(Object.keys(bundle.apiConfigs).length, 'marketing API connection')}.
+                Platforms not connected here yet are added, switched off and without an API key.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onClose} disabled={isImporting}>Cancel</Button>
+        <Button onClick={handleImport} disabled={!bundle || isImporting}>
+          {isImporting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Import {bundle ? countLabel(bundle.products.length, 'Product') : 'Products'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ProductBundleImport;
@@ -13,7 +13,13 @@ import {
   BarChart2, 
   ChevronDown,
   Award,
-  FileText
+  FileText,
+  Save,
+  Edit,
+  Dices,
+  ArrowUpDown,
+  Target,
+  GitCompare
 } from 'lucide-react';
 import { Spinner } from './ui/spinner';
 import { Breadcrumbs } from './ui/breadcrumb';
@@ -21,6 +27,7 @@ import { RecentlyViewed } from './ui/recently-viewed';
 import { QuickJump } from './ui/quick-jump';
 import { SetupWizard } from './ui/setup-wizard';
 import ProductHeader from './ProductHeader';
+import SaveProductTemplate from './SaveProductTemplate';
 import ExecutiveDashboard from './ExecutiveDashboard';
 import ForecastRevenue from './ForecastRevenue';
 import ForecastCosts from './ForecastCosts';
@@ -32,6 +39,7 @@ import ActualsTracker from './ActualsTracker';
 import SeasonalAnalysis from './SeasonalAnalysis';
 import ProductScenario from './ProductScenario';
 import ScenarioModeling from './ScenarioModeling';
+import type { ScenarioView } from './ScenarioModeling';
 import RiskMatrix from './RiskMatrix';
 import MarketingAnalytics from './MarketingAnalytics';
 import MarketingApiIntegration from './MarketingApiIntegration';
@@ -45,7 +53,6 @@ import {
   exportToJSON, 
   exportFinancialData,
   exportWeeklyProjections,
-  exportActualMetrics,
   exportRevenueBreakdown,
   exportCostAnalysis,
   exportVarianceAnalysis,
@@ -57,8 +64,10 @@ export default function ProductDashboard() {
   const navigate = useNavigate();
   const { products, setCurrentProduct } = useStore();
   const [isExporting, setIsExporting] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
   const [exportType, setExportType] = useState<ReportType>('financial');
   const [marketingTab, setMarketingTab] = useState<'analytics' | 'api' | 'budget' | 'kpi'>('analytics');
+  const [scenarioTab, setScenarioTab] = useState<'editor' | ScenarioView>('editor');
   const [activeTab, setActiveTab] = useState('dashboard'); // Track the active tab
   const product = products.find(p => p.info.id === id);
   const [dropdownOpen, setDropdownOpen] = useState(false);
@@ -157,6 +166,14 @@ export default function ProductDashboard() {
     }
   };
 
+  // Render the scenario content based on the selected scenario tab
+  const renderScenarioContent = () => {
+    if (scenarioTab === 'editor') {
+      return <ProductScenario />;
+    }
+    return <ScenarioModeling view={scenarioTab} />;
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
@@ -175,32 +192,45 @@ export default function ProductDashboard() {
               Back
             </Button>
             
-            {/* Export dropdown button */}
-            <div className="relative dropdown-container">
-              <Button 
-                disabled={isExporting}
-                className="flex items-center"
-                onClick={() => setDropdownOpen(!dropdownOpen)}
-              >
-                {isExporting ? (
-                  <Spinner className="h-4 w-4 mr-2" />
-                ) : (
-                  <Download className="h-4 w-4 mr-2" />
-                )}
-                {isExporting ? 'Exporting...' : 'Export Data'}
-                <ChevronDown className="h-4 w-4 ml-2" />
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setShowSaveTemplate(true)}>
+                <Save className="h-4 w-4 mr-2" />
+                Save as Template
               </Button>
+
+              {/* Export dropdown button */}
+              <div className="relative dropdown-container">
+                <Button 
+                  disabled={isExporting}
+                  className="flex items-center"
+                  onClick={() => setDropdownOpen(!dropdownOpen)}
+                >
+                  {isExporting ? (
+                    <Spinner className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  {isExporting ? 'Exporting...' : 'Export Data'}
+                  <ChevronDown className="h-4 w-4 ml-2" />
+                </Button>
               
-              {dropdownOpen && (
-                <div className="absolute right-0 z-50 mt-2 w-64 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5">
-                  <div className="py-1" role="menu" aria-orientation="vertical">
-                    {/* Dropdown content (PDF, Excel, JSON options) */}
+                {dropdownOpen && (
+                  <div className="absolute right-0 z-50 mt-2 w-64 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5">
+                    <div className="py-1" role="menu" aria-orientation="vertical">
+                      {/* Dropdown content (PDF, Excel, JSON options) */}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
 
+          {showSaveTemplate && (
+            <div className="mb-4">
+              <SaveProductTemplate product={product} onClose={() => setShowSaveTemplate(false)} />
+            </div>
+          )}
+
           {/* Product header */}
           <ProductHeader info={product.info} />
         </header>
@@ -310,7 +340,42 @@ export default function ProductDashboard() {
               </TabsContent>
               
               <TabsContent value="scenarios">
-                <ProductScenario />
+                <div className="space-y-4">
+                  <Tabs value={scenarioTab} onValueChange={(value) => setScenarioTab(value as 'editor' | ScenarioView)} className="w-full">
+                    <TabsList className="mb-4">
+                      <TabsTrigger value="editor">
+                        <Edit className="h-4 w-4 mr-2" />
+                        Editor
+                      </TabsTrigger>
+                      <TabsTrigger value="overview">
+                        <PieChart className="h-4 w-4 mr-2" />
+                        Scenarios
+                      </TabsTrigger>
+                      <TabsTrigger value="comparison">
+                        <BarChart className="h-4 w-4 mr-2" />
+                        Comparison
+                      </TabsTrigger>
+                      <TabsTrigger value="diff">
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Diff
+                      </TabsTrigger>
+                      <TabsTrigger value="simulation">
+                        <Dices className="h-4 w-4 mr-2" />
+                        Simulation
+                      </TabsTrigger>
+                      <TabsTrigger value="sensitivity">
+                        <ArrowUpDown className="h-4 w-4 mr-2" />
+                        Sensitivity
+                      </TabsTrigger>
+                      <TabsTrigger value="goalSeek">
+                        <Target className="h-4 w-4 mr-2" />
+                        Goal Seek
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  
+                  {renderScenarioContent()}
+                </div>
               </TabsContent>
 
               <TabsContent value="risk">
@@ -5,7 +5,9 @@ import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Upload, X, Check } from 'lucide-react';
-import type { ProductInfo } from '../types';
+import { CURRENCIES } from '../types';
+import type { Currency, ProductInfo } from '../types';
+import { CURRENCY_LABELS, getProductCurrency } from '../lib/currency';
 import useStore from '../store/useStore';
 import UserProfile from './UserProfile';
 
@@ -60,7 +62,7 @@ export default function ProductHeader({ info }: ProductHeaderProps) {
                 )}
                 <div>
                   <h1 className="text-2xl font-bold">{info.name}</h1>
-                  <p className="text-gray-500 mt-1">{info.type}</p>
+                  <p className="text-gray-500 mt-1">{info.type} · {getProductCurrency(info)}</p>
                 </div>
               </div>
               <Button variant="outline" onClick={() => setIsEditing(true)}>Edit Details</Button>
@@ -134,6 +136,22 @@ export default function ProductHeader({ info }: ProductHeaderProps) {
                     </Select>
                   </div>
 
+                  <div>
+                    <Select
+                      value={getProductCurrency(editedInfo)}
+                      onValueChange={(value) => setEditedInfo(prev => ({ ...prev, currency: value as Currency }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select currency" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <Textarea
                       value={editedInfo.description || ''}
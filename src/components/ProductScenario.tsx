@@ -15,20 +15,31 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import useStore from '../store/useStore';
-import { Product, ScenarioModel, WeeklyProjection } from '../types';
+import { Product, WeeklyProjection } from '../types';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, 
   Tooltip, Legend, ResponsiveContainer, Bar, BarChart
 } from 'recharts';
 import { exportScenarioComparison } from '../lib/exportUtils';
 import { downloadFile } from '../lib/exportUtils';
-import { v4 as uuidv4 } from 'uuid';
-
-const DEFAULT_MODIFIER_VALUE = 0; // 0% change
+import { toModelInputs } from '../lib/modelInputs';
+import { runProjection } from '../lib/projectionEngine';
+import { runScenario, getScenarioOutcome, getLeverPercent, setLeverPercent } from '../lib/scenarioEngine';
+import type { ScenarioLever } from '../lib/scenarioEngine';
+import { buildScenarioTree, flattenScenarioTree } from '../lib/scenarioDiff';
+import { toDate } from '../lib/seasonality';
 
 const ProductScenario = () => {
   const { id: productIdFromRoute } = useParams<{ id: string }>();
-  const { products, scenarios, addScenarioModel, updateScenarioModel, deleteScenarioModel, getScenariosByProduct, currentProductId } = useStore();
+  const {
+    products,
+    addScenario,
+    updateScenario,
+    deleteScenario: removeScenario,
+    promoteScenario,
+    undoBaselinePromotion,
+    currentProductId
+  } = useStore();
   
   // Use the product ID from route params if available, otherwise fall back to currentProductId from store
   const [selectedProductId, setSelectedProductId] = useState<string | null>(
@@ -50,9 +61,7 @@ const ProductScenario = () => {
   }, [productIdFromRoute, currentProductId, selectedProductId]);
   
   // Get the selected product's scenarios
-  const productScenarios = selectedProductId 
-    ? getScenariosByProduct(selectedProductId) 
-    : [];
+  const productScenarios = products.find(p => p.info.id === selectedProductId)?.scenarios || [];
   
   // Get the active scenario
   const activeScenario = activeScenarioId 
@@ -66,100 +75,58 @@ const ProductScenario = () => {
       setSelectedProduct(product || null);
       
       // Set first scenario as active if available
-      const productScenarios = getScenariosByProduct(selectedProductId);
+      const productScenarios = product?.scenarios || [];
       if (productScenarios.length > 0 && !activeScenarioId) {
         setActiveScenarioId(productScenarios[0].id);
-      } else if (productScenarios.length === 0) {
+      } else if (product && productScenarios.length === 0) {
         // If no scenarios exist, create a default one
         createDefaultScenario(selectedProductId);
       }
     }
-  }, [selectedProductId, products, getScenariosByProduct, activeScenarioId]);
+  }, [selectedProductId, products, activeScenarioId]);
   
   // Create a default scenario for a product
   const createDefaultScenario = (productId: string) => {
-    const newScenario: ScenarioModel = {
-      id: uuidv4(),
+    const scenarioId = addScenario(productId, {
       name: 'Default Scenario',
       productId,
       description: 'A default scenario based on product baseline',
-      modifiers: {
-        revenue: {
-          ticketRevenue: DEFAULT_MODIFIER_VALUE,
-          fbRevenue: DEFAULT_MODIFIER_VALUE,
-          merchandiseRevenue: DEFAULT_MODIFIER_VALUE,
-          digitalRevenue: DEFAULT_MODIFIER_VALUE,
-        },
-        costs: {
-          marketingCost: DEFAULT_MODIFIER_VALUE,
-          staffingCost: DEFAULT_MODIFIER_VALUE,
-          eventCost: DEFAULT_MODIFIER_VALUE,
-          setupCost: DEFAULT_MODIFIER_VALUE,
-        },
-        attendance: DEFAULT_MODIFIER_VALUE
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    addScenarioModel(newScenario);
-    setActiveScenarioId(newScenario.id);
+      type: 'Custom',
+      overrides: []
+    });
+    setActiveScenarioId(scenarioId);
   };
   
   // Create a new scenario
   const createNewScenario = () => {
     if (selectedProductId) {
-      const newScenarioName = `Scenario ${productScenarios.length + 1}`;
-      
-      const newScenario: ScenarioModel = {
-        id: uuidv4(),
-        name: newScenarioName,
+      const scenarioId = addScenario(selectedProductId, {
+        name: `Scenario ${productScenarios.length + 1}`,
         productId: selectedProductId,
         description: 'New scenario based on product baseline',
-        modifiers: {
-          revenue: {
-            ticketRevenue: DEFAULT_MODIFIER_VALUE,
-            fbRevenue: DEFAULT_MODIFIER_VALUE,
-            merchandiseRevenue: DEFAULT_MODIFIER_VALUE,
-            digitalRevenue: DEFAULT_MODIFIER_VALUE,
-          },
-          costs: {
-            marketingCost: DEFAULT_MODIFIER_VALUE,
-            staffingCost: DEFAULT_MODIFIER_VALUE,
-            eventCost: DEFAULT_MODIFIER_VALUE,
-            setupCost: DEFAULT_MODIFIER_VALUE,
-          },
-          attendance: DEFAULT_MODIFIER_VALUE
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      
-      addScenarioModel(newScenario);
-      setActiveScenarioId(newScenario.id);
+        type: 'Custom',
+        overrides: []
+      });
+      setActiveScenarioId(scenarioId);
     }
   };
   
   // Duplicate active scenario
   const duplicateScenario = () => {
     if (activeScenario && selectedProductId) {
-      const duplicatedScenario: ScenarioModel = {
+      const scenarioId = addScenario(selectedProductId, {
         ...activeScenario,
-        id: uuidv4(),
         name: `${activeScenario.name} (Copy)`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      
-      addScenarioModel(duplicatedScenario);
-      setActiveScenarioId(duplicatedScenario.id);
+        parentId: activeScenario.id
+      });
+      setActiveScenarioId(scenarioId);
     }
   };
   
   // Delete active scenario
   const deleteScenario = () => {
-    if (activeScenarioId) {
-      deleteScenarioModel(activeScenarioId);
+    if (activeScenarioId && selectedProductId) {
+      removeScenario(selectedProductId, activeScenarioId);
       
       // Set first available scenario as active
       if (productScenarios.length > 1) {
@@ -167,7 +134,7 @@ const ProductScenario = () => {
         setActiveScenarioId(remainingScenarios[0].id);
       } else {
         // If no scenarios left, create a default one
-        createDefaultScenario(selectedProductId as string);
+        createDefaultScenario(selectedProductId);
       }
     }
   };
@@ -182,86 +149,44 @@ const ProductScenario = () => {
   
   // Save scenario name
   const saveScenarioName = () => {
-    if (activeScenario && newScenarioName.trim() !== '') {
-      updateScenarioModel({
-        ...activeScenario,
-        name: newScenarioName.trim(),
-        updatedAt: new Date().toISOString(),
-      });
+    if (activeScenario && selectedProductId && newScenarioName.trim() !== '') {
+      updateScenario(selectedProductId, activeScenario.id, { name: newScenarioName.trim() });
       setIsEditingName(false);
     }
   };
   
-  // Update scenario modifier
-  const updateModifier = (
-    category: 'revenue' | 'costs' | 'attendance',
-    type: string | null,
-    value: number
-  ) => {
-    if (activeScenario) {
-      const updatedScenario = { ...activeScenario };
-      
-      if (category === 'revenue' && type) {
-        updatedScenario.modifiers.revenue[type as keyof typeof updatedScenario.modifiers.revenue] = value;
-      } else if (category === 'costs' && type) {
-        updatedScenario.modifiers.costs[type as keyof typeof updatedScenario.modifiers.costs] = value;
-      } else if (category === 'attendance') {
-        updatedScenario.modifiers.attendance = value;
-      }
-      
-      updatedScenario.updatedAt = new Date().toISOString();
-      updateScenarioModel(updatedScenario);
+  // Forecast inputs for the selected product, which scenarios override
+  const modelInputs = selectedProduct
+    ? toModelInputs(
+        selectedProduct.info,
+        selectedProduct.growthMetrics,
+        selectedProduct.revenueMetrics,
+        selectedProduct.costMetrics,
+        selectedProduct
+      )
+    : null;
+  
+  // Set a lever's percentage change and store the resulting totals on the scenario
+  const updateModifier = (lever: ScenarioLever, value: number) => {
+    if (activeScenario && selectedProductId && modelInputs) {
+      const overrides = setLeverPercent(activeScenario.overrides, lever, value);
+      updateScenario(selectedProductId, activeScenario.id, {
+        overrides,
+        ...getScenarioOutcome(modelInputs, { overrides })
+      });
     }
   };
   
-  // Apply modifiers to generate projections
+  // Run the baseline and the scenario through the projection engine
   const generateProjectedData = (): { baseline: WeeklyProjection[], scenario: WeeklyProjection[] } => {
-    if (!selectedProduct || !activeScenario) {
+    if (!modelInputs || !activeScenario) {
       return { baseline: [], scenario: [] };
     }
     
-    // Get baseline projections
-    const baseline = selectedProduct.weeklyProjections || [];
-    
-    // Generate scenario projections with modifiers applied
-    const scenario = baseline.map(week => {
-      const modifiers = activeScenario.modifiers;
-      
-      // Apply revenue modifiers
-      const ticketRevenue = week.ticketRevenue * (1 + modifiers.revenue.ticketRevenue / 100);
-      const fbRevenue = week.fbRevenue * (1 + modifiers.revenue.fbRevenue / 100);
-      const merchandiseRevenue = week.merchandiseRevenue * (1 + modifiers.revenue.merchandiseRevenue / 100);
-      const digitalRevenue = week.digitalRevenue * (1 + modifiers.revenue.digitalRevenue / 100);
-      
-      // Apply cost modifiers
-      const marketingCosts = week.marketingCosts * (1 + modifiers.costs.marketingCost / 100);
-      const staffingCosts = week.staffingCosts * (1 + modifiers.costs.staffingCost / 100);
-      const eventCosts = week.eventCosts * (1 + modifiers.costs.eventCost / 100);
-      const setupCosts = week.setupCosts * (1 + modifiers.costs.setupCost / 100);
-      
-      // Apply attendance modifier
-      const footTraffic = week.footTraffic * (1 + modifiers.attendance / 100);
-      
-      return {
-        ...week,
-        ticketRevenue: ticketRevenue,
-        fbRevenue: fbRevenue,
-        merchandiseRevenue: merchandiseRevenue,
-        digitalRevenue: digitalRevenue,
-        marketingCosts: marketingCosts,
-        staffingCosts: staffingCosts,
-        eventCosts: eventCosts,
-        setupCosts: setupCosts,
-        footTraffic: footTraffic,
-        // Recalculate totals
-        totalRevenue: ticketRevenue + fbRevenue + merchandiseRevenue + digitalRevenue,
-        totalCosts: marketingCosts + staffingCosts + eventCosts + setupCosts,
-        weeklyProfit: (ticketRevenue + fbRevenue + merchandiseRevenue + digitalRevenue) - 
-                     (marketingCosts + staffingCosts + eventCosts + setupCosts)
-      };
-    });
-    
-    return { baseline, scenario };
+    return {
+      baseline: runProjection(modelInputs).projections,
+      scenario: runScenario(modelInputs, activeScenario).projections
+    };
   };
   
   // Generate chart data
@@ -409,14 +334,15 @@ const ProductScenario = () => {
   // Render the scenario list
   const renderScenarioList = () => (
     <div className="space-y-2 mb-4">
-      {productScenarios.map(scenario => (
+      {flattenScenarioTree(buildScenarioTree(productScenarios)).map(({ scenario, depth }) => (
         <Button 
           key={scenario.id}
           variant={scenario.id === activeScenarioId ? "default" : "outline"} 
           className="w-full justify-between"
+          style={{ paddingLeft: `${1 + depth * 1.25}rem` }}
           onClick={() => setActiveScenarioId(scenario.id)}
         >
-          <span>{scenario.name}</span>
+          <span>{depth > 0 && '↳ '}{scenario.name}</span>
           {scenario.id === activeScenarioId && (
             <span className="rounded-full bg-primary-foreground h-2 w-2"></span>
           )}
@@ -436,60 +362,60 @@ const ProductScenario = () => {
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="ticket-revenue">Ticket Revenue</Label>
-              <span>{activeScenario?.modifiers.revenue.ticketRevenue}%</span>
+              <span>{getLeverPercent(activeScenario, 'ticketRevenue')}%</span>
             </div>
             <Slider 
               id="ticket-revenue"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.revenue.ticketRevenue || 0]}
-              onValueChange={(value: number[]) => updateModifier('revenue', 'ticketRevenue', value[0])}
+              value={[getLeverPercent(activeScenario, 'ticketRevenue')]}
+              onValueChange={(value: number[]) => updateModifier('ticketRevenue', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="fb-revenue">F&B Revenue</Label>
-              <span>{activeScenario?.modifiers.revenue.fbRevenue}%</span>
+              <span>{getLeverPercent(activeScenario, 'fbRevenue')}%</span>
             </div>
             <Slider 
               id="fb-revenue"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.revenue.fbRevenue || 0]}
-              onValueChange={(value: number[]) => updateModifier('revenue', 'fbRevenue', value[0])}
+              value={[getLeverPercent(activeScenario, 'fbRevenue')]}
+              onValueChange={(value: number[]) => updateModifier('fbRevenue', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="merch-revenue">Merchandise Revenue</Label>
-              <span>{activeScenario?.modifiers.revenue.merchandiseRevenue}%</span>
+              <span>{getLeverPercent(activeScenario, 'merchandiseRevenue')}%</span>
             </div>
             <Slider 
               id="merch-revenue"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.revenue.merchandiseRevenue || 0]}
-              onValueChange={(value: number[]) => updateModifier('revenue', 'merchandiseRevenue', value[0])}
+              value={[getLeverPercent(activeScenario, 'merchandiseRevenue')]}
+              onValueChange={(value: number[]) => updateModifier('merchandiseRevenue', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="digital-revenue">Digital Revenue</Label>
-              <span>{activeScenario?.modifiers.revenue.digitalRevenue}%</span>
+              <span>{getLeverPercent(activeScenario, 'digitalRevenue')}%</span>
             </div>
             <Slider 
               id="digital-revenue"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.revenue.digitalRevenue || 0]}
-              onValueChange={(value: number[]) => updateModifier('revenue', 'digitalRevenue', value[0])}
+              value={[getLeverPercent(activeScenario, 'digitalRevenue')]}
+              onValueChange={(value: number[]) => updateModifier('digitalRevenue', value[0])}
             />
           </div>
         </div>
@@ -508,60 +434,60 @@ const ProductScenario = () => {
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="marketing-cost">Marketing</Label>
-              <span>{activeScenario?.modifiers.costs.marketingCost}%</span>
+              <span>{getLeverPercent(activeScenario, 'marketingCost')}%</span>
             </div>
             <Slider 
               id="marketing-cost"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.costs.marketingCost || 0]}
-              onValueChange={(value: number[]) => updateModifier('costs', 'marketingCost', value[0])}
+              value={[getLeverPercent(activeScenario, 'marketingCost')]}
+              onValueChange={(value: number[]) => updateModifier('marketingCost', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="staffing-cost">Staffing</Label>
-              <span>{activeScenario?.modifiers.costs.staffingCost}%</span>
+              <span>{getLeverPercent(activeScenario, 'staffingCost')}%</span>
             </div>
             <Slider 
               id="staffing-cost"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.costs.staffingCost || 0]}
-              onValueChange={(value: number[]) => updateModifier('costs', 'staffingCost', value[0])}
+              value={[getLeverPercent(activeScenario, 'staffingCost')]}
+              onValueChange={(value: number[]) => updateModifier('staffingCost', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="event-cost">Event</Label>
-              <span>{activeScenario?.modifiers.costs.eventCost}%</span>
+              <span>{getLeverPercent(activeScenario, 'eventCost')}%</span>
             </div>
             <Slider 
               id="event-cost"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.costs.eventCost || 0]}
-              onValueChange={(value: number[]) => updateModifier('costs', 'eventCost', value[0])}
+              value={[getLeverPercent(activeScenario, 'eventCost')]}
+              onValueChange={(value: number[]) => updateModifier('eventCost', value[0])}
             />
           </div>
           
           <div className="space-y-2">
             <div className="flex justify-between">
               <Label htmlFor="setup-cost">Setup</Label>
-              <span>{activeScenario?.modifiers.costs.setupCost}%</span>
+              <span>{getLeverPercent(activeScenario, 'setupCost')}%</span>
             </div>
             <Slider 
               id="setup-cost"
               min={-100}
               max={100}
               step={1}
-              value={[activeScenario?.modifiers.costs.setupCost || 0]}
-              onValueChange={(value: number[]) => updateModifier('costs', 'setupCost', value[0])}
+              value={[getLeverPercent(activeScenario, 'setupCost')]}
+              onValueChange={(value: number[]) => updateModifier('setupCost', value[0])}
             />
           </div>
         </div>
@@ -579,15 +505,15 @@ const ProductScenario = () => {
         <div className="space-y-2">
           <div className="flex justify-between">
             <Label htmlFor="foot-traffic">Foot Traffic</Label>
-            <span>{activeScenario?.modifiers.attendance}%</span>
+            <span>{getLeverPercent(activeScenario, 'attendance')}%</span>
           </div>
           <Slider 
             id="foot-traffic"
             min={-100}
             max={100}
             step={1}
-            value={[activeScenario?.modifiers.attendance || 0]}
-            onValueChange={(value: number[]) => updateModifier('attendance', null, value[0])}
+            value={[getLeverPercent(activeScenario, 'attendance')]}
+            onValueChange={(value: number[]) => updateModifier('attendance', value[0])}
           />
         </div>
       </CardContent>
@@ -613,6 +539,16 @@ const ProductScenario = () => {
     }).format(value / 100);
   };
   
+  // Replace the product's baseline inputs with the active scenario's
+  const promoteActiveScenario = () => {
+    if (activeScenario && selectedProductId &&
+        window.confirm(`Make "${activeScenario.name}" the baseline? Its overrides will be written into the product's forecast inputs, and other scenarios will apply on top of them. This can be undone.`)) {
+      promoteScenario(selectedProductId, activeScenario.id);
+    }
+  };
+  
+  const lastPromotion = selectedProduct?.baselineHistory?.[selectedProduct.baselineHistory.length - 1];
+  
   // Get summary for display
   const summary = generateChartData().summaryData;
   
@@ -632,6 +568,18 @@ const ProductScenario = () => {
           {/* Only show content if a product is selected */}
           {selectedProductId && (
             <>
+              {lastPromotion && (
+                <div className="mb-6 flex items-center justify-between p-3 border rounded-lg bg-blue-50 text-sm">
+                  <span>
+                    The baseline was replaced by scenario "{lastPromotion.scenarioName}"
+                    {toDate(lastPromotion.promotedAt) ? ` on ${toDate(lastPromotion.promotedAt)?.toLocaleString()}` : ''}.
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => undoBaselinePromotion(selectedProductId)}>
+                    Undo
+                  </Button>
+                </div>
+              )}
+              
               {/* Scenario Navigator */}
               <div className="mb-6 flex items-center space-x-2">
                 <div className="flex-1">
@@ -640,7 +588,10 @@ const ProductScenario = () => {
                 </div>
                 <div className="flex space-x-2 pt-6">
                   <Button onClick={createNewScenario} variant="outline" size="sm">New</Button>
-                  <Button onClick={duplicateScenario} variant="outline" size="sm">Duplicate</Button>
+                  <Button onClick={duplicateScenario} variant="outline" size="sm">Branch</Button>
+                  <Button onClick={promoteActiveScenario} variant="outline" size="sm" disabled={!activeScenario}>
+                    Promote
+                  </Button>
                   <Button 
                     onClick={deleteScenario} 
                     variant="outline" 
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import useStore from '../store/useStore';
+import { useNotifications } from '../contexts/NotificationContext';
+import { createTemplateFromProduct } from '../lib/productTemplates';
+import type { Product } from '../types';
+
+interface SaveProductTemplateProps {
+  product: Product;
+  onClose: () => void;
+}
+
+/**
+ * Save the product's assumptions as a template new products can start from
+ */
+const SaveProductTemplate = ({ product, onClose }: SaveProductTemplateProps) => {
+  const { saveProductTemplate } = useStore();
+  const { addNotification } = useNotifications();
+
+  const [name, setName] = useState(`${product.info.name} template`);
+  const [description, setDescription] = useState(product.info.description || '');
+
+  const costs = product.costMetrics;
+  const contents = [
+    `${costs?.staffRoles?.length || 0} staff roles`,
+    `${costs?.marketing?.channels?.length || 0} marketing channels`,
+    `${(costs?.eventCosts?.length || 0) + (costs?.setupCosts?.length || 0)} cost items`,
+    `${product.risks?.length || 0} risks`
+  ].join(', ');
+
+  const handleSave = () => {
+    saveProductTemplate(createTemplateFromProduct(product, name.trim(), description.trim()));
+    addNotification({
+      type: 'success',
+      message: `Saved "${name.trim()}" to your templates`
+    });
+    onClose();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Save as Template</CardTitle>
+        <CardDescription>
+          Keeps this product's growth, revenue and cost assumptions with {contents}, so new products can start from them.
+          Actuals, scenarios and snapshots stay with the product.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div>
+          <Label htmlFor="templateName">Template Name</Label>
+          <Input
+            id="templateName"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            placeholder="Enter template name"
+          />
+        </div>
+        <div>
+          <Label htmlFor="templateDescription">Description</Label>
+          <Textarea
+            id="templateDescription"
+            value={description}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
+            placeholder="What kind of product is this template for?"
+            className="h-20"
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} disabled={!name.trim()}>Save Template</Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default SaveProductTemplate;
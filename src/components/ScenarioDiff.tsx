@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { GitBranch } from 'lucide-react';
+import useStore from '../store/useStore';
+import type { Scenario } from '../types';
+import { formatCurrency, formatBreakEvenWeek } from '../lib/utils';
+import { toModelInputs } from '../lib/modelInputs';
+import { diffScenarios, buildScenarioTree, flattenScenarioTree, getScenarioAncestors } from '../lib/scenarioDiff';
+import type { OutcomeDiff } from '../lib/scenarioDiff';
+
+const BASELINE_ID = 'baseline';
+
+const formatInputValue = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+function formatOutcome(key: OutcomeDiff['key'], value: number | null): string {
+  if (key === 'breakEvenWeek') return formatBreakEvenWeek(value);
+  if (key === 'footTraffic') return Math.round(value || 0).toLocaleString();
+  return formatCurrency(value || 0);
+}
+
+function formatChange(left: number, right: number, format: (value: number) => string = formatInputValue): string {
+  const change = right - left;
+  const sign = change >= 0 ? '+' : '';
+  const percent = left !== 0 ? ` (${sign}${((change / Math.abs(left)) * 100).toFixed(1)}%)` : '';
+  return `${sign}${format(change)}${percent}`;
+}
+
+export default function ScenarioDiff() {
+  const { products, currentProductId } = useStore();
+  const currentProduct = products.find(p => p.info.id === currentProductId);
+
+  const [leftId, setLeftId] = useState(BASELINE_ID);
+  const [rightId, setRightId] = useState<string | null>(null);
+
+  if (!currentProduct) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No product selected or product not found.
+      </div>
+    );
+  }
+
+  const scenarios = currentProduct.scenarios || [];
+  const modelInputs = toModelInputs(
+    currentProduct.info,
+    currentProduct.growthMetrics,
+    currentProduct.revenueMetrics,
+    currentProduct.costMetrics,
+    currentProduct
+  );
+
+  // Default to comparing the first scenario against the baseline
+  const selectedRightId = rightId ?? scenarios[0]?.id ?? BASELINE_ID;
+  const findScenario = (id: string): Scenario | null => scenarios.find(s => s.id === id) || null;
+  const getSideName = (id: string) => findScenario(id)?.name || 'Baseline';
+
+  const diff = diffScenarios(modelInputs, findScenario(leftId), findScenario(selectedRightId));
+  const tree = flattenScenarioTree(buildScenarioTree(scenarios));
+
+  const renderSideSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select scenario" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BASELINE_ID}>Baseline</SelectItem>
+          {scenarios.map(scenario => (
+            <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderLineage = (id: string) => {
+    const ancestors = getScenarioAncestors(scenarios, id);
+    if (ancestors.length === 0) return null;
+
+    return (
+      <p className="text-sm text-muted-foreground">
+        {getSideName(id)} was branched from {ancestors.map(ancestor => ancestor.name).join(' ← ')}
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scenario Diff</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 text-sm text-muted-foreground">
+            Compare the inputs and outcomes of any two scenarios, or of a scenario and the live baseline.
+          </div>
+          <div className="grid gap-4 md:grid-cols-2 mb-4">
+            {renderSideSelect('diff-left', leftId, setLeftId, 'Compare')}
+            {renderSideSelect('diff-right', selectedRightId, setRightId, 'With')}
+          </div>
+          <div className="space-y-1 mb-4">
+            {renderLineage(leftId)}
+            {renderLineage(selectedRightId)}
+          </div>
+
+          <h4 className="font-medium mb-2">Inputs</h4>
+          {diff.drivers.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Input</TableHead>
+                  <TableHead>{getSideName(leftId)}</TableHead>
+                  <TableHead>{getSideName(selectedRightId)}</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.drivers.map(driver => (
+                  <TableRow key={driver.key}>
+                    <TableCell className="font-medium">{driver.label}</TableCell>
+                    <TableCell>{formatInputValue(driver.leftValue)}</TableCell>
+                    <TableCell>{formatInputValue(driver.rightValue)}</TableCell>
+                    <TableCell className={driver.rightValue >= driver.leftValue ? 'text-green-600' : 'text-red-600'}>
+                      {formatChange(driver.leftValue, driver.rightValue)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No input differences.</p>
+          )}
+          {diff.unknownDrivers.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-2">
+              Overrides on unknown inputs are ignored: {diff.unknownDrivers.join(', ')}
+            </p>
+          )}
+
+          <h4 className="font-medium mt-6 mb-2">Outcomes</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead>{getSideName(leftId)}</TableHead>
+                <TableHead>{getSideName(selectedRightId)}</TableHead>
+                <TableHead>Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.outcomes.map(outcome => (
+                <TableRow key={outcome.key}>
+                  <TableCell className="font-medium">{outcome.label}</TableCell>
+                  <TableCell>{formatOutcome(outcome.key, outcome.leftValue)}</TableCell>
+                  <TableCell>{formatOutcome(outcome.key, outcome.rightValue)}</TableCell>
+                  <TableCell>
+                    {outcome.leftValue !== null && outcome.rightValue !== null
+                      ? formatChange(
+                          outcome.leftValue,
+                          outcome.rightValue,
+                          outcome.key === 'totalRevenue' || outcome.key === 'totalCosts' || outcome.key === 'profit'
+                            ? formatCurrency
+                            : formatInputValue
+                        )
+                      : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scenario Tree</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {tree.length > 0 ? (
+            <div className="space-y-1">
+              {tree.map(({ scenario, depth }) => (
+                <div key={scenario.id} className="flex items-center" style={{ paddingLeft: depth * 24 }}>
+                  {depth > 0 && <GitBranch className="h-4 w-4 mr-2 text-gray-400" />}
+                  <Button
+                    variant={scenario.id === selectedRightId ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => setRightId(scenario.id)}
+                  >
+                    {scenario.name}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No scenarios created yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
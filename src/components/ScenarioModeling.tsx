@@ -6,28 +6,63 @@ import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
-import { PlusCircle, Trash2, Save, PieChart, Edit, ChevronDown, ChevronUp, Plus, Copy, BarChart, ArrowUpDown } from 'lucide-react';
+import { PlusCircle, Trash2, Save, PieChart, Edit, ChevronDown, ChevronUp, Plus, Copy, BarChart, ArrowUpDown, Dices, GitBranch, Undo2, ArrowUpCircle } from 'lucide-react';
 import { Slider } from './ui/slider';
-import { PieChart as RechartsChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { PieChart as RechartsChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid, ComposedChart, Area, Line } from 'recharts';
 import useStore from '../store/useStore';
-import { formatCurrency, formatPercent } from '../lib/utils';
-import type { Scenario, ScenarioParameter, VariableSensitivity } from '../types';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { formatCurrency, formatPercent, formatBreakEvenWeek } from '../lib/utils';
+import { toDate } from '../lib/seasonality';
+import { SENSITIVITY_DISTRIBUTIONS, SCENARIO_TYPES, SCENARIO_OVERRIDE_MODES } from '../types';
+import type { Scenario, ScenarioParameter, ScenarioOverride, ScenarioOverrideMode, VariableSensitivity, SensitivityDistribution } from '../types';
+import { DEFAULT_ITERATIONS, MAX_ITERATIONS } from '../lib/monteCarlo';
+import { MODEL_INPUTS, findModelInput, toModelInputs } from '../lib/modelInputs';
+import { DEFAULT_SENSITIVITY_SWING, getSwingValues, runSensitivityAnalysis } from '../lib/sensitivityAnalysis';
+import { getScenarioOutcome } from '../lib/scenarioEngine';
+import { buildScenarioTree, flattenScenarioTree } from '../lib/scenarioDiff';
+import { useMonteCarlo } from '../hooks/useMonteCarlo';
+import { Progress } from './ui/progress';
+import GoalSeek from './GoalSeek';
+import ScenarioDiff from './ScenarioDiff';
+import { Tabs, TabsContent } from './ui/tabs';
 
 // Colors for the charts
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
-const SCENARIO_TYPES = ['Base Case', 'Best Case', 'Worst Case', 'Custom'] as const;
 
-function ScenarioModelingComponent() {
-  const { products, currentProductId, addScenario, updateScenario, deleteScenario } = useStore();
+const OVERRIDE_MODE_LABELS: Record<ScenarioOverrideMode, string> = {
+  absolute: 'Set to',
+  percent: 'Change by (%)'
+};
+
+export type ScenarioView = 'overview' | 'comparison' | 'diff' | 'sensitivity' | 'simulation' | 'goalSeek';
+
+const SENSITIVITY_SWINGS = [0.1, 0.2, 0.3, 0.5];
+const TORNADO_INPUT_LIMIT = 12;
+
+interface ScenarioModelingProps {
+  // Which analysis to show above the scenario list; picked by the Scenarios tab
+  view?: ScenarioView;
+}
+
+function ScenarioModelingComponent({ view = 'overview' }: ScenarioModelingProps) {
+  const {
+    products,
+    currentProductId,
+    addScenario,
+    updateScenario,
+    deleteScenario,
+    promoteScenario,
+    undoBaselinePromotion
+  } = useStore();
   const currentProduct = products.find(p => p.info.id === currentProductId);
   
-  const [activeView, setActiveView] = useState<'overview' | 'comparison' | 'sensitivity'>('overview');
   const [showNewScenario, setShowNewScenario] = useState(false);
   const [editingScenarioId, setEditingScenarioId] = useState<string | null>(null);
   const [compareScenarioIds, setCompareScenarioIds] = useState<string[]>([]);
   const [showParameterForm, setShowParameterForm] = useState(false);
   const [showSensitivityForm, setShowSensitivityForm] = useState(false);
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
+  const [sensitivitySwing, setSensitivitySwing] = useState(DEFAULT_SENSITIVITY_SWING);
+  const simulation = useMonteCarlo();
   
   const [formData, setFormData] = useState<Partial<Scenario>>({
     name: '',
@@ -39,6 +74,7 @@ function ScenarioModelingComponent() {
     projectedProfit: 0,
     probabilityOfOccurrence: 50, // Default 50%
     riskFactors: [],
+    overrides: [],
     parameters: [],
     sensitivities: [],
     notes: ''
@@ -46,6 +82,11 @@ function ScenarioModelingComponent() {
   
   const [currentAssumption, setCurrentAssumption] = useState('');
   const [currentRiskFactor, setCurrentRiskFactor] = useState('');
+  const [currentOverride, setCurrentOverride] = useState<Partial<ScenarioOverride>>({
+    driver: '',
+    mode: 'percent',
+    value: 0
+  });
   const [currentParameter, setCurrentParameter] = useState<Partial<ScenarioParameter>>({
     name: '',
     baseValue: 0,
@@ -58,7 +99,8 @@ function ScenarioModelingComponent() {
     baseValue: 0,
     lowValue: 0,
     highValue: 0,
-    impact: 'Medium'
+    impact: 'Medium',
+    distribution: 'triangular'
   });
   
   useEffect(() => {
@@ -80,6 +122,17 @@ function ScenarioModelingComponent() {
   }
   
   const scenarios = currentProduct.scenarios || [];
+  const modelInputs = toModelInputs(
+    currentProduct.info,
+    currentProduct.growthMetrics,
+    currentProduct.revenueMetrics,
+    currentProduct.costMetrics,
+    currentProduct
+  );
+  // With overrides set, the projected figures come from the forecast rather than being typed in
+  const overrideOutcome = formData.overrides && formData.overrides.length > 0
+    ? getScenarioOutcome(modelInputs, formData)
+    : null;
   
   const handleInputChange = (field: keyof Scenario, value: any) => {
     setFormData(prev => ({
@@ -124,6 +177,24 @@ function ScenarioModelingComponent() {
     }));
   };
   
+  const handleAddOverride = () => {
+    if (!currentOverride.driver) return;
+    
+    setFormData(prev => ({
+      ...prev,
+      overrides: [...(prev.overrides || []), currentOverride as ScenarioOverride]
+    }));
+    
+    setCurrentOverride({ driver: '', mode: 'percent', value: 0 });
+  };
+  
+  const handleRemoveOverride = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      overrides: prev.overrides?.filter((_, i) => i !== index) || []
+    }));
+  };
+  
   const handleParameterInputChange = (field: keyof ScenarioParameter, value: any) => {
     setCurrentParameter(prev => ({
       ...prev,
@@ -162,6 +233,22 @@ function ScenarioModelingComponent() {
     }));
   };
   
+  // Picking a model input fills in its current value, a ±swing range and the impact measured by the model
+  const handleSensitivityVariableChange = (key: string) => {
+    const input = findModelInput(key);
+    if (!input) return;
+    
+    const baseValue = input.get(modelInputs);
+    const analysis = runSensitivityAnalysis(modelInputs, sensitivitySwing);
+    setCurrentSensitivity(prev => ({
+      ...prev,
+      variable: key,
+      baseValue,
+      ...getSwingValues(input, baseValue, sensitivitySwing),
+      impact: analysis.inputs.find(result => result.key === key)?.impact || 'Low'
+    }));
+  };
+  
   const handleAddSensitivity = () => {
     if (!currentSensitivity.variable) return;
     
@@ -175,7 +262,8 @@ function ScenarioModelingComponent() {
       baseValue: 0,
       lowValue: 0,
       highValue: 0,
-      impact: 'Medium'
+      impact: 'Medium',
+      distribution: 'triangular'
     });
   };
   
@@ -189,21 +277,23 @@ function ScenarioModelingComponent() {
   const handleSave = () => {
     if (!currentProduct || !formData.name || !formData.description) return;
     
+    const scenarioData = { ...formData, ...overrideOutcome };
+    
     if (editingScenarioId) {
       // Update existing scenario
       updateScenario(
         currentProduct.info.id,
         editingScenarioId,
-        formData as Partial<Scenario>
+        scenarioData as Partial<Scenario>
       );
     } else {
       // Add new scenario
       addScenario(
         currentProduct.info.id,
         {
-          ...formData,
+          ...scenarioData,
           id: '', // This will be replaced with a UUID in the store
-          projectedProfit: (formData.projectedRevenue || 0) - (formData.projectedCosts || 0),
+          projectedProfit: (scenarioData.projectedRevenue || 0) - (scenarioData.projectedCosts || 0),
           createdAt: new Date(),
           updatedAt: new Date()
         } as Omit<Scenario, 'id'>
@@ -221,10 +311,12 @@ function ScenarioModelingComponent() {
       projectedProfit: 0,
       probabilityOfOccurrence: 50,
       riskFactors: [],
+      overrides: [],
       parameters: [],
       sensitivities: [],
       notes: ''
     });
+    setCurrentOverride({ driver: '', mode: 'percent', value: 0 });
     setShowNewScenario(false);
     setEditingScenarioId(null);
     setShowParameterForm(false);
@@ -252,12 +344,19 @@ function ScenarioModelingComponent() {
         ...scenario,
         id: '', // Will be replaced with a UUID
         name: `${scenario.name} (Copy)`,
+        parentId: scenario.id,
         createdAt: new Date(),
         updatedAt: new Date()
       }
     );
   };
   
+  const handlePromote = (scenario: Scenario) => {
+    if (window.confirm(`Make "${scenario.name}" the baseline? Its overrides will be written into the product's forecast inputs, and other scenarios will apply on top of them. This can be undone.`)) {
+      promoteScenario(currentProduct.info.id, scenario.id);
+    }
+  };
+  
   const calculateTotalProbability = () => {
     return scenarios.reduce((sum, scenario) => sum + (scenario.probabilityOfOccurrence || 0), 0);
   };
@@ -279,6 +378,10 @@ function ScenarioModelingComponent() {
     return scenarios.filter(s => compareScenarioIds.includes(s.id));
   };
   
+  // Scenarios listed under the scenario they were branched from
+  const scenarioTree = flattenScenarioTree(buildScenarioTree(scenarios));
+  const lastPromotion = currentProduct.baselineHistory?.[currentProduct.baselineHistory.length - 1];
+  
   // Prepare data for charts
   const totalProbability = calculateTotalProbability();
   
@@ -316,23 +419,50 @@ function ScenarioModelingComponent() {
     })))
     .sort((a, b) => b.range - a.range); // Sort by range size
   
+  // Model sensitivity (only computed while the tab is open)
+  const modelSensitivity = view === 'sensitivity'
+    ? runSensitivityAnalysis(modelInputs, sensitivitySwing)
+    : null;
+  const tornadoChartData = (modelSensitivity?.inputs || [])
+    .slice(0, TORNADO_INPUT_LIMIT)
+    .map(result => ({
+      name: result.label,
+      low: result.lowProfitDelta,
+      high: result.highProfitDelta
+    }));
+  const swingLabel = `${Math.round(sensitivitySwing * 100)}%`;
+  
+  // Simulation charts
+  const simulationResult = simulation.result;
+  const histogramChartData = (simulationResult?.profitHistogram || []).map(bin => ({
+    name: formatCurrency((bin.start + bin.end) / 2),
+    runs: bin.count
+  }));
+  // The band is stacked on top of P10 so the shaded area spans P10-P90
+  const fanChartData = (simulationResult?.cumulativeProfitFan || []).map(point => ({
+    week: `Week ${point.week}`,
+    p10: point.p10,
+    band: point.p90 - point.p10,
+    p50: point.p50,
+    p90: point.p90
+  }));
+  
   return (
     <div className="space-y-6">
-      <Tabs value={activeView} onValueChange={(value) => setActiveView(value as 'overview' | 'comparison' | 'sensitivity')}>
-        <TabsList className="mb-4">
-          <TabsTrigger value="overview" className="flex items-center">
-            <PieChart className="h-4 w-4 mr-2" />
-            Overview
-          </TabsTrigger>
-          <TabsTrigger value="comparison" className="flex items-center">
-            <BarChart className="h-4 w-4 mr-2" />
-            Scenario Comparison
-          </TabsTrigger>
-          <TabsTrigger value="sensitivity" className="flex items-center">
-            <ArrowUpDown className="h-4 w-4 mr-2" />
-            Sensitivity Analysis
-          </TabsTrigger>
-        </TabsList>
+      {lastPromotion && (
+        <div className="flex items-center justify-between p-3 border rounded-lg bg-blue-50 text-sm">
+          <span>
+            The baseline was replaced by scenario "{lastPromotion.scenarioName}"
+            {toDate(lastPromotion.promotedAt) ? ` on ${toDate(lastPromotion.promotedAt)?.toLocaleString()}` : ''}.
+          </span>
+          <Button variant="outline" size="sm" onClick={() => undoBaselinePromotion(currentProduct.info.id)}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Undo
+          </Button>
+        </div>
+      )}
+      
+      <Tabs value={view}>
         
         <TabsContent value="overview">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -542,11 +672,121 @@ function ScenarioModelingComponent() {
           )}
         </TabsContent>
         
+        <TabsContent value="diff">
+          <ScenarioDiff />
+        </TabsContent>
+        
         <TabsContent value="sensitivity">
+          {modelSensitivity && (
+            <Card className="mb-6">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Model Sensitivity</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="sensitivity-swing" className="text-sm">Swing</Label>
+                  <Select
+                    value={String(sensitivitySwing)}
+                    onValueChange={(value) => setSensitivitySwing(parseFloat(value))}
+                  >
+                    <SelectTrigger id="sensitivity-swing" className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SENSITIVITY_SWINGS.map(swing => (
+                        <SelectItem key={swing} value={String(swing)}>±{Math.round(swing * 100)}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4 text-sm text-muted-foreground">
+                  Each forecast input is moved down and up by {swingLabel} with everything else held constant.
+                  Base forecast: {formatCurrency(modelSensitivity.baseProfit)} total profit,
+                  break-even {formatBreakEvenWeek(modelSensitivity.baseBreakEvenWeek).toLowerCase()}.
+                  Validate the inputs at the top of the chart first.
+                </div>
+                {tornadoChartData.length > 0 ? (
+                  <>
+                    <div className="h-96">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <RechartsBarChart
+                          data={tornadoChartData}
+                          layout="vertical"
+                          stackOffset="sign"
+                          margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                        >
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis type="number" tickFormatter={(value) => formatCurrency(value)} />
+                          <YAxis type="category" dataKey="name" width={180} />
+                          <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                          <Legend />
+                          <Bar dataKey="low" name={`Input -${swingLabel}`} stackId="tornado" fill="#FF8042" />
+                          <Bar dataKey="high" name={`Input +${swingLabel}`} stackId="tornado" fill="#00C49F" />
+                        </RechartsBarChart>
+                      </ResponsiveContainer>
+                    </div>
+                    
+                    <div className="overflow-x-auto mt-4">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Input</TableHead>
+                            <TableHead>Base Value</TableHead>
+                            <TableHead>Profit Change (-{swingLabel})</TableHead>
+                            <TableHead>Profit Change (+{swingLabel})</TableHead>
+                            <TableHead>Break-even (-{swingLabel})</TableHead>
+                            <TableHead>Break-even (+{swingLabel})</TableHead>
+                            <TableHead>Impact</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {modelSensitivity.inputs.map(result => (
+                            <TableRow key={result.key}>
+                              <TableCell className="font-medium">{result.label}</TableCell>
+                              <TableCell>{result.baseValue.toLocaleString()}</TableCell>
+                              <TableCell className={result.lowProfitDelta >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                {formatCurrency(result.lowProfitDelta)}
+                              </TableCell>
+                              <TableCell className={result.highProfitDelta >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                {formatCurrency(result.highProfitDelta)}
+                              </TableCell>
+                              <TableCell>{formatBreakEvenWeek(result.lowBreakEvenWeek)}</TableCell>
+                              <TableCell>{formatBreakEvenWeek(result.highBreakEvenWeek)}</TableCell>
+                              <TableCell>
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                  result.impact === 'High' 
+                                    ? 'bg-red-100 text-red-800' 
+                                    : result.impact === 'Medium'
+                                      ? 'bg-amber-100 text-amber-800' 
+                                      : 'bg-green-100 text-green-800'
+                                }`}>
+                                  {result.impact}
+                                </span>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Enter forecast inputs on the revenue and cost tabs to see which ones move profit the most.
+                  </p>
+                )}
+                {modelSensitivity.unsetInputs.length > 0 && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    Not tested because they are zero: {modelSensitivity.unsetInputs.join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          
           {sensitivityData.length > 0 ? (
             <Card>
               <CardHeader>
-                <CardTitle>Sensitivity Analysis</CardTitle>
+                <CardTitle>Scenario Sensitivity Variables</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="mb-4 text-sm text-muted-foreground">
@@ -570,7 +810,7 @@ function ScenarioModelingComponent() {
                       {sensitivityData.map((item, index) => (
                         <TableRow key={`sensitivity-${index}`}>
                           <TableCell>{item.scenario}</TableCell>
-                          <TableCell>{item.variable}</TableCell>
+                          <TableCell>{findModelInput(item.variable)?.label || item.variable}</TableCell>
                           <TableCell>{item.baseValue}</TableCell>
                           <TableCell>{item.lowValue}</TableCell>
                           <TableCell>{item.highValue}</TableCell>
@@ -613,6 +853,167 @@ function ScenarioModelingComponent() {
             </div>
           )}
         </TabsContent>
+        
+        <TabsContent value="simulation">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Monte Carlo Simulation</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4 text-sm text-muted-foreground">
+                  Each run picks a scenario by its probability, samples its sensitivity variables
+                  (triangular or normal between the low and high values) and runs the full weekly forecast.
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sim-iterations">Runs</Label>
+                    <Input
+                      id="sim-iterations"
+                      type="number"
+                      min={100}
+                      max={MAX_ITERATIONS}
+                      step={100}
+                      value={iterations}
+                      onChange={e => setIterations(parseInt(e.target.value) || DEFAULT_ITERATIONS)}
+                      className="w-32"
+                    />
+                  </div>
+                  {simulation.isRunning ? (
+                    <Button variant="outline" onClick={simulation.cancel}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button onClick={() => simulation.run(currentProduct, { iterations })}>
+                      <Dices className="h-4 w-4 mr-2" />
+                      Run Simulation
+                    </Button>
+                  )}
+                </div>
+                {simulation.isRunning && (
+                  <div className="mt-4">
+                    <Progress value={simulation.progress * 100} />
+                  </div>
+                )}
+                {simulation.error && (
+                  <p className="mt-4 text-sm text-red-500">Simulation failed: {simulation.error}</p>
+                )}
+                {scenarios.length === 0 && (
+                  <p className="mt-4 text-sm text-yellow-600">
+                    No scenarios yet - the simulation will only reflect the current forecast inputs.
+                  </p>
+                )}
+                {simulationResult && simulationResult.unmappedVariables.length > 0 && (
+                  <p className="mt-4 text-sm text-yellow-600">
+                    These sensitivity variables don't match a forecast input and were not sampled: {simulationResult.unmappedVariables.join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            
+            {simulationResult && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Outcome Percentiles ({simulationResult.iterations.toLocaleString()} runs)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Metric</TableHead>
+                          <TableHead>P10</TableHead>
+                          <TableHead>P50</TableHead>
+                          <TableHead>P90</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell className="font-medium">Total Revenue</TableCell>
+                          <TableCell>{formatCurrency(simulationResult.revenue.p10)}</TableCell>
+                          <TableCell>{formatCurrency(simulationResult.revenue.p50)}</TableCell>
+                          <TableCell>{formatCurrency(simulationResult.revenue.p90)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Total Profit</TableCell>
+                          <TableCell className={simulationResult.profit.p10 >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {formatCurrency(simulationResult.profit.p10)}
+                          </TableCell>
+                          <TableCell className={simulationResult.profit.p50 >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {formatCurrency(simulationResult.profit.p50)}
+                          </TableCell>
+                          <TableCell className={simulationResult.profit.p90 >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            {formatCurrency(simulationResult.profit.p90)}
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Break-even</TableCell>
+                          <TableCell>{formatBreakEvenWeek(simulationResult.breakEvenWeek.p10)}</TableCell>
+                          <TableCell>{formatBreakEvenWeek(simulationResult.breakEvenWeek.p50)}</TableCell>
+                          <TableCell>{formatBreakEvenWeek(simulationResult.breakEvenWeek.p90)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                    <p className="mt-3 text-sm text-muted-foreground">
+                      {formatPercent(simulationResult.breakEvenWeek.probability)} of runs break even within the forecast period.
+                    </p>
+                  </CardContent>
+                </Card>
+                
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Profit Distribution</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-80">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <RechartsBarChart data={histogramChartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip />
+                            <Bar dataKey="runs" name="Runs" fill={COLORS[0]} />
+                          </RechartsBarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Cumulative Profit Range</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-80">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ComposedChart data={fanChartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="week" />
+                            <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                            <Tooltip
+                              formatter={(value, name, item) => name === 'P10-P90'
+                                ? [formatCurrency(item.payload.p90), 'P90']
+                                : formatCurrency(value as number)}
+                            />
+                            <Legend />
+                            <Area type="monotone" dataKey="p10" stackId="fan" stroke="none" fill="transparent" name="P10" legendType="none" />
+                            <Area type="monotone" dataKey="band" stackId="fan" stroke="none" fill={COLORS[0]} fillOpacity={0.2} name="P10-P90" />
+                            <Line type="monotone" dataKey="p50" stroke={COLORS[0]} strokeWidth={2} dot={false} name="P50" />
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+          </div>
+        </TabsContent>
+        
+        <TabsContent value="goalSeek">
+          <GoalSeek />
+        </TabsContent>
       </Tabs>
       
       <Card>
@@ -698,6 +1099,103 @@ function ScenarioModelingComponent() {
                 />
               </div>
               
+              {/* Driver Overrides */}
+              <div className="border p-4 rounded-lg mb-4">
+                <h5 className="font-medium mb-2">Driver Overrides</h5>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Set forecast inputs to a new value or change them by a percentage. The projected figures below are then calculated from the forecast.
+                </p>
+                
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+                  <div>
+                    <Label htmlFor="override-driver" className="text-xs">Driver</Label>
+                    <Select
+                      value={currentOverride.driver || ''}
+                      onValueChange={(value) => setCurrentOverride(prev => ({ ...prev, driver: value }))}
+                    >
+                      <SelectTrigger id="override-driver">
+                        <SelectValue placeholder="Select input" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MODEL_INPUTS.map(input => (
+                          <SelectItem key={input.key} value={input.key}>{input.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="override-mode" className="text-xs">Mode</Label>
+                    <Select
+                      value={currentOverride.mode || 'percent'}
+                      onValueChange={(value) => setCurrentOverride(prev => ({ ...prev, mode: value as ScenarioOverrideMode }))}
+                    >
+                      <SelectTrigger id="override-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCENARIO_OVERRIDE_MODES.map(mode => (
+                          <SelectItem key={mode} value={mode}>{OVERRIDE_MODE_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="override-value" className="text-xs">Value</Label>
+                    <Input
+                      id="override-value"
+                      type="number"
+                      value={currentOverride.value || 0}
+                      onChange={e => setCurrentOverride(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <Button onClick={handleAddOverride} className="w-full" disabled={!currentOverride.driver}>
+                      <Plus className="h-4 w-4 mr-1" /> Add
+                    </Button>
+                  </div>
+                </div>
+                
+                {formData.overrides && formData.overrides.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Driver</TableHead>
+                        <TableHead>Current</TableHead>
+                        <TableHead>Override</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {formData.overrides.map((override, index) => {
+                        const input = findModelInput(override.driver);
+                        return (
+                          <TableRow key={`override-${index}`}>
+                            <TableCell className="font-medium">{input?.label || override.driver}</TableCell>
+                            <TableCell>{input ? input.get(modelInputs).toLocaleString() : '-'}</TableCell>
+                            <TableCell>
+                              {override.mode === 'percent'
+                                ? `${override.value >= 0 ? '+' : ''}${override.value}%`
+                                : override.value.toLocaleString()}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveOverride(index)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground mt-2">No overrides added yet.</p>
+                )}
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                 <div className="space-y-2">
                   <Label htmlFor="scenario-revenue">Projected Revenue</Label>
@@ -706,7 +1204,8 @@ function ScenarioModelingComponent() {
                     type="number"
                     min="0"
                     step="1000"
-                    value={formData.projectedRevenue || 0}
+                    disabled={!!overrideOutcome}
+                    value={overrideOutcome?.projectedRevenue ?? (formData.projectedRevenue || 0)}
                     onChange={e => handleInputChange('projectedRevenue', parseFloat(e.target.value))}
                     placeholder="0.00"
                   />
@@ -719,7 +1218,8 @@ function ScenarioModelingComponent() {
                     type="number"
                     min="0"
                     step="1000"
-                    value={formData.projectedCosts || 0}
+                    disabled={!!overrideOutcome}
+                    value={overrideOutcome?.projectedCosts ?? (formData.projectedCosts || 0)}
                     onChange={e => handleInputChange('projectedCosts', parseFloat(e.target.value))}
                     placeholder="0.00"
                   />
@@ -731,9 +1231,9 @@ function ScenarioModelingComponent() {
                     id="scenario-profit"
                     type="number"
                     disabled
-                    value={formData.projectedProfit || (formData.projectedRevenue || 0) - (formData.projectedCosts || 0)}
+                    value={overrideOutcome?.projectedProfit ?? (formData.projectedProfit || (formData.projectedRevenue || 0) - (formData.projectedCosts || 0))}
                     className={
-                      (formData.projectedRevenue || 0) - (formData.projectedCosts || 0) >= 0 
+                      (overrideOutcome?.projectedProfit ?? (formData.projectedRevenue || 0) - (formData.projectedCosts || 0)) >= 0 
                         ? 'text-green-600 bg-green-50' 
                         : 'text-red-600 bg-red-50'
                     }
@@ -950,12 +1450,19 @@ function ScenarioModelingComponent() {
                     <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-2">
                       <div>
                         <Label htmlFor="sens-variable" className="text-xs">Variable</Label>
-                        <Input
-                          id="sens-variable"
+                        <Select
                           value={currentSensitivity.variable || ''}
-                          onChange={e => handleSensitivityInputChange('variable', e.target.value)}
-                          placeholder="Variable name"
-                        />
+                          onValueChange={handleSensitivityVariableChange}
+                        >
+                          <SelectTrigger id="sens-variable">
+                            <SelectValue placeholder="Select variable" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MODEL_INPUTS.map(input => (
+                              <SelectItem key={input.key} value={input.key}>{input.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div>
                         <Label htmlFor="sens-base" className="text-xs">Base Value</Label>
@@ -1008,6 +1515,23 @@ function ScenarioModelingComponent() {
                       </Select>
                     </div>
                     
+                    <div className="mb-2">
+                      <Label htmlFor="sens-distribution" className="text-xs">Distribution</Label>
+                      <Select
+                        value={currentSensitivity.distribution || 'triangular'}
+                        onValueChange={(value) => handleSensitivityInputChange('distribution', value as SensitivityDistribution)}
+                      >
+                        <SelectTrigger id="sens-distribution">
+                          <SelectValue placeholder="Select distribution" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SENSITIVITY_DISTRIBUTIONS.map(distribution => (
+                            <SelectItem key={distribution} value={distribution} className="capitalize">{distribution}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
                     {formData.sensitivities && formData.sensitivities.length > 0 ? (
                       <div className="mt-4">
                         <h6 className="font-medium text-sm mb-2">Added Sensitivity Variables</h6>
@@ -1026,7 +1550,9 @@ function ScenarioModelingComponent() {
                             <TableBody>
                               {formData.sensitivities.map((sensitivity, index) => (
                                 <TableRow key={`sensitivity-${index}`}>
-                                  <TableCell className="font-medium">{sensitivity.variable}</TableCell>
+                                  <TableCell className="font-medium">
+                                    {findModelInput(sensitivity.variable)?.label || sensitivity.variable}
+                                  </TableCell>
                                   <TableCell>{sensitivity.baseValue}</TableCell>
                                   <TableCell>{sensitivity.lowValue}</TableCell>
                                   <TableCell>{sensitivity.highValue}</TableCell>
@@ -1105,7 +1631,7 @@ function ScenarioModelingComponent() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {scenarios.map(scenario => (
+                  {scenarioTree.map(({ scenario, depth }) => (
                     <TableRow 
                       key={scenario.id}
                       className={compareScenarioIds.includes(scenario.id) ? 'bg-blue-50' : undefined}
@@ -1118,7 +1644,12 @@ function ScenarioModelingComponent() {
                           className="rounded border-gray-300"
                         />
                       </TableCell>
-                      <TableCell className="font-medium">{scenario.name}</TableCell>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+                          {depth > 0 && <GitBranch className="h-4 w-4 mr-1 text-gray-400" />}
+                          {scenario.name}
+                        </div>
+                      </TableCell>
                       <TableCell className="max-w-[250px] truncate">
                         {scenario.description}
                       </TableCell>
@@ -1149,9 +1680,12 @@ function ScenarioModelingComponent() {
                           <Button variant="ghost" size="sm" onClick={() => handleEdit(scenario)} title="Edit">
                             <Edit className="h-4 w-4" />
                           </Button>
-                          <Button variant="ghost" size="sm" onClick={() => handleDuplicate(scenario)} title="Duplicate">
+                          <Button variant="ghost" size="sm" onClick={() => handleDuplicate(scenario)} title="Branch">
                             <Copy className="h-4 w-4" />
                           </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handlePromote(scenario)} title="Promote to baseline">
+                            <ArrowUpCircle className="h-4 w-4" />
+                          </Button>
                           <Button variant="ghost" size="sm" onClick={() => handleDelete(scenario)} title="Delete">
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -1165,7 +1699,7 @@ function ScenarioModelingComponent() {
               {/* Comparison Instructions */}
               {scenarios.length > 1 && (
                 <div className="mt-3 text-sm text-muted-foreground border-t pt-3">
-                  Select scenarios using the checkboxes to compare them, then switch to the "Scenario Comparison" tab.
+                  Select scenarios using the checkboxes to compare them, then switch to the "Comparison" tab.
                 </div>
               )}
             </div>
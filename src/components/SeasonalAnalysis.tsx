@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -6,13 +6,16 @@ import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { Save } from 'lucide-react';
+import { Save, PlusCircle, Trash2 } from 'lucide-react';
 import useStore from '../store/useStore';
-import { formatCurrency } from '../lib/utils';
-import type { SeasonalAnalysis } from '../types';
+import { formatCurrency, uniqueId } from '../lib/utils';
+import { runProjection } from '../lib/projectionEngine';
+import type { SeasonalAnalysis, SeasonalAdjustment } from '../types';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 function SeasonalAnalysisComponent() {
-  const { products, currentProductId, updateSeasonalAnalysis } = useStore();
+  const { products, currentProductId, updateProduct } = useStore();
   const currentProduct = products.find(p => p.info.id === currentProductId);
   
   const [seasonalData, setSeasonalData] = useState<SeasonalAnalysis[]>([
@@ -22,13 +25,46 @@ function SeasonalAnalysisComponent() {
     { quarter: 'Q4', seasonalImpactFactor: 1.0, projectedRevenue: 0, projectedCosts: 0, notes: '' }
   ]);
   
+  const [adjustments, setAdjustments] = useState<SeasonalAdjustment[]>([]);
   const [isDirty, setIsDirty] = useState(false);
   
   useEffect(() => {
     if (currentProduct?.seasonalAnalysis) {
       setSeasonalData(currentProduct.seasonalAnalysis);
     }
+    setAdjustments(currentProduct?.seasonalAdjustments || []);
   }, [currentProduct]);
+
+  // Run the forecast with and without seasonality to show its effect
+  const seasonalComparison = useMemo(() => {
+    if (!currentProduct) return null;
+
+    const inputs = {
+      productInfo: currentProduct.info,
+      growthMetrics: currentProduct.growthMetrics,
+      revenueMetrics: currentProduct.revenueMetrics,
+      costMetrics: currentProduct.costMetrics
+    };
+    const baseline = runProjection(inputs).projections;
+    const seasonal = runProjection({
+      ...inputs,
+      seasonality: { seasonalAnalysis: seasonalData, seasonalAdjustments: adjustments }
+    }).projections;
+
+    return {
+      seasonal,
+      chartData: seasonal.map((week, index) => ({
+        week: week.weekStartDate || `Week ${week.week}`,
+        baselineRevenue: baseline[index].totalRevenue,
+        seasonalRevenue: week.totalRevenue
+      })),
+      baselineRevenue: baseline.reduce((sum, week) => sum + week.totalRevenue, 0),
+      seasonalRevenue: seasonal.reduce((sum, week) => sum + week.totalRevenue, 0),
+      baselineProfit: baseline.reduce((sum, week) => sum + week.weeklyProfit, 0),
+      seasonalProfit: seasonal.reduce((sum, week) => sum + week.weeklyProfit, 0),
+      hasCalendar: seasonal.some(week => Boolean(week.weekStartDate))
+    };
+  }, [currentProduct, seasonalData, adjustments]);
   
   if (!currentProduct) {
     return (
@@ -66,10 +102,35 @@ function SeasonalAnalysisComponent() {
     return (totalRevenue / currentProduct.weeklyProjections.length) * 13;
   };
   
+  const handleAdjustmentChange = (id: string, updates: Partial<SeasonalAdjustment>) => {
+    setAdjustments(adjustments.map(adjustment => 
+      adjustment.id === id ? { ...adjustment, ...updates } : adjustment
+    ));
+    setIsDirty(true);
+  };
+
+  const handleAddAdjustment = (kind: SeasonalAdjustment['kind']) => {
+    const adjustment: SeasonalAdjustment = kind === 'month'
+      ? { id: uniqueId('season-'), name: 'Monthly adjustment', kind, month: 1, attendanceFactor: 1, spendFactor: 1 }
+      : { id: uniqueId('season-'), name: 'Holiday', kind, startDate: '', endDate: '', attendanceFactor: 1, spendFactor: 1 };
+    setAdjustments([...adjustments, adjustment]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveAdjustment = (id: string) => {
+    setAdjustments(adjustments.filter(adjustment => adjustment.id !== id));
+    setIsDirty(true);
+  };
+  
   const handleSave = () => {
-    if (!currentProduct) return;
+    if (!currentProduct || !seasonalComparison) return;
     
-    updateSeasonalAnalysis(currentProduct.info.id, seasonalData);
+    // Persist the settings together with the forecast they produce
+    updateProduct(currentProduct.info.id, {
+      seasonalAnalysis: seasonalData,
+      seasonalAdjustments: adjustments,
+      weeklyProjections: seasonalComparison.seasonal
+    });
     setIsDirty(false);
   };
   
@@ -162,6 +223,147 @@ function SeasonalAnalysisComponent() {
         </Card>
       </div>
       
+      {seasonalComparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Effect on Weekly Forecast</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!seasonalComparison.hasCalendar && (
+              <p className="text-sm text-muted-foreground">
+                Set a launch date for this product to map forecast weeks onto the calendar.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <div className="text-sm text-muted-foreground">Forecast Revenue (before → after)</div>
+                <div className="text-lg font-semibold">
+                  {formatCurrency(seasonalComparison.baselineRevenue)} → {formatCurrency(seasonalComparison.seasonalRevenue)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Forecast Profit (before → after)</div>
+                <div className="text-lg font-semibold">
+                  {formatCurrency(seasonalComparison.baselineProfit)} → {formatCurrency(seasonalComparison.seasonalProfit)}
+                </div>
+              </div>
+            </div>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={seasonalComparison.chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" />
+                  <YAxis />
+                  <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="baselineRevenue" name="Without Seasonality" stroke="#9ca3af" dot={false} />
+                  <Line type="monotone" dataKey="seasonalRevenue" name="With Seasonality" stroke="#4f46e5" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Monthly & Holiday Multipliers</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleAddAdjustment('month')}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add Month
+            </Button>
+            <Button variant="outline" onClick={() => handleAddAdjustment('holiday')}>
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add Holiday
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {adjustments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No monthly or holiday multipliers. Only the quarterly impact factors are applied.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Attendance Factor</TableHead>
+                  <TableHead>Spend Factor</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adjustments.map(adjustment => (
+                  <TableRow key={adjustment.id}>
+                    <TableCell>
+                      <Input
+                        value={adjustment.name}
+                        onChange={(e) => handleAdjustmentChange(adjustment.id, { name: e.target.value })}
+                        className="w-40"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {adjustment.kind === 'month' ? (
+                        <select
+                          value={adjustment.month || 1}
+                          onChange={(e) => handleAdjustmentChange(adjustment.id, { month: parseInt(e.target.value) })}
+                          className="border rounded-md px-2 py-2 text-sm"
+                        >
+                          {MONTH_NAMES.map((month, index) => (
+                            <option key={month} value={index + 1}>{month}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Input
+                            type="date"
+                            value={adjustment.startDate || ''}
+                            onChange={(e) => handleAdjustmentChange(adjustment.id, { startDate: e.target.value })}
+                          />
+                          <Input
+                            type="date"
+                            value={adjustment.endDate || ''}
+                            onChange={(e) => handleAdjustmentChange(adjustment.id, { endDate: e.target.value })}
+                          />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        value={adjustment.attendanceFactor}
+                        onChange={(e) => handleAdjustmentChange(adjustment.id, { attendanceFactor: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        value={adjustment.spendFactor}
+                        onChange={(e) => handleAdjustmentChange(adjustment.id, { spendFactor: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemoveAdjustment(adjustment.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+      
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Quarterly Analysis</CardTitle>
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Trash2 } from 'lucide-react';
+import useStore from '../store/useStore';
+import { formatDate } from '../lib/utils';
+import { BUILT_IN_TEMPLATES } from '../lib/productTemplates';
+import type { ProductTemplate } from '../types';
+
+interface TemplateLibraryProps {
+  onUseTemplate: (templateId: string) => void;
+}
+
+/**
+ * Starter and saved templates, each ready to start a new product from
+ */
+const TemplateLibrary = ({ onUseTemplate }: TemplateLibraryProps) => {
+  const { productTemplates, deleteProductTemplate } = useStore();
+
+  const renderTemplate = (template: ProductTemplate) => (
+    <div key={template.id} className="flex items-center justify-between gap-2 border rounded-md p-3">
+      <div className="min-w-0">
+        <h3 className="font-medium truncate">{template.name}</h3>
+        <p className="text-xs text-gray-500">
+          {template.productType}
+          {!template.builtIn && ` · Saved ${formatDate(template.createdAt)}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="sm" onClick={() => onUseTemplate(template.id)}>
+          Use
+        </Button>
+        {!template.builtIn && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteProductTemplate(template.id)}
+            className="text-red-500 hover:text-red-700 hover:bg-red-50"
+            title="Delete template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Templates</CardTitle>
+        <CardDescription>Start a new product from a starter or from a product you've saved as a template</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">Your Templates</h4>
+          {productTemplates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Use "Save as Template" on a product to keep its assumptions here.
+            </p>
+          ) : (
+            productTemplates.map(renderTemplate)
+          )}
+        </div>
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">Starters</h4>
+          {BUILT_IN_TEMPLATES.map(renderTemplate)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+import { Download } from 'lucide-react';
+import { formatCurrency } from '../lib/utils';
+import { getProductCurrency, getProductMoneyFormat } from '../lib/currency';
+import { exportVarianceBreakdown } from '../lib/exportUtils';
+import {
+  COST_EFFECTS,
+  COST_EFFECT_LABELS,
+  REVENUE_EFFECTS,
+  REVENUE_EFFECT_LABELS,
+  analyzeVariance,
+  buildProfitWaterfall
+} from '../lib/varianceAnalysis';
+import type { Product } from '../types';
+
+interface VarianceWaterfallProps {
+  product: Product;
+}
+
+const WATERFALL_COLORS = {
+  total: '#3B82F6',    // blue
+  increase: '#22C55E', // green
+  decrease: '#EF4444'  // red
+};
+
+/**
+ * Profit waterfall from plan to actual for the recorded weeks, with the
+ * revenue and cost variance of each week split by driver
+ */
+const VarianceWaterfall = ({ product }: VarianceWaterfallProps) => {
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+  const currency = getProductCurrency(product.info);
+  const money = (value: number) => formatCurrency(value, currency);
+
+  const variance = analyzeVariance(product.weeklyProjections || [], product.actuals, product.revenueMetrics);
+  if (variance.weeks.length === 0) return null;
+
+  const week = variance.weeks.find(row => row.week === selectedWeek) || null;
+  const figures = week || variance.totals;
+  const steps = buildProfitWaterfall(figures).map(step => ({
+    ...step,
+    range: [step.start, step.end]
+  }));
+
+  const handleExport = () => {
+    exportVarianceBreakdown(variance, {
+      fileName: `${product.info.name}_Variance_Drivers`,
+      includeTimestamp: true,
+      money: getProductMoneyFormat(product.info)
+    });
+  };
+
+  const signed = (value: number, isCost = false) => {
+    const good = isCost ? value <= 0 : value >= 0;
+    return (
+      <span className={Math.abs(value) < 0.005 ? 'text-gray-400' : good ? 'text-green-600' : 'text-red-600'}>
+        {value >= 0 ? '+' : '−'}{money(Math.abs(value))}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Why Actuals Differ From Plan</CardTitle>
+        <CardDescription>
+          Profit variance split into attendance, conversion, price and cost effects
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <select
+            className="p-2 border rounded text-sm"
+            value={selectedWeek ?? ''}
+            onChange={(e) => setSelectedWeek(e.target.value ? parseInt(e.target.value) : null)}
+          >
+            <option value="">All recorded weeks ({variance.weeks.length})</option>
+            {variance.weeks.map(row => (
+              <option key={row.week} value={row.week}>Week {row.week}</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-1" /> Export Drivers
+          </Button>
+        </div>
+
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={steps}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={0} />
+              <YAxis tickFormatter={(value: number) => money(value)} width={90} />
+              <Tooltip
+                formatter={(_value: number[], _name: string, entry: { payload: { value: number; isTotal: boolean } }) => [
+                  entry.payload.isTotal ? money(entry.payload.value) : `${entry.payload.value >= 0 ? '+' : '−'}${money(Math.abs(entry.payload.value))}`,
+                  entry.payload.isTotal ? 'Profit' : 'Effect on profit'
+                ]}
+              />
+              <ReferenceLine y={0} stroke="#888" />
+              <Bar dataKey="range" isAnimationActive={false}>
+                {steps.map(step => (
+                  <Cell
+                    key={step.key}
+                    fill={step.isTotal
+                      ? WATERFALL_COLORS.total
+                      : step.value >= 0 ? WATERFALL_COLORS.increase : WATERFALL_COLORS.decrease}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {week ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Revenue</TableHead>
+                  {REVENUE_EFFECTS.map(effect => (
+                    <TableHead key={effect} className="text-right">{REVENUE_EFFECT_LABELS[effect]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {week.streams.map(stream => (
+                  <TableRow key={stream.line}>
+                    <TableCell>
+                      {stream.label}
+                      {!stream.fromSalesCounts && stream.line !== 'other' && (
+                        <div className="text-gray-400">No sales count; per-head change attributed</div>
+                      )}
+                    </TableCell>
+                    {REVENUE_EFFECTS.map(effect => (
+                      <TableCell key={effect} className="text-right">{signed(stream.effects[effect])}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Costs</TableHead>
+                  {COST_EFFECTS.map(effect => (
+                    <TableHead key={effect} className="text-right">{COST_EFFECT_LABELS[effect]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {week.costLines.map(cost => (
+                  <TableRow key={cost.line}>
+                    <TableCell>{cost.label}</TableCell>
+                    {COST_EFFECTS.map(effect => (
+                      <TableCell key={effect} className="text-right">{signed(cost.effects[effect], true)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Week</TableHead>
+                <TableHead className="text-right">Profit Variance</TableHead>
+                {REVENUE_EFFECTS.map(effect => (
+                  <TableHead key={effect} className="text-right">{REVENUE_EFFECT_LABELS[effect]}</TableHead>
+                ))}
+                {COST_EFFECTS.map(effect => (
+                  <TableHead key={effect} className="text-right">{COST_EFFECT_LABELS[effect]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variance.weeks.map(row => (
+                <TableRow key={row.week} className="cursor-pointer hover:bg-gray-50" onClick={() => setSelectedWeek(row.week)}>
+                  <TableCell>Week {row.week}</TableCell>
+                  <TableCell className="text-right font-medium">{signed(row.actualProfit - row.plannedProfit)}</TableCell>
+                  {REVENUE_EFFECTS.map(effect => (
+                    <TableCell key={effect} className="text-right">{signed(row.revenueEffects[effect])}</TableCell>
+                  ))}
+                  {COST_EFFECTS.map(effect => (
+                    <TableCell key={effect} className="text-right">{signed(row.costEffects[effect], true)}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VarianceWaterfall;
@@ -1,14 +1,23 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChevronDown, ChevronUp } from 'lucide-react';
 import useStore from '../store/useStore';
+import ActualsRecordsTable from './ActualsRecordsTable';
+import ForecastViewToggle from './ForecastViewToggle';
+import type { ForecastView } from './ForecastViewToggle';
 import { formatCurrency, formatNumber, formatPercent } from '../lib/utils';
-import { WeeklyActuals } from '../types';
+import { getActualProfit, getActualsForWeek as findActualsForWeek, getActualsRecords } from '../lib/actualsLedger';
+import type { ActualsEntry } from '../types';
 import { generateWeeklyProjections } from '../lib/calculations';
+import { buildLatestEstimate } from '../lib/reforecast';
 
 export default function WeeklyForecast() {
   const { products, currentProductId, updateProduct } = useStore();
   const currentProduct = products.find(p => p.info.id === currentProductId);
+  // Week whose event and day records are shown under it
+  const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+  const [view, setView] = useState<ForecastView>('plan');
 
   // Regenerate projections to ensure they include COGS
   useEffect(() => {
@@ -26,7 +35,8 @@ export default function WeeklyForecast() {
           {
             ...currentProduct.costMetrics,
             fbCogPercentage
-          }
+          },
+          currentProduct
         );
         
         // Update the product with regenerated projections only if needed
@@ -49,12 +59,17 @@ export default function WeeklyForecast() {
     );
   }
 
-  const { weeklyProjections, actuals = [] } = currentProduct;
+  const { actuals = [] } = currentProduct;
+  const estimate = buildLatestEstimate(currentProduct);
+  // The latest estimate keeps the recorded weeks and re-projects the rest from them
+  const weeklyProjections = view === 'latest' ? estimate.weeks : currentProduct.weeklyProjections;
   const isPerEvent = currentProduct.info.forecastType === 'per-event';
+  const hasCogsColumn = currentProduct.info.type === 'Food & Beverage Products' || currentProduct.info.type === 'Merchandise Drops';
+  const columnCount = 7 + (isPerEvent ? 2 : 0) + (hasCogsColumn ? 1 : 0);
 
   // Helper to find actuals for a specific week
-  const getActualsForWeek = (weekNumber: number): WeeklyActuals | undefined => {
-    return actuals.find(actual => actual.week === weekNumber);
+  const getActualsForWeek = (weekNumber: number): ActualsEntry | undefined => {
+    return findActualsForWeek(actuals, weekNumber);
   };
 
   // Calculate the cumulative profit considering actuals
@@ -67,7 +82,7 @@ export default function WeeklyForecast() {
       
       if (weekActual) {
         // Use actual profit for this week
-        cumulativeProfit += (weekActual.revenue - weekActual.expenses);
+        cumulativeProfit += getActualProfit(weekActual);
       } else if (weekProjection) {
         // Use projected profit for this week
         cumulativeProfit += weekProjection.weeklyProfit;
@@ -95,9 +110,9 @@ export default function WeeklyForecast() {
   weeklyProjections.forEach(week => {
     const actual = getActualsForWeek(week.week);
     if (actual) {
-      totalActualRevenue += actual.revenue;
-      totalActualCosts += actual.expenses;
-      totalActualProfit += (actual.revenue - actual.expenses);
+      totalActualRevenue += actual.totalRevenue;
+      totalActualCosts += actual.totalCosts;
+      totalActualProfit += getActualProfit(actual);
       // Include fbCogs from actuals if available
       if (actual.fbCogs !== undefined) {
         totalActualFbCogs += actual.fbCogs;
@@ -163,11 +178,12 @@ export default function WeeklyForecast() {
             </div>
             <div className="flex items-center">
               <div className="w-3 h-3 bg-gray-200 rounded-full mr-1"></div>
-              <span>Projected</span>
+              <span>{view === 'latest' ? 'Forecast' : 'Projected'}</span>
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          <ForecastViewToggle product={currentProduct} estimate={estimate} view={view} onViewChange={setView} />
           <div className="text-sm text-gray-500 mb-4 flex flex-col sm:flex-row sm:justify-between">
             <p>
               Weekly revenue and performance projections for the 12-week post-launch period.
@@ -178,7 +194,8 @@ export default function WeeklyForecast() {
                   Actuals available for {weeksWithActuals} of {totalWeeks} weeks ({formatPercent(actualsPercentage / 100)})
                 </p>
                 <p className="text-xs text-blue-600">
-                  <span className="font-bold">Note:</span> Actual data replaces forecasted data and modifies future projections
+                  <span className="font-bold">Note:</span> Actual data replaces forecasted data
+                  {view === 'latest' ? ' and recalibrates the remaining weeks' : '; switch to Latest Estimate to re-project the remaining weeks'}
                 </p>
               </div>
             )}
@@ -253,89 +270,111 @@ export default function WeeklyForecast() {
                   
                   // Calculate weekly profit based on available actual data
                   const weeklyProfit = actualData 
-                    ? (actualData.revenue - actualData.expenses)
+                    ? getActualProfit(actualData)
                     : week.weeklyProfit;
                   
                   // Calculate cumulative profit considering actuals for previous weeks
                   const cumulativeProfit = calculateCumulativeProfit(week.week);
+                  const records = getActualsRecords(actualData);
                   
                   return (
-                    <TableRow 
-                      key={week.week}
-                      className={actualData ? "bg-green-50 hover:bg-green-100" : "hover:bg-gray-50"}
-                    >
-                      <TableCell className="font-medium">Week {week.week}</TableCell>
+                    <React.Fragment key={week.week}>
+                      <TableRow 
+                        className={actualData ? "bg-green-50 hover:bg-green-100" : "hover:bg-gray-50"}
+                      >
+                        <TableCell className="font-medium">
+                          {records.length > 0 ? (
+                            <button
+                              className="flex items-center gap-1 hover:underline"
+                              onClick={() => setExpandedWeek(expandedWeek === week.week ? null : week.week)}
+                              title="Show the events and days behind this week"
+                            >
+                              {expandedWeek === week.week ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                              Week {week.week}
+                            </button>
+                          ) : (
+                            `Week ${week.week}`
+                          )}
+                        </TableCell>
+                      
+                        {isPerEvent && (
+                          <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
+                            {actualData ? formatNumber(actualData.numberOfEvents || 0) : formatNumber(week.numberOfEvents)}
+                          </TableCell>
+                        )}
                       
-                      {isPerEvent && (
                         <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                          {actualData ? formatNumber(actualData.numberOfEvents || 0) : formatNumber(week.numberOfEvents)}
+                          {actualData ? formatNumber(actualData.footTraffic || 0) : formatNumber(week.footTraffic)}
                         </TableCell>
-                      )}
                       
-                      <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                        {actualData ? formatNumber(actualData.footTraffic || 0) : formatNumber(week.footTraffic)}
-                      </TableCell>
+                        {isPerEvent && (
+                          <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
+                            {actualData ? formatNumber(actualData.averageEventAttendance || 0) : formatNumber(week.averageEventAttendance)}
+                          </TableCell>
+                        )}
                       
-                      {isPerEvent && (
                         <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                          {actualData ? formatNumber(actualData.averageEventAttendance || 0) : formatNumber(week.averageEventAttendance)}
+                          {actualData ? formatCurrency(actualData.totalRevenue) : formatCurrency(week.totalRevenue)}
                         </TableCell>
-                      )}
                       
-                      <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                        {actualData ? formatCurrency(actualData.revenue) : formatCurrency(week.totalRevenue)}
-                      </TableCell>
+                        <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
+                          {actualData 
+                            ? formatCurrency(actualData.totalCosts) 
+                            : formatCurrency(week.totalCosts || 0)
+                          }
+                        </TableCell>
                       
-                      <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                        {actualData 
-                          ? formatCurrency(actualData.expenses) 
-                          : formatCurrency(week.totalCosts || 0)
-                        }
-                      </TableCell>
+                        {currentProduct.info.type === 'Food & Beverage Products' && (
+                          <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''} border-l border-orange-100`}>
+                            <span className="font-medium text-orange-700">
+                              {actualData && actualData.fbCogs !== undefined
+                                ? formatCurrency(actualData.fbCogs)
+                                : formatCurrency(week.fbCogs || 0)}
+                            </span>
+                            {(week.week === 1 || actualData) && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {actualData && actualData.fbCogs !== undefined && actualData.fbRevenue
+                                  ? `(${formatPercent(actualData.fbCogs / actualData.fbRevenue)})`
+                                  : `(${formatPercent((week.fbCogs || 0) / (week.fbRevenue || 1))})`}
+                              </div>
+                            )}
+                          </TableCell>
+                        )}
                       
-                      {currentProduct.info.type === 'Food & Beverage Products' && (
-                        <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''} border-l border-orange-100`}>
-                          <span className="font-medium text-orange-700">
-                            {actualData && actualData.fbCogs !== undefined
-                              ? formatCurrency(actualData.fbCogs)
-                              : formatCurrency(week.fbCogs || 0)}
-                          </span>
-                          {(week.week === 1 || actualData) && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              {actualData && actualData.fbCogs !== undefined && actualData.fbRevenue
-                                ? `(${formatPercent(actualData.fbCogs / actualData.fbRevenue)})`
-                                : `(${formatPercent((week.fbCogs || 0) / (week.fbRevenue || 1))})`}
-                            </div>
-                          )}
-                        </TableCell>
-                      )}
+                        {currentProduct.info.type === 'Merchandise Drops' && (
+                          <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''} border-l border-pink-100`}>
+                            {formatCurrency(week.merchandiseCogs || 0)}
+                          </TableCell>
+                        )}
                       
-                      {currentProduct.info.type === 'Merchandise Drops' && (
-                        <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''} border-l border-pink-100`}>
-                          {formatCurrency(week.merchandiseCogs || 0)}
+                        <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
+                          {formatCurrency(weeklyProfit)}
                         </TableCell>
-                      )}
-                      
-                      <TableCell className={`text-right ${actualData ? 'text-green-600 font-medium' : ''}`}>
-                        {formatCurrency(weeklyProfit)}
-                      </TableCell>
                       
-                      <TableCell className="text-right">
-                        {formatCurrency(cumulativeProfit)}
-                      </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(cumulativeProfit)}
+                        </TableCell>
                       
-                      <TableCell className="text-center">
-                        {actualData ? (
-                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
-                            Actual
-                          </span>
-                        ) : (
-                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-                            Projected
-                          </span>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                        <TableCell className="text-center">
+                          {actualData ? (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                              Actual
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                              {view === 'latest' ? 'Forecast' : 'Projected'}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expandedWeek === week.week && records.length > 0 && (
+                        <TableRow className="bg-white hover:bg-white">
+                          <TableCell colSpan={columnCount} className="pl-8">
+                            <ActualsRecordsTable records={records} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
                   );
                 })}
                 
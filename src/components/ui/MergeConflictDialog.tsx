@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './card';
+import { Button } from './button';
+import { AlertTriangle } from 'lucide-react';
+import useStore from '../../store/useStore';
+import type { MergeSide } from '../../lib/productMerge';
+import { formatDate } from '../../lib/utils';
+import { toDate } from '../../lib/seasonality';
+
+// Short, readable form of a field value for the side-by-side comparison
+function describeValue(value: unknown): string {
+  if (value === undefined || value === null) return 'Removed';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (value instanceof Date || typeof (value as { toDate?: unknown } | null)?.toDate === 'function') {
+    const date = toDate(value);
+    return date ? formatDate(date) : String(value);
+  }
+  if (typeof value === 'object') {
+    const item = value as Record<string, unknown>;
+    const name = item.name || item.role || item.title;
+    return typeof name === 'string' && name ? name : JSON.stringify(value);
+  }
+  return String(value) || '(empty)';
+}
+
+const MergeConflictDialog: React.FC = () => {
+  const { products, mergeConflicts, resolveMergeConflict } = useStore();
+  const conflict = mergeConflicts[0];
+
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  // Start each product's conflicts from the planner's own values
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.productId, conflict?.detectedAt]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const productName = products.find(p => p.info.id === conflict.productId)?.info.name || conflict.local.info?.name;
+  const getChoice = (path: string): MergeSide => choices[path] || 'local';
+
+  const chooseAll = (side: MergeSide) => {
+    setChoices(Object.fromEntries(conflict.conflicts.map(c => [c.path, side])));
+  };
+
+  const handleApply = () => {
+    resolveMergeConflict(
+      conflict.productId,
+      Object.fromEntries(conflict.conflicts.map(c => [c.path, getChoice(c.path)]))
+    );
+  };
+
+  const renderOption = (path: string, side: MergeSide, value: unknown) => (
+    <button
+      type="button"
+      onClick={() => setChoices({ ...choices, [path]: side })}
+      className={`text-left rounded-md border p-2 text-sm ${
+        getChoice(path) === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <div className="text-xs text-gray-500 mb-1">{side === 'local' ? 'Mine' : 'Theirs'}</div>
+      <div className="break-words">{describeValue(value)}</div>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            Changed by someone else
+          </CardTitle>
+          <CardDescription>
+            {productName || 'This product'} was saved by someone else while you were editing it.
+            Their other changes have been merged with yours; choose which version to keep
+            where you both changed the same {conflict.conflicts.length === 1 ? 'field' : 'fields'}.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <div className="max-h-96 overflow-y-auto space-y-4">
+            {conflict.conflicts.map(c => (
+              <div key={c.path}>
+                <p className="text-sm font-medium mb-1">{c.label}</p>
+                {c.base !== undefined && (
+                  <p className="text-xs text-gray-500 mb-2">Was: {describeValue(c.base)}</p>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  {renderOption(c.path, 'local', c.local)}
+                  {renderOption(c.path, 'remote', c.remote)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => chooseAll('local')}>
+              Keep All Mine
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => chooseAll('remote')}>
+              Keep All Theirs
+            </Button>
+          </div>
+          <Button onClick={handleApply}>
+            Save Merged Product
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default MergeConflictDialog;
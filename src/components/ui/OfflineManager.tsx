@@ -1,109 +1,115 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNetworkStatus } from '../../contexts/NetworkStatusContext';
 import { useNotifications } from '../../contexts/NotificationContext';
-import { doc, updateDoc, deleteDoc, Firestore } from 'firebase/firestore';
+import { Firestore } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import useStore from '../../store/useStore';
+import {
+  getOfflineOperations,
+  replayOperations,
+  resolveConflict,
+  subscribeToSyncQueue
+} from '../../lib/syncQueue';
+import type { ConflictResolution, OfflineOperation } from '../../lib/syncQueue';
+import { formatDate } from '../../lib/utils';
 import { Button } from './button';
 
-interface OfflineOperation {
-  id: string;
-  type: 'create' | 'update' | 'delete';
-  collection: string;
-  docId: string;
-  data?: Record<string, any>;
-  timestamp: number;
-}
-
 interface OfflineManagerProps {
   autoSync?: boolean;
 }
 
+// Name to show for a queued document: the product name where there is one
+const describeOperation = (operation: OfflineOperation): string =>
+  operation.data?.info?.name || operation.conflict?.serverData?.info?.name || operation.docId;
+
 const OfflineManager: React.FC<OfflineManagerProps> = ({ autoSync = true }) => {
   const { isOnline } = useNetworkStatus();
   const { addNotification } = useNotifications();
-  
+  const { initializeStore, keepServerProduct } = useStore();
+
   const [pendingOperations, setPendingOperations] = useState<OfflineOperation[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState(0);
 
-  // Load pending operations from localStorage
-  useEffect(() => {
-    const storedOperations = localStorage.getItem('offlineOperations');
-    if (storedOperations) {
-      try {
-        setPendingOperations(JSON.parse(storedOperations));
-      } catch (error) {
-        console.error('Failed to parse stored operations:', error);
-        localStorage.removeItem('offlineOperations');
-      }
-    }
-  }, []);
+  const conflicts = useMemo(() => pendingOperations.filter(operation => operation.conflict), [pendingOperations]);
+  const waitingOperations = useMemo(() => pendingOperations.filter(operation => !operation.conflict), [pendingOperations]);
 
-  // Auto-sync when coming back online
+  // Load pending operations, and follow the queue as the store adds to it
   useEffect(() => {
-    if (isOnline && autoSync && pendingOperations.length > 0 && !isSyncing) {
-      syncOfflineOperations();
-    }
-  }, [isOnline, pendingOperations.length, autoSync]);
+    const loadOperations = () => {
+      getOfflineOperations().then(setPendingOperations);
+    };
+
+    loadOperations();
+    return subscribeToSyncQueue(loadOperations);
+  }, []);
 
   // Function to sync offline operations with Firestore
-  const syncOfflineOperations = async () => {
-    if (!isOnline || pendingOperations.length === 0 || isSyncing) {
+  const syncOfflineOperations = useCallback(async (force: boolean = false) => {
+    if (!isOnline || isSyncing) {
       return;
     }
 
     setIsSyncing(true);
     setSyncProgress(0);
-    
-    let successCount = 0;
-    let failCount = 0;
-    
-    for (let i = 0; i < pendingOperations.length; i++) {
-      const operation = pendingOperations[i];
-      
-      try {
-        if (operation.type === 'update' && operation.data) {
-          // Update document in Firestore
-          await updateDoc(
-            doc(db as Firestore, operation.collection, operation.docId), 
-            operation.data
-          );
-        } else if (operation.type === 'delete') {
-          // Delete document from Firestore
-          await deleteDoc(doc(db as Firestore, operation.collection, operation.docId));
-        }
-        // Note: 'create' would use addDoc, but we'll implement that when needed
-        
-        successCount++;
-      } catch (error) {
-        console.error(`Failed to sync operation: ${operation.id}`, error);
-        failCount++;
+
+    try {
+      const result = await replayOperations(db as Firestore, {
+        force,
+        onProgress: (done, total) => setSyncProgress(total > 0 ? Math.round((done / total) * 100) : 100)
+      });
+
+      if (result.synced > 0) {
+        addNotification({
+          type: 'success',
+          message: `Successfully synchronized ${result.synced} offline ${result.synced === 1 ? 'change' : 'changes'}`
+        });
+      }
+
+      if (result.conflicts > 0) {
+        addNotification({
+          type: 'warning',
+          message: `${result.conflicts} offline ${result.conflicts === 1 ? 'change conflicts' : 'changes conflict'} with newer changes on the server`
+        });
       }
-      
-      // Update progress
-      setSyncProgress(Math.round(((i + 1) / pendingOperations.length) * 100));
+
+      if (result.failed > 0) {
+        addNotification({
+          type: 'error',
+          message: `Failed to synchronize ${result.failed} offline ${result.failed === 1 ? 'change' : 'changes'}; retrying shortly`
+        });
+      }
+    } catch (error) {
+      console.error('Failed to sync offline operations:', error);
+    } finally {
+      setIsSyncing(false);
+      setSyncProgress(0);
     }
-    
-    // Remove synchronized operations
-    if (successCount > 0) {
-      setPendingOperations([]);
-      localStorage.removeItem('offlineOperations');
-      
-      addNotification({
-        type: 'success',
-        message: `Successfully synchronized ${successCount} offline ${successCount === 1 ? 'operation' : 'operations'}`
-      });
+  }, [isOnline, isSyncing, addNotification]);
+
+  // Auto-sync when coming back online, and again when the next backoff runs out
+  useEffect(() => {
+    if (!isOnline || !autoSync || isSyncing || waitingOperations.length === 0) {
+      return;
     }
-    
-    if (failCount > 0) {
-      addNotification({
-        type: 'error',
-        message: `Failed to synchronize ${failCount} offline ${failCount === 1 ? 'operation' : 'operations'}`
-      });
+
+    const nextAttemptAt = Math.min(...waitingOperations.map(operation => operation.nextAttemptAt));
+    const timer = setTimeout(() => syncOfflineOperations(), Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [isOnline, autoSync, isSyncing, waitingOperations, syncOfflineOperations]);
+
+  const handleResolve = async (operation: OfflineOperation, resolution: ConflictResolution) => {
+    await resolveConflict(operation.id, resolution);
+
+    if (resolution === 'keepServer') {
+      if (operation.collection === 'products' && operation.conflict) {
+        await keepServerProduct(operation.docId, operation.conflict.serverData);
+      }
+      // Reload so everything else picks up the server copy
+      await initializeStore();
+    } else {
+      await syncOfflineOperations(true);
     }
-    
-    setIsSyncing(false);
-    setSyncProgress(0);
   };
 
   if (pendingOperations.length === 0) {
@@ -113,25 +119,50 @@ const OfflineManager: React.FC<OfflineManagerProps> = ({ autoSync = true }) => {
   return (
     <div className="fixed bottom-4 left-4 z-50 bg-yellow-50 border border-yellow-200 rounded-lg p-4 shadow-md max-w-xs">
       <h3 className="font-medium text-yellow-800 mb-2">Offline Changes Pending</h3>
-      <p className="text-sm text-yellow-700 mb-3">
-        {pendingOperations.length} {pendingOperations.length === 1 ? 'change is' : 'changes are'} waiting to be synchronized
-      </p>
-      
+      {waitingOperations.length > 0 && (
+        <p className="text-sm text-yellow-700 mb-3">
+          {waitingOperations.length} {waitingOperations.length === 1 ? 'change is' : 'changes are'} waiting to be synchronized
+        </p>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-3 mb-3">
+          {conflicts.map(operation => (
+            <div key={operation.id} className="border-t border-yellow-200 pt-2">
+              <p className="text-sm text-yellow-800">
+                <span className="font-medium">{describeOperation(operation)}</span>{' '}
+                {operation.conflict?.serverData
+                  ? `was changed on the server${operation.conflict.serverUpdatedAt ? ` on ${formatDate(operation.conflict.serverUpdatedAt, { dateStyle: 'medium', timeStyle: 'short' })}` : ''} after your offline ${operation.type}.`
+                  : `was deleted on the server after your offline ${operation.type}.`}
+              </p>
+              <div className="flex gap-2 mt-2">
+                <Button size="sm" variant="outline" disabled={!isOnline || isSyncing} onClick={() => handleResolve(operation, 'keepLocal')}>
+                  Keep Mine
+                </Button>
+                <Button size="sm" variant="outline" disabled={isSyncing} onClick={() => handleResolve(operation, 'keepServer')}>
+                  Keep Server
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {isSyncing ? (
         <div className="space-y-2">
           <div className="w-full bg-gray-200 rounded-full h-2.5">
-            <div 
-              className="bg-yellow-600 h-2.5 rounded-full" 
+            <div
+              className="bg-yellow-600 h-2.5 rounded-full"
               style={{ width: `${syncProgress}%` }}
             ></div>
           </div>
           <p className="text-xs text-yellow-700">Synchronizing... {syncProgress}%</p>
         </div>
-      ) : (
-        <Button 
-          className="w-full bg-yellow-600 hover:bg-yellow-700 text-white" 
+      ) : waitingOperations.length > 0 && (
+        <Button
+          className="w-full bg-yellow-600 hover:bg-yellow-700 text-white"
           disabled={!isOnline || isSyncing}
-          onClick={syncOfflineOperations}
+          onClick={() => syncOfflineOperations(true)}
         >
           {isOnline ? 'Sync Now' : 'Waiting for Connection...'}
         </Button>
@@ -140,4 +171,4 @@ const OfflineManager: React.FC<OfflineManagerProps> = ({ autoSync = true }) => {
   );
 };
 
-export default OfflineManager; 
\ No newline at end of file
+export default OfflineManager;
@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
-import { Save, BarChart, Wifi, WifiOff, AlertCircle, ArrowUpDown } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Save, BarChart, Wifi, WifiOff, AlertCircle, ArrowUpDown, RefreshCw } from 'lucide-react';
 import { useStorage } from '../../contexts/StorageContext';
 import { useNetworkStatus } from '../../contexts/NetworkStatusContext';
+import useStore from '../../store/useStore';
+import { getProductSyncStatuses, subscribeToCloudSync, PRODUCT_SYNC_STATUS_LABELS } from '../../lib/storageSync';
+import type { ProductSyncStatus } from '../../lib/storageSync';
+import { subscribeToSyncQueue } from '../../lib/syncQueue';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './tooltip';
 import { Button } from './button';
 import { 
@@ -14,7 +18,37 @@ import {
 export const StorageControls = () => {
   const { storageMode, setStorageMode, isCloudAvailable } = useStorage();
   const { isOnline, connectionType } = useNetworkStatus();
+  const { products, syncWithCloud } = useStore();
   const [isChanging, setIsChanging] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, ProductSyncStatus>>({});
+
+  // Follow each product's sync status as it is saved, queued and synced
+  useEffect(() => {
+    const productIds = products.map(p => p.info.id);
+    const loadStatuses = () => {
+      getProductSyncStatuses(productIds).then(setSyncStatuses);
+    };
+
+    loadStatuses();
+    const unsubscribeSync = subscribeToCloudSync(loadStatuses);
+    const unsubscribeQueue = subscribeToSyncQueue(loadStatuses);
+    return () => {
+      unsubscribeSync();
+      unsubscribeQueue();
+    };
+  }, [products]);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncWithCloud();
+    } catch (error) {
+      console.error('Error syncing with the cloud:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
 
   // Handle toggling storage mode
   const handleToggleStorage = async () => {
@@ -85,7 +119,7 @@ export const StorageControls = () => {
               <ArrowUpDown className="h-4 w-4" />
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuContent align="end" className="w-64">
             <div className="px-2 py-1.5 font-medium">Storage Settings</div>
             <div className="h-px bg-gray-200 my-1"></div>
             <DropdownMenuItem
@@ -101,6 +135,43 @@ export const StorageControls = () => {
                 Cloud storage unavailable. Configure Firebase first.
               </div>
             )}
+            {storageMode === 'cloud' && (
+              <DropdownMenuItem
+                disabled={isSyncing || !isOnline}
+                onClick={handleSyncNow}
+                className="flex items-center gap-2"
+              >
+                <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                <span>{isSyncing ? 'Syncing...' : 'Sync Now'}</span>
+              </DropdownMenuItem>
+            )}
+            {products.length > 0 && (
+              <>
+                <div className="h-px bg-gray-200 my-1"></div>
+                <div className="px-2 py-1.5 font-medium">Sync Status</div>
+                <div className="max-h-48 overflow-y-auto">
+                  {products.map(product => {
+                    const status: ProductSyncStatus | undefined = syncStatuses[product.info.id];
+                    return (
+                      <div key={product.info.id} className="flex items-center justify-between gap-2 px-2 py-1 text-xs">
+                        <span className="truncate">{product.info.name || 'Untitled product'}</span>
+                        <span className={`whitespace-nowrap ${
+                          status === 'synced' ? 'text-green-700' : status === 'error' ? 'text-red-700' : 'text-amber-700'
+                        }`}>
+                          {status === 'error' && <AlertCircle className="inline h-3 w-3 mr-1" />}
+                          {status ? PRODUCT_SYNC_STATUS_LABELS[status] : ''}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                {storageMode === 'local' && (
+                  <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                    Local changes are synced when you switch to cloud storage.
+                  </div>
+                )}
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </TooltipProvider>
@@ -1,10 +1,45 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './card';
 import { Button } from './button';
 import { Progress } from './progress';
+import { Input } from './input';
+import { Label } from './label';
+import { Textarea } from './textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import useStore from '../../store/useStore';
-import type { Product, RevenueMetrics } from '../../types';
-import { ChevronUp, ChevronDown } from 'lucide-react';
+import { CURRENCIES, GROWTH_MODELS, IMPACT_LEVELS, LIKELIHOOD_LEVELS, PRODUCT_TYPES, RISK_TYPES } from '../../types';
+import type {
+  CostMetrics,
+  Currency,
+  GrowthMetrics,
+  GrowthModel,
+  ImpactLevel,
+  LikelihoodLevel,
+  MarketingChannelItem,
+  MarketingCosts,
+  ProductInfo,
+  ProductTemplate,
+  RevenueMetrics,
+  RiskAssessment,
+  RiskType,
+  StaffRoleItem
+} from '../../types';
+import { CURRENCY_LABELS, createMoneyFormatter, getProductMoneyFormat } from '../../lib/currency';
+import { formatBreakEvenWeek, formatDate } from '../../lib/utils';
+import { BUILT_IN_TEMPLATES, createBlankTemplate, getRiskScore, getTemplatesForType } from '../../lib/productTemplates';
+import {
+  SETUP_STEPS,
+  SETUP_STEP_DESCRIPTIONS,
+  SETUP_STEP_LABELS,
+  allocateChannelBudgets,
+  createSetupDraft,
+  findInvalidSetupStep,
+  previewSetupDraft,
+  validateSetupStep
+} from '../../lib/productSetup';
+import type { SetupDetails, SetupDraft, SetupStep } from '../../lib/productSetup';
+import { ChevronUp, ChevronDown, Plus, Trash2, AlertTriangle } from 'lucide-react';
 
 interface SetupWizardProps {
   className?: string;
@@ -161,4 +196,807 @@ export function SetupWizard({ className, onNavigate, onSelectTab }: SetupWizardP
       )}
     </Card>
   );
-} 
\ No newline at end of file
+}
+
+// How the marketing budget is set in the setup wizard
+type MarketingBudgetMode = 'weekly' | 'campaign' | 'channels';
+
+const MARKETING_BUDGET_MODE_LABELS: Record<MarketingBudgetMode, string> = {
+  weekly: 'Weekly budget',
+  campaign: 'Launch campaign',
+  channels: 'Budget per channel'
+};
+
+const GROWTH_RATE_FIELDS: { key: 'returnVisitRate' | 'wordOfMouthRate' | 'socialMediaConversion'; label: string }[] = [
+  { key: 'returnVisitRate', label: 'Return Visit Rate (%)' },
+  { key: 'wordOfMouthRate', label: 'Word of Mouth Rate (%)' },
+  { key: 'socialMediaConversion', label: 'Social Media Conversion (%)' }
+];
+
+const REVENUE_STREAM_FIELDS: {
+  price: 'ticketPrice' | 'fbSpend' | 'merchandiseSpend' | 'digitalPrice';
+  rate: 'ticketSalesRate' | 'fbConversionRate' | 'merchandiseConversionRate' | 'digitalConversionRate';
+  priceLabel: string;
+  rateLabel: string;
+}[] = [
+  { price: 'ticketPrice', rate: 'ticketSalesRate', priceLabel: 'Ticket Price', rateLabel: 'Visitors Buying Tickets (%)' },
+  { price: 'fbSpend', rate: 'fbConversionRate', priceLabel: 'F&B Spend per Customer', rateLabel: 'Visitors Buying F&B (%)' },
+  { price: 'merchandiseSpend', rate: 'merchandiseConversionRate', priceLabel: 'Merchandise Spend per Customer', rateLabel: 'Visitors Buying Merchandise (%)' },
+  { price: 'digitalPrice', rate: 'digitalConversionRate', priceLabel: 'Digital Price', rateLabel: 'Visitors Buying Digital (%)' }
+];
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split('T')[0];
+};
+
+// Rates are stored as fractions and entered as percentages
+const toPercent = (value: number) => Math.round((value || 0) * 10000) / 100;
+
+const getMarketingBudgetMode = (marketing: MarketingCosts): MarketingBudgetMode =>
+  marketing.allocationMode === 'channels' ? 'channels' : marketing.type === 'campaign' ? 'campaign' : 'weekly';
+
+const newItemId = () => crypto.randomUUID();
+
+interface ProductSetupWizardProps {
+  className?: string;
+  initialTemplateId?: string;
+  onCancel: () => void;
+  onCreated: (productId: string) => void;
+}
+
+/**
+ * Guided setup for a new product, from a template or a blank sheet. Walks
+ * through growth, revenue, costs, staffing, marketing and risks, checking
+ * each step before the next, with a forecast of the draft alongside. The
+ * product is created with its weekly projections generated.
+ */
+export function ProductSetupWizard({ className, initialTemplateId, onCancel, onCreated }: ProductSetupWizardProps) {
+  const { productTemplates, addProductFromTemplate } = useStore();
+  const initialTemplate = [...BUILT_IN_TEMPLATES, ...productTemplates].find(template => template.id === initialTemplateId);
+
+  const [step, setStep] = useState<SetupStep>(initialTemplate ? 'details' : 'start');
+  const [productType, setProductType] = useState<ProductInfo['type']>(initialTemplate?.productType || PRODUCT_TYPES[0]);
+  const [draft, setDraft] = useState<SetupDraft>(() =>
+    createSetupDraft(initialTemplate || createBlankTemplate(PRODUCT_TYPES[0]))
+  );
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const stepIndex = SETUP_STEPS.indexOf(step);
+  const preview = useMemo(() => previewSetupDraft(draft), [draft]);
+  const formatMoney = createMoneyFormatter(getProductMoneyFormat(draft.details));
+  const { details, assumptions } = draft;
+  const { growthMetrics, revenueMetrics, costMetrics } = assumptions;
+
+  const updateDetails = (updates: Partial<SetupDetails>) =>
+    setDraft(prev => ({ ...prev, details: { ...prev.details, ...updates } }));
+
+  const updateAssumptions = (update: (assumptions: ProductTemplate) => Partial<ProductTemplate>) =>
+    setDraft(prev => ({ ...prev, assumptions: { ...prev.assumptions, ...update(prev.assumptions) } }));
+
+  const updateGrowth = (updates: Partial<GrowthMetrics>) =>
+    updateAssumptions(prev => ({ growthMetrics: { ...prev.growthMetrics, ...updates } }));
+
+  const updateRevenue = (updates: Partial<RevenueMetrics>) =>
+    updateAssumptions(prev => ({ revenueMetrics: { ...prev.revenueMetrics, ...updates } }));
+
+  const updateCosts = (update: (costs: CostMetrics) => Partial<CostMetrics>) =>
+    updateAssumptions(prev => ({ costMetrics: { ...prev.costMetrics, ...update(prev.costMetrics) } }));
+
+  const updateMarketing = (updates: Partial<MarketingCosts>) =>
+    updateCosts(prev => ({ marketing: { ...prev.marketing, ...updates } }));
+
+  const updateChannels = (update: (channels: MarketingChannelItem[]) => MarketingChannelItem[]) =>
+    updateCosts(prev => ({
+      marketing: { ...prev.marketing, channels: allocateChannelBudgets(update(prev.marketing.channels || [])) }
+    }));
+
+  const updateStaffRoles = (update: (roles: StaffRoleItem[]) => StaffRoleItem[]) =>
+    updateCosts(prev => {
+      const staffRoles = update(prev.staffRoles);
+      return { staffRoles, staffingAllocationMode: staffRoles.length > 0 ? 'detailed' : 'simple' };
+    });
+
+  const updateRisks = (update: (risks: RiskAssessment[]) => RiskAssessment[]) =>
+    updateAssumptions(prev => ({ risks: update(prev.risks) }));
+
+  const selectTemplate = (template: ProductTemplate) => {
+    setDraft(prev => createSetupDraft(template, { ...prev.details, type: productType }));
+  };
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => updateDetails({ logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const goToStep = (target: SetupStep) => {
+    setIssues([]);
+    setStep(target);
+  };
+
+  const handleNext = () => {
+    const stepIssues = validateSetupStep(step, draft);
+    setIssues(stepIssues);
+    if (stepIssues.length === 0) {
+      setStep(SETUP_STEPS[stepIndex + 1]);
+    }
+  };
+
+  const handleCreate = () => {
+    const invalidStep = findInvalidSetupStep(draft);
+    if (invalidStep) {
+      setStep(invalidStep);
+      setIssues(validateSetupStep(invalidStep, draft));
+      return;
+    }
+
+    const productId = addProductFromTemplate(assumptions, { ...details, name: details.name.trim(), description: details.description.trim() });
+    onCreated(productId);
+  };
+
+  const renderNumberField = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    options: { step?: number; min?: number; percent?: boolean } = {}
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={options.min ?? 0}
+        max={options.percent ? 100 : undefined}
+        step={options.step ?? 1}
+        value={options.percent ? toPercent(value) : value || 0}
+        onValueChange={(input) => onChange(options.percent ? Number(input) / 100 : Number(input))}
+      />
+    </div>
+  );
+
+  const renderStart = () => {
+    const templates = [createBlankTemplate(productType), ...getTemplatesForType(productTemplates, productType)];
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="setupProductType">Product Type</Label>
+          <Select
+            value={productType}
+            onValueChange={(value) => {
+              setProductType(value as ProductInfo['type']);
+              updateDetails({ type: value as ProductInfo['type'] });
+            }}
+          >
+            <SelectTrigger id="setupProductType">
+              <SelectValue placeholder="Select product type" />
+            </SelectTrigger>
+            <SelectContent>
+              {PRODUCT_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          {templates.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => selectTemplate(option)}
+              className={`w-full text-left border rounded-md p-3 transition-colors ${
+                assumptions.id === option.id ? 'border-blue-600 bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">{option.name}</h3>
+                <span className="text-xs text-gray-500">
+                  {option.id === 'blank' ? 'Blank' : `${option.builtIn ? 'Starter' : 'Saved'} · ${option.productType}`}
+                </span>
+              </div>
+              {option.description && <p className="text-sm text-gray-500 mt-1">{option.description}</p>}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDetails = () => (
+    <div className="grid gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="setupProductName">Product Name</Label>
+        <Input
+          id="setupProductName"
+          value={details.name}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDetails({ name: e.target.value })}
+          placeholder="Enter product name"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="setupDescription">Description</Label>
+        <Textarea
+          id="setupDescription"
+          value={details.description}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateDetails({ description: e.target.value })}
+          placeholder="Enter a brief description of your product"
+          className="h-20"
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="setupCurrency">Currency</Label>
+          <Select value={details.currency} onValueChange={(value) => updateDetails({ currency: value as Currency })}>
+            <SelectTrigger id="setupCurrency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(option => (
+                <SelectItem key={option} value={option}>{CURRENCY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="setupLaunchDate">Launch Date</Label>
+          <Input
+            id="setupLaunchDate"
+            type="date"
+            value={isNaN(details.launchDate.getTime()) ? '' : toDateInput(details.launchDate)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDetails({ launchDate: new Date(`${e.target.value}T00:00:00`) })}
+          />
+        </div>
+        {renderNumberField('setupForecastPeriod', 'Forecast Period (weeks)', details.forecastPeriod, value => updateDetails({ forecastPeriod: value }), { min: 1 })}
+        {renderNumberField('setupEventsPerWeek', 'Events per Week', details.eventsPerWeek || 0, value => updateDetails({ eventsPerWeek: value }))}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="setupLogo">Logo</Label>
+        <div className="flex items-center gap-4">
+          <input
+            id="setupLogo"
+            type="file"
+            accept="image/*"
+            onChange={handleLogoUpload}
+            className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          {details.logo && (
+            <div className="h-12 w-12 overflow-hidden rounded-md border">
+              <img src={details.logo} alt="Product logo preview" className="h-full w-full object-cover" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderGrowth = () => {
+    const perEvent = assumptions.forecastType === 'per-event';
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="setupVisitorCount">Visitors Counted</Label>
+          <Select
+            value={perEvent ? 'per-event' : 'weekly'}
+            onValueChange={(value) => updateAssumptions(() => ({ forecastType: value as ProductInfo['forecastType'] }))}
+          >
+            <SelectTrigger id="setupVisitorCount">
+              <SelectValue placeholder="Select how visitors are counted" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Per week</SelectItem>
+              <SelectItem value="per-event">Per event</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {perEvent
+          ? renderNumberField('setupVisitorsPerEvent', 'Visitors per Event', growthMetrics.visitorsPerEvent, value => updateGrowth({ visitorsPerEvent: value }))
+          : renderNumberField('setupWeeklyVisitors', 'Weekly Visitors', growthMetrics.weeklyVisitors, value => updateGrowth({ weeklyVisitors: value }))}
+        <div className="space-y-2">
+          <Label htmlFor="setupGrowthModel">Growth Model</Label>
+          <Select value={growthMetrics.growthModel} onValueChange={(value) => updateGrowth({ growthModel: value as GrowthModel })}>
+            <SelectTrigger id="setupGrowthModel">
+              <SelectValue placeholder="Select growth model" />
+            </SelectTrigger>
+            <SelectContent>
+              {GROWTH_MODELS.map(model => (
+                <SelectItem key={model} value={model}>{model}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {renderNumberField(
+          'setupGrowthRate',
+          growthMetrics.growthModel === 'Decay' ? 'Weekly Decay Rate (%)' : 'Weekly Growth Rate (%)',
+          growthMetrics.weeklyGrowthRate,
+          value => updateGrowth({ weeklyGrowthRate: value }),
+          { step: 0.1, min: -100 }
+        )}
+        {renderNumberField('setupPeakDay', 'Peak Day Attendance', growthMetrics.peakDayAttendance, value => updateGrowth({ peakDayAttendance: value }))}
+        {renderNumberField('setupLowDay', 'Low Day Attendance', growthMetrics.lowDayAttendance, value => updateGrowth({ lowDayAttendance: value }))}
+        {GROWTH_RATE_FIELDS.map(field => (
+          <React.Fragment key={field.key}>
+            {renderNumberField(`setup-${field.key}`, field.label, growthMetrics[field.key], value => updateGrowth({ [field.key]: value }), { step: 0.1, percent: true })}
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  };
+
+  const renderRevenue = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {REVENUE_STREAM_FIELDS.map(field => (
+        <React.Fragment key={field.price}>
+          {renderNumberField(`setup-${field.price}`, `${field.priceLabel} (${details.currency})`, revenueMetrics[field.price], value => updateRevenue({ [field.price]: value }), { step: 0.01 })}
+          {renderNumberField(`setup-${field.rate}`, field.rateLabel, revenueMetrics[field.rate], value => updateRevenue({ [field.rate]: value }), { step: 0.1, percent: true })}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  const renderCosts = () => (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-700">Costs per Event</h4>
+        {costMetrics.eventCosts.map(cost => (
+          <div key={cost.id} className="flex items-center gap-2">
+            <Input
+              value={cost.name}
+              placeholder="Cost name"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCosts(prev => ({
+                eventCosts: prev.eventCosts.map(item => item.id === cost.id ? { ...item, name: e.target.value } : item)
+              }))}
+            />
+            <Input
+              type="number"
+              min={0}
+              className="w-32"
+              value={cost.amount}
+              onValueChange={(value) => updateCosts(prev => ({
+                eventCosts: prev.eventCosts.map(item => item.id === cost.id ? { ...item, amount: Number(value) } : item)
+              }))}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateCosts(prev => ({ eventCosts: prev.eventCosts.filter(item => item.id !== cost.id) }))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateCosts(prev => ({ eventCosts: [...prev.eventCosts, { id: newItemId(), name: '', amount: 0 }] }))}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Event Cost
+        </Button>
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-700">Setup Costs</h4>
+        {costMetrics.setupCosts.map(cost => (
+          <div key={cost.id} className="flex items-center gap-2">
+            <Input
+              value={cost.name}
+              placeholder="Cost name"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCosts(prev => ({
+                setupCosts: prev.setupCosts.map(item => item.id === cost.id ? { ...item, name: e.target.value } : item)
+              }))}
+            />
+            <Input
+              type="number"
+              min={0}
+              className="w-32"
+              value={cost.amount}
+              onValueChange={(value) => updateCosts(prev => ({
+                setupCosts: prev.setupCosts.map(item => item.id === cost.id ? { ...item, amount: Number(value) } : item)
+              }))}
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={cost.amortize}
+                onChange={(e) => updateCosts(prev => ({
+                  setupCosts: prev.setupCosts.map(item => item.id === cost.id ? { ...item, amortize: e.target.checked } : item)
+                }))}
+              />
+              Spread over forecast
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateCosts(prev => ({ setupCosts: prev.setupCosts.filter(item => item.id !== cost.id) }))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateCosts(prev => ({ setupCosts: [...prev.setupCosts, { id: newItemId(), name: '', amount: 0, amortize: true }] }))}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Setup Cost
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderNumberField('setupFbCog', 'F&B Cost of Goods (% of F&B revenue)', costMetrics.fbCogPercentage, value => updateCosts(() => ({ fbCogPercentage: value })))}
+        {renderNumberField('setupMerchCog', `Merchandise Cost per Unit (${details.currency})`, costMetrics.merchandiseCogPerUnit, value => updateCosts(() => ({ merchandiseCogPerUnit: value })), { step: 0.01 })}
+      </div>
+    </div>
+  );
+
+  const renderStaffing = () => (
+    <div className="space-y-4">
+      {costMetrics.staffRoles.map(role => (
+        <div key={role.id} className="flex items-center gap-2">
+          <Input
+            value={role.role}
+            placeholder="Role"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateStaffRoles(roles =>
+              roles.map(item => item.id === role.id ? { ...item, role: e.target.value } : item)
+            )}
+          />
+          <Input
+            type="number"
+            min={0}
+            className="w-20"
+            title="Number of staff"
+            value={role.count}
+            onValueChange={(value) => updateStaffRoles(roles =>
+              roles.map(item => item.id === role.id ? { ...item, count: Number(value) } : item)
+            )}
+          />
+          <Input
+            type="number"
+            min={0}
+            className="w-28"
+            title={role.isFullTime ? 'Weekly cost per person' : 'Cost per person per event'}
+            value={role.costPerPerson}
+            onValueChange={(value) => updateStaffRoles(roles =>
+              roles.map(item => item.id === role.id ? { ...item, costPerPerson: Number(value) } : item)
+            )}
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={Boolean(role.isFullTime)}
+              onChange={(e) => updateStaffRoles(roles =>
+                roles.map(item => item.id === role.id ? { ...item, isFullTime: e.target.checked } : item)
+              )}
+            />
+            Full-time
+          </label>
+          <Button variant="ghost" size="sm" onClick={() => updateStaffRoles(roles => roles.filter(item => item.id !== role.id))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {costMetrics.staffRoles.length > 0 ? (
+        <p className="text-xs text-gray-500">
+          Event staff are paid per event; full-time staff are a weekly cost whatever the number of events.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderNumberField('setupStaffPerEvent', 'Staff per Event', costMetrics.additionalStaffingPerEvent, value => updateCosts(() => ({ additionalStaffingPerEvent: value })))}
+          {renderNumberField('setupStaffCost', `Cost per Person per Event (${details.currency})`, costMetrics.staffingCostPerPerson, value => updateCosts(() => ({ staffingCostPerPerson: value })))}
+        </div>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => updateStaffRoles(roles => [...roles, { id: newItemId(), role: '', count: 1, costPerPerson: 0, isFullTime: false, notes: '' }])}
+      >
+        <Plus className="h-4 w-4 mr-1" /> Add Staff Role
+      </Button>
+    </div>
+  );
+
+  const renderMarketing = () => {
+    const marketing = costMetrics.marketing;
+    const mode = getMarketingBudgetMode(marketing);
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="setupMarketingMode">Budget</Label>
+          <Select
+            value={mode}
+            onValueChange={(value) => updateMarketing(value === 'channels'
+              ? { allocationMode: 'channels' }
+              : { allocationMode: 'simple', type: value as 'weekly' | 'campaign' })}
+          >
+            <SelectTrigger id="setupMarketingMode">
+              <SelectValue placeholder="Select how the budget is set" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MARKETING_BUDGET_MODE_LABELS) as MarketingBudgetMode[]).map(option => (
+                <SelectItem key={option} value={option}>{MARKETING_BUDGET_MODE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {mode === 'weekly' && renderNumberField('setupWeeklyBudget', `Weekly Budget (${details.currency})`, marketing.weeklyBudget || 0, value => updateMarketing({ weeklyBudget: value }))}
+        {mode === 'campaign' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderNumberField('setupCampaignBudget', `Campaign Budget (${details.currency})`, marketing.campaignBudget || 0, value => updateMarketing({ campaignBudget: value }))}
+            {renderNumberField('setupCampaignWeeks', 'Campaign Length (weeks)', marketing.campaignDurationWeeks || 0, value => updateMarketing({ campaignDurationWeeks: value }), { min: 1 })}
+          </div>
+        )}
+        {mode === 'channels' && (
+          <div className="space-y-2">
+            {(marketing.channels || []).map(channel => (
+              <div key={channel.id} className="flex items-center gap-2">
+                <Input
+                  value={channel.name || ''}
+                  placeholder="Channel"
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateChannels(channels =>
+                    channels.map(item => item.id === channel.id ? { ...item, name: e.target.value } : item)
+                  )}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-32"
+                  title="Weekly budget"
+                  value={channel.budget || 0}
+                  onValueChange={(value) => updateChannels(channels =>
+                    channels.map(item => item.id === channel.id ? { ...item, budget: Number(value) } : item)
+                  )}
+                />
+                <span className="w-14 text-right text-sm text-gray-500">{channel.allocation || 0}%</span>
+                <Button variant="ghost" size="sm" onClick={() => updateChannels(channels => channels.filter(item => item.id !== channel.id))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateChannels(channels => [...channels, { id: newItemId(), name: '', budget: 0 }])}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Channel
+            </Button>
+            <p className="text-xs text-gray-500">Channel budgets are spent every week of the forecast.</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRisks = () => (
+    <div className="space-y-4">
+      {assumptions.risks.length === 0 && (
+        <p className="text-sm text-gray-500">No risks yet. Add the ones that could move the forecast most; more can be added later.</p>
+      )}
+      {assumptions.risks.map(risk => {
+        const updateRisk = (updates: Partial<RiskAssessment>) => updateRisks(risks => risks.map(item => {
+          if (item.id !== risk.id) return item;
+          const updated = { ...item, ...updates };
+          return { ...updated, riskScore: getRiskScore(updated.likelihood, updated.impact) };
+        }));
+        return (
+          <div key={risk.id} className="border rounded-md p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                className="p-2 border rounded text-sm"
+                value={risk.type}
+                onChange={(e) => updateRisk({ type: e.target.value as RiskType })}
+              >
+                {RISK_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <Input
+                value={risk.description}
+                placeholder="What could happen?"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRisk({ description: e.target.value })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => updateRisks(risks => risks.filter(item => item.id !== risk.id))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <label className="flex items-center gap-1">
+                Likelihood
+                <select
+                  className="p-1 border rounded"
+                  value={risk.likelihood}
+                  onChange={(e) => updateRisk({ likelihood: e.target.value as LikelihoodLevel })}
+                >
+                  {LIKELIHOOD_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Impact
+                <select
+                  className="p-1 border rounded"
+                  value={risk.impact}
+                  onChange={(e) => updateRisk({ impact: e.target.value as ImpactLevel })}
+                >
+                  {IMPACT_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Cost if it happens ({details.currency})
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  value={risk.financialImpact}
+                  onValueChange={(value) => updateRisk({ financialImpact: Number(value) })}
+                />
+              </label>
+            </div>
+            <Input
+              value={risk.mitigationStrategy}
+              placeholder="How it will be mitigated"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRisk({ mitigationStrategy: e.target.value })}
+            />
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => updateRisks(risks => [...risks, {
+          id: newItemId(),
+          type: 'Revenue',
+          description: '',
+          likelihood: 'Medium',
+          impact: 'Medium',
+          financialImpact: 0,
+          mitigationStrategy: '',
+          owner: '',
+          status: 'Open',
+          riskScore: getRiskScore('Medium', 'Medium')
+        }])}
+      >
+        <Plus className="h-4 w-4 mr-1" /> Add Risk
+      </Button>
+    </div>
+  );
+
+  const renderReview = () => {
+    const marketing = costMetrics.marketing;
+    const summary: { step: SetupStep; lines: string[] }[] = [
+      { step: 'details', lines: [details.name || 'Unnamed product', `${details.type} · ${details.currency}`, `Launches ${formatDate(details.launchDate)} · ${details.forecastPeriod} weeks · ${details.eventsPerWeek || 0} events a week`] },
+      { step: 'growth', lines: [`${growthMetrics.growthModel} growth at ${growthMetrics.weeklyGrowthRate}% a week`] },
+      {
+        step: 'revenue',
+        lines: REVENUE_STREAM_FIELDS
+          .filter(field => revenueMetrics[field.price] > 0 && revenueMetrics[field.rate] > 0)
+          .map(field => `${field.priceLabel} ${formatMoney(revenueMetrics[field.price])}, bought by ${toPercent(revenueMetrics[field.rate])}%`)
+      },
+      { step: 'costs', lines: [`${costMetrics.eventCosts.length} costs per event, ${costMetrics.setupCosts.length} setup costs`] },
+      { step: 'staffing', lines: [`${costMetrics.staffRoles.length} staff roles`] },
+      { step: 'marketing', lines: [`${MARKETING_BUDGET_MODE_LABELS[getMarketingBudgetMode(marketing)]}${getMarketingBudgetMode(marketing) === 'channels' ? ` across ${(marketing.channels || []).length} channels` : ''}`] },
+      { step: 'risks', lines: [`${assumptions.risks.length} risks`] }
+    ];
+    return (
+      <div className="space-y-2">
+        {summary.map(section => (
+          <div key={section.step} className="flex items-start justify-between border rounded-md p-3">
+            <div>
+              <h4 className="font-medium">{SETUP_STEP_LABELS[section.step]}</h4>
+              {section.lines.map(line => <p key={line} className="text-sm text-gray-500">{line}</p>)}
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => goToStep(section.step)}>Edit</Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPreview = () => (
+    <div className="border rounded-md p-3 space-y-3 bg-gray-50">
+      <h4 className="text-sm font-semibold text-gray-700">Forecast Preview</h4>
+      {preview.weeks.length === 0 ? (
+        <p className="text-sm text-gray-500">Set a forecast period to see the forecast.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <p className="text-gray-500">Revenue</p>
+              <p className="font-medium">{formatMoney(preview.totalRevenue)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Costs</p>
+              <p className="font-medium">{formatMoney(preview.totalCosts)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Profit</p>
+              <p className={`font-medium ${preview.totalProfit < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatMoney(preview.totalProfit)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Break-even</p>
+              <p className="font-medium">{formatBreakEvenWeek(preview.breakEvenWeek)}</p>
+            </div>
+          </div>
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={preview.weeks}>
+                <XAxis dataKey="week" tick={{ fontSize: 10 }} />
+                <YAxis hide />
+                <Tooltip formatter={(value: number) => formatMoney(value)} labelFormatter={(week) => `Week ${week}`} />
+                <Line type="monotone" dataKey="revenue" name="Revenue" stroke="#2563eb" dot={false} />
+                <Line type="monotone" dataKey="costs" name="Costs" stroke="#dc2626" dot={false} />
+                <Line type="monotone" dataKey="cumulativeProfit" name="Cumulative profit" stroke="#16a34a" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'start': return renderStart();
+      case 'details': return renderDetails();
+      case 'growth': return renderGrowth();
+      case 'revenue': return renderRevenue();
+      case 'costs': return renderCosts();
+      case 'staffing': return renderStaffing();
+      case 'marketing': return renderMarketing();
+      case 'risks': return renderRisks();
+      case 'review': return renderReview();
+      default: return null;
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">New Product Setup</CardTitle>
+        <CardDescription>
+          Step {stepIndex + 1} of {SETUP_STEPS.length}: {SETUP_STEP_DESCRIPTIONS[step]}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={((stepIndex + 1) / SETUP_STEPS.length) * 100} className="h-2" />
+        <div className="flex flex-wrap gap-1">
+          {SETUP_STEPS.map((setupStep, index) => (
+            <Button
+              key={setupStep}
+              variant={setupStep === step ? 'default' : 'ghost'}
+              size="sm"
+              disabled={index > stepIndex}
+              onClick={() => goToStep(setupStep)}
+            >
+              {SETUP_STEP_LABELS[setupStep]}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className={step === 'start' ? 'lg:col-span-3' : 'lg:col-span-2'}>
+            {renderStep()}
+          </div>
+          {step !== 'start' && renderPreview()}
+        </div>
+        {issues.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {issues.map(issue => (
+              <p key={issue} className="flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" /> {issue}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="justify-between">
+        <Button variant="outline" onClick={() => stepIndex === 0 ? onCancel() : goToStep(SETUP_STEPS[stepIndex - 1])}>
+          {stepIndex === 0 ? 'Cancel' : 'Back'}
+        </Button>
+        {step === 'review' ? (
+          <Button onClick={handleCreate} className="bg-blue-600 hover:bg-blue-700">
+            Create Product
+          </Button>
+        ) : (
+          <Button onClick={handleNext}>Next</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
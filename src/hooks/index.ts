@@ -1,3 +1,4 @@
 export { default as useHybridStore } from './useHybridStore';
 export { default as useStorageSync } from './useStorageSync';
-export { useLocalStore } from './useLocalStore'; 
\ No newline at end of file
+export { useLocalStore } from './useLocalStore';
+export { useMonteCarlo } from './useMonteCarlo';
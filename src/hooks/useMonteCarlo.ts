@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Product } from '../types';
+import { toDate } from '../lib/seasonality';
+import { toModelInputs } from '../lib/modelInputs';
+import type { SimulationOptions, SimulationResult } from '../lib/monteCarlo';
+import type { MonteCarloRequest, MonteCarloResponse } from '../lib/monteCarlo.worker';
+
+interface MonteCarloState {
+  result: SimulationResult | null;
+  isRunning: boolean;
+  progress: number; // 0-1
+  error: string | null;
+}
+
+/**
+ * Hook that runs the Monte Carlo simulation for a product in a Web Worker.
+ * Starting a new run cancels any run still in progress.
+ */
+export const useMonteCarlo = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const [state, setState] = useState<MonteCarloState>({
+    result: null,
+    isRunning: false,
+    progress: 0,
+    error: null
+  });
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  // Never leave a worker running after the component unmounts
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setState(prev => ({ ...prev, isRunning: false, progress: 0 }));
+  }, [stopWorker]);
+
+  const run = useCallback((product: Product, options: SimulationOptions = {}) => {
+    stopWorker();
+
+    const worker = new Worker(new URL('../lib/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setState(prev => ({ ...prev, isRunning: true, progress: 0, error: null }));
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setState(prev => ({ ...prev, progress: message.completed / message.total }));
+        return;
+      }
+
+      stopWorker();
+      setState(prev => message.type === 'result'
+        ? { result: message.result, isRunning: false, progress: 1, error: null }
+        : { ...prev, isRunning: false, progress: 0, error: message.message });
+    };
+
+    worker.onerror = (event) => {
+      stopWorker();
+      setState(prev => ({ ...prev, isRunning: false, progress: 0, error: event.message || 'Simulation failed' }));
+    };
+
+    // Dates are normalised here because Firestore Timestamps lose their methods when posted to a worker
+    const productInfo = { ...product.info, launchDate: toDate(product.info.launchDate) || product.info.launchDate };
+    const request: MonteCarloRequest = {
+      inputs: toModelInputs(
+        productInfo,
+        product.growthMetrics,
+        product.revenueMetrics,
+        product.costMetrics,
+        { seasonalAnalysis: product.seasonalAnalysis, seasonalAdjustments: product.seasonalAdjustments }
+      ),
+      scenarios: product.scenarios || [],
+      options
+    };
+    worker.postMessage(request);
+  }, [stopWorker]);
+
+  return { ...state, run, cancel };
+};
+
+export default useMonteCarlo;
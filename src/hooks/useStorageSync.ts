@@ -1,14 +1,25 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useStorage } from '../contexts/StorageContext';
+import { useNetworkStatus } from '../contexts/NetworkStatusContext';
+import { useNotifications } from '../contexts/NotificationContext';
 import useHybridStore from './useHybridStore';
+import useStore from '../store/useStore';
+import type { ProductSyncResult } from '../lib/storageSync';
+
+// How often to pick up changes made on other devices while using the cloud
+const CLOUD_SYNC_INTERVAL = 5 * 60 * 1000;
 
 /**
  * Hook to synchronize storage context with the hybrid store
  * Ensures that both systems use the same storage mode
  */
 export const useStorageSync = () => {
-  const { storageMode } = useStorage();
+  const { storageMode, isInitializing } = useStorage();
+  const { isOnline } = useNetworkStatus();
+  const { addNotification } = useNotifications();
+  const { syncStorage, syncWithCloud } = useStore();
   const store = useHybridStore();
+  const wasOnline = useRef(isOnline);
 
   // Sync store's storage mode with the context's storage mode
   useEffect(() => {
@@ -17,10 +28,10 @@ export const useStorageSync = () => {
         // Only update if the storage modes are different
         if (store.storageMode !== storageMode) {
           console.log(`Syncing store storage mode to: ${storageMode}`);
-          
+
           // Set the store's mode to match the context's mode
           store.setStorageMode(storageMode);
-          
+
           // Re-initialize the store with the new mode
           await store.initializeStore();
         }
@@ -32,8 +43,56 @@ export const useStorageSync = () => {
     syncStoreMode();
   }, [storageMode, store]);
 
+  // Put the product store on the same mode; switching to the cloud reconciles what was saved locally
+  useEffect(() => {
+    if (!isInitializing) {
+      syncStorage(storageMode);
+    }
+  }, [storageMode, isInitializing, syncStorage]);
+
+  const runCloudSync = useCallback(async () => {
+    try {
+      const results = await syncWithCloud();
+      const count = (action: ProductSyncResult['action']) => results.filter(result => result.action === action).length;
+      const changed = count('pushed') + count('pulled') + count('merged') + count('deletedLocally') + count('deletedInCloud');
+
+      if (changed > 0) {
+        addNotification({
+          type: 'info',
+          message: `Synced ${changed} ${changed === 1 ? 'product' : 'products'} with the cloud`
+        });
+      }
+      if (count('failed') > 0) {
+        addNotification({
+          type: 'error',
+          message: `Failed to sync ${count('failed')} ${count('failed') === 1 ? 'product' : 'products'}; they will be retried`
+        });
+      }
+    } catch (err) {
+      console.error('Error syncing with the cloud:', err);
+    }
+  }, [syncWithCloud, addNotification]);
+
+  // Catch up when the connection comes back
+  useEffect(() => {
+    if (isOnline && !wasOnline.current && storageMode === 'cloud') {
+      runCloudSync();
+    }
+    wasOnline.current = isOnline;
+  }, [isOnline, storageMode, runCloudSync]);
+
+  // And every few minutes while using the cloud
+  useEffect(() => {
+    if (isInitializing || storageMode !== 'cloud' || !isOnline) {
+      return;
+    }
+
+    const interval = setInterval(runCloudSync, CLOUD_SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isInitializing, storageMode, isOnline, runCloudSync]);
+
   // This hook doesn't render anything
   return null;
 };
 
-export default useStorageSync; 
\ No newline at end of file
+export default useStorageSync;
@@ -0,0 +1,496 @@
+/**
+ * Actuals Import
+ * Turns rows read from a spreadsheet into actuals ledger entries: columns are
+ * mapped to ledger fields (suggested from the headers, or taken from a saved
+ * mapping template), each row is checked against the ledger's rules, and weeks
+ * appearing twice in the file or already in the ledger are picked out before
+ * anything is recorded.
+ */
+
+import type { ActualsEntry } from '../types';
+import type { SpreadsheetRows } from './spreadsheet';
+import { upsertActualsEntry } from './actualsLedger';
+import { getWeekForDate, getWeekStartDate, toDate } from './seasonality';
+
+export const ACTUALS_IMPORT_FIELDS = [
+  'week',
+  'date',
+  'numberOfEvents',
+  'footTraffic',
+  'averageEventAttendance',
+  'ticketRevenue',
+  'fbRevenue',
+  'merchandiseRevenue',
+  'digitalRevenue',
+  'totalRevenue',
+  'ticketsSold',
+  'fbTransactions',
+  'merchandiseTransactions',
+  'digitalPurchases',
+  'marketingCosts',
+  'staffingCosts',
+  'eventCosts',
+  'setupCosts',
+  'additionalCosts',
+  'fbCogs',
+  'merchandiseCogs',
+  'totalCosts',
+  'headcount',
+  'conversions',
+  'notes'
+] as const;
+export type ActualsImportField = typeof ACTUALS_IMPORT_FIELDS[number];
+
+export const ACTUALS_IMPORT_FIELD_LABELS: Record<ActualsImportField, string> = {
+  week: 'Week',
+  date: 'Date',
+  numberOfEvents: 'Events',
+  footTraffic: 'Foot Traffic',
+  averageEventAttendance: 'Avg Attendance',
+  ticketRevenue: 'Ticket Revenue',
+  fbRevenue: 'F&B Revenue',
+  merchandiseRevenue: 'Merchandise Revenue',
+  digitalRevenue: 'Digital Revenue',
+  totalRevenue: 'Total Revenue',
+  ticketsSold: 'Tickets Sold',
+  fbTransactions: 'F&B Transactions',
+  merchandiseTransactions: 'Merchandise Transactions',
+  digitalPurchases: 'Digital Purchases',
+  marketingCosts: 'Marketing Costs',
+  staffingCosts: 'Staffing Costs',
+  eventCosts: 'Event Costs',
+  setupCosts: 'Setup Costs',
+  additionalCosts: 'Additional Costs',
+  fbCogs: 'F&B COGS',
+  merchandiseCogs: 'Merchandise COGS',
+  totalCosts: 'Total Costs',
+  headcount: 'Headcount',
+  conversions: 'Conversions',
+  notes: 'Notes'
+};
+
+type FieldKind = 'count' | 'amount' | 'date' | 'text';
+
+const FIELD_KINDS: Record<ActualsImportField, FieldKind> = {
+  week: 'count',
+  date: 'date',
+  numberOfEvents: 'count',
+  footTraffic: 'count',
+  averageEventAttendance: 'amount',
+  ticketRevenue: 'amount',
+  fbRevenue: 'amount',
+  merchandiseRevenue: 'amount',
+  digitalRevenue: 'amount',
+  totalRevenue: 'amount',
+  ticketsSold: 'count',
+  fbTransactions: 'count',
+  merchandiseTransactions: 'count',
+  digitalPurchases: 'count',
+  marketingCosts: 'amount',
+  staffingCosts: 'amount',
+  eventCosts: 'amount',
+  setupCosts: 'amount',
+  additionalCosts: 'amount',
+  fbCogs: 'amount',
+  merchandiseCogs: 'amount',
+  totalCosts: 'amount',
+  headcount: 'count',
+  conversions: 'count',
+  notes: 'text'
+};
+
+// Other headers POS, ticketing and accounting exports use for each field, besides its label
+const FIELD_ALIASES: Record<ActualsImportField, string[]> = {
+  week: ['week number', 'week no', 'wk'],
+  date: ['week start', 'week beginning', 'week ending', 'period', 'day'],
+  numberOfEvents: ['number of events', 'event count', 'sessions', 'shows'],
+  footTraffic: ['total attendance', 'attendance', 'visitors', 'guests', 'admissions'],
+  averageEventAttendance: ['average attendance', 'attendance per event'],
+  ticketRevenue: ['tickets', 'ticket sales', 'admissions revenue', 'box office'],
+  fbRevenue: ['food and beverage', 'food & beverage', 'f&b', 'f&b sales', 'bar sales', 'food sales'],
+  merchandiseRevenue: ['merchandise', 'merch', 'retail', 'retail sales'],
+  digitalRevenue: ['digital', 'online', 'online sales'],
+  totalRevenue: ['revenue', 'sales', 'total sales', 'gross sales', 'net sales', 'income'],
+  ticketsSold: ['ticket count', 'tickets issued'],
+  fbTransactions: ['covers', 'f&b covers', 'bar transactions', 'f&b orders'],
+  merchandiseTransactions: ['merch transactions', 'retail transactions', 'merchandise orders'],
+  digitalPurchases: ['online orders', 'digital orders', 'downloads'],
+  marketingCosts: ['marketing', 'advertising', 'ad spend'],
+  staffingCosts: ['staffing', 'staff costs', 'wages', 'labour', 'labor', 'payroll'],
+  eventCosts: ['event costs', 'events costs', 'production'],
+  setupCosts: ['setup', 'set up costs'],
+  additionalCosts: ['other costs', 'overheads', 'sundry'],
+  fbCogs: ['f&b cost of goods', 'food cost', 'beverage cost', 'f&b cogs'],
+  merchandiseCogs: ['merchandise cost of goods', 'retail cogs', 'merch cogs'],
+  totalCosts: ['costs', 'expenses', 'total expenses', 'total costs'],
+  headcount: ['staff', 'staff count', 'employees'],
+  conversions: ['sign ups', 'signups', 'leads'],
+  notes: ['note', 'comments', 'comment', 'memo']
+};
+
+const REVENUE_STREAMS: ActualsImportField[] = ['ticketRevenue', 'fbRevenue', 'merchandiseRevenue', 'digitalRevenue'];
+const COST_LINES: ActualsImportField[] = [
+  'marketingCosts', 'staffingCosts', 'eventCosts', 'setupCosts', 'additionalCosts', 'fbCogs', 'merchandiseCogs'
+];
+
+// Totals further apart than this from the sum of their lines are flagged
+const TOTAL_TOLERANCE = 0.005;
+
+const TEMPLATES_KEY = 'fortress-actuals-import-templates';
+
+// Which column (by header) each ledger field is read from
+export type ActualsColumnMapping = Partial<Record<ActualsImportField, string>>;
+
+export interface ActualsImportTemplate {
+  id: string;
+  name: string;
+  mapping: ActualsColumnMapping;
+  createdAt: string;
+}
+
+export const ACTUALS_IMPORT_ROW_STATUSES = ['new', 'update', 'duplicate', 'invalid'] as const;
+export type ActualsImportRowStatus = typeof ACTUALS_IMPORT_ROW_STATUSES[number];
+
+export const ACTUALS_IMPORT_ROW_STATUS_LABELS: Record<ActualsImportRowStatus, string> = {
+  new: 'New week',
+  update: 'Already recorded',
+  duplicate: 'Repeated week',
+  invalid: 'Invalid'
+};
+
+export interface ActualsImportRow {
+  rowNumber: number; // Row in the spreadsheet, counting the header as row 1
+  week: number | null;
+  fields: Partial<Omit<ActualsEntry, 'id' | 'week'>>;
+  status: ActualsImportRowStatus;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ActualsImportResult {
+  actuals: ActualsEntry[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/\band\b/g, '&').replace(/[^a-z0-9&]+/g, ' ').trim();
+
+/**
+ * Suggest a column for each field from the headers, by label or common alias
+ */
+export function suggestColumnMapping(headers: string[]): ActualsColumnMapping {
+  const mapping: ActualsColumnMapping = {};
+  const used = new Set<string>();
+
+  // Exact labels first, so 'Total Revenue' isn't taken by the looser 'revenue' alias
+  const candidates = (field: ActualsImportField) => [
+    ACTUALS_IMPORT_FIELD_LABELS[field],
+    field.replace(/([a-z])([A-Z])/g, '$1 $2'),
+    ...FIELD_ALIASES[field]
+  ].map(normalizeHeader);
+
+  const passes = [
+    (field: ActualsImportField) => candidates(field).slice(0, 2),
+    (field: ActualsImportField) => candidates(field)
+  ];
+
+  passes.forEach(pass => {
+    ACTUALS_IMPORT_FIELDS.forEach(field => {
+      if (mapping[field]) return;
+      const names = pass(field);
+      const header = headers.find(h => !used.has(h) && names.includes(normalizeHeader(h)));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    });
+  });
+
+  return mapping;
+}
+
+/**
+ * A template's mapping, keeping only the columns present in `headers`
+ */
+export function applyImportTemplate(template: ActualsImportTemplate, headers: string[]): ActualsColumnMapping {
+  return Object.fromEntries(
+    Object.entries(template.mapping).filter(([, header]) => header && headers.includes(header))
+  ) as ActualsColumnMapping;
+}
+
+/**
+ * The saved template made for files with these headers, if any: the one with
+ * the most mapped columns among those whose columns are all present
+ */
+export function findMatchingTemplate(templates: ActualsImportTemplate[], headers: string[]): ActualsImportTemplate | null {
+  const matching = templates.filter(template => {
+    const mapped = Object.values(template.mapping).filter(Boolean);
+    return mapped.length > 0 && mapped.every(header => headers.includes(header as string));
+  });
+  matching.sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length);
+  return matching[0] || null;
+}
+
+/**
+ * Mapping templates saved in this browser, oldest first
+ */
+export function getImportTemplates(): ActualsImportTemplate[] {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading import templates:', error);
+    return [];
+  }
+}
+
+function saveImportTemplates(templates: ActualsImportTemplate[]): void {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error saving import templates:', error);
+  }
+}
+
+/**
+ * Save a mapping under `name`, replacing any template with the same name
+ */
+export function saveImportTemplate(name: string, mapping: ActualsColumnMapping): ActualsImportTemplate {
+  const template: ActualsImportTemplate = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    mapping,
+    createdAt: new Date().toISOString()
+  };
+  const others = getImportTemplates().filter(t => t.name.toLowerCase() !== template.name.toLowerCase());
+  saveImportTemplates([...others, template]);
+  return template;
+}
+
+export function deleteImportTemplate(id: string): void {
+  saveImportTemplates(getImportTemplates().filter(template => template.id !== id));
+}
+
+/**
+ * Read a number as exports format it: currency symbols and codes, thousands
+ * separators and accounting-style (negatives) are allowed. Null when it isn't one.
+ */
+export function parseImportNumber(text: string): number | null {
+  let value = text.trim().replace(/\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+  // Currency symbols and codes, such as $, A$, NZ$, AUD
+  value = value.replace(/^(?:[A-Z]{1,3})?\$|^[A-Z]{3}|[A-Z]{3}$/gi, '');
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+  value = value.replace(/,/g, '');
+
+  if (!/^\d*\.?\d+$/.test(value)) return null;
+  const number = parseFloat(value);
+  return negative ? -number : number;
+}
+
+/**
+ * Read a date written as ISO, day-first (or month-first where it can only be
+ * that) numbers, an Excel date serial or text such as 'Mar 4, 2024'
+ */
+export function parseImportDate(text: string): Date | null {
+  const value = text.trim();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    // Excel date serial, counted in days from 30 December 1899
+    const serial = parseFloat(value);
+    return serial > 20000 && serial < 80000
+      ? new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 24 * 60 * 60 * 1000)
+      : null;
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return second > 12 ? validDate(year, first, second) : validDate(year, second, first);
+  }
+
+  return toDate(value);
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+const sumOf = (fields: Partial<ActualsEntry>, keys: ActualsImportField[]): number | null => {
+  const values = keys
+    .map(key => fields[key as keyof ActualsEntry])
+    .filter((value): value is number => typeof value === 'number');
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+};
+
+const totalsDiffer = (total: number, sum: number): boolean =>
+  Math.abs(total - sum) > Math.max(1, Math.abs(total) * TOTAL_TOLERANCE);
+
+/**
+ * Check the data rows (the header row excluded) against the ledger's rules.
+ * Every row comes back with its status: new or updated weeks will be recorded,
+ * invalid rows and later repeats of a week already in the file won't be.
+ * `launchDate` fills in whichever of the week and date a row doesn't have.
+ */
+export function validateActualsRows(
+  rows: SpreadsheetRows,
+  headers: string[],
+  mapping: ActualsColumnMapping,
+  existing: ActualsEntry[],
+  launchDate?: Date | null
+): ActualsImportRow[] {
+  const columns = Object.fromEntries(
+    Object.entries(mapping).map(([field, header]) => [field, header ? headers.indexOf(header) : -1])
+  ) as Partial<Record<ActualsImportField, number>>;
+  const existingWeeks = new Set(existing.map(entry => entry.week));
+  const seenWeeks = new Map<number, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const fields: Record<string, unknown> = {};
+    let week: number | null = null;
+    let date: Date | null = null;
+
+    for (const field of ACTUALS_IMPORT_FIELDS) {
+      const column = columns[field];
+      if (column === undefined || column < 0) continue;
+      const text = (row[column] ?? '').trim();
+      if (!text) continue;
+
+      const label = ACTUALS_IMPORT_FIELD_LABELS[field];
+      const kind = FIELD_KINDS[field];
+
+      if (kind === 'text') {
+        fields[field] = text;
+      } else if (kind === 'date') {
+        date = parseImportDate(text);
+        if (!date) errors.push(`${label} "${text}" isn't a date`);
+      } else {
+        const number = parseImportNumber(text);
+        if (number === null) {
+          errors.push(`${label} "${text}" isn't a number`);
+        } else if (number < 0) {
+          errors.push(`${label} can't be negative`);
+        } else if (kind === 'count' && !Number.isInteger(number)) {
+          errors.push(`${label} must be a whole number`);
+        } else if (field === 'week') {
+          week = number;
+        } else {
+          fields[field] = number;
+        }
+      }
+    }
+
+    // Work out whichever of the week and date is missing from the launch date
+    const launch = launchDate && !isNaN(launchDate.getTime()) ? launchDate : null;
+    if (week === null && date && launch) {
+      week = getWeekForDate(launch, date);
+      if (week < 1) {
+        errors.push('The date is before the product launched');
+        week = null;
+      } else {
+        warnings.push(`Week ${week} worked out from the date`);
+      }
+    }
+    if (week === 0) {
+      errors.push('Week must be 1 or later');
+    } else if (week === null && !errors.some(error => error.startsWith('Week') || error.startsWith('Date'))) {
+      errors.push('No week number, or a date to work it out from');
+    }
+    if (week !== null && !date && launch) {
+      date = getWeekStartDate(launch, week);
+    }
+    if (date) fields.date = date.toISOString();
+
+    // Totals are worked out from their lines when not given, and checked against them when they are
+    const entryFields = fields as Partial<ActualsEntry>;
+    const revenueSum = sumOf(entryFields, REVENUE_STREAMS);
+    if (entryFields.totalRevenue === undefined && revenueSum !== null) {
+      entryFields.totalRevenue = revenueSum;
+    } else if (entryFields.totalRevenue !== undefined && revenueSum !== null && totalsDiffer(entryFields.totalRevenue, revenueSum)) {
+      warnings.push("Total revenue doesn't match the revenue streams");
+    }
+    const costSum = sumOf(entryFields, COST_LINES);
+    if (entryFields.totalCosts === undefined && costSum !== null) {
+      entryFields.totalCosts = costSum;
+    } else if (entryFields.totalCosts !== undefined && costSum !== null && totalsDiffer(entryFields.totalCosts, costSum)) {
+      warnings.push("Total costs don't match the cost lines");
+    }
+
+    if (entryFields.averageEventAttendance === undefined && entryFields.numberOfEvents && entryFields.footTraffic !== undefined) {
+      entryFields.averageEventAttendance = Math.round(entryFields.footTraffic / entryFields.numberOfEvents);
+    }
+
+    const hasFigures = ACTUALS_IMPORT_FIELDS.some(field =>
+      FIELD_KINDS[field] !== 'date' && FIELD_KINDS[field] !== 'text' && field !== 'week' && fields[field] !== undefined
+    );
+    if (!hasFigures && errors.length === 0) {
+      errors.push('No figures to record');
+    }
+
+    let status: ActualsImportRowStatus;
+    if (errors.length > 0 || week === null) {
+      status = 'invalid';
+    } else if (seenWeeks.has(week)) {
+      status = 'duplicate';
+      errors.push(`Week ${week} is also on row ${seenWeeks.get(week)}`);
+    } else {
+      seenWeeks.set(week, rowNumber);
+      status = existingWeeks.has(week) ? 'update' : 'new';
+      if (status === 'update') warnings.push(`Week ${week} already has actuals`);
+    }
+
+    return { rowNumber, week, fields: entryFields, status, errors, warnings };
+  });
+}
+
+/**
+ * Record the new weeks, and the updated ones unless `replaceExisting` is off,
+ * in the ledger. Updated weeks keep any figures the file doesn't have.
+ */
+export function applyActualsImport(
+  actuals: ActualsEntry[],
+  rows: ActualsImportRow[],
+  replaceExisting: boolean
+): ActualsImportResult {
+  let ledger = actuals;
+  let added = 0;
+  let updated = 0;
+
+  rows.forEach(row => {
+    if (row.week === null) return;
+    if (row.status === 'new') {
+      ledger = upsertActualsEntry(ledger, row.week, row.fields);
+      added++;
+    } else if (row.status === 'update' && replaceExisting) {
+      ledger = upsertActualsEntry(ledger, row.week, row.fields);
+      updated++;
+    }
+  });
+
+  return { actuals: ledger, added, updated, skipped: rows.length - added - updated };
+}
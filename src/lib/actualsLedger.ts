@@ -0,0 +1,204 @@
+/**
+ * Actuals Ledger
+ * A product's recorded actuals, one entry per week, shared by the actuals
+ * tracker, marketing channel actuals, dashboards, variance analysis, PDFs and
+ * exports so they all read the same numbers. Takings can also be captured per
+ * event night or trading day; those records are kept on the week they fall in,
+ * counted from the launch date, and rolled up into its figures.
+ */
+
+import type { ActualsEntry, ActualsRecord } from '../types';
+import { ValidationError } from './errorHandling';
+import { getWeekForDate, getWeekStartDate } from './seasonality';
+
+// Ledger entry with its running profit, as shown in reports
+export interface ActualsWithProfit extends ActualsEntry {
+  weeklyProfit: number;
+  cumulativeProfit: number;
+}
+
+// Numeric ledger fields that can be totalled
+export type ActualsAmountField = {
+  [K in keyof ActualsEntry]-?: ActualsEntry[K] extends number | undefined ? K : never
+}[keyof ActualsEntry];
+
+export const getActualProfit = (entry: Pick<ActualsEntry, 'totalRevenue' | 'totalCosts'>): number =>
+  (entry.totalRevenue || 0) - (entry.totalCosts || 0);
+
+/**
+ * The ledger entry for a week, if one was recorded
+ */
+export function getActualsForWeek(actuals: ActualsEntry[] | undefined, week: number): ActualsEntry | undefined {
+  return (actuals || []).find(entry => entry.week === week);
+}
+
+/**
+ * Entries in week order
+ */
+export function sortActuals(actuals: ActualsEntry[] | undefined): ActualsEntry[] {
+  return [...(actuals || [])].sort((a, b) => a.week - b.week);
+}
+
+/**
+ * Total of a field across the entries
+ */
+export function sumActuals(actuals: ActualsEntry[] | undefined, field: ActualsAmountField): number {
+  return (actuals || []).reduce((sum, entry) => sum + (entry[field] || 0), 0);
+}
+
+/**
+ * Entries in week order with their weekly and cumulative profit
+ */
+export function withRunningProfit(actuals: ActualsEntry[] | undefined): ActualsWithProfit[] {
+  let cumulativeProfit = 0;
+  return sortActuals(actuals).map(entry => {
+    const weeklyProfit = getActualProfit(entry);
+    cumulativeProfit += weeklyProfit;
+    return { ...entry, weeklyProfit, cumulativeProfit };
+  });
+}
+
+// Week figures worked out from the records; everything else is recorded against the week itself
+const RECORD_AMOUNT_FIELDS = [
+  'ticketRevenue',
+  'fbRevenue',
+  'merchandiseRevenue',
+  'digitalRevenue',
+  'staffingCosts',
+  'eventCosts',
+  'additionalCosts',
+  'fbCogs'
+] as const;
+
+// Week-level costs that aren't split by event or day, such as marketing spend
+const WEEK_COST_FIELDS = ['marketingCosts', 'setupCosts', 'merchandiseCogs'] as const;
+
+const recordEvents = (record: ActualsRecord): number =>
+  record.kind === 'event' ? 1 : record.numberOfEvents || 0;
+
+/**
+ * Work out a week's attendance, revenue and venue costs from its event and day
+ * records. Week-level costs (marketing, setup, merchandise COGS) are kept and
+ * added to the total. Entries without records are returned unchanged.
+ */
+export function rollUpRecords(entry: ActualsEntry): ActualsEntry {
+  const records = entry.records || [];
+  if (records.length === 0) return entry;
+
+  const rolledUp: ActualsEntry = { ...entry };
+  RECORD_AMOUNT_FIELDS.forEach(field => {
+    rolledUp[field] = records.reduce((sum, record) => sum + (record[field] || 0), 0);
+  });
+
+  const numberOfEvents = records.reduce((sum, record) => sum + recordEvents(record), 0);
+  const footTraffic = records.reduce((sum, record) => sum + (record.attendance || 0), 0);
+  rolledUp.numberOfEvents = numberOfEvents;
+  rolledUp.footTraffic = footTraffic;
+  rolledUp.averageEventAttendance = numberOfEvents > 0 ? Math.round(footTraffic / numberOfEvents) : 0;
+
+  rolledUp.totalRevenue = records.reduce((sum, record) => sum + (record.totalRevenue || 0), 0);
+  rolledUp.totalCosts = records.reduce((sum, record) => sum + (record.totalCosts || 0), 0) +
+    WEEK_COST_FIELDS.reduce((sum, field) => sum + (entry[field] || 0), 0);
+
+  return rolledUp;
+}
+
+/**
+ * A week's event and day records in date order, for drilling into its figures
+ */
+export function getActualsRecords(entry: ActualsEntry | undefined): ActualsRecord[] {
+  return [...(entry?.records || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Record `changes` against a week: the week's entry is updated when there is
+ * one, otherwise a new entry is added. Fields not in `changes` are kept, so
+ * channel figures and the weekly totals can be recorded separately. Weeks
+ * captured as event or day records keep the figures rolled up from them.
+ */
+export function upsertActualsEntry(
+  actuals: ActualsEntry[] | undefined,
+  week: number,
+  changes: Partial<Omit<ActualsEntry, 'id' | 'week'>>
+): ActualsEntry[] {
+  const ledger = actuals || [];
+  const index = ledger.findIndex(entry => entry.week === week);
+
+  if (index === -1) {
+    return [...ledger, {
+      id: crypto.randomUUID(),
+      week,
+      date: new Date().toISOString(),
+      totalRevenue: 0,
+      totalCosts: 0,
+      ...changes
+    }];
+  }
+
+  const updated = [...ledger];
+  updated[index] = rollUpRecords({ ...ledger[index], ...changes });
+  return updated;
+}
+
+/**
+ * Remove a record from whichever week holds it. A week left without records
+ * is dropped too, unless it has week-level figures such as marketing spend.
+ */
+export function removeActualsRecord(actuals: ActualsEntry[] | undefined, recordId: string): ActualsEntry[] {
+  return (actuals || []).flatMap(entry => {
+    if (!entry.records?.some(record => record.id === recordId)) return [entry];
+
+    const records = entry.records.filter(record => record.id !== recordId);
+    if (records.length > 0) return [rollUpRecords({ ...entry, records })];
+
+    const hasWeekFigures = WEEK_COST_FIELDS.some(field => entry[field]) || (entry.channelPerformance?.length ?? 0) > 0;
+    if (!hasWeekFigures) return [];
+
+    const weekFigures: ActualsEntry = {
+      ...entry,
+      totalRevenue: 0,
+      totalCosts: WEEK_COST_FIELDS.reduce((sum, field) => sum + (entry[field] || 0), 0)
+    };
+    delete weekFigures.records;
+    return [weekFigures];
+  });
+}
+
+/**
+ * Add an event or day record, or replace the one with the same id, on the week
+ * its date falls in counted from `launchDate`, and roll the week up again.
+ * An edited record whose date moved to another week moves with it.
+ */
+export function saveActualsRecord(
+  actuals: ActualsEntry[] | undefined,
+  record: ActualsRecord,
+  launchDate: Date
+): ActualsEntry[] {
+  const week = getWeekForDate(launchDate, new Date(record.date));
+  if (week < 1) {
+    throw new ValidationError('The date is before the product launched', 'date');
+  }
+
+  const holder = (actuals || []).find(entry => entry.records?.some(current => current.id === record.id));
+  if (holder?.week === week) {
+    const records = (holder.records || []).map(current => current.id === record.id ? record : current);
+    return (actuals || []).map(entry => entry === holder ? rollUpRecords({ ...entry, records }) : entry);
+  }
+
+  const ledger = holder ? removeActualsRecord(actuals, record.id) : actuals || [];
+  const entry = getActualsForWeek(ledger, week);
+  const records = [...(entry?.records || []), record];
+
+  if (entry) {
+    return ledger.map(current => current === entry ? rollUpRecords({ ...entry, records }) : current);
+  }
+
+  return [...ledger, rollUpRecords({
+    id: crypto.randomUUID(),
+    week,
+    date: getWeekStartDate(launchDate, week).toISOString(),
+    totalRevenue: 0,
+    totalCosts: 0,
+    records
+  })];
+}
@@ -0,0 +1,130 @@
+/**
+ * Currency
+ * Converts product amounts between currencies using the dated FX rate table,
+ * and formats them in whichever currency a view or report is shown in.
+ */
+
+import { DEFAULT_CURRENCY, CURRENCIES } from '../types';
+import type { Currency, FxRate, ProductInfo } from '../types';
+import { formatCurrency } from './utils';
+import { toDate } from './seasonality';
+
+// How a product's amounts are shown: multiplied by `rate` to turn `from` into `currency`
+export interface MoneyFormat {
+  from: Currency;
+  currency: Currency;
+  rate: number;
+}
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  AUD: 'Australian Dollar (AUD)',
+  NZD: 'New Zealand Dollar (NZD)',
+  USD: 'US Dollar (USD)'
+};
+
+export function getProductCurrency(info: Pick<ProductInfo, 'currency'> | null | undefined): Currency {
+  return info?.currency && CURRENCIES.includes(info.currency) ? info.currency : DEFAULT_CURRENCY;
+}
+
+/**
+ * Latest rate in effect on the date for the pair, quoted either way round
+ */
+function findQuotedRate(rates: FxRate[], from: Currency, to: Currency, asOf: Date): number | null {
+  let latestRate: number | null = null;
+  let latestTime = -Infinity;
+
+  for (const fxRate of rates) {
+    const time = toDate(fxRate.effectiveDate)?.getTime();
+    if (time === undefined || time > asOf.getTime() || !(fxRate.rate > 0)) continue;
+
+    const rate = fxRate.from === from && fxRate.to === to
+      ? fxRate.rate
+      : fxRate.from === to && fxRate.to === from ? 1 / fxRate.rate : null;
+    if (rate !== null && time >= latestTime) {
+      latestRate = rate;
+      latestTime = time;
+    }
+  }
+
+  return latestRate;
+}
+
+/**
+ * Rate converting `from` into `to` on the date. Pairs without a rate of their
+ * own are crossed through a third currency; null when neither route has one.
+ */
+export function findFxRate(rates: FxRate[], from: Currency, to: Currency, asOf: Date = new Date()): number | null {
+  if (from === to) return 1;
+
+  const direct = findQuotedRate(rates, from, to, asOf);
+  if (direct !== null) return direct;
+
+  for (const via of CURRENCIES) {
+    if (via === from || via === to) continue;
+    const first = findQuotedRate(rates, from, via, asOf);
+    const second = findQuotedRate(rates, via, to, asOf);
+    if (first !== null && second !== null) return first * second;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount, or null when there is no rate for the pair on the date
+ */
+export function convertAmount(
+  value: number,
+  from: Currency,
+  to: Currency,
+  rates: FxRate[],
+  asOf: Date = new Date()
+): number | null {
+  const rate = findFxRate(rates, from, to, asOf);
+  return rate === null ? null : value * rate;
+}
+
+/**
+ * Show a product's amounts in its own currency
+ */
+export function getProductMoneyFormat(info: Pick<ProductInfo, 'currency'> | null | undefined): MoneyFormat {
+  const currency = getProductCurrency(info);
+  return { from: currency, currency, rate: 1 };
+}
+
+/**
+ * Show a product's amounts converted to the reporting currency, or null when
+ * there is no rate to convert them with
+ */
+export function getReportingMoneyFormat(
+  info: Pick<ProductInfo, 'currency'> | null | undefined,
+  reportingCurrency: Currency,
+  rates: FxRate[],
+  asOf: Date = new Date()
+): MoneyFormat | null {
+  const from = getProductCurrency(info);
+  const rate = findFxRate(rates, from, reportingCurrency, asOf);
+  return rate === null ? null : { from, currency: reportingCurrency, rate };
+}
+
+/**
+ * Formatter for amounts in the product's currency, shown as the format says
+ */
+export function createMoneyFormatter(money: MoneyFormat): (value: number) => string {
+  return (value: number) => formatCurrency((Number(value) || 0) * money.rate, money.currency);
+}
+
+/**
+ * Note for report headers saying what currency amounts are in
+ */
+export function describeMoneyFormat(money: MoneyFormat): string {
+  if (money.from === money.currency) return `Amounts in ${money.currency}`;
+  return `Amounts in ${money.currency}, converted from ${money.from} at ${money.rate.toFixed(4)}`;
+}
+
+/**
+ * The symbol amounts in the currency are written with, e.g. 'A$' for AUD
+ */
+export function getCurrencySymbol(currency: Currency): string {
+  const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+}
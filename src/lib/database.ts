@@ -1,4 +1,4 @@
-import type { Product, GrowthMetrics, RevenueMetrics, CostMetrics, CustomerMetrics } from '../types';
+import type { ActualsEntry, Product, GrowthMetrics, RevenueMetrics, CostMetrics, CustomerMetrics } from '../types';
 import * as firestoreDb from './firestoreDb';
 
 // Simple error handling function
@@ -241,16 +241,16 @@ export async function updateProjections(
   }
 }
 
-// Update actual metrics
+// Add or replace entries in a product's actuals ledger
 export async function updateActuals(
   productId: string,
-  actualMetrics: any[]
+  entries: ActualsEntry[]
 ): Promise<void> {
   try {
     // Try to use Firestore first
     if (shouldUseFirestore()) {
       try {
-        await firestoreDb.updateActuals(productId, actualMetrics);
+        await firestoreDb.updateActuals(productId, entries);
         return;
       } catch (firestoreError) {
         console.error('Firestore updateActuals failed, falling back to localStorage:', firestoreError);
@@ -262,28 +262,27 @@ export async function updateActuals(
     
     const updatedProducts = products.map(product => {
       if (product.info.id === productId) {
-        // Map through existing metrics and update ones that already exist
+        // Map through existing entries and update ones that already exist
         // Add new ones that don't exist yet
-        const existingIds = new Set(product.actualMetrics.map(m => m.id));
-        const updatedMetrics = actualMetrics.map(metric => ({
+        const updatedMetrics = entries.map(metric => ({
           ...metric,
           id: metric.id || crypto.randomUUID()
         }));
         
         // Create a map of metrics by ID for easy lookup
-        const metricsById = new Map();
+        const metricsById = new Map<string, ActualsEntry>();
         updatedMetrics.forEach(metric => {
           metricsById.set(metric.id, metric);
         });
         
         // Combine existing metrics (if not being updated) with updated ones
-        const combinedMetrics = product.actualMetrics
+        const combinedMetrics = (product.actuals || [])
           .filter(metric => !metricsById.has(metric.id))
           .concat(Array.from(metricsById.values()));
         
         return {
           ...product,
-          actualMetrics: combinedMetrics
+          actuals: combinedMetrics
         };
       }
       return product;
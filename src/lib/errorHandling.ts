@@ -154,74 +154,24 @@ export class ValidationError extends Error {
   }
 }
 
-// Offline operation types
-export interface OfflineOperation {
-  id: string;
-  type: 'create' | 'update' | 'delete';
-  collection: string;
-  docId: string;
-  data?: Record<string, any>;
-  timestamp: number;
-  retryCount: number;
-}
+export class BundleValidationError extends Error {
+  issues: string[];
 
-// Function to queue operations for offline processing
-export function queueOfflineOperation(
-  type: OfflineOperation['type'],
-  collection: string,
-  docId: string,
-  data?: Record<string, any>
-): string {
-  const operation: OfflineOperation = {
-    id: `offline-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-    type,
-    collection,
-    docId,
-    data,
-    timestamp: Date.now(),
-    retryCount: 0
-  };
-  
-  // Get existing operations
-  const existingOperations = getOfflineOperations();
-  
-  // Add new operation
-  const updatedOperations = [...existingOperations, operation];
-  
-  // Save to localStorage
-  localStorage.setItem('offlineOperations', JSON.stringify(updatedOperations));
-  
-  return operation.id;
-}
-
-// Function to get all pending offline operations
-export function getOfflineOperations(): OfflineOperation[] {
-  try {
-    const operations = localStorage.getItem('offlineOperations');
-    return operations ? JSON.parse(operations) : [];
-  } catch (error) {
-    console.error('Error retrieving offline operations:', error);
-    return [];
-  }
-}
-
-// Function to remove an operation from the queue
-export function removeOfflineOperation(id: string): boolean {
-  const operations = getOfflineOperations();
-  const updatedOperations = operations.filter(op => op.id !== id);
-  
-  if (updatedOperations.length < operations.length) {
-    localStorage.setItem('offlineOperations', JSON.stringify(updatedOperations));
-    return true;
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'BundleValidationError';
+    this.issues = issues;
   }
-  
-  return false;
 }
 
-// Function to clear all offline operations
-export function clearOfflineOperations(): void {
-  localStorage.removeItem('offlineOperations');
-}
+// Offline operations are queued and replayed by the sync queue
+export type { OfflineOperation } from './syncQueue';
+export {
+  queueOfflineOperation,
+  getOfflineOperations,
+  removeOfflineOperation,
+  clearOfflineOperations
+} from './syncQueue';
 
 // Helper function to determine if an error is a Firebase Auth error
 export function isFirebaseAuthError(error: any): error is FirebaseError {
@@ -6,11 +6,145 @@
 import { formatCurrency, formatNumber, formatPercent } from './utils';
 import { generateDashboardPDF } from './generatePDF';
 import { generateMarketingPDF } from './generateMarketingPDF';
-import type { Product, WeeklyProjection, ActualMetrics, MarketingChannelPerformance } from '../types';
+import { createMoneyFormatter, getCurrencySymbol, getProductMoneyFormat } from './currency';
+import type { MoneyFormat } from './currency';
+import { findModelInput } from './modelInputs';
+import { XLSX_MIME_TYPE, cellReference, sheetReference, toSheetNames, writeXlsx } from './xlsxWriter';
+import type { XlsxCell, XlsxDefinedName, XlsxSheet, XlsxWorkbook } from './xlsxWriter';
+import { getActualProfit, getActualsForWeek, sortActuals, withRunningProfit } from './actualsLedger';
+import { SNAPSHOT_COMPARISON_LABELS, compareSnapshot } from './forecastSnapshots';
+import type { SnapshotComparison } from './forecastSnapshots';
+import { COST_EFFECT_LABELS, REVENUE_EFFECT_LABELS, analyzeVariance, analyzeWeekVariance } from './varianceAnalysis';
+import type { VarianceAnalysis } from './varianceAnalysis';
+import { getMarketingKPIs } from './database';
+import { listConfiguredApis } from './marketingApi';
+import { createProductBundle } from './productBundle';
+import { DEFAULT_COST_METRICS, DEFAULT_REVENUE_METRICS } from '../types';
+import type {
+  Product,
+  WeeklyProjection,
+  ActualsEntry,
+  MarketingChannelPerformance,
+  LongTermMonth,
+  Currency,
+  MarketingKPI,
+  RevenueMetrics
+} from '../types';
 
 interface ExportOptions {
   fileName?: string;
   includeTimestamp?: boolean;
+  // Currency to show amounts in; DEFAULT_CURRENCY, unconverted, when not given
+  money?: MoneyFormat;
+}
+
+interface ExportColumn {
+  key: string;
+  label: string;
+  format?: (value: any) => string;
+}
+
+// Rows and columns of one export, before they're written out as a file or sheet
+interface ExportTable {
+  data: Record<string, any>[];
+  columns: ExportColumn[];
+}
+
+// Formula for a column's cell in a sheet row, given a reference to another
+// column's cell (in the same row unless a row is given); undefined keeps the value
+type ColumnFormula = (
+  ref: (key: string, row?: number) => string,
+  row: number,
+  record: Record<string, any>
+) => string | undefined;
+
+// Money formatters remember their format so workbook cells can hold the converted number
+const moneyFormatters = new WeakMap<(value: number) => string, MoneyFormat>();
+
+const getMoneyFormatter = (options: ExportOptions) => {
+  const money = options.money ?? getProductMoneyFormat(null);
+  const formatMoney = createMoneyFormatter(money);
+  moneyFormatters.set(formatMoney, money);
+  return formatMoney;
+};
+
+// Percentages already multiplied by 100
+const formatPercentValue = (value: number) => Number(value).toFixed(2) + '%';
+
+// Calendar days stored as YYYY-MM-DD
+const formatIsoDate = (value: string) => String(value).slice(0, 10);
+
+const getTimestamp = (options: ExportOptions) =>
+  options.includeTimestamp ? `_${new Date().toISOString().slice(0, 10)}` : '';
+
+/**
+ * A typed workbook cell for a value, going by the column's formatter: amounts,
+ * counts and percentages stay numbers with a number format, anything else
+ * formatted becomes its text
+ */
+function toXlsxCell(value: unknown, column: ExportColumn): XlsxCell {
+  if (value === null || value === undefined || value === '') return {};
+
+  const { format } = column;
+  const money = format ? moneyFormatters.get(format) : undefined;
+  if (money) return { value: (Number(value) || 0) * money.rate, format: 'currency' };
+  if (format === formatCurrency) return { value: Number(value) || 0, format: 'currency' };
+  if (format === formatNumber) return { value: Number(value) || 0, format: 'integer' };
+  if (format === formatPercent) return { value: Number(value) || 0, format: 'percent' };
+  if (format === formatPercentValue) return { value: (Number(value) || 0) / 100, format: 'percent' };
+  if (format === formatIsoDate) {
+    const [year, month, day] = formatIsoDate(String(value)).split('-').map(Number);
+    return year && month && day ? { value: new Date(year, month - 1, day), format: 'date' } : { value: String(value) };
+  }
+  if (format) return { value: format(value) };
+
+  return typeof value === 'number' || typeof value === 'boolean' || value instanceof Date
+    ? { value }
+    : { value: String(value) };
+}
+
+/**
+ * A workbook sheet for an export, with formulas in place of the values of
+ * the columns they're given for
+ */
+function toXlsxSheet(
+  name: string,
+  table: ExportTable,
+  formulas: Partial<Record<string, ColumnFormula>> = {}
+): XlsxSheet {
+  const columnIndex = new Map(table.columns.map((column, index) => [column.key, index]));
+  const ref = (row: number) => (key: string, otherRow = row) => {
+    const index = columnIndex.get(key);
+    if (index === undefined) throw new Error(`No "${key}" column in the ${name} sheet`);
+    return cellReference(index, otherRow);
+  };
+
+  return {
+    name,
+    columns: table.columns.map(column => ({
+      header: column.label,
+      width: Math.max(10, Math.min(column.label.length + 2, 32))
+    })),
+    rows: table.data.map((record, index) => {
+      const row = index + 2;
+      return table.columns.map(column => {
+        const cell = toXlsxCell(record[column.key], column);
+        const formula = formulas[column.key]?.(ref(row), row, record);
+        return formula ? { ...cell, formula } : cell;
+      });
+    })
+  };
+}
+
+/**
+ * Download a workbook, with amounts shown in the export's currency
+ */
+function downloadWorkbook(workbook: XlsxWorkbook, options: ExportOptions): void {
+  const money = options.money ?? getProductMoneyFormat(null);
+  const bytes = writeXlsx({ ...workbook, currencySymbol: getCurrencySymbol(money.currency) });
+  const fileName = `${options.fileName || 'export'}${getTimestamp(options)}.xlsx`;
+
+  downloadFile(new Blob([bytes], { type: XLSX_MIME_TYPE }), fileName);
 }
 
 /**
@@ -18,7 +152,7 @@ interface ExportOptions {
  */
 export function exportToCsv(
   data: Record<string, any>[], 
-  columns: { key: string, label: string, format?: (value: any) => string }[],
+  columns: ExportColumn[],
   options: ExportOptions = {}
 ): void {
   if (!data || !data.length) {
@@ -52,11 +186,11 @@ export function exportToCsv(
 
 /**
  * Export data for Excel
- * Creates a CSV with UTF-8 BOM to ensure Excel handles special characters correctly
+ * Writes a single-sheet .xlsx workbook, keeping amounts, counts and percentages as numbers
  */
 export function exportForExcel(
   data: Record<string, any>[], 
-  columns: { key: string, label: string, format?: (value: any) => string }[],
+  columns: ExportColumn[],
   options: ExportOptions = {}
 ): void {
   if (!data || !data.length) {
@@ -64,31 +198,8 @@ export function exportForExcel(
     return;
   }
   
-  // Add BOM for Excel
-  const BOM = '\uFEFF';
-  
-  // Create header row
-  const headerRow = columns.map(col => `"${col.label}"`).join(',');
-  
-  // Create data rows
-  const dataRows = data.map(row => {
-    return columns.map(col => {
-      const value = row[col.key];
-      const formattedValue = col.format ? col.format(value) : value;
-      // Escape quotes and wrap in quotes
-      return `"${String(formattedValue).replace(/"/g, '""')}"`;
-    }).join(',');
-  }).join('\n');
-  
-  // Combine with BOM, header, and rows
-  const csvContent = `${BOM}${headerRow}\n${dataRows}`;
-  
-  // Generate filename
-  const timestamp = options.includeTimestamp ? `_${new Date().toISOString().slice(0, 10)}` : '';
-  const fileName = `${options.fileName || 'export'}${timestamp}.xlsx`;
-  
-  // Create download link
-  downloadFile(csvContent, fileName, 'application/vnd.ms-excel');
+  const [sheetName] = toSheetNames([(options.fileName || 'Export').replace(/_/g, ' ')]);
+  downloadWorkbook({ sheets: [toXlsxSheet(sheetName, { data, columns })] }, options);
 }
 
 /**
@@ -114,9 +225,57 @@ export function exportToJSON(
   downloadFile(jsonContent, fileName, 'application/json');
 }
 
+// Model inputs the Projections sheet's formulas read, by the name they're given in the workbook
+const WORKBOOK_INPUTS = [
+  { name: 'TicketPrice', key: 'ticketPrice', isMoney: true },
+  { name: 'TicketSalesRate', key: 'ticketSalesRate', isMoney: false },
+  { name: 'FbSpend', key: 'fbSpend', isMoney: true },
+  { name: 'FbConversionRate', key: 'fbConversionRate', isMoney: false },
+  { name: 'MerchandiseSpend', key: 'merchandiseSpend', isMoney: true },
+  { name: 'MerchandiseConversionRate', key: 'merchandiseConversionRate', isMoney: false },
+  { name: 'DigitalPrice', key: 'digitalPrice', isMoney: true },
+  { name: 'DigitalConversionRate', key: 'digitalConversionRate', isMoney: false },
+  { name: 'FbCogsRate', key: 'fbCogPercentage', isMoney: false },
+  { name: 'MerchandiseCogPerUnit', key: 'merchandiseCogPerUnit', isMoney: true }
+] as const;
+
+type WorkbookInputName = typeof WORKBOOK_INPUTS[number]['name'];
+
+// Within rounding of the stored figure, so a formula only replaces values it reproduces
+const reproduces = (expected: number, stored: number) =>
+  Math.abs(expected - stored) <= 1e-6 * Math.max(1, Math.abs(stored));
+
+/**
+ * Export products as a bundle that can be imported back, with their marketing
+ * KPIs and the marketing API connections (without API keys)
+ */
+export async function exportProductBundle(
+  products: Product[],
+  options: ExportOptions = {}
+): Promise<void> {
+  if (!products.length) {
+    console.warn('No products to export');
+    return;
+  }
+  
+  const entries = await Promise.all(products.map(async product => ({
+    product,
+    marketingKpis: await getMarketingKPIs(product.info.id) as MarketingKPI[]
+  })));
+  const apiConfigs = Object.fromEntries(listConfiguredApis().map(({ platform, config }) => [platform, config]));
+  
+  exportToJSON(createProductBundle(entries, apiConfigs), {
+    ...options,
+    fileName: options.fileName || (products.length === 1 ? `${products[0].info.name}_Bundle` : 'Products_Bundle')
+  });
+}
+
 /**
  * Export comprehensive financial data for Excel analysis
- * Creates a multi-sheet Excel compatible format
+ * Writes one workbook with a sheet per view of the forecast. The Inputs sheet
+ * holds the revenue and COGS drivers, and the Projections sheet calculates
+ * from them, so changing an input in Excel updates every linked sheet.
+ * Figures that no longer follow from the inputs, such as edited weeks, stay as values.
  */
 export function exportFinancialData(
   product: Product,
@@ -127,41 +286,257 @@ export function exportFinancialData(
     return;
   }
   
-  const { info, weeklyProjections, actualMetrics = [] } = product;
-  const timestamp = options.includeTimestamp ? `_${new Date().toISOString().slice(0, 10)}` : '';
-  const baseFileName = `${info.name}_Financial_Data${timestamp}`;
+  const { info, weeklyProjections, actuals = [], longTermProjections = [], revenueMetrics, costMetrics } = product;
+  const money = options.money ?? getProductMoneyFormat(info);
+  const tableOptions = { ...options, money };
+  const snapshots = actuals.length > 0 ? product.forecastSnapshots || [] : [];
 
-  // Export weekly projections
-  exportWeeklyProjections(weeklyProjections, {
-    fileName: `${baseFileName}_Weekly_Projections`,
-    includeTimestamp: false
+  // Input values as the projection engine reads them, in the product's own currency
+  const revenue = revenueMetrics || DEFAULT_REVENUE_METRICS;
+  const costs = costMetrics || DEFAULT_COST_METRICS;
+  const inputValues: Record<WorkbookInputName, number> = {
+    TicketPrice: revenue.ticketPrice || 0,
+    TicketSalesRate: revenue.ticketSalesRate || 0,
+    FbSpend: revenue.fbSpend || 0,
+    FbConversionRate: revenue.fbConversionRate || 0,
+    MerchandiseSpend: revenue.merchandiseSpend || 0,
+    MerchandiseConversionRate: revenue.merchandiseConversionRate || 0,
+    DigitalPrice: revenue.digitalPrice || 0,
+    DigitalConversionRate: revenue.digitalConversionRate || 0,
+    // A missing or zero COGS percentage falls back to the 30% default
+    FbCogsRate: Math.min(Math.max(costs.fbCogPercentage || 30, 0), 100) / 100,
+    MerchandiseCogPerUnit: costs.merchandiseCogPerUnit || 0
+  };
+  const hasMerchandiseCogs = info.type === 'Food & Beverage Products' || info.type === 'Merchandise Drops';
+
+  const [
+    inputsSheet,
+    projectionsSheet,
+    actualsSheet,
+    revenueSheet,
+    costSheet,
+    varianceSheet,
+    driversSheet,
+    longTermSheet,
+    ...snapshotSheets
+  ] = toSheetNames([
+    'Inputs',
+    'Projections',
+    'Actuals',
+    'Revenue Breakdown',
+    'Cost Analysis',
+    'Variance',
+    'Variance Drivers',
+    'Long Term',
+    ...snapshots.map(snapshot => `vs ${snapshot.name}`)
+  ]);
+
+  const inputs: XlsxSheet = {
+    name: inputsSheet,
+    columns: [{ header: 'Input', width: 32 }, { header: 'Value', width: 14 }, { header: 'Name in Formulas', width: 28 }],
+    rows: WORKBOOK_INPUTS.map(input => [
+      input.key === 'fbCogPercentage' ? 'F&B COGS Rate' : findModelInput(input.key)?.label || input.key,
+      input.isMoney
+        ? { value: inputValues[input.name] * money.rate, format: 'currency' }
+        : { value: inputValues[input.name], format: 'percent' },
+      input.name
+    ])
+  };
+  const definedNames: XlsxDefinedName[] = WORKBOOK_INPUTS.map((input, index) => ({
+    name: input.name,
+    sheet: inputsSheet,
+    cell: cellReference(1, index + 2, true)
+  }));
+
+  // Projection rows by week, for the sheets that link back to them
+  const projectionRows = new Map(weeklyProjections.map((week, index) => [week.week, index + 2]));
+  const projectionsTable = weeklyProjectionsTable(weeklyProjections, tableOptions);
+  const projectionColumns = projectionsTable.columns.map(column => column.key);
+  const projected = (key: string, week: number) =>
+    sheetReference(projectionsSheet, cellReference(projectionColumns.indexOf(key), projectionRows.get(week) ?? 0));
+
+  const spend = (week: WeeklyProjection) => week.seasonalSpendFactor ?? 1;
+  const seasonal = (ref: (key: string) => string, week: WeeklyProjection) =>
+    week.seasonalSpendFactor === undefined ? '' : `*${ref('seasonalSpendFactor')}`;
+  const revenueFormula = (
+    key: 'ticketRevenue' | 'fbRevenue' | 'merchandiseRevenue' | 'digitalRevenue',
+    price: WorkbookInputName,
+    rate: WorkbookInputName,
+    isSpend: boolean
+  ): ColumnFormula => (ref, _row, record) => {
+    const week = record as WeeklyProjection;
+    const expected = week.footTraffic * inputValues[price] * inputValues[rate] * (isSpend ? spend(week) : 1);
+    return reproduces(expected, week[key])
+      ? `${ref('footTraffic')}*${price}*${rate}${isSpend ? seasonal(ref, week) : ''}`
+      : undefined;
+  };
+  const sumFormula = (key: keyof WeeklyProjection, parts: (keyof WeeklyProjection)[]): ColumnFormula => (ref, _row, record) => {
+    const week = record as WeeklyProjection;
+    const expected = parts.reduce((sum, part) => sum + (Number(week[part]) || 0), 0);
+    return reproduces(expected, Number(week[key]) || 0) ? parts.map(part => ref(part)).join('+') : undefined;
+  };
+
+  const projections = toXlsxSheet(projectionsSheet, projectionsTable, {
+    ticketRevenue: revenueFormula('ticketRevenue', 'TicketPrice', 'TicketSalesRate', false),
+    fbRevenue: revenueFormula('fbRevenue', 'FbSpend', 'FbConversionRate', true),
+    merchandiseRevenue: revenueFormula('merchandiseRevenue', 'MerchandiseSpend', 'MerchandiseConversionRate', true),
+    digitalRevenue: revenueFormula('digitalRevenue', 'DigitalPrice', 'DigitalConversionRate', false),
+    totalRevenue: sumFormula('totalRevenue', ['ticketRevenue', 'fbRevenue', 'merchandiseRevenue', 'digitalRevenue']),
+    fbCogs: (ref, _row, record) => reproduces(record.fbRevenue * inputValues.FbCogsRate, record.fbCogs)
+      ? `${ref('fbRevenue')}*FbCogsRate`
+      : undefined,
+    merchandiseCogs: (ref, _row, record) => {
+      const week = record as WeeklyProjection;
+      if (!hasMerchandiseCogs) return undefined;
+      const unitSpend = inputValues.MerchandiseSpend * spend(week);
+      const expected = (week.merchandiseRevenue / (unitSpend || 1)) * inputValues.MerchandiseCogPerUnit;
+      const unitSpendFormula = `MerchandiseSpend${seasonal(ref, week)}`;
+      return reproduces(expected, week.merchandiseCogs)
+        ? `IF(${unitSpendFormula}=0,${ref('merchandiseRevenue')},${ref('merchandiseRevenue')}/(${unitSpendFormula}))*MerchandiseCogPerUnit`
+        : undefined;
+    },
+    totalCosts: sumFormula('totalCosts', ['marketingCosts', 'staffingCosts', 'eventCosts', 'setupCosts', 'fbCogs', 'merchandiseCogs']),
+    weeklyProfit: (ref, _row, record) => reproduces(record.totalRevenue - record.totalCosts, record.weeklyProfit)
+      ? `${ref('totalRevenue')}-${ref('totalCosts')}`
+      : undefined,
+    cumulativeProfit: (ref, row, record) => {
+      const previous = row > 2 ? weeklyProjections[row - 3].cumulativeProfit : 0;
+      if (!reproduces(previous + record.weeklyProfit, record.cumulativeProfit)) return undefined;
+      return row > 2 ? `${ref('cumulativeProfit', row - 1)}+${ref('weeklyProfit')}` : ref('weeklyProfit');
+    }
   });
-  
-  // Export actual metrics
-  if (actualMetrics.length > 0) {
-    exportActualMetrics(actualMetrics, {
-      fileName: `${baseFileName}_Actual_Metrics`,
-      includeTimestamp: false
-    });
-  }
-  
-  // Export revenue breakdown
-  exportRevenueBreakdown(weeklyProjections, actualMetrics, {
-    fileName: `${baseFileName}_Revenue_Breakdown`,
-    includeTimestamp: false
+
+  // Projected figures link to the Projections sheet and variances are calculated from them
+  const linked = (links: Record<string, string>, formulas: Partial<Record<string, ColumnFormula>>) => ({
+    ...Object.fromEntries(Object.entries(links).map(([key, projectionKey]): [string, ColumnFormula] => [
+      key,
+      (_ref, _row, record) => projectionRows.has(record.week) ? projected(projectionKey, record.week) : undefined
+    ])),
+    ...formulas
   });
-  
-  // Export cost analysis
-  exportCostAnalysis(weeklyProjections, actualMetrics, {
-    fileName: `${baseFileName}_Cost_Analysis`,
-    includeTimestamp: false
+  const difference = (actual: string, plan: string): ColumnFormula => ref => `${ref(actual)}-${ref(plan)}`;
+  // As the tables work them out: against a positive plan, or against the size of any non-zero one
+  const share = (actual: string, plan: string): ColumnFormula => ref =>
+    `IF(${ref(plan)}>0,(${ref(actual)}-${ref(plan)})/${ref(plan)},0)`;
+  const signedShare = (actual: string, plan: string): ColumnFormula => ref =>
+    `IF(${ref(plan)}=0,0,(${ref(actual)}-${ref(plan)})/ABS(${ref(plan)}))`;
+  const lineVariances = (lines: string[]) => Object.fromEntries(lines.map(line => [
+    `variance_${line}`,
+    difference(`actual_${line}`, `projected_${line}`)
+  ]));
+
+  const revenueLinks = {
+    projected_ticket: 'ticketRevenue',
+    projected_fb: 'fbRevenue',
+    projected_merchandise: 'merchandiseRevenue',
+    projected_digital: 'digitalRevenue',
+    projected_total: 'totalRevenue'
+  };
+  const costLinks = {
+    projected_marketing: 'marketingCosts',
+    projected_staffing: 'staffingCosts',
+    projected_event: 'eventCosts',
+    projected_setup: 'setupCosts',
+    projected_total: 'totalCosts'
+  };
+
+  const sheets: XlsxSheet[] = [inputs, projections];
+
+  if (actuals.length > 0) {
+    sheets.push(toXlsxSheet(actualsSheet, actualsTable(actuals, tableOptions)));
+  }
+
+  sheets.push(toXlsxSheet(revenueSheet, revenueBreakdownTable(weeklyProjections, actuals, tableOptions), linked(revenueLinks, {
+    ...lineVariances(['ticket', 'fb', 'merchandise', 'digital', 'total']),
+    variance_percentage: share('actual_total', 'projected_total')
+  })));
+  sheets.push(toXlsxSheet(costSheet, costAnalysisTable(weeklyProjections, actuals, tableOptions), linked(costLinks, {
+    ...lineVariances(['marketing', 'staffing', 'event', 'setup', 'total']),
+    variance_percentage: share('actual_total', 'projected_total')
+  })));
+  sheets.push(toXlsxSheet(varianceSheet, varianceAnalysisTable(weeklyProjections, actuals, revenueMetrics, tableOptions), linked(
+    {
+      projected_revenue: 'totalRevenue',
+      projected_costs: 'totalCosts',
+      projected_profit: 'weeklyProfit',
+      projected_attendance: 'footTraffic'
+    },
+    {
+      revenue_variance: difference('actual_revenue', 'projected_revenue'),
+      revenue_variance_pct: share('actual_revenue', 'projected_revenue'),
+      costs_variance: difference('actual_costs', 'projected_costs'),
+      costs_variance_pct: share('actual_costs', 'projected_costs'),
+      profit_variance: difference('actual_profit', 'projected_profit'),
+      profit_variance_pct: signedShare('actual_profit', 'projected_profit'),
+      attendance_variance: difference('actual_attendance', 'projected_attendance'),
+      attendance_variance_pct: share('actual_attendance', 'projected_attendance')
+    }
+  )));
+
+  if (actuals.length > 0) {
+    const variance = analyzeVariance(weeklyProjections, actuals, revenueMetrics);
+    sheets.push(toXlsxSheet(driversSheet, varianceBreakdownTable(variance, tableOptions), {
+      variance: difference('actual', 'planned')
+    }));
+  }
+
+  // Actuals against each saved forecast snapshot
+  snapshots.forEach((snapshot, index) => {
+    sheets.push(toXlsxSheet(
+      snapshotSheets[index],
+      snapshotVarianceTable(compareSnapshot(snapshot, product, 'actuals'), tableOptions),
+      {
+        revenue_variance: difference('comparison_revenue', 'snapshot_revenue'),
+        revenue_variance_pct: signedShare('comparison_revenue', 'snapshot_revenue'),
+        costs_variance: difference('comparison_costs', 'snapshot_costs'),
+        costs_variance_pct: signedShare('comparison_costs', 'snapshot_costs'),
+        profit_variance: difference('comparison_profit', 'snapshot_profit'),
+        profit_variance_pct: signedShare('comparison_profit', 'snapshot_profit'),
+        attendance_variance: difference('comparison_attendance', 'snapshot_attendance'),
+        attendance_variance_pct: signedShare('comparison_attendance', 'snapshot_attendance')
+      }
+    ));
   });
+
+  // The multi-year monthly forecast
+  if (longTermProjections.length > 0) {
+    sheets.push(toXlsxSheet(longTermSheet, longTermProjectionsTable(longTermProjections, tableOptions)));
+  }
+
+  downloadWorkbook({ sheets, definedNames }, { ...tableOptions, fileName: `${info.name}_Financial_Data` });
+}
+
+function weeklyProjectionsTable(
+  weeklyProjections: WeeklyProjection[],
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
+
+  const columns = [
+    { key: 'week', label: 'Week' },
+    { key: 'weekStartDate', label: 'Week Starting', format: formatIsoDate },
+    { key: 'numberOfEvents', label: 'Events' },
+    { key: 'averageEventAttendance', label: 'Avg Attendance', format: formatNumber },
+    { key: 'footTraffic', label: 'Total Attendance', format: formatNumber },
+    { key: 'seasonalSpendFactor', label: 'Seasonal Spend Factor' },
+    { key: 'ticketRevenue', label: 'Ticket Revenue', format: formatMoney },
+    { key: 'fbRevenue', label: 'F&B Revenue', format: formatMoney },
+    { key: 'merchandiseRevenue', label: 'Merchandise Revenue', format: formatMoney },
+    { key: 'digitalRevenue', label: 'Digital Revenue', format: formatMoney },
+    { key: 'totalRevenue', label: 'Total Revenue', format: formatMoney },
+    { key: 'marketingCosts', label: 'Marketing Costs', format: formatMoney },
+    { key: 'staffingCosts', label: 'Staffing Costs', format: formatMoney },
+    { key: 'eventCosts', label: 'Event Costs', format: formatMoney },
+    { key: 'setupCosts', label: 'Setup Costs', format: formatMoney },
+    { key: 'fbCogs', label: 'F&B COGS', format: formatMoney },
+    { key: 'merchandiseCogs', label: 'Merchandise COGS', format: formatMoney },
+    { key: 'totalCosts', label: 'Total Costs', format: formatMoney },
+    { key: 'weeklyProfit', label: 'Weekly Profit', format: formatMoney },
+    { key: 'cumulativeProfit', label: 'Cumulative Profit', format: formatMoney },
+    { key: 'notes', label: 'Notes' }
+  ];
   
-  // Export variance analysis (projected vs. actual)
-  exportVarianceAnalysis(weeklyProjections, actualMetrics, {
-    fileName: `${baseFileName}_Variance_Analysis`,
-    includeTimestamp: false
-  });
+  return { data: weeklyProjections, columns };
 }
 
 /**
@@ -171,75 +546,97 @@ export function exportWeeklyProjections(
   weeklyProjections: WeeklyProjection[],
   options: ExportOptions = {}
 ): void {
+  const { data, columns } = weeklyProjectionsTable(weeklyProjections, options);
+  exportForExcel(data, columns, options);
+}
+
+function longTermProjectionsTable(
+  longTermProjections: LongTermMonth[],
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
+
   const columns = [
-    { key: 'week', label: 'Week' },
-    { key: 'numberOfEvents', label: 'Events' },
-    { key: 'averageEventAttendance', label: 'Avg Attendance', format: formatNumber },
-    { key: 'footTraffic', label: 'Total Attendance', format: formatNumber },
-    { key: 'ticketRevenue', label: 'Ticket Revenue', format: formatCurrency },
-    { key: 'fbRevenue', label: 'F&B Revenue', format: formatCurrency },
-    { key: 'merchandiseRevenue', label: 'Merchandise Revenue', format: formatCurrency },
-    { key: 'digitalRevenue', label: 'Digital Revenue', format: formatCurrency },
-    { key: 'totalRevenue', label: 'Total Revenue', format: formatCurrency },
-    { key: 'marketingCosts', label: 'Marketing Costs', format: formatCurrency },
-    { key: 'staffingCosts', label: 'Staffing Costs', format: formatCurrency },
-    { key: 'eventCosts', label: 'Event Costs', format: formatCurrency },
-    { key: 'setupCosts', label: 'Setup Costs', format: formatCurrency },
-    { key: 'totalCosts', label: 'Total Costs', format: formatCurrency },
-    { key: 'weeklyProfit', label: 'Weekly Profit', format: formatCurrency },
-    { key: 'cumulativeProfit', label: 'Cumulative Profit', format: formatCurrency },
-    { key: 'notes', label: 'Notes' }
+    { key: 'month', label: 'Month' },
+    { key: 'date', label: 'Calendar Month', format: (v: string | undefined) => v || '' },
+    { key: 'year', label: 'Year' },
+    { key: 'revenue', label: 'Revenue', format: formatMoney },
+    { key: 'uncappedRevenue', label: 'Uncapped Revenue', format: formatMoney },
+    { key: 'costs', label: 'Costs', format: formatMoney },
+    { key: 'profit', label: 'Profit', format: formatMoney },
+    { key: 'cumulativeProfit', label: 'Cumulative Profit', format: formatMoney },
+    { key: 'marketShare', label: 'Share of SAM', format: formatPercent },
+    { key: 'isCapped', label: 'Capped by SOM', format: (v: boolean) => v ? 'Yes' : 'No' },
+    { key: 'isExtrapolated', label: 'Extrapolated', format: (v: boolean) => v ? 'Yes' : 'No' }
   ];
   
-  exportForExcel(weeklyProjections, columns, options);
+  return { data: longTermProjections, columns };
 }
 
 /**
- * Export actual metrics data for Excel
+ * Export the long-term monthly forecast for Excel
  */
-export function exportActualMetrics(
-  actualMetrics: ActualMetrics[],
+export function exportLongTermProjections(
+  longTermProjections: LongTermMonth[],
   options: ExportOptions = {}
 ): void {
+  const { data, columns } = longTermProjectionsTable(longTermProjections, options);
+  exportForExcel(data, columns, options);
+}
+
+function actualsTable(
+  actuals: ActualsEntry[],
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
+
   const columns = [
     { key: 'week', label: 'Week' },
-    { key: 'date', label: 'Date' },
+    { key: 'date', label: 'Date', format: formatIsoDate },
     { key: 'numberOfEvents', label: 'Events' },
     { key: 'averageEventAttendance', label: 'Avg Attendance', format: formatNumber },
     { key: 'footTraffic', label: 'Total Attendance', format: formatNumber },
-    { key: 'ticketRevenue', label: 'Ticket Revenue', format: formatCurrency },
-    { key: 'fbRevenue', label: 'F&B Revenue', format: formatCurrency },
-    { key: 'merchandiseRevenue', label: 'Merchandise Revenue', format: formatCurrency },
-    { key: 'digitalRevenue', label: 'Digital Revenue', format: formatCurrency },
-    { key: 'totalRevenue', label: 'Total Revenue', format: formatCurrency },
-    { key: 'marketingCost', label: 'Marketing Costs', format: formatCurrency },
-    { key: 'staffCost', label: 'Staffing Costs', format: formatCurrency },
-    { key: 'eventsCosts', label: 'Event Costs', format: formatCurrency },
-    { key: 'setupCosts', label: 'Setup Costs', format: formatCurrency },
-    { key: 'technologyCost', label: 'Technology Costs', format: formatCurrency },
-    { key: 'officeCost', label: 'Office Costs', format: formatCurrency },
-    { key: 'otherCosts', label: 'Other Costs', format: formatCurrency },
-    { key: 'totalCosts', label: 'Total Costs', format: formatCurrency },
-    { key: 'weeklyProfit', label: 'Weekly Profit', format: formatCurrency },
-    { key: 'cumulativeProfit', label: 'Cumulative Profit', format: formatCurrency },
+    { key: 'ticketRevenue', label: 'Ticket Revenue', format: formatMoney },
+    { key: 'fbRevenue', label: 'F&B Revenue', format: formatMoney },
+    { key: 'merchandiseRevenue', label: 'Merchandise Revenue', format: formatMoney },
+    { key: 'digitalRevenue', label: 'Digital Revenue', format: formatMoney },
+    { key: 'totalRevenue', label: 'Total Revenue', format: formatMoney },
+    { key: 'marketingCosts', label: 'Marketing Costs', format: formatMoney },
+    { key: 'staffingCosts', label: 'Staffing Costs', format: formatMoney },
+    { key: 'eventCosts', label: 'Event Costs', format: formatMoney },
+    { key: 'setupCosts', label: 'Setup Costs', format: formatMoney },
+    { key: 'additionalCosts', label: 'Additional Costs', format: formatMoney },
+    { key: 'fbCogs', label: 'F&B COGS', format: formatMoney },
+    { key: 'totalCosts', label: 'Total Costs', format: formatMoney },
+    { key: 'weeklyProfit', label: 'Weekly Profit', format: formatMoney },
+    { key: 'cumulativeProfit', label: 'Cumulative Profit', format: formatMoney },
     { key: 'notes', label: 'Notes' }
   ];
   
-  exportForExcel(actualMetrics, columns, options);
+  return { data: withRunningProfit(actuals), columns };
 }
 
 /**
- * Export revenue breakdown data for Excel
+ * Export the actuals ledger for Excel, with running profit
  */
-export function exportRevenueBreakdown(
-  weeklyProjections: WeeklyProjection[],
-  actualMetrics: ActualMetrics[],
+export function exportActuals(
+  actuals: ActualsEntry[],
   options: ExportOptions = {}
 ): void {
+  const { data, columns } = actualsTable(actuals, options);
+  exportForExcel(data, columns, options);
+}
+
+function revenueBreakdownTable(
+  weeklyProjections: WeeklyProjection[],
+  actuals: ActualsEntry[],
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
   // Create combined dataset with revenue components
   const revenueData = weeklyProjections.map(week => {
     // Find corresponding actual data for this week if it exists
-    const actual = actualMetrics.find(a => a.week === week.week);
+    const actual = getActualsForWeek(actuals, week.week);
     
     return {
       week: week.week,
@@ -271,65 +668,74 @@ export function exportRevenueBreakdown(
   
   const columns = [
     { key: 'week', label: 'Week' },
-    { key: 'projected_ticket', label: 'Projected Ticket Revenue', format: formatCurrency },
-    { key: 'actual_ticket', label: 'Actual Ticket Revenue', format: formatCurrency },
-    { key: 'variance_ticket', label: 'Variance (Ticket)', format: formatCurrency },
+    { key: 'projected_ticket', label: 'Projected Ticket Revenue', format: formatMoney },
+    { key: 'actual_ticket', label: 'Actual Ticket Revenue', format: formatMoney },
+    { key: 'variance_ticket', label: 'Variance (Ticket)', format: formatMoney },
     
-    { key: 'projected_fb', label: 'Projected F&B Revenue', format: formatCurrency },
-    { key: 'actual_fb', label: 'Actual F&B Revenue', format: formatCurrency },
-    { key: 'variance_fb', label: 'Variance (F&B)', format: formatCurrency },
+    { key: 'projected_fb', label: 'Projected F&B Revenue', format: formatMoney },
+    { key: 'actual_fb', label: 'Actual F&B Revenue', format: formatMoney },
+    { key: 'variance_fb', label: 'Variance (F&B)', format: formatMoney },
     
-    { key: 'projected_merchandise', label: 'Projected Merchandise Revenue', format: formatCurrency },
-    { key: 'actual_merchandise', label: 'Actual Merchandise Revenue', format: formatCurrency },
-    { key: 'variance_merchandise', label: 'Variance (Merchandise)', format: formatCurrency },
+    { key: 'projected_merchandise', label: 'Projected Merchandise Revenue', format: formatMoney },
+    { key: 'actual_merchandise', label: 'Actual Merchandise Revenue', format: formatMoney },
+    { key: 'variance_merchandise', label: 'Variance (Merchandise)', format: formatMoney },
     
-    { key: 'projected_digital', label: 'Projected Digital Revenue', format: formatCurrency },
-    { key: 'actual_digital', label: 'Actual Digital Revenue', format: formatCurrency },
-    { key: 'variance_digital', label: 'Variance (Digital)', format: formatCurrency },
+    { key: 'projected_digital', label: 'Projected Digital Revenue', format: formatMoney },
+    { key: 'actual_digital', label: 'Actual Digital Revenue', format: formatMoney },
+    { key: 'variance_digital', label: 'Variance (Digital)', format: formatMoney },
     
-    { key: 'projected_total', label: 'Projected Total Revenue', format: formatCurrency },
-    { key: 'actual_total', label: 'Actual Total Revenue', format: formatCurrency },
-    { key: 'variance_total', label: 'Variance (Total)', format: formatCurrency },
-    { key: 'variance_percentage', label: 'Variance %', format: (v: number) => v.toFixed(2) + '%' }
+    { key: 'projected_total', label: 'Projected Total Revenue', format: formatMoney },
+    { key: 'actual_total', label: 'Actual Total Revenue', format: formatMoney },
+    { key: 'variance_total', label: 'Variance (Total)', format: formatMoney },
+    { key: 'variance_percentage', label: 'Variance %', format: formatPercentValue }
   ];
   
-  exportForExcel(revenueData, columns, options);
+  return { data: revenueData, columns };
 }
 
 /**
- * Export cost analysis data for Excel
+ * Export revenue breakdown data for Excel
  */
-export function exportCostAnalysis(
+export function exportRevenueBreakdown(
   weeklyProjections: WeeklyProjection[],
-  actualMetrics: ActualMetrics[],
+  actuals: ActualsEntry[],
   options: ExportOptions = {}
 ): void {
+  const { data, columns } = revenueBreakdownTable(weeklyProjections, actuals, options);
+  exportForExcel(data, columns, options);
+}
+
+function costAnalysisTable(
+  weeklyProjections: WeeklyProjection[],
+  actuals: ActualsEntry[],
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
   // Create combined dataset with cost components
   const costData = weeklyProjections.map(week => {
     // Find corresponding actual data for this week if it exists
-    const actual = actualMetrics.find(a => a.week === week.week);
+    const actual = getActualsForWeek(actuals, week.week);
     
     return {
       week: week.week,
       projected_marketing: week.marketingCosts,
-      actual_marketing: actual?.marketingCost || 0,
-      variance_marketing: (actual?.marketingCost || 0) - week.marketingCosts,
+      actual_marketing: actual?.marketingCosts || 0,
+      variance_marketing: (actual?.marketingCosts || 0) - week.marketingCosts,
       
       projected_staffing: week.staffingCosts,
-      actual_staffing: actual?.staffCost || 0,
-      variance_staffing: (actual?.staffCost || 0) - week.staffingCosts,
+      actual_staffing: actual?.staffingCosts || 0,
+      variance_staffing: (actual?.staffingCosts || 0) - week.staffingCosts,
       
       projected_event: week.eventCosts,
-      actual_event: actual?.eventsCosts || 0,
-      variance_event: (actual?.eventsCosts || 0) - week.eventCosts,
+      actual_event: actual?.eventCosts || 0,
+      variance_event: (actual?.eventCosts || 0) - week.eventCosts,
       
       projected_setup: week.setupCosts,
       actual_setup: actual?.setupCosts || 0,
       variance_setup: (actual?.setupCosts || 0) - week.setupCosts,
       
-      actual_technology: actual?.technologyCost || 0,
-      actual_office: actual?.officeCost || 0,
-      actual_other: actual?.otherCosts || 0,
+      actual_additional: actual?.additionalCosts || 0,
+      actual_fb_cogs: actual?.fbCogs || 0,
       
       projected_total: week.totalCosts,
       actual_total: actual?.totalCosts || 0,
@@ -343,47 +749,60 @@ export function exportCostAnalysis(
   
   const columns = [
     { key: 'week', label: 'Week' },
-    { key: 'projected_marketing', label: 'Projected Marketing Costs', format: formatCurrency },
-    { key: 'actual_marketing', label: 'Actual Marketing Costs', format: formatCurrency },
-    { key: 'variance_marketing', label: 'Variance (Marketing)', format: formatCurrency },
+    { key: 'projected_marketing', label: 'Projected Marketing Costs', format: formatMoney },
+    { key: 'actual_marketing', label: 'Actual Marketing Costs', format: formatMoney },
+    { key: 'variance_marketing', label: 'Variance (Marketing)', format: formatMoney },
     
-    { key: 'projected_staffing', label: 'Projected Staffing Costs', format: formatCurrency },
-    { key: 'actual_staffing', label: 'Actual Staffing Costs', format: formatCurrency },
-    { key: 'variance_staffing', label: 'Variance (Staffing)', format: formatCurrency },
+    { key: 'projected_staffing', label: 'Projected Staffing Costs', format: formatMoney },
+    { key: 'actual_staffing', label: 'Actual Staffing Costs', format: formatMoney },
+    { key: 'variance_staffing', label: 'Variance (Staffing)', format: formatMoney },
     
-    { key: 'projected_event', label: 'Projected Event Costs', format: formatCurrency },
-    { key: 'actual_event', label: 'Actual Event Costs', format: formatCurrency },
-    { key: 'variance_event', label: 'Variance (Event)', format: formatCurrency },
+    { key: 'projected_event', label: 'Projected Event Costs', format: formatMoney },
+    { key: 'actual_event', label: 'Actual Event Costs', format: formatMoney },
+    { key: 'variance_event', label: 'Variance (Event)', format: formatMoney },
     
-    { key: 'projected_setup', label: 'Projected Setup Costs', format: formatCurrency },
-    { key: 'actual_setup', label: 'Actual Setup Costs', format: formatCurrency },
-    { key: 'variance_setup', label: 'Variance (Setup)', format: formatCurrency },
+    { key: 'projected_setup', label: 'Projected Setup Costs', format: formatMoney },
+    { key: 'actual_setup', label: 'Actual Setup Costs', format: formatMoney },
+    { key: 'variance_setup', label: 'Variance (Setup)', format: formatMoney },
     
-    { key: 'actual_technology', label: 'Actual Technology Costs', format: formatCurrency },
-    { key: 'actual_office', label: 'Actual Office Costs', format: formatCurrency },
-    { key: 'actual_other', label: 'Actual Other Costs', format: formatCurrency },
+    { key: 'actual_additional', label: 'Actual Additional Costs', format: formatMoney },
+    { key: 'actual_fb_cogs', label: 'Actual F&B COGS', format: formatMoney },
     
-    { key: 'projected_total', label: 'Projected Total Costs', format: formatCurrency },
-    { key: 'actual_total', label: 'Actual Total Costs', format: formatCurrency },
-    { key: 'variance_total', label: 'Variance (Total)', format: formatCurrency },
-    { key: 'variance_percentage', label: 'Variance %', format: (v: number) => v.toFixed(2) + '%' }
+    { key: 'projected_total', label: 'Projected Total Costs', format: formatMoney },
+    { key: 'actual_total', label: 'Actual Total Costs', format: formatMoney },
+    { key: 'variance_total', label: 'Variance (Total)', format: formatMoney },
+    { key: 'variance_percentage', label: 'Variance %', format: formatPercentValue }
   ];
   
-  exportForExcel(costData, columns, options);
+  return { data: costData, columns };
 }
 
 /**
- * Export variance analysis data for Excel 
+ * Export cost analysis data for Excel
  */
-export function exportVarianceAnalysis(
+export function exportCostAnalysis(
   weeklyProjections: WeeklyProjection[],
-  actualMetrics: ActualMetrics[],
+  actuals: ActualsEntry[],
   options: ExportOptions = {}
 ): void {
+  const { data, columns } = costAnalysisTable(weeklyProjections, actuals, options);
+  exportForExcel(data, columns, options);
+}
+
+function varianceAnalysisTable(
+  weeklyProjections: WeeklyProjection[],
+  actuals: ActualsEntry[],
+  revenueMetrics: RevenueMetrics | null,
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
   // Create combined dataset with performance and variance metrics
   const varianceData = weeklyProjections.map(week => {
     // Find corresponding actual data for this week if it exists
-    const actual = actualMetrics.find(a => a.week === week.week);
+    const actual = getActualsForWeek(actuals, week.week);
+    const actualProfit = actual ? getActualProfit(actual) : 0;
+    // What drove the variance, for weeks with actuals
+    const drivers = actual ? analyzeWeekVariance(week, actual, revenueMetrics) : null;
     
     return {
       week: week.week,
@@ -402,10 +821,10 @@ export function exportVarianceAnalysis(
         : 0,
       
       projected_profit: week.weeklyProfit,
-      actual_profit: actual?.weeklyProfit || 0,
-      profit_variance: (actual?.weeklyProfit || 0) - week.weeklyProfit,
+      actual_profit: actualProfit,
+      profit_variance: actualProfit - week.weeklyProfit,
       profit_variance_pct: week.weeklyProfit !== 0
-        ? (((actual?.weeklyProfit || 0) - week.weeklyProfit) / Math.abs(week.weeklyProfit)) * 100 
+        ? ((actualProfit - week.weeklyProfit) / Math.abs(week.weeklyProfit)) * 100 
         : 0,
       
       projected_attendance: week.footTraffic,
@@ -413,47 +832,207 @@ export function exportVarianceAnalysis(
       attendance_variance: (actual?.footTraffic || 0) - week.footTraffic,
       attendance_variance_pct: week.footTraffic > 0 
         ? (((actual?.footTraffic || 0) - week.footTraffic) / week.footTraffic) * 100 
-        : 0
+        : 0,
+      
+      revenue_volume_effect: drivers?.revenueEffects.volume || 0,
+      revenue_conversion_effect: drivers?.revenueEffects.conversion || 0,
+      revenue_price_effect: drivers?.revenueEffects.price || 0,
+      cost_volume_effect: drivers?.costEffects.volume || 0,
+      cost_rate_effect: drivers?.costEffects.rate || 0
     };
   });
   
   const columns = [
     { key: 'week', label: 'Week' },
-    { key: 'projected_revenue', label: 'Projected Revenue', format: formatCurrency },
-    { key: 'actual_revenue', label: 'Actual Revenue', format: formatCurrency },
-    { key: 'revenue_variance', label: 'Variance ($)', format: formatCurrency },
-    { key: 'revenue_variance_pct', label: 'Variance (%)', format: (v: number) => v.toFixed(2) + '%' },
+    { key: 'projected_revenue', label: 'Projected Revenue', format: formatMoney },
+    { key: 'actual_revenue', label: 'Actual Revenue', format: formatMoney },
+    { key: 'revenue_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'revenue_variance_pct', label: 'Variance (%)', format: formatPercentValue },
     
-    { key: 'projected_costs', label: 'Projected Costs', format: formatCurrency },
-    { key: 'actual_costs', label: 'Actual Costs', format: formatCurrency },
-    { key: 'costs_variance', label: 'Variance ($)', format: formatCurrency },
-    { key: 'costs_variance_pct', label: 'Variance (%)', format: (v: number) => v.toFixed(2) + '%' },
+    { key: 'projected_costs', label: 'Projected Costs', format: formatMoney },
+    { key: 'actual_costs', label: 'Actual Costs', format: formatMoney },
+    { key: 'costs_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'costs_variance_pct', label: 'Variance (%)', format: formatPercentValue },
     
-    { key: 'projected_profit', label: 'Projected Profit', format: formatCurrency },
-    { key: 'actual_profit', label: 'Actual Profit', format: formatCurrency },
-    { key: 'profit_variance', label: 'Variance ($)', format: formatCurrency },
-    { key: 'profit_variance_pct', label: 'Variance (%)', format: (v: number) => v.toFixed(2) + '%' },
+    { key: 'projected_profit', label: 'Projected Profit', format: formatMoney },
+    { key: 'actual_profit', label: 'Actual Profit', format: formatMoney },
+    { key: 'profit_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'profit_variance_pct', label: 'Variance (%)', format: formatPercentValue },
     
     { key: 'projected_attendance', label: 'Projected Attendance', format: formatNumber },
     { key: 'actual_attendance', label: 'Actual Attendance', format: formatNumber },
     { key: 'attendance_variance', label: 'Variance (#)', format: formatNumber },
-    { key: 'attendance_variance_pct', label: 'Variance (%)', format: (v: number) => v.toFixed(2) + '%' }
+    { key: 'attendance_variance_pct', label: 'Variance (%)', format: formatPercentValue },
+    
+    { key: 'revenue_volume_effect', label: `Revenue: ${REVENUE_EFFECT_LABELS.volume}`, format: formatMoney },
+    { key: 'revenue_conversion_effect', label: `Revenue: ${REVENUE_EFFECT_LABELS.conversion}`, format: formatMoney },
+    { key: 'revenue_price_effect', label: `Revenue: ${REVENUE_EFFECT_LABELS.price}`, format: formatMoney },
+    { key: 'cost_volume_effect', label: COST_EFFECT_LABELS.volume, format: formatMoney },
+    { key: 'cost_rate_effect', label: COST_EFFECT_LABELS.rate, format: formatMoney }
+  ];
+  
+  return { data: varianceData, columns };
+}
+
+/**
+ * Export variance analysis data for Excel 
+ */
+export function exportVarianceAnalysis(
+  weeklyProjections: WeeklyProjection[],
+  actuals: ActualsEntry[],
+  revenueMetrics: RevenueMetrics | null,
+  options: ExportOptions = {}
+): void {
+  const { data, columns } = varianceAnalysisTable(weeklyProjections, actuals, revenueMetrics, options);
+  exportForExcel(data, columns, options);
+}
+
+function varianceBreakdownTable(
+  variance: VarianceAnalysis,
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
+  
+  const breakdownData = variance.weeks.flatMap(week => [
+    ...week.streams.map(stream => ({
+      week: week.week,
+      type: 'Revenue',
+      line: stream.label,
+      planned: stream.planned,
+      actual: stream.actual,
+      variance: stream.actual - stream.planned,
+      volume_effect: stream.effects.volume,
+      conversion_effect: stream.effects.conversion,
+      price_effect: stream.effects.price,
+      rate_effect: 0,
+      basis: stream.fromSalesCounts ? 'Sales counts' : 'Attributed'
+    })),
+    ...week.costLines.map(cost => ({
+      week: week.week,
+      type: 'Cost',
+      line: cost.label,
+      planned: cost.planned,
+      actual: cost.actual,
+      variance: cost.actual - cost.planned,
+      volume_effect: cost.effects.volume,
+      conversion_effect: 0,
+      price_effect: 0,
+      rate_effect: cost.effects.rate,
+      basis: ''
+    }))
+  ]);
+  
+  const columns = [
+    { key: 'week', label: 'Week' },
+    { key: 'type', label: 'Type' },
+    { key: 'line', label: 'Line' },
+    { key: 'planned', label: 'Planned', format: formatMoney },
+    { key: 'actual', label: 'Actual', format: formatMoney },
+    { key: 'variance', label: 'Variance', format: formatMoney },
+    { key: 'volume_effect', label: 'Volume Effect', format: formatMoney },
+    { key: 'conversion_effect', label: 'Conversion Effect', format: formatMoney },
+    { key: 'price_effect', label: 'Price / Spend Effect', format: formatMoney },
+    { key: 'rate_effect', label: 'Rate Effect', format: formatMoney },
+    { key: 'basis', label: 'Conversion vs Price' }
   ];
   
-  exportForExcel(varianceData, columns, options);
+  return { data: breakdownData, columns };
+}
+
+/**
+ * Export each recorded week's variance line by line, split into volume,
+ * conversion and price effects for revenue and volume and rate effects for costs
+ */
+export function exportVarianceBreakdown(
+  variance: VarianceAnalysis,
+  options: ExportOptions = {}
+): void {
+  const { data, columns } = varianceBreakdownTable(variance, options);
+  exportForExcel(data, columns, options);
+}
+
+function snapshotVarianceTable(
+  comparison: SnapshotComparison,
+  options: ExportOptions
+): ExportTable {
+  const formatMoney = getMoneyFormatter(options);
+  const variancePct = (value: number, baseline: number) => baseline !== 0 ? ((value - baseline) / Math.abs(baseline)) * 100 : 0;
+  const baselineLabel = comparison.snapshot.name;
+  const comparisonLabel = SNAPSHOT_COMPARISON_LABELS[comparison.target];
+
+  const varianceData = comparison.weeks.flatMap(({ week, snapshot, comparison: compared }) => compared ? [{
+    week,
+    snapshot_revenue: snapshot.totalRevenue,
+    comparison_revenue: compared.totalRevenue,
+    revenue_variance: compared.totalRevenue - snapshot.totalRevenue,
+    revenue_variance_pct: variancePct(compared.totalRevenue, snapshot.totalRevenue),
+
+    snapshot_costs: snapshot.totalCosts,
+    comparison_costs: compared.totalCosts,
+    costs_variance: compared.totalCosts - snapshot.totalCosts,
+    costs_variance_pct: variancePct(compared.totalCosts, snapshot.totalCosts),
+
+    snapshot_profit: snapshot.profit,
+    comparison_profit: compared.profit,
+    profit_variance: compared.profit - snapshot.profit,
+    profit_variance_pct: variancePct(compared.profit, snapshot.profit),
+
+    snapshot_attendance: snapshot.footTraffic,
+    comparison_attendance: compared.footTraffic,
+    attendance_variance: compared.footTraffic - snapshot.footTraffic,
+    attendance_variance_pct: variancePct(compared.footTraffic, snapshot.footTraffic)
+  }] : []);
+
+  const columns = [
+    { key: 'week', label: 'Week' },
+    { key: 'snapshot_revenue', label: `${baselineLabel} Revenue`, format: formatMoney },
+    { key: 'comparison_revenue', label: `${comparisonLabel} Revenue`, format: formatMoney },
+    { key: 'revenue_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'revenue_variance_pct', label: 'Variance (%)', format: formatPercentValue },
+
+    { key: 'snapshot_costs', label: `${baselineLabel} Costs`, format: formatMoney },
+    { key: 'comparison_costs', label: `${comparisonLabel} Costs`, format: formatMoney },
+    { key: 'costs_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'costs_variance_pct', label: 'Variance (%)', format: formatPercentValue },
+
+    { key: 'snapshot_profit', label: `${baselineLabel} Profit`, format: formatMoney },
+    { key: 'comparison_profit', label: `${comparisonLabel} Profit`, format: formatMoney },
+    { key: 'profit_variance', label: 'Variance ($)', format: formatMoney },
+    { key: 'profit_variance_pct', label: 'Variance (%)', format: formatPercentValue },
+
+    { key: 'snapshot_attendance', label: `${baselineLabel} Attendance`, format: formatNumber },
+    { key: 'comparison_attendance', label: `${comparisonLabel} Attendance`, format: formatNumber },
+    { key: 'attendance_variance', label: 'Variance (#)', format: formatNumber },
+    { key: 'attendance_variance_pct', label: 'Variance (%)', format: formatPercentValue }
+  ];
+
+  return { data: varianceData, columns };
+}
+
+/**
+ * Export the variance of actuals or the current model against a saved forecast snapshot.
+ * Weeks the comparison has no figures for are left out.
+ */
+export function exportSnapshotVariance(
+  comparison: SnapshotComparison,
+  options: ExportOptions = {}
+): void {
+  const { data, columns } = snapshotVarianceTable(comparison, options);
+  exportForExcel(data, columns, options);
 }
 
 /**
  * Export marketing channel performance data
  */
 export function exportMarketingChannelData(
-  actualMetrics: ActualMetrics[],
+  actuals: ActualsEntry[],
   options: ExportOptions = {}
 ): void {
+  const formatMoney = getMoneyFormatter(options);
   // Flatten channel performance data from all weeks
   const allChannelData: any[] = [];
   
-  actualMetrics.forEach(week => {
+  sortActuals(actuals).forEach(week => {
     if (week.channelPerformance && week.channelPerformance.length > 0) {
       week.channelPerformance.forEach(channel => {
         allChannelData.push({
@@ -484,16 +1063,16 @@ export function exportMarketingChannelData(
     { key: 'week', label: 'Week' },
     { key: 'date', label: 'Date' },
     { key: 'channelId', label: 'Channel' },
-    { key: 'spend', label: 'Spend', format: formatCurrency },
-    { key: 'revenue', label: 'Revenue', format: formatCurrency },
+    { key: 'spend', label: 'Spend', format: formatMoney },
+    { key: 'revenue', label: 'Revenue', format: formatMoney },
     { key: 'impressions', label: 'Impressions', format: formatNumber },
     { key: 'clicks', label: 'Clicks', format: formatNumber },
     { key: 'conversions', label: 'Conversions', format: formatNumber },
-    { key: 'ctr', label: 'CTR (%)', format: (v: number) => v.toFixed(2) + '%' },
-    { key: 'conversionRate', label: 'Conversion Rate (%)', format: (v: number) => v.toFixed(2) + '%' },
-    { key: 'cpc', label: 'Cost per Click', format: formatCurrency },
-    { key: 'cpa', label: 'Cost per Acquisition', format: formatCurrency },
-    { key: 'roi', label: 'ROI (%)', format: (v: number) => v.toFixed(2) + '%' }
+    { key: 'ctr', label: 'CTR (%)', format: formatPercentValue },
+    { key: 'conversionRate', label: 'Conversion Rate (%)', format: formatPercentValue },
+    { key: 'cpc', label: 'Cost per Click', format: formatMoney },
+    { key: 'cpa', label: 'Cost per Acquisition', format: formatMoney },
+    { key: 'roi', label: 'ROI (%)', format: formatPercentValue }
   ];
   
   exportForExcel(allChannelData, columns, options);
@@ -517,18 +1096,19 @@ export async function exportToPDF(
   
   // Generate the PDF blob based on report type
   let pdfBlob: Blob;
+  const money = options.money ?? getProductMoneyFormat(product.info);
   
   switch (reportType) {
     case 'marketing':
-      pdfBlob = await generateMarketingPDF(product);
+      pdfBlob = await generateMarketingPDF(product, money);
       break;
     case 'executive':
       // Future implementation - for now fallback to financial
-      pdfBlob = await generateDashboardPDF(product);
+      pdfBlob = await generateDashboardPDF(product, money);
       break;
     case 'financial':
     default:
-      pdfBlob = await generateDashboardPDF(product);
+      pdfBlob = await generateDashboardPDF(product, money);
       break;
   }
   
@@ -544,8 +1124,8 @@ export function exportMarketingPerformance(channelData: any[], timeframe: string
     { key: 'budget', label: 'Budget', format: formatCurrency },
     { key: 'totalSpend', label: 'Total Spend', format: formatCurrency },
     { key: 'totalRevenue', label: 'Total Revenue', format: formatCurrency },
-    { key: 'expectedROI', label: 'Expected ROI (%)', format: (v: number) => v.toFixed(2) + '%' },
-    { key: 'actualROI', label: 'Actual ROI (%)', format: (v: number) => v.toFixed(2) + '%' },
+    { key: 'expectedROI', label: 'Expected ROI (%)', format: formatPercentValue },
+    { key: 'actualROI', label: 'Actual ROI (%)', format: formatPercentValue },
     { key: 'impressions', label: 'Impressions', format: formatNumber },
     { key: 'clicks', label: 'Clicks', format: formatNumber },
     { key: 'conversions', label: 'Conversions', format: formatNumber },
@@ -576,7 +1156,7 @@ export function exportBudgetRecommendations(recommendations: any[], goal: string
     { key: 'currentBudget', label: 'Current Budget', format: formatCurrency },
     { key: 'recommendedBudget', label: 'Recommended Budget', format: formatCurrency },
     { key: 'change', label: 'Change', format: formatCurrency },
-    { key: 'percentChange', label: 'Change %', format: (v: number) => v.toFixed(2) + '%' },
+    { key: 'percentChange', label: 'Change %', format: formatPercentValue },
     { key: 'performanceMetric', label: 'Performance Metric', format: (v: any) => {
       if (goal === 'roi') return v.toFixed(2) + '%';
       if (goal === 'revenue') return formatCurrency(v);
@@ -591,6 +1171,42 @@ export function exportBudgetRecommendations(recommendations: any[], goal: string
   });
 }
 
+/**
+ * Export portfolio totals, already converted to the reporting currency
+ */
+export function exportPortfolioSummary(
+  portfolioData: {
+    name: string;
+    type: string;
+    currency: Currency;
+    fxRate: number;
+    revenue: number;
+    costs: number;
+    profit: number;
+    profitMargin: number;
+    breakEvenWeek: number;
+  }[],
+  reportingCurrency: Currency,
+  options: ExportOptions = {}
+): void {
+  // Amounts are already converted, so they're shown as they are
+  const money: MoneyFormat = { from: reportingCurrency, currency: reportingCurrency, rate: 1 };
+  const formatMoney = getMoneyFormatter({ money });
+  const columns = [
+    { key: 'name', label: 'Product' },
+    { key: 'type', label: 'Type' },
+    { key: 'currency', label: 'Product Currency' },
+    { key: 'fxRate', label: `Rate to ${reportingCurrency}`, format: (v: number) => v.toFixed(4) },
+    { key: 'revenue', label: `Revenue (${reportingCurrency})`, format: formatMoney },
+    { key: 'costs', label: `Costs (${reportingCurrency})`, format: formatMoney },
+    { key: 'profit', label: `Profit (${reportingCurrency})`, format: formatMoney },
+    { key: 'profitMargin', label: 'Profit Margin', format: formatPercent },
+    { key: 'breakEvenWeek', label: 'Break-even Week', format: (v: number) => v > 0 ? String(v) : 'Not reached' }
+  ];
+
+  exportForExcel(portfolioData, columns, { ...options, money });
+}
+
 /**
  * Helper to download a file to the user's device
  */
@@ -627,8 +1243,8 @@ export const exportScenarioComparison = (
   scenarioName: string
 ) => {
   // Define the columns for export
-  const formatCurrency = (value: any) => `$${Number(value).toLocaleString()}`;
-  const formatPercentage = (value: any) => `${Number(value).toFixed(2)}%`;
+  const money = getProductMoneyFormat(product.info);
+  const formatCurrency = getMoneyFormatter({ money });
   const formatNumber = (value: any) => Number(value).toLocaleString();
   
   const headers = [
@@ -636,18 +1252,18 @@ export const exportScenarioComparison = (
     { key: 'baseline_revenue', label: 'Baseline Revenue', format: formatCurrency },
     { key: 'scenario_revenue', label: 'Scenario Revenue', format: formatCurrency },
     { key: 'revenue_diff', label: 'Revenue Difference', format: formatCurrency },
-    { key: 'revenue_diff_pct', label: 'Revenue Diff %', format: formatPercentage },
+    { key: 'revenue_diff_pct', label: 'Revenue Diff %', format: formatPercentValue },
     { key: 'baseline_cost', label: 'Baseline Cost', format: formatCurrency },
     { key: 'scenario_cost', label: 'Scenario Cost', format: formatCurrency },
     { key: 'cost_diff', label: 'Cost Difference', format: formatCurrency },
-    { key: 'cost_diff_pct', label: 'Cost Diff %', format: formatPercentage },
+    { key: 'cost_diff_pct', label: 'Cost Diff %', format: formatPercentValue },
     { key: 'baseline_profit', label: 'Baseline Profit', format: formatCurrency },
     { key: 'scenario_profit', label: 'Scenario Profit', format: formatCurrency },
     { key: 'profit_diff', label: 'Profit Difference', format: formatCurrency },
-    { key: 'profit_diff_pct', label: 'Profit Diff %', format: formatPercentage },
+    { key: 'profit_diff_pct', label: 'Profit Diff %', format: formatPercentValue },
     { key: 'baseline_attendance', label: 'Baseline Attendance', format: formatNumber },
     { key: 'scenario_attendance', label: 'Scenario Attendance', format: formatNumber },
-    { key: 'attendance_diff_pct', label: 'Attendance Diff %', format: formatPercentage }
+    { key: 'attendance_diff_pct', label: 'Attendance Diff %', format: formatPercentValue }
   ];
 
   // Generate weekly data for export
@@ -751,7 +1367,8 @@ export const exportScenarioComparison = (
     headers,
     { 
       fileName: `${product.info.name}_${scenarioName}_Comparison`,
-      includeTimestamp: true
+      includeTimestamp: true,
+      money
     }
   );
 }; 
\ No newline at end of file
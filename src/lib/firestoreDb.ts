@@ -8,6 +8,7 @@ import {
   deleteDoc, 
   query, 
   where,
+  increment,
   serverTimestamp,
   Timestamp,
   DocumentData,
@@ -15,12 +16,14 @@ import {
 } from 'firebase/firestore';
 import { db } from './firebase';
 import type { 
+  ActualsEntry,
   Product, 
   GrowthMetrics, 
   RevenueMetrics, 
   CostMetrics, 
   CustomerMetrics 
 } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './schemaMigrations';
 
 // Firestore Collection Names
 const PRODUCTS_COLLECTION = 'products';
@@ -96,7 +99,9 @@ export async function createProduct(product: Omit<Product, 'id'>): Promise<Produ
         id: productId,
         createdAt: new Date(),
         updatedAt: new Date()
-      }
+      },
+      version: 1,
+      schemaVersion: CURRENT_SCHEMA_VERSION
     } as Product;
     
     // Set the document with the generated ID
@@ -114,7 +119,8 @@ export async function createProduct(product: Omit<Product, 'id'>): Promise<Produ
   }
 }
 
-// Update a product
+// Update a product. The version is bumped so saves from the store, which
+// check it, see the change instead of overwriting it.
 export async function updateProduct(
   id: string,
   updates: Partial<Product>
@@ -136,6 +142,7 @@ export async function updateProduct(
         ...updates.info,
         updatedAt: new Date()
       } : undefined,
+      version: increment(1),
       _updatedAt: serverTimestamp()
     };
     
@@ -259,10 +266,10 @@ export async function updateProjections(
   }
 }
 
-// Update actual metrics
+// Add or replace entries in a product's actuals ledger
 export async function updateActuals(
   productId: string,
-  actualMetrics: any[]
+  entries: ActualsEntry[]
 ): Promise<void> {
   try {
     const productRef = doc(db as Firestore, PRODUCTS_COLLECTION, productId);
@@ -275,27 +282,27 @@ export async function updateActuals(
     
     const product = productDoc.data() as Product;
     
-    // Ensure each metric has an ID
-    const updatedMetrics = actualMetrics.map(metric => ({
+    // Ensure each entry has an ID
+    const updatedMetrics = entries.map(metric => ({
       ...metric,
       id: metric.id || crypto.randomUUID()
     }));
     
     // Create a map of metrics by ID for easy lookup
-    const metricsById = new Map();
+    const metricsById = new Map<string, ActualsEntry>();
     updatedMetrics.forEach(metric => {
       metricsById.set(metric.id, metric);
     });
     
     // Combine existing metrics (if not being updated) with updated ones
-    const existingMetrics = product.actualMetrics || [];
+    const existingMetrics = product.actuals || [];
     const combinedMetrics = existingMetrics
       .filter(metric => !metricsById.has(metric.id))
       .concat(Array.from(metricsById.values()));
     
     // Update the document
     await updateDoc(productRef, {
-      actualMetrics: combinedMetrics,
+      actuals: combinedMetrics,
       _updatedAt: serverTimestamp()
     });
   } catch (error) {
@@ -0,0 +1,157 @@
+/**
+ * Forecast Snapshots
+ * Named copies of a product's forecast together with the inputs it was
+ * projected from, so a plan such as the one the board approved survives
+ * later changes to the model. Any snapshot can be compared week by week with
+ * the recorded actuals or with the current model.
+ */
+
+import type {
+  ForecastSnapshot,
+  ForecastSnapshotInputs,
+  ForecastSnapshotKind,
+  Product
+} from '../types';
+import { getActualProfit, getActualsForWeek } from './actualsLedger';
+import { MODEL_INPUTS, toModelInputs } from './modelInputs';
+import type { DriverDiff } from './scenarioDiff';
+
+export const SNAPSHOT_COMPARISON_TARGETS = ['actuals', 'current'] as const;
+
+export type SnapshotComparisonTarget = typeof SNAPSHOT_COMPARISON_TARGETS[number];
+
+export const SNAPSHOT_COMPARISON_LABELS: Record<SnapshotComparisonTarget, string> = {
+  actuals: 'Actuals',
+  current: 'Current model'
+};
+
+export const FORECAST_SNAPSHOT_KIND_LABELS: Record<ForecastSnapshotKind, string> = {
+  plan: 'Plan',
+  reforecast: 'Reforecast'
+};
+
+export interface SnapshotWeekFigures {
+  footTraffic: number;
+  totalRevenue: number;
+  totalCosts: number;
+  profit: number;
+}
+
+export interface SnapshotWeekComparison {
+  week: number;
+  snapshot: SnapshotWeekFigures;
+  comparison: SnapshotWeekFigures | null; // null when the week has no actuals, or is outside the current model
+}
+
+export interface SnapshotComparison {
+  snapshot: ForecastSnapshot;
+  target: SnapshotComparisonTarget;
+  weeks: SnapshotWeekComparison[];
+  // Totals over the weeks both sides have figures for
+  totals: { snapshot: SnapshotWeekFigures; comparison: SnapshotWeekFigures; weeks: number };
+  // Inputs that changed since the snapshot (left: snapshot, right: current); comparisons with the current model only
+  drivers: DriverDiff[];
+}
+
+const VALUE_TOLERANCE = 1e-9;
+
+const ZERO_FIGURES: SnapshotWeekFigures = { footTraffic: 0, totalRevenue: 0, totalCosts: 0, profit: 0 };
+
+const addFigures = (a: SnapshotWeekFigures, b: SnapshotWeekFigures): SnapshotWeekFigures => ({
+  footTraffic: a.footTraffic + b.footTraffic,
+  totalRevenue: a.totalRevenue + b.totalRevenue,
+  totalCosts: a.totalCosts + b.totalCosts,
+  profit: a.profit + b.profit
+});
+
+/**
+ * The product's current model inputs, as kept with a snapshot
+ */
+export function getSnapshotInputs(product: Product): ForecastSnapshotInputs {
+  return {
+    info: product.info,
+    growthMetrics: product.growthMetrics,
+    revenueMetrics: product.revenueMetrics,
+    costMetrics: product.costMetrics,
+    ...(product.seasonalAnalysis ? { seasonalAnalysis: product.seasonalAnalysis } : {}),
+    ...(product.seasonalAdjustments ? { seasonalAdjustments: product.seasonalAdjustments } : {})
+  };
+}
+
+/**
+ * Snapshot of the plan as the model currently projects it
+ */
+export function createForecastSnapshot(product: Product, name: string): ForecastSnapshot {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    kind: 'plan',
+    createdAt: new Date(),
+    inputs: getSnapshotInputs(product),
+    actualsThroughWeek: 0,
+    weeks: (product.weeklyProjections || []).map(week => ({ ...week, source: 'forecast' }))
+  };
+}
+
+/**
+ * Compare a snapshot week by week with the product's actuals or its current model
+ */
+export function compareSnapshot(
+  snapshot: ForecastSnapshot,
+  product: Product,
+  target: SnapshotComparisonTarget
+): SnapshotComparison {
+  const weeks = snapshot.weeks.map(week => {
+    const snapshotFigures: SnapshotWeekFigures = {
+      footTraffic: week.footTraffic,
+      totalRevenue: week.totalRevenue,
+      totalCosts: week.totalCosts,
+      profit: week.weeklyProfit
+    };
+
+    let comparison: SnapshotWeekFigures | null = null;
+    if (target === 'actuals') {
+      const actual = getActualsForWeek(product.actuals, week.week);
+      comparison = actual ? {
+        footTraffic: actual.footTraffic || 0,
+        totalRevenue: actual.totalRevenue,
+        totalCosts: actual.totalCosts,
+        profit: getActualProfit(actual)
+      } : null;
+    } else {
+      const current = (product.weeklyProjections || []).find(projection => projection.week === week.week);
+      comparison = current ? {
+        footTraffic: current.footTraffic,
+        totalRevenue: current.totalRevenue,
+        totalCosts: current.totalCosts,
+        profit: current.weeklyProfit
+      } : null;
+    }
+
+    return { week: week.week, snapshot: snapshotFigures, comparison };
+  });
+
+  const totals = weeks.reduce((sum, week) => week.comparison ? {
+    snapshot: addFigures(sum.snapshot, week.snapshot),
+    comparison: addFigures(sum.comparison, week.comparison),
+    weeks: sum.weeks + 1
+  } : sum, { snapshot: ZERO_FIGURES, comparison: ZERO_FIGURES, weeks: 0 });
+
+  let drivers: DriverDiff[] = [];
+  if (target === 'current') {
+    const { inputs } = snapshot;
+    const snapshotInputs = toModelInputs(inputs.info, inputs.growthMetrics, inputs.revenueMetrics, inputs.costMetrics, inputs);
+    const currentInputs = toModelInputs(product.info, product.growthMetrics, product.revenueMetrics, product.costMetrics, product);
+    drivers = MODEL_INPUTS
+      .map(input => ({
+        key: input.key,
+        label: input.label,
+        group: input.group,
+        leftValue: input.get(snapshotInputs),
+        rightValue: input.get(currentInputs)
+      }))
+      .filter(diff => Math.abs(diff.leftValue - diff.rightValue) > VALUE_TOLERANCE);
+  }
+
+  return { snapshot, target, weeks, totals, drivers };
+}
@@ -1,7 +1,10 @@
 import { Document, Page, Text, View, StyleSheet, pdf, Image } from '@react-pdf/renderer';
 import { format } from 'date-fns';
-import type { Product, MarketingChannelPerformance, MarketingChannelItem, ActualMetrics } from '../types';
-import { formatCurrency, formatNumber, formatPercent } from './utils';
+import type { Product, MarketingChannelPerformance, MarketingChannelItem } from '../types';
+import { formatNumber, formatPercent } from './utils';
+import { createMoneyFormatter, describeMoneyFormat, getProductMoneyFormat } from './currency';
+import type { MoneyFormat } from './currency';
+import { sortActuals } from './actualsLedger';
 
 // Create styles with enhanced visual design
 const styles = StyleSheet.create({
@@ -239,20 +242,21 @@ const calculateChannelMetrics = (channels: MarketingChannelItem[] = [], channelP
 };
 
 // Main PDF Component
-const MarketingReportPDF = ({ product }: { product: Product }) => {
+const MarketingReportPDF = ({ product, money }: { product: Product; money: MoneyFormat }) => {
+  const formatMoney = createMoneyFormatter(money);
   const {
     info,
     weeklyProjections,
-    actualMetrics = [],
+    actuals = [],
     costMetrics,
   } = product;
 
   // Extract marketing channels and metrics
   const marketingChannels = costMetrics?.marketing?.channels || [];
   
-  // Get the most recent actual metrics with channel performance data
-  const recentActuals = [...actualMetrics]
-    .sort((a, b) => (b.week || 0) - (a.week || 0))
+  // Get the most recent actuals with channel performance data
+  const recentActuals = sortActuals(actuals)
+    .reverse()
     .filter(metric => metric.channelPerformance && metric.channelPerformance.length > 0)
     .slice(0, 4);
   
@@ -291,6 +295,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
           <Text style={styles.title}>{info.name} - Marketing Performance Report</Text>
           <Text style={styles.subtitle}>Generated on {reportDate}</Text>
           <Text style={styles.subtitle}>Product Type: {info.type}</Text>
+          <Text style={styles.subtitle}>{describeMoneyFormat(money)}</Text>
         </View>
 
         {/* Executive Summary */}
@@ -308,7 +313,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
           <View style={styles.row}>
             <View style={styles.kpiCard}>
               <Text style={styles.kpiTitle}>Marketing Budget</Text>
-              <Text style={styles.kpiValue}>{formatCurrency(totalMarketingBudget)}</Text>
+              <Text style={styles.kpiValue}>{formatMoney(totalMarketingBudget)}</Text>
               <Text style={styles.kpiPercentage}>
                 {totalMarketingBudget > 0 && totalMarketingSpend > 0 && 
                   `${formatPercent(totalMarketingSpend / totalMarketingBudget)} utilized`}
@@ -317,7 +322,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
             
             <View style={styles.kpiCard}>
               <Text style={styles.kpiTitle}>Marketing Revenue</Text>
-              <Text style={styles.kpiValue}>{formatCurrency(totalMarketingRevenue)}</Text>
+              <Text style={styles.kpiValue}>{formatMoney(totalMarketingRevenue)}</Text>
               {weeklyProjections.length > 0 && (
                 <Text style={getPerformanceStyle(totalMarketingRevenue - totalMarketingBudget, { good: 0, neutral: -1000 })}>
                   {totalMarketingRevenue >= totalMarketingBudget ? 'On Target' : 'Below Target'}
@@ -360,9 +365,9 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
               {channelMetrics.map((channel, index) => (
                 <View key={channel.id} style={index % 2 === 0 ? styles.tableRow : styles.tableRowHighlight}>
                   <Text style={[styles.tableCell, { flex: 1.5 }]}>{channel.name || `Channel ${index + 1}`}</Text>
-                  <Text style={styles.tableCell}>{formatCurrency(channel.budget || 0)}</Text>
-                  <Text style={styles.tableCell}>{formatCurrency(channel.performance?.spend || 0)}</Text>
-                  <Text style={styles.tableCell}>{formatCurrency(channel.performance?.revenue || 0)}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(channel.budget || 0)}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(channel.performance?.spend || 0)}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(channel.performance?.revenue || 0)}</Text>
                   <Text style={[styles.tableCell, getPerformanceStyle(channel.roi)]}>
                     {formatPercent(channel.roi)}
                   </Text>
@@ -374,13 +379,13 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
               <View style={[styles.tableRow, { borderTopWidth: 1, borderTopColor: '#e5e7eb', marginTop: 4 }]}>
                 <Text style={[styles.tableCell, { flex: 1.5, fontWeight: 'bold' }]}>Total</Text>
                 <Text style={[styles.tableCell, { fontWeight: 'bold' }]}>
-                  {formatCurrency(totalMarketingBudget)}
+                  {formatMoney(totalMarketingBudget)}
                 </Text>
                 <Text style={[styles.tableCell, { fontWeight: 'bold' }]}>
-                  {formatCurrency(totalMarketingSpend)}
+                  {formatMoney(totalMarketingSpend)}
                 </Text>
                 <Text style={[styles.tableCell, { fontWeight: 'bold' }]}>
-                  {formatCurrency(totalMarketingRevenue)}
+                  {formatMoney(totalMarketingRevenue)}
                 </Text>
                 <Text style={[styles.tableCell, getPerformanceStyle(overallROI), { fontWeight: 'bold' }]}>
                   {formatPercent(overallROI)}
@@ -441,7 +446,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
             <View style={styles.col}>
               <Text style={styles.label}>Avg. Cost Per Click</Text>
               <Text style={styles.value}>
-                {formatCurrency(recentActuals.length > 0 && 
+                {formatMoney(recentActuals.length > 0 && 
                   recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.clicks || 0), 0) > 0
                   ? (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.spend || 0), 0) || 0) / 
                     (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.clicks || 0), 0) || 1)
@@ -452,7 +457,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
             <View style={styles.col}>
               <Text style={styles.label}>Avg. Cost Per Acquisition</Text>
               <Text style={styles.value}>
-                {formatCurrency(recentActuals.length > 0 && 
+                {formatMoney(recentActuals.length > 0 && 
                   recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.conversions || 0), 0) > 0
                   ? (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.spend || 0), 0) || 0) / 
                     (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.conversions || 0), 0) || 1)
@@ -463,7 +468,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
             <View style={styles.col}>
               <Text style={styles.label}>Avg. Revenue Per Conversion</Text>
               <Text style={styles.value}>
-                {formatCurrency(recentActuals.length > 0 && 
+                {formatMoney(recentActuals.length > 0 && 
                   recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.conversions || 0), 0) > 0
                   ? (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.revenue || 0), 0) || 0) / 
                     (recentActuals[0].channelPerformance?.reduce((sum, p) => sum + (p.conversions || 0), 0) || 1)
@@ -514,11 +519,11 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
                     return (
                       <View key={channel.id} style={index % 2 === 0 ? styles.tableRow : styles.tableRowHighlight}>
                         <Text style={[styles.tableCell, { flex: 1.5 }]}>{channel.name || `Channel ${index + 1}`}</Text>
-                        <Text style={styles.tableCell}>{formatCurrency(channel.budget || 0)}</Text>
+                        <Text style={styles.tableCell}>{formatMoney(channel.budget || 0)}</Text>
                         <Text style={[styles.tableCell, getPerformanceStyle(channel.roi)]}>
                           {formatPercent(channel.roi)}
                         </Text>
-                        <Text style={styles.tableCell}>{formatCurrency(recommendedBudget)}</Text>
+                        <Text style={styles.tableCell}>{formatMoney(recommendedBudget)}</Text>
                         <Text style={[
                           styles.tableCell, 
                           budgetChange > 1 ? styles.positive : 
@@ -568,8 +573,8 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
                 return (
                   <View key={week.week} style={index % 2 === 0 ? styles.tableRow : styles.tableRowHighlight}>
                     <Text style={styles.tableCell}>Week {week.week}</Text>
-                    <Text style={styles.tableCell}>{formatCurrency(weekSpend)}</Text>
-                    <Text style={styles.tableCell}>{formatCurrency(weekRevenue)}</Text>
+                    <Text style={styles.tableCell}>{formatMoney(weekSpend)}</Text>
+                    <Text style={styles.tableCell}>{formatMoney(weekRevenue)}</Text>
                     <Text style={[styles.tableCell, getPerformanceStyle(weekROI)]}>
                       {formatPercent(weekROI)}
                     </Text>
@@ -639,9 +644,9 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
                         <Text style={[styles.tableCell, { flex: 1.5 }]}>{channel.name || `Channel ${index + 1}`}</Text>
                         <Text style={styles.tableCell}>{formatNumber(impressions)}</Text>
                         <Text style={styles.tableCell}>{formatPercent(ctr)}</Text>
-                        <Text style={styles.tableCell}>{formatCurrency(cpc)}</Text>
+                        <Text style={styles.tableCell}>{formatMoney(cpc)}</Text>
                         <Text style={styles.tableCell}>{formatPercent(convRate)}</Text>
-                        <Text style={styles.tableCell}>{formatCurrency(cpa)}</Text>
+                        <Text style={styles.tableCell}>{formatMoney(cpa)}</Text>
                       </View>
                     );
                   })}
@@ -676,7 +681,7 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
                     return (
                       <View key={channel.id} style={index % 2 === 0 ? styles.tableRow : styles.tableRowHighlight}>
                         <Text style={[styles.tableCell, { flex: 1.5 }]}>{channel.name || `Channel ${index + 1}`}</Text>
-                        <Text style={styles.tableCell}>{formatCurrency(revenue)}</Text>
+                        <Text style={styles.tableCell}>{formatMoney(revenue)}</Text>
                         <Text style={styles.tableCell}>{formatPercent(percentage)}</Text>
                         <View style={[styles.tableCell, { flex: 3 }]}>
                           <View style={{ flexDirection: 'row', height: 12, alignItems: 'center' }}>
@@ -811,6 +816,9 @@ const MarketingReportPDF = ({ product }: { product: Product }) => {
 };
 
 // Function to generate the marketing PDF
-export async function generateMarketingPDF(product: Product): Promise<Blob> {
-  return await pdf(<MarketingReportPDF product={product} />).toBlob();
+export async function generateMarketingPDF(
+  product: Product,
+  money: MoneyFormat = getProductMoneyFormat(product.info)
+): Promise<Blob> {
+  return await pdf(<MarketingReportPDF product={product} money={money} />).toBlob();
 } 
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { Document, Page, Text, View, StyleSheet, pdf } from '@react-pdf/renderer';
 import { format } from 'date-fns';
 import type { Product } from '../types';
-import { formatCurrency, formatNumber, formatPercent } from './utils';
+import { formatNumber, formatPercent } from './utils';
+import { createMoneyFormatter, describeMoneyFormat, getProductMoneyFormat } from './currency';
+import type { MoneyFormat } from './currency';
+import { summarizeByYear } from './longTermForecast';
+import { withRunningProfit } from './actualsLedger';
 
 // Create styles
 const styles = StyleSheet.create({
@@ -77,14 +81,16 @@ const styles = StyleSheet.create({
 });
 
 // Create Document Component
-const DashboardPDF = ({ product }: { product: Product }) => {
+const DashboardPDF = ({ product, money }: { product: Product; money: MoneyFormat }) => {
+  const formatMoney = createMoneyFormatter(money);
   const {
     info,
     weeklyProjections,
-    actualMetrics = [],
+    actuals = [],
     growthMetrics,
     revenueMetrics,
     costMetrics,
+    longTermProjections = [],
   } = product;
 
   // Calculate key metrics
@@ -93,6 +99,7 @@ const DashboardPDF = ({ product }: { product: Product }) => {
   const totalProfit = totalRevenue - totalCosts;
   const profitMargin = totalRevenue > 0 ? totalProfit / totalRevenue : 0;
   const breakEvenWeek = weeklyProjections.findIndex(w => w.cumulativeProfit > 0) + 1;
+  const longTermYears = summarizeByYear(longTermProjections);
 
   return (
     <Document>
@@ -102,6 +109,7 @@ const DashboardPDF = ({ product }: { product: Product }) => {
           <Text style={styles.title}>{info.name} - Financial Dashboard</Text>
           <Text style={styles.subtitle}>Generated on {format(new Date(), 'PPP')}</Text>
           <Text style={styles.subtitle}>Product Type: {info.type}</Text>
+          <Text style={styles.subtitle}>{describeMoneyFormat(money)}</Text>
         </View>
 
         {/* Executive Summary */}
@@ -110,11 +118,11 @@ const DashboardPDF = ({ product }: { product: Product }) => {
           <View style={styles.row}>
             <View style={styles.col}>
               <Text style={styles.label}>Total Revenue</Text>
-              <Text style={styles.value}>{formatCurrency(totalRevenue)}</Text>
+              <Text style={styles.value}>{formatMoney(totalRevenue)}</Text>
             </View>
             <View style={styles.col}>
               <Text style={styles.label}>Total Costs</Text>
-              <Text style={styles.value}>{formatCurrency(totalCosts)}</Text>
+              <Text style={styles.value}>{formatMoney(totalCosts)}</Text>
             </View>
             <View style={styles.col}>
               <Text style={styles.label}>Profit Margin</Text>
@@ -160,17 +168,42 @@ const DashboardPDF = ({ product }: { product: Product }) => {
             {weeklyProjections.slice(0, 8).map((week) => (
               <View key={week.week} style={styles.tableRow}>
                 <Text style={styles.tableCell}>Week {week.week}</Text>
-                <Text style={styles.tableCell}>{formatCurrency(week.totalRevenue)}</Text>
-                <Text style={styles.tableCell}>{formatCurrency(week.totalCosts)}</Text>
-                <Text style={styles.tableCell}>{formatCurrency(week.weeklyProfit)}</Text>
-                <Text style={styles.tableCell}>{formatCurrency(week.cumulativeProfit)}</Text>
+                <Text style={styles.tableCell}>{formatMoney(week.totalRevenue)}</Text>
+                <Text style={styles.tableCell}>{formatMoney(week.totalCosts)}</Text>
+                <Text style={styles.tableCell}>{formatMoney(week.weeklyProfit)}</Text>
+                <Text style={styles.tableCell}>{formatMoney(week.cumulativeProfit)}</Text>
               </View>
             ))}
           </View>
         </View>
 
+        {/* Long-Term Outlook */}
+        {longTermYears.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Long-Term Outlook</Text>
+            <View style={styles.table}>
+              <View style={styles.tableHeader}>
+                <Text style={styles.tableCell}>Year</Text>
+                <Text style={styles.tableCell}>Revenue</Text>
+                <Text style={styles.tableCell}>Costs</Text>
+                <Text style={styles.tableCell}>Profit</Text>
+                <Text style={styles.tableCell}>Market Share</Text>
+              </View>
+              {longTermYears.map((year) => (
+                <View key={year.label} style={styles.tableRow}>
+                  <Text style={styles.tableCell}>{year.label}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(year.revenue)}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(year.costs)}</Text>
+                  <Text style={styles.tableCell}>{formatMoney(year.profit)}</Text>
+                  <Text style={styles.tableCell}>{formatPercent(year.marketShare)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Actual Performance */}
-        {actualMetrics.length > 0 && (
+        {actuals.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Actual Performance</Text>
             <View style={styles.table}>
@@ -181,7 +214,7 @@ const DashboardPDF = ({ product }: { product: Product }) => {
                 <Text style={styles.tableCell}>Profit</Text>
                 <Text style={styles.tableCell}>vs Forecast</Text>
               </View>
-              {actualMetrics.slice(0, 8).map((metric) => {
+              {withRunningProfit(actuals).slice(0, 8).map((metric) => {
                 const forecast = weeklyProjections.find(p => p.week === metric.week);
                 const variance = forecast 
                   ? ((metric.weeklyProfit - forecast.weeklyProfit) / Math.abs(forecast.weeklyProfit)) * 100 
@@ -190,9 +223,9 @@ const DashboardPDF = ({ product }: { product: Product }) => {
                 return (
                   <View key={metric.week} style={styles.tableRow}>
                     <Text style={styles.tableCell}>Week {metric.week}</Text>
-                    <Text style={styles.tableCell}>{formatCurrency(metric.totalRevenue)}</Text>
-                    <Text style={styles.tableCell}>{formatCurrency(metric.totalCosts)}</Text>
-                    <Text style={styles.tableCell}>{formatCurrency(metric.weeklyProfit)}</Text>
+                    <Text style={styles.tableCell}>{formatMoney(metric.totalRevenue)}</Text>
+                    <Text style={styles.tableCell}>{formatMoney(metric.totalCosts)}</Text>
+                    <Text style={styles.tableCell}>{formatMoney(metric.weeklyProfit)}</Text>
                     <Text style={styles.tableCell}>{variance.toFixed(1)}%</Text>
                   </View>
                 );
@@ -210,6 +243,9 @@ const DashboardPDF = ({ product }: { product: Product }) => {
   );
 };
 
-export async function generateDashboardPDF(product: Product): Promise<Blob> {
-  return await pdf(<DashboardPDF product={product} />).toBlob();
+export async function generateDashboardPDF(
+  product: Product,
+  money: MoneyFormat = getProductMoneyFormat(product.info)
+): Promise<Blob> {
+  return await pdf(<DashboardPDF product={product} money={money} />).toBlob();
 }
\ No newline at end of file
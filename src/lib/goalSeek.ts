@@ -0,0 +1,141 @@
+/**
+ * Goal Seek
+ * Solves for the value of one forecast input that hits a profit, margin or
+ * break-even target, by searching over the projection engine.
+ */
+
+import type { WeeklyProjection } from '../types';
+import { runProjection, getBreakEvenWeek } from './projectionEngine';
+import type { ModelInput, ModelInputs } from './modelInputs';
+
+export const GOAL_SEEK_TARGETS = ['profit', 'margin', 'breakEvenWeek', 'cumulativeProfitByWeek'] as const;
+
+export type GoalSeekTarget = typeof GOAL_SEEK_TARGETS[number];
+
+export const GOAL_SEEK_TARGET_LABELS: Record<GoalSeekTarget, string> = {
+  profit: 'Total profit',
+  margin: 'Profit margin (%)',
+  breakEvenWeek: 'Break even by week',
+  cumulativeProfitByWeek: 'Cumulative profit by week'
+};
+
+export interface GoalSeekGoal {
+  target: GoalSeekTarget;
+  // Target profit amount or margin percentage; not used for breakEvenWeek
+  value: number;
+  // Week the goal applies to, for breakEvenWeek and cumulativeProfitByWeek
+  week?: number;
+}
+
+export interface GoalSeekResult {
+  // alwaysMet: the goal holds whatever the input's value, so it is left unchanged
+  status: 'solved' | 'alwaysMet' | 'unreachable';
+  inputKey: string;
+  inputLabel: string;
+  baseValue: number;
+  // Solved value, or the closest value tried when the goal is unreachable
+  value: number;
+  projections: WeeklyProjection[];
+  totalRevenue: number;
+  totalCosts: number;
+  totalProfit: number;
+  breakEvenWeek: number | null;
+}
+
+const MAX_EXPANSIONS = 40;
+const BISECTION_STEPS = 60;
+const RELATIVE_TOLERANCE = 1e-6;
+
+/**
+ * How far the projections are past the goal: zero or more means it is met
+ */
+function getGoalSurplus(projections: WeeklyProjection[], goal: GoalSeekGoal): number {
+  const totalRevenue = projections.reduce((sum, week) => sum + week.totalRevenue, 0);
+  const totalProfit = projections.length > 0 ? projections[projections.length - 1].cumulativeProfit : 0;
+
+  switch (goal.target) {
+    case 'margin':
+      return (totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : -Infinity) - goal.value;
+    case 'breakEvenWeek':
+    case 'cumulativeProfitByWeek': {
+      const week = Math.min(Math.max(1, Math.round(goal.week || 1)), projections.length);
+      const cumulativeProfit = projections[week - 1]?.cumulativeProfit ?? 0;
+      if (goal.target === 'cumulativeProfitByWeek') {
+        return cumulativeProfit - goal.value;
+      }
+      // Break-even needs cumulative profit above zero (as in getBreakEvenWeek), so exactly zero falls short
+      return cumulativeProfit > 0 ? cumulativeProfit : cumulativeProfit - 1;
+    }
+    case 'profit':
+    default:
+      return totalProfit - goal.value;
+  }
+}
+
+function buildResult(
+  status: GoalSeekResult['status'],
+  input: ModelInput,
+  inputs: ModelInputs,
+  value: number
+): GoalSeekResult {
+  const { projections } = runProjection(input.apply(inputs, value));
+  const totalRevenue = projections.reduce((sum, week) => sum + week.totalRevenue, 0);
+  const totalCosts = projections.reduce((sum, week) => sum + week.totalCosts, 0);
+
+  return {
+    status,
+    inputKey: input.key,
+    inputLabel: input.label,
+    baseValue: input.get(inputs),
+    value,
+    projections,
+    totalRevenue,
+    totalCosts,
+    totalProfit: totalRevenue - totalCosts,
+    breakEvenWeek: getBreakEvenWeek(projections)
+  };
+}
+
+/**
+ * Find the value of `input` at which the goal is only just met, holding every
+ * other input at its current value. The goal is assumed to move one way as the
+ * input grows (true for prices, visitors and costs); the search brackets the
+ * crossing point from zero upwards and then bisects it.
+ */
+export function goalSeek(inputs: ModelInputs, input: ModelInput, goal: GoalSeekGoal): GoalSeekResult {
+  const surplusAt = (value: number) => getGoalSurplus(runProjection(input.apply(inputs, value)).projections, goal);
+  const baseValue = input.get(inputs);
+  const upperLimit = input.max ?? Infinity;
+
+  const zeroSurplus = surplusAt(0);
+  const metAtZero = zeroSurplus >= 0;
+  let low = 0;
+  let high = Math.min(Math.max(baseValue, 1), upperLimit);
+  let highSurplus = surplusAt(high);
+
+  // Grow the search range until the goal flips between met and not met
+  for (let expansion = 0; expansion < MAX_EXPANSIONS && (highSurplus >= 0) === metAtZero && high < upperLimit; expansion++) {
+    low = high;
+    high = Math.min(high * 2, upperLimit);
+    highSurplus = surplusAt(high);
+  }
+
+  if ((highSurplus >= 0) === metAtZero) {
+    return metAtZero
+      ? buildResult('alwaysMet', input, inputs, baseValue)
+      : buildResult('unreachable', input, inputs, highSurplus > zeroSurplus ? high : 0);
+  }
+
+  // low stays on the same side of the goal as zero, high on the other
+  for (let step = 0; step < BISECTION_STEPS && high - low > RELATIVE_TOLERANCE * Math.max(1, high); step++) {
+    const mid = (low + high) / 2;
+    if ((surplusAt(mid) >= 0) === metAtZero) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  // Report the end of the bracket on the side that meets the goal
+  return buildResult('solved', input, inputs, metAtZero ? low : high);
+}
@@ -0,0 +1,116 @@
+/**
+ * Growth Models
+ * Weekly attendance curves for each GrowthMetrics.growthModel, plus the
+ * audience effects (return visits, word of mouth, social conversion) layered on top.
+ */
+
+import type { ProductInfo, GrowthMetrics, GrowthModel } from '../types';
+
+const WEEKS_PER_YEAR = 52;
+
+export interface AttendanceWeek {
+  week: number;
+  baseVisitors: number;
+  growthFactor: number;
+  // First-time visitors reached through the product's own audience and social channels
+  acquiredVisitors: number;
+  // First-time visitors brought along by last week's first-time visitors
+  referredVisitors: number;
+  // Last week's first-time visitors coming back
+  returningVisitors: number;
+  visitors: number;
+}
+
+const clampRate = (rate: number | undefined): number => Math.min(Math.max(rate || 0, 0), 1);
+
+/**
+ * Visitors expected in the first week, before growth is applied
+ */
+export function getBaseWeeklyVisitors(productInfo: ProductInfo, growthMetrics: GrowthMetrics): number {
+  return productInfo.forecastType === 'per-event'
+    ? (growthMetrics.visitorsPerEvent || 0) * (productInfo.eventsPerWeek || 1)
+    : growthMetrics.weeklyVisitors || 0;
+}
+
+/**
+ * Ratio of the quietest to the busiest day, or 0 when peak/low are not set
+ */
+function getLowToPeakRatio(growthMetrics: GrowthMetrics): number {
+  const peak = growthMetrics.peakDayAttendance || 0;
+  const low = growthMetrics.lowDayAttendance || 0;
+  return peak > 0 && low > 0 ? Math.min(low / peak, 1) : 0;
+}
+
+/**
+ * Attendance multiplier for a week relative to week 1
+ */
+export function getGrowthFactor(model: GrowthModel, week: number, growthMetrics: GrowthMetrics): number {
+  const rate = (growthMetrics.weeklyGrowthRate || 0) / 100;
+  const weeksElapsed = week - 1;
+
+  switch (model) {
+    case 'Decay': {
+      // Launch interest falls away each week, settling at the low-day level
+      const floor = getLowToPeakRatio(growthMetrics);
+      const decayRate = Math.min(Math.abs(rate), 1);
+      return floor + (1 - floor) * Math.pow(1 - decayRate, weeksElapsed);
+    }
+    case 'Seasonal': {
+      // Yearly cycle swinging between peak and low attendance, around the growth trend
+      const peak = growthMetrics.peakDayAttendance || 0;
+      const low = growthMetrics.lowDayAttendance || 0;
+      const amplitude = peak + low > 0 ? (peak - low) / (peak + low) : 0;
+      const cycle = Math.cos((2 * Math.PI * weeksElapsed) / WEEKS_PER_YEAR);
+      return Math.pow(1 + rate, weeksElapsed) * (1 + amplitude * cycle);
+    }
+    case 'Custom': {
+      const curve = growthMetrics.attendanceCurve || [];
+      if (curve.length === 0) {
+        return 1;
+      }
+      // Hold the last point of the curve once it runs out
+      return Math.max(curve[Math.min(weeksElapsed, curve.length - 1)] || 0, 0);
+    }
+    case 'Exponential':
+    default:
+      return Math.pow(1 + rate, weeksElapsed);
+  }
+}
+
+/**
+ * Project attendance for the given number of weeks
+ */
+export function projectAttendance(
+  productInfo: ProductInfo,
+  growthMetrics: GrowthMetrics,
+  weeks: number
+): AttendanceWeek[] {
+  const baseVisitors = getBaseWeeklyVisitors(productInfo, growthMetrics);
+  const returnVisitRate = clampRate(growthMetrics.returnVisitRate);
+  const wordOfMouthRate = clampRate(growthMetrics.wordOfMouthRate);
+  const socialMediaConversion = Math.max(growthMetrics.socialMediaConversion || 0, 0);
+
+  const attendance: AttendanceWeek[] = [];
+  let previousFirstTimeVisitors = 0;
+
+  for (let week = 1; week <= weeks; week++) {
+    const growthFactor = getGrowthFactor(growthMetrics.growthModel, week, growthMetrics);
+    const acquiredVisitors = baseVisitors * growthFactor * (1 + socialMediaConversion);
+    const referredVisitors = previousFirstTimeVisitors * wordOfMouthRate;
+    const returningVisitors = previousFirstTimeVisitors * returnVisitRate;
+
+    attendance.push({
+      week,
+      baseVisitors,
+      growthFactor,
+      acquiredVisitors,
+      referredVisitors,
+      returningVisitors,
+      visitors: Math.round(acquiredVisitors + referredVisitors + returningVisitors)
+    });
+
+    previousFirstTimeVisitors = acquiredVisitors + referredVisitors;
+  }
+
+  return attendance;
+}
@@ -0,0 +1,174 @@
+/**
+ * Long-Term Forecast
+ * Multi-year monthly series built from the weekly forecast and the product's
+ * MarketMetrics: revenue growth capped by the obtainable market, cost scaling
+ * and cost inflation.
+ */
+
+import type { Product, MarketMetrics, LongTermMonth, WeeklyProjection } from '../types';
+import { DEFAULT_MARKET_METRICS } from '../types';
+import { toDate } from './seasonality';
+
+const WEEKS_PER_YEAR = 52;
+const MONTHS_PER_YEAR = 12;
+const WEEKS_PER_MONTH = WEEKS_PER_YEAR / MONTHS_PER_YEAR;
+const RUN_RATE_WEEKS = 4;
+
+export const MIN_FORECAST_YEARS = 3;
+export const MAX_FORECAST_YEARS = 5;
+
+export interface LongTermPeriodSummary {
+  label: string;
+  revenue: number;
+  costs: number;
+  profit: number;
+  margin: number;
+  marketShare: number;
+}
+
+/**
+ * Clamp the configured horizon to the supported 3-5 years
+ */
+export function getForecastYears(marketMetrics: MarketMetrics): number {
+  const years = Math.round(marketMetrics.forecastYears || MIN_FORECAST_YEARS);
+  return Math.min(Math.max(years, MIN_FORECAST_YEARS), MAX_FORECAST_YEARS);
+}
+
+const growthOver = (annualRatePercent: number | undefined, months: number): number =>
+  Math.pow(1 + (annualRatePercent || 0) / 100, months / MONTHS_PER_YEAR);
+
+/**
+ * Which forecast month a week falls into (1-based)
+ */
+function getMonthOfWeek(week: number): number {
+  return Math.floor(((week - 1) * MONTHS_PER_YEAR) / WEEKS_PER_YEAR) + 1;
+}
+
+/**
+ * Average monthly revenue and recurring costs over the last few forecast weeks
+ */
+function getMonthlyRunRate(weeklyProjections: WeeklyProjection[]): { revenue: number; costs: number } {
+  const recentWeeks = weeklyProjections.slice(-RUN_RATE_WEEKS);
+  if (recentWeeks.length === 0) {
+    return { revenue: 0, costs: 0 };
+  }
+
+  const revenue = recentWeeks.reduce((sum, week) => sum + week.totalRevenue, 0) / recentWeeks.length;
+  // Setup costs are one-off, so they are left out of the recurring run-rate
+  const costs = recentWeeks.reduce((sum, week) => sum + week.totalCosts - (week.setupCosts || 0), 0) / recentWeeks.length;
+
+  return { revenue: revenue * WEEKS_PER_MONTH, costs: costs * WEEKS_PER_MONTH };
+}
+
+/**
+ * Build the monthly long-term series for a product.
+ * Months fully covered by the weekly forecast use its totals; later months are
+ * extrapolated from the closing run-rate.
+ */
+export function generateLongTermForecast(
+  product: Pick<Product, 'info' | 'weeklyProjections' | 'marketMetrics'>
+): LongTermMonth[] {
+  const marketMetrics = { ...DEFAULT_MARKET_METRICS, ...product.marketMetrics };
+  const weeklyProjections = product.weeklyProjections || [];
+  const totalMonths = getForecastYears(marketMetrics) * MONTHS_PER_YEAR;
+  const coveredMonths = Math.floor((weeklyProjections.length * MONTHS_PER_YEAR) / WEEKS_PER_YEAR);
+  const runRate = getMonthlyRunRate(weeklyProjections);
+  const launchDate = toDate(product.info.launchDate);
+
+  const months: LongTermMonth[] = [];
+  let cumulativeProfit = 0;
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const isExtrapolated = month > coveredMonths;
+    let baseRevenue: number;
+    let baseCosts: number;
+
+    if (isExtrapolated) {
+      const monthsBeyondForecast = month - coveredMonths;
+      baseRevenue = runRate.revenue * growthOver(marketMetrics.yearlyGrowthRate, monthsBeyondForecast);
+      baseCosts = runRate.costs * growthOver(marketMetrics.costScalingRate, monthsBeyondForecast);
+    } else {
+      const weeksInMonth = weeklyProjections.filter(week => getMonthOfWeek(week.week) === month);
+      baseRevenue = weeksInMonth.reduce((sum, week) => sum + week.totalRevenue, 0);
+      baseCosts = weeksInMonth.reduce((sum, week) => sum + week.totalCosts, 0);
+    }
+
+    // The obtainable and addressable markets grow over time, and cap what we can sell
+    const marketGrowth = growthOver(marketMetrics.marketGrowthRate, month - 1);
+    const monthlyObtainable = (marketMetrics.servicableObtainableMarket * marketGrowth) / MONTHS_PER_YEAR;
+    const monthlyAddressable = (marketMetrics.servicableAddressableMarket * marketGrowth) / MONTHS_PER_YEAR;
+    const isCapped = monthlyObtainable > 0 && baseRevenue > monthlyObtainable;
+    const revenue = isCapped ? monthlyObtainable : baseRevenue;
+
+    const costs = baseCosts * growthOver(marketMetrics.inflationRate, month - 1);
+    const profit = revenue - costs;
+    cumulativeProfit += profit;
+
+    let date: string | undefined;
+    if (launchDate) {
+      const calendarMonth = new Date(launchDate.getFullYear(), launchDate.getMonth() + month - 1, 1);
+      date = `${calendarMonth.getFullYear()}-${String(calendarMonth.getMonth() + 1).padStart(2, '0')}`;
+    }
+
+    months.push({
+      month,
+      year: Math.ceil(month / MONTHS_PER_YEAR),
+      date,
+      revenue,
+      uncappedRevenue: baseRevenue,
+      costs,
+      profit,
+      cumulativeProfit,
+      marketShare: monthlyAddressable > 0 ? revenue / monthlyAddressable : 0,
+      isCapped,
+      isExtrapolated
+    });
+  }
+
+  return months;
+}
+
+/**
+ * The product with its saved monthly series rebuilt from the current weekly
+ * forecast, which exports and the PDF read; empty until there is a forecast
+ */
+export function withLongTermForecast<T extends Product>(product: T): T {
+  const longTermProjections = product.weeklyProjections?.length ? generateLongTermForecast(product) : [];
+  return { ...product, longTermProjections };
+}
+
+function summarize(label: string, months: LongTermMonth[]): LongTermPeriodSummary {
+  const revenue = months.reduce((sum, month) => sum + month.revenue, 0);
+  const costs = months.reduce((sum, month) => sum + month.costs, 0);
+  const marketShare = months.length > 0
+    ? months.reduce((sum, month) => sum + month.marketShare, 0) / months.length
+    : 0;
+
+  return {
+    label,
+    revenue,
+    costs,
+    profit: revenue - costs,
+    margin: revenue > 0 ? (revenue - costs) / revenue : 0,
+    marketShare
+  };
+}
+
+/**
+ * Roll the monthly series up into forecast years
+ */
+export function summarizeByYear(months: LongTermMonth[]): LongTermPeriodSummary[] {
+  const years = Array.from(new Set(months.map(month => month.year)));
+  return years.map(year => summarize(`Year ${year}`, months.filter(month => month.year === year)));
+}
+
+/**
+ * Roll the monthly series up into forecast quarters
+ */
+export function summarizeByQuarter(months: LongTermMonth[]): LongTermPeriodSummary[] {
+  const quarterCount = Math.ceil(months.length / 3);
+  return Array.from({ length: quarterCount }, (_, index) => {
+    const year = Math.floor(index / 4) + 1;
+    return summarize(`Y${year} Q${(index % 4) + 1}`, months.slice(index * 3, index * 3 + 3));
+  });
+}
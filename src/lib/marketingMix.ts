@@ -0,0 +1,337 @@
+/**
+ * Marketing Mix
+ * Fits a diminishing-returns response curve to each channel's recorded weekly
+ * spend, then splits a fixed weekly budget across the channels to get the most
+ * revenue or conversions out of it.
+ */
+
+import type { ActualsEntry, MarketingChannelItem } from '../types';
+import { allocateChannelBudgets } from './productSetup';
+
+export const MARKETING_MIX_OBJECTIVES = ['revenue', 'conversions'] as const;
+
+export type MarketingMixObjective = typeof MARKETING_MIX_OBJECTIVES[number];
+
+export const MARKETING_MIX_OBJECTIVE_LABELS: Record<MarketingMixObjective, string> = {
+  revenue: 'Revenue',
+  conversions: 'Conversions'
+};
+
+// One week of a channel's recorded spend and what it brought in
+export interface ChannelObservation {
+  spend: number;
+  outcome: number;
+}
+
+// Weekly response to spend: ceiling × (1 − e^(−spend ÷ scale))
+export interface ResponseCurve {
+  // Most the channel brings in a week, however much is spent on it
+  ceiling: number;
+  // Spend at which the channel reaches about 63% of its ceiling
+  scale: number;
+  observations: number;
+  // Share of the week-to-week variation the curve explains; null with too few weeks to judge
+  rSquared: number | null;
+  // assumed: too few distinct spend levels to see saturation, so the scale is assumed from typical spend
+  quality: 'fitted' | 'assumed';
+}
+
+export interface MarketingMixChannel {
+  id: string;
+  name: string;
+  currentBudget: number;
+  // null when the channel has no recorded spend to fit
+  curve: ResponseCurve | null;
+  min: number;
+  max: number;
+}
+
+export interface MarketingMixAllocation {
+  id: string;
+  name: string;
+  currentBudget: number;
+  budget: number;
+  // Percentage of the total budget
+  allocation: number;
+  currentResponse: number;
+  response: number;
+  // Return on the next unit of spend at the recommended budget
+  marginalResponse: number;
+  // Channels without a curve keep their current budget, within their limits
+  fitted: boolean;
+}
+
+export interface MarketingMixResult {
+  status: 'optimized' | 'infeasible' | 'noData';
+  objective: MarketingMixObjective;
+  totalBudget: number;
+  allocations: MarketingMixAllocation[];
+  currentResponse: number;
+  response: number;
+  // Why the budget couldn't be allocated, when infeasible or noData
+  message?: string;
+}
+
+// The assumed scale puts typical spend at 1 − e^(−0.5) ≈ 39% of the ceiling
+const ASSUMED_SCALE_MULTIPLE = 2;
+const MIN_DISTINCT_SPEND_LEVELS = 3;
+const SCALE_GRID_POINTS = 60;
+const SCALE_GRID_RANGE = 20;
+const REFINE_STEPS = 40;
+const BISECTION_STEPS = 100;
+
+const isUsable = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Weeks in which the channel recorded spend or results, in ledger order
+ */
+export function getChannelObservations(
+  actuals: ActualsEntry[],
+  channelId: string,
+  objective: MarketingMixObjective
+): ChannelObservation[] {
+  const observations: ChannelObservation[] = [];
+  actuals.forEach(entry => {
+    entry.channelPerformance?.forEach(performance => {
+      if (performance.channelId !== channelId) return;
+      const spend = performance.spend ?? 0;
+      const outcome = (objective === 'revenue' ? performance.revenue : performance.conversions) ?? 0;
+      if (isUsable(spend) && isUsable(outcome) && (spend > 0 || outcome > 0)) {
+        observations.push({ spend, outcome });
+      }
+    });
+  });
+  return observations;
+}
+
+/**
+ * Least-squares ceiling for a given scale, with the squared error it leaves
+ */
+function fitCeiling(observations: ChannelObservation[], scale: number): { ceiling: number; error: number } {
+  let weighted = 0;
+  let squared = 0;
+  observations.forEach(({ spend, outcome }) => {
+    const saturation = 1 - Math.exp(-spend / scale);
+    weighted += outcome * saturation;
+    squared += saturation * saturation;
+  });
+  const ceiling = squared > 0 ? Math.max(0, weighted / squared) : 0;
+  const error = observations.reduce((sum, { spend, outcome }) => {
+    const residual = outcome - ceiling * (1 - Math.exp(-spend / scale));
+    return sum + residual * residual;
+  }, 0);
+  return { ceiling, error };
+}
+
+/**
+ * Fit the channel's response curve. Returns null when there is no recorded
+ * spend to fit against.
+ *
+ * With enough distinct spend levels the scale is found by a log-spaced grid
+ * search refined by golden-section search; a scale at the top of the grid
+ * means the data still look linear at the highest spend tried.
+ */
+export function fitResponseCurve(observations: ChannelObservation[]): ResponseCurve | null {
+  const spent = observations.filter(observation => observation.spend > 0);
+  if (spent.length === 0) return null;
+
+  const maxSpend = Math.max(...spent.map(observation => observation.spend));
+  const meanSpend = spent.reduce((sum, observation) => sum + observation.spend, 0) / spent.length;
+  const distinctSpends = new Set(spent.map(observation => Math.round(observation.spend))).size;
+
+  let scale: number;
+  let quality: ResponseCurve['quality'];
+
+  if (distinctSpends < MIN_DISTINCT_SPEND_LEVELS) {
+    scale = meanSpend * ASSUMED_SCALE_MULTIPLE;
+    quality = 'assumed';
+  } else {
+    const lowLog = Math.log(maxSpend / SCALE_GRID_RANGE);
+    const highLog = Math.log(maxSpend * SCALE_GRID_RANGE);
+    const step = (highLog - lowLog) / (SCALE_GRID_POINTS - 1);
+    const errorAt = (logScale: number) => fitCeiling(observations, Math.exp(logScale)).error;
+
+    let bestIndex = 0;
+    let bestError = Infinity;
+    for (let index = 0; index < SCALE_GRID_POINTS; index++) {
+      const error = errorAt(lowLog + index * step);
+      if (error < bestError) {
+        bestError = error;
+        bestIndex = index;
+      }
+    }
+
+    // Narrow down between the best grid point's neighbours
+    let low = lowLog + Math.max(0, bestIndex - 1) * step;
+    let high = lowLog + Math.min(SCALE_GRID_POINTS - 1, bestIndex + 1) * step;
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    for (let iteration = 0; iteration < REFINE_STEPS; iteration++) {
+      const left = high - ratio * (high - low);
+      const right = low + ratio * (high - low);
+      if (errorAt(left) <= errorAt(right)) {
+        high = right;
+      } else {
+        low = left;
+      }
+    }
+    scale = Math.exp((low + high) / 2);
+    quality = 'fitted';
+  }
+
+  const { ceiling, error } = fitCeiling(observations, scale);
+  const meanOutcome = observations.reduce((sum, observation) => sum + observation.outcome, 0) / observations.length;
+  const variation = observations.reduce((sum, { outcome }) => sum + (outcome - meanOutcome) ** 2, 0);
+
+  return {
+    ceiling,
+    scale,
+    observations: observations.length,
+    rSquared: observations.length >= MIN_DISTINCT_SPEND_LEVELS && variation > 0 ? 1 - error / variation : null,
+    quality
+  };
+}
+
+/**
+ * Weekly revenue or conversions the curve expects from a week's spend
+ */
+export function getCurveResponse(curve: ResponseCurve, spend: number): number {
+  return spend > 0 ? curve.ceiling * (1 - Math.exp(-spend / curve.scale)) : 0;
+}
+
+/**
+ * Return on the next unit of spend at the given spend
+ */
+export function getMarginalResponse(curve: ResponseCurve, spend: number): number {
+  return (curve.ceiling / curve.scale) * Math.exp(-Math.max(spend, 0) / curve.scale);
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Spend at which the channel's marginal return falls to `marginal`
+function spendAtMarginal(channel: MarketingMixChannel, marginal: number): number {
+  const curve = channel.curve;
+  if (!curve || curve.ceiling <= 0) return channel.min;
+  const spend = curve.scale * Math.log(curve.ceiling / (curve.scale * marginal));
+  return clamp(spend, channel.min, channel.max);
+}
+
+/**
+ * Split `totalBudget` (per week) across the channels to maximise the summed
+ * response. The curves are concave, so the best split equalises marginal
+ * returns across channels not held at a limit; that marginal return is found
+ * by bisection. Budgets come out in whole currency units.
+ */
+export function optimizeMarketingMix(
+  channels: MarketingMixChannel[],
+  totalBudget: number,
+  objective: MarketingMixObjective
+): MarketingMixResult {
+  const responseOf = (channel: MarketingMixChannel, spend: number) =>
+    channel.curve ? getCurveResponse(channel.curve, spend) : 0;
+  const currentResponse = channels.reduce((sum, channel) => sum + responseOf(channel, channel.currentBudget), 0);
+  const fail = (status: 'infeasible' | 'noData', message: string): MarketingMixResult => ({
+    status, objective, totalBudget, allocations: [], currentResponse, response: currentResponse, message
+  });
+
+  const badLimits = channels.find(channel => !isUsable(channel.min) || !isUsable(channel.max) || channel.min > channel.max);
+  if (badLimits) {
+    return fail('infeasible', `${badLimits.name} needs a minimum no higher than its maximum.`);
+  }
+
+  const fitted = channels.filter(channel => channel.curve);
+  if (fitted.length === 0) {
+    return fail('noData', 'Record spend per channel in the Actuals Tracker to fit response curves.');
+  }
+
+  // Channels without a curve keep their current budget, so only the rest is optimised
+  const held = new Map(channels
+    .filter(channel => !channel.curve)
+    .map(channel => [channel.id, clamp(channel.currentBudget, channel.min, channel.max)]));
+  const remaining = totalBudget - Array.from(held.values()).reduce((sum, budget) => sum + budget, 0);
+  const minimum = fitted.reduce((sum, channel) => sum + channel.min, 0);
+  const maximum = fitted.reduce((sum, channel) => sum + channel.max, 0);
+
+  if (!isUsable(totalBudget) || remaining < minimum - 0.5) {
+    return fail('infeasible', 'The budget is less than the channel minimums add up to.');
+  }
+  if (remaining > maximum + 0.5) {
+    return fail('infeasible', 'The budget is more than the channel maximums add up to.');
+  }
+
+  const spendAt = (marginal: number) => fitted.reduce((sum, channel) => sum + spendAtMarginal(channel, marginal), 0);
+  let low = 0;
+  let high = Math.max(...fitted.map(channel => channel.curve!.ceiling / channel.curve!.scale), 0);
+  for (let step = 0; step < BISECTION_STEPS && high > 0; step++) {
+    const mid = (low + high) / 2;
+    if (spendAt(mid) > remaining) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const spends = new Map(fitted.map(channel => [channel.id, high > 0 ? spendAtMarginal(channel, high) : channel.min]));
+
+  // Channels that return nothing sit at their minimum, so any budget the others
+  // can't absorb is spread over their headroom
+  let shortfall = remaining - Array.from(spends.values()).reduce((sum, spend) => sum + spend, 0);
+  const headroom = fitted.reduce((sum, channel) => sum + (channel.max - spends.get(channel.id)!), 0);
+  if (shortfall > 0 && headroom > 0) {
+    fitted.forEach(channel => {
+      const spend = spends.get(channel.id)!;
+      spends.set(channel.id, spend + (shortfall * (channel.max - spend)) / headroom);
+    });
+  }
+
+  // Round to whole units, then spread the rounding difference over the fitted
+  // budgets, biggest first, only as far as each channel's limits allow
+  const budgets = new Map(channels.map(channel => [
+    channel.id,
+    clamp(Math.round(held.get(channel.id) ?? spends.get(channel.id)!), channel.min, channel.max)
+  ]));
+  shortfall = Math.round(totalBudget) - Array.from(budgets.values()).reduce((sum, budget) => sum + budget, 0);
+  [...fitted]
+    .sort((a, b) => budgets.get(b.id)! - budgets.get(a.id)!)
+    .forEach(channel => {
+      if (shortfall === 0) return;
+      const budget = budgets.get(channel.id)!;
+      const adjusted = clamp(budget + shortfall, channel.min, channel.max);
+      budgets.set(channel.id, adjusted);
+      shortfall -= adjusted - budget;
+    });
+
+  const allocations = channels.map(channel => {
+    const budget = budgets.get(channel.id)!;
+    return {
+      id: channel.id,
+      name: channel.name,
+      currentBudget: channel.currentBudget,
+      budget,
+      allocation: totalBudget > 0 ? (budget / totalBudget) * 100 : 0,
+      currentResponse: responseOf(channel, channel.currentBudget),
+      response: responseOf(channel, budget),
+      marginalResponse: channel.curve ? getMarginalResponse(channel.curve, budget) : 0,
+      fitted: !!channel.curve
+    };
+  });
+
+  return {
+    status: 'optimized',
+    objective,
+    totalBudget,
+    allocations,
+    currentResponse,
+    response: allocations.reduce((sum, allocation) => sum + allocation.response, 0)
+  };
+}
+
+/**
+ * The product's marketing channels with the recommended weekly budgets and
+ * their shares of the total filled in. Channels not in the result are left as they are.
+ */
+export function applyMarketingMix(channels: MarketingChannelItem[], result: MarketingMixResult): MarketingChannelItem[] {
+  const budgets = new Map(result.allocations.map(allocation => [allocation.id, allocation.budget]));
+  return allocateChannelBudgets(channels.map(channel => (
+    budgets.has(channel.id) ? { ...channel, budget: budgets.get(channel.id) } : channel
+  )));
+}
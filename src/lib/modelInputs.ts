@@ -0,0 +1,198 @@
+/**
+ * Model Inputs
+ * Registry of the numeric forecast inputs in GrowthMetrics, RevenueMetrics and
+ * CostMetrics, with accessors so analyses can read and vary them one at a time.
+ */
+
+import type {
+  ProductInfo,
+  GrowthMetrics,
+  RevenueMetrics,
+  CostMetrics,
+  MarketingCosts
+} from '../types';
+import { DEFAULT_GROWTH_METRICS, DEFAULT_REVENUE_METRICS, DEFAULT_COST_METRICS } from '../types';
+import type { SeasonalityInputs } from './seasonality';
+
+export interface ModelInputs {
+  productInfo: ProductInfo;
+  growthMetrics: GrowthMetrics;
+  revenueMetrics: RevenueMetrics;
+  costMetrics: CostMetrics;
+  seasonality?: SeasonalityInputs;
+}
+
+export type ModelInputGroup = 'growth' | 'revenue' | 'cost';
+
+export interface ModelInput {
+  key: string;
+  label: string;
+  group: ModelInputGroup;
+  max?: number; // Upper bound for fractional rates
+  get: (inputs: ModelInputs) => number;
+  apply: (inputs: ModelInputs, value: number) => ModelInputs;
+}
+
+type NumericKeys<T> = { [K in keyof T]-?: T[K] extends number | undefined ? K : never }[keyof T] & string;
+
+const growthInput = (key: NumericKeys<GrowthMetrics>, label: string, max?: number): ModelInput => ({
+  key,
+  label,
+  group: 'growth',
+  max,
+  get: inputs => inputs.growthMetrics[key] || 0,
+  apply: (inputs, value) => ({ ...inputs, growthMetrics: { ...inputs.growthMetrics, [key]: value } })
+});
+
+const revenueInput = (key: NumericKeys<RevenueMetrics>, label: string, max?: number): ModelInput => ({
+  key,
+  label,
+  group: 'revenue',
+  max,
+  get: inputs => inputs.revenueMetrics[key] || 0,
+  apply: (inputs, value) => ({ ...inputs, revenueMetrics: { ...inputs.revenueMetrics, [key]: value } })
+});
+
+const costInput = (key: NumericKeys<CostMetrics>, label: string): ModelInput => ({
+  key,
+  label,
+  group: 'cost',
+  get: inputs => inputs.costMetrics[key] || 0,
+  apply: (inputs, value) => ({ ...inputs, costMetrics: { ...inputs.costMetrics, [key]: value } })
+});
+
+const marketingInput = (key: NumericKeys<MarketingCosts>, label: string): ModelInput => ({
+  key: `marketing.${key}`,
+  label,
+  group: 'cost',
+  get: inputs => inputs.costMetrics.marketing?.[key] || 0,
+  apply: (inputs, value) => ({
+    ...inputs,
+    costMetrics: { ...inputs.costMetrics, marketing: { ...inputs.costMetrics.marketing, [key]: value } }
+  })
+});
+
+/**
+ * Line-item lists are varied as a whole: the input is their total and a new
+ * total scales every item by the same ratio.
+ */
+function listInput<T>(
+  key: string,
+  label: string,
+  getItems: (costMetrics: CostMetrics) => T[] | undefined,
+  getAmount: (item: T) => number,
+  scaleItem: (item: T, ratio: number) => T,
+  setItems: (costMetrics: CostMetrics, items: T[]) => CostMetrics
+): ModelInput {
+  const total = (costMetrics: CostMetrics) =>
+    (getItems(costMetrics) || []).reduce((sum, item) => sum + getAmount(item), 0);
+
+  return {
+    key,
+    label,
+    group: 'cost',
+    get: inputs => total(inputs.costMetrics),
+    apply: (inputs, value) => {
+      const current = total(inputs.costMetrics);
+      if (current === 0) return inputs;
+
+      const ratio = value / current;
+      const items = (getItems(inputs.costMetrics) || []).map(item => scaleItem(item, ratio));
+      return { ...inputs, costMetrics: setItems(inputs.costMetrics, items) };
+    }
+  };
+}
+
+/**
+ * Every numeric forecast input. Rates are fractions (0.1 = 10%) and the growth
+ * rate is a weekly percentage, matching how the metrics are stored.
+ */
+export const MODEL_INPUTS: ModelInput[] = [
+  growthInput('weeklyVisitors', 'Weekly Visitors'),
+  growthInput('visitorsPerEvent', 'Visitors per Event'),
+  growthInput('totalVisitors', 'Total Visitors'),
+  growthInput('weeklyGrowthRate', 'Weekly Growth Rate (%)'),
+  growthInput('peakDayAttendance', 'Peak Day Attendance'),
+  growthInput('lowDayAttendance', 'Low Day Attendance'),
+  growthInput('returnVisitRate', 'Return Visit Rate', 1),
+  growthInput('wordOfMouthRate', 'Word of Mouth Rate', 1),
+  growthInput('socialMediaConversion', 'Social Media Conversion', 1),
+  revenueInput('ticketPrice', 'Ticket Price'),
+  revenueInput('ticketSalesRate', 'Ticket Sales Rate', 1),
+  revenueInput('fbSpend', 'F&B Spend per Customer'),
+  revenueInput('fbConversionRate', 'F&B Conversion Rate', 1),
+  revenueInput('merchandiseSpend', 'Merchandise Spend'),
+  revenueInput('merchandiseConversionRate', 'Merchandise Conversion Rate', 1),
+  revenueInput('digitalPrice', 'Digital Product Price'),
+  revenueInput('digitalConversionRate', 'Digital Conversion Rate', 1),
+  marketingInput('weeklyBudget', 'Weekly Marketing Budget'),
+  marketingInput('campaignBudget', 'Campaign Marketing Budget'),
+  marketingInput('campaignDurationWeeks', 'Campaign Duration (weeks)'),
+  marketingInput('budget', 'Marketing Budget'),
+  listInput(
+    'marketing.channels',
+    'Marketing Channel Budgets',
+    costMetrics => costMetrics.marketing?.channels,
+    channel => channel.budget || 0,
+    (channel, ratio) => ({ ...channel, budget: (channel.budget || 0) * ratio }),
+    (costMetrics, channels) => ({ ...costMetrics, marketing: { ...costMetrics.marketing, channels } })
+  ),
+  costInput('staffingCostPerPerson', 'Staffing Cost per Person'),
+  costInput('additionalStaffingPerEvent', 'Additional Staff per Event'),
+  costInput('weeklyStaffCost', 'Weekly Staff Cost'),
+  listInput(
+    'staffRoles',
+    'Staff Role Costs',
+    costMetrics => costMetrics.staffRoles,
+    role => (role.count || 0) * (role.costPerPerson || 0),
+    (role, ratio) => ({ ...role, costPerPerson: (role.costPerPerson || 0) * ratio }),
+    (costMetrics, staffRoles) => ({ ...costMetrics, staffRoles })
+  ),
+  listInput(
+    'eventCosts',
+    'Event Costs',
+    costMetrics => costMetrics.eventCosts,
+    cost => cost.amount || 0,
+    (cost, ratio) => ({ ...cost, amount: (cost.amount || 0) * ratio }),
+    (costMetrics, eventCosts) => ({ ...costMetrics, eventCosts })
+  ),
+  listInput(
+    'setupCosts',
+    'Setup Costs',
+    costMetrics => costMetrics.setupCosts,
+    cost => cost.amount || 0,
+    (cost, ratio) => ({ ...cost, amount: (cost.amount || 0) * ratio }),
+    (costMetrics, setupCosts) => ({ ...costMetrics, setupCosts })
+  ),
+  costInput('fbCogPercentage', 'F&B COGS (%)'),
+  costInput('merchandiseCogPerUnit', 'Merchandise Cost per Unit')
+];
+
+/**
+ * Find an input by key or (for older free-text entries) by label
+ */
+export function findModelInput(name: string): ModelInput | undefined {
+  const normalized = name.trim().toLowerCase();
+  return MODEL_INPUTS.find(
+    input => input.key.toLowerCase() === normalized || input.label.toLowerCase() === normalized
+  );
+}
+
+/**
+ * Fill in missing metric groups so every input has a value to read and override
+ */
+export function toModelInputs(
+  productInfo: ProductInfo,
+  growthMetrics: GrowthMetrics | null,
+  revenueMetrics: RevenueMetrics | null,
+  costMetrics: CostMetrics | null,
+  seasonality?: SeasonalityInputs
+): ModelInputs {
+  return {
+    productInfo,
+    growthMetrics: growthMetrics || DEFAULT_GROWTH_METRICS,
+    revenueMetrics: revenueMetrics || DEFAULT_REVENUE_METRICS,
+    costMetrics: costMetrics || DEFAULT_COST_METRICS,
+    seasonality
+  };
+}
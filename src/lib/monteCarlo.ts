@@ -0,0 +1,264 @@
+/**
+ * Monte Carlo Simulation
+ * Samples each scenario's sensitivity ranges, on top of its overrides, through
+ * the projection engine and summarises the spread of revenue, profit and
+ * break-even outcomes.
+ */
+
+import type { Scenario, VariableSensitivity } from '../types';
+import { runProjection, getBreakEvenWeek } from './projectionEngine';
+import { findModelInput } from './modelInputs';
+import type { ModelInputs } from './modelInputs';
+import { applyScenario } from './scenarioEngine';
+
+export const DEFAULT_ITERATIONS = 2000;
+export const MAX_ITERATIONS = 20000;
+export const HISTOGRAM_BINS = 20;
+
+// Low/high values on a normal distribution are read as its P10/P90
+const Z_90 = 1.2816;
+
+export interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+}
+
+export interface PercentileSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface BreakEvenSummary {
+  // null when fewer runs than the percentile break even within the forecast
+  p10: number | null;
+  p50: number | null;
+  p90: number | null;
+  probability: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface FanChartPoint {
+  week: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  revenue: PercentileSummary;
+  profit: PercentileSummary;
+  breakEvenWeek: BreakEvenSummary;
+  profitHistogram: HistogramBin[];
+  cumulativeProfitFan: FanChartPoint[];
+  unmappedVariables: string[];
+}
+
+/**
+ * Small seeded generator (mulberry32) so a run can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleTriangular(random: () => number, low: number, mode: number, high: number): number {
+  if (high <= low) return mode;
+
+  const u = random();
+  const split = (mode - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+}
+
+function sampleNormal(random: () => number, mean: number, sd: number): number {
+  // Box-Muller; 1 - random() keeps the log argument above zero
+  const u1 = 1 - random();
+  const u2 = random();
+  return mean + sd * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Draw one value for a sensitivity. Triangular draws use low/base/high as
+ * min/mode/max; normal draws are centred on base with low/high as P10/P90.
+ */
+export function sampleSensitivity(sensitivity: VariableSensitivity, random: () => number): number {
+  const low = Math.min(sensitivity.lowValue, sensitivity.highValue);
+  const high = Math.max(sensitivity.lowValue, sensitivity.highValue);
+  const base = Math.min(Math.max(sensitivity.baseValue, low), high);
+
+  if (sensitivity.distribution === 'normal') {
+    const sd = (high - low) / (2 * Z_90);
+    return Math.max(0, sampleNormal(random, base, sd));
+  }
+
+  return sampleTriangular(random, low, base, high);
+}
+
+/**
+ * Linear-interpolated percentile of an ascending array
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function summarizeValues(values: number[]): PercentileSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0
+  };
+}
+
+function summarizeBreakEven(weeks: (number | null)[]): BreakEvenSummary {
+  // Runs that never break even sort last, so upper percentiles can be "never"
+  const sorted = weeks.map(week => week ?? Infinity).sort((a, b) => a - b);
+  const atPercentile = (p: number) => {
+    const value = sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * p) - 1)];
+    return value === undefined || !isFinite(value) ? null : value;
+  };
+
+  return {
+    p10: atPercentile(0.1),
+    p50: atPercentile(0.5),
+    p90: atPercentile(0.9),
+    probability: weeks.length > 0 ? weeks.filter(week => week !== null).length / weeks.length : 0
+  };
+}
+
+function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return [];
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) {
+    return [{ start: min, end: max, count: values.length }];
+  }
+
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0
+  }));
+  values.forEach(value => {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count++;
+  });
+
+  return histogram;
+}
+
+/**
+ * Pick a scenario at random, weighted by its probability of occurrence.
+ * If no probabilities are set every scenario is equally likely.
+ */
+function pickScenario(scenarios: Scenario[], random: () => number): Scenario {
+  const weights = scenarios.map(scenario => Math.max(0, scenario.probabilityOfOccurrence || 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) {
+    return scenarios[Math.floor(random() * scenarios.length)];
+  }
+
+  let target = random() * total;
+  for (let index = 0; index < scenarios.length; index++) {
+    target -= weights[index];
+    if (target < 0) return scenarios[index];
+  }
+  return scenarios[scenarios.length - 1];
+}
+
+/**
+ * Run the simulation. Each iteration picks a scenario by probability, applies
+ * its overrides, samples its sensitivities and runs the full weekly projection.
+ * Without scenarios the base product inputs are used, which gives a single
+ * deterministic outcome.
+ * onProgress is called after every chunk of iterations with the count done so far.
+ */
+export function runMonteCarlo(
+  inputs: ModelInputs,
+  scenarios: Scenario[],
+  options: SimulationOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): SimulationResult {
+  const iterations = Math.min(Math.max(1, Math.round(options.iterations || DEFAULT_ITERATIONS)), MAX_ITERATIONS);
+  const random = createRandom(options.seed ?? Date.now());
+  const progressChunk = Math.max(1, Math.floor(iterations / 20));
+
+  const unmappedVariables = new Set<string>();
+  scenarios.forEach(scenario => {
+    (scenario.sensitivities || []).forEach(sensitivity => {
+      if (!findModelInput(sensitivity.variable)) {
+        unmappedVariables.add(sensitivity.variable);
+      }
+    });
+  });
+
+  const revenues: number[] = [];
+  const profits: number[] = [];
+  const breakEvenWeeks: (number | null)[] = [];
+  const cumulativeByWeek: number[][] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let sampled = inputs;
+    if (scenarios.length > 0) {
+      const scenario = pickScenario(scenarios, random);
+      sampled = applyScenario(sampled, scenario);
+      (scenario.sensitivities || []).forEach(sensitivity => {
+        const input = findModelInput(sensitivity.variable);
+        if (input) {
+          const value = sampleSensitivity(sensitivity, random);
+          sampled = input.apply(sampled, input.max !== undefined ? Math.min(value, input.max) : value);
+        }
+      });
+    }
+
+    const { projections } = runProjection(sampled);
+    let revenue = 0;
+    projections.forEach((projection, index) => {
+      revenue += projection.totalRevenue;
+      (cumulativeByWeek[index] ||= []).push(projection.cumulativeProfit);
+    });
+
+    revenues.push(revenue);
+    profits.push(projections.length > 0 ? projections[projections.length - 1].cumulativeProfit : 0);
+    breakEvenWeeks.push(getBreakEvenWeek(projections));
+
+    if (onProgress && ((iteration + 1) % progressChunk === 0 || iteration + 1 === iterations)) {
+      onProgress(iteration + 1, iterations);
+    }
+  }
+
+  return {
+    iterations,
+    revenue: summarizeValues(revenues),
+    profit: summarizeValues(profits),
+    breakEvenWeek: summarizeBreakEven(breakEvenWeeks),
+    profitHistogram: buildHistogram(profits, HISTOGRAM_BINS),
+    cumulativeProfitFan: cumulativeByWeek.map((values, index) => {
+      const { p10, p50, p90 } = summarizeValues(values);
+      return { week: index + 1, p10, p50, p90 };
+    }),
+    unmappedVariables: Array.from(unmappedVariables)
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Monte Carlo Worker
+ * Runs the simulation off the main thread and reports progress as it goes.
+ */
+
+import type { Scenario } from '../types';
+import { runMonteCarlo } from './monteCarlo';
+import type { SimulationOptions, SimulationResult } from './monteCarlo';
+import type { ModelInputs } from './modelInputs';
+
+export interface MonteCarloRequest {
+  inputs: ModelInputs;
+  scenarios: Scenario[];
+  options: SimulationOptions;
+}
+
+export type MonteCarloResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: SimulationResult }
+  | { type: 'error'; message: string };
+
+const respond = (message: MonteCarloResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, scenarios, options } = event.data;
+
+  try {
+    const result = runMonteCarlo(inputs, scenarios, options, (completed, total) => {
+      respond({ type: 'progress', completed, total });
+    });
+    respond({ type: 'result', result });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,322 @@
+/**
+ * Product Bundle
+ * A versioned file holding everything about one or more products: their info,
+ * metrics, scenarios, risks, seasonality, actuals and snapshots, with the
+ * marketing KPIs tracked against them and the marketing API connections. Teams
+ * share models with bundles and keep backups outside the app's storage. On
+ * import a bundle is validated, products saved with an older schema are
+ * upgraded, and each product is either added as a copy with new ids or merged
+ * into the product it was exported from.
+ */
+
+import { DEFAULT_COST_METRICS, DEFAULT_GROWTH_METRICS, DEFAULT_REVENUE_METRICS, PRODUCT_TYPES } from '../types';
+import type { MarketingKPI, Product, ProductInfo } from '../types';
+import { BundleValidationError } from './errorHandling';
+import { CURRENT_SCHEMA_VERSION, migrateProducts } from './schemaMigrations';
+import { generateWeeklyProjections } from './calculations';
+import { withLongTermForecast } from './longTermForecast';
+import { migrateProductScenarios } from './scenarioEngine';
+import type { LegacyScenarioModel } from './scenarioEngine';
+import { configureMarketingApi, getApiConfig, saveApiConfigurations } from './marketingApi';
+import type { ApiConfig, MarketingPlatform } from './marketingApi';
+
+export const PRODUCT_BUNDLE_FORMAT = 'fortress-product-bundle';
+export const PRODUCT_BUNDLE_VERSION = 1;
+
+// API keys are never written to a bundle; whoever imports it enters their own
+export type BundledApiConfig = Omit<ApiConfig, 'apiKey'>;
+
+export interface ProductBundleEntry {
+  product: Product;
+  marketingKpis: MarketingKPI[];
+  scenarioModels?: LegacyScenarioModel[]; // Scenarios older versions kept apart from the product
+}
+
+export interface ProductBundle {
+  format: typeof PRODUCT_BUNDLE_FORMAT;
+  version: number; // Bundle format version
+  schemaVersion: number; // Product schema the products were saved with; see lib/schemaMigrations
+  exportedAt: string;
+  products: ProductBundleEntry[];
+  apiConfigs: Partial<Record<MarketingPlatform, BundledApiConfig>>;
+}
+
+export const BUNDLE_IMPORT_MODES = ['copy', 'merge'] as const;
+
+export type BundleImportMode = typeof BUNDLE_IMPORT_MODES[number];
+
+export const BUNDLE_IMPORT_MODE_LABELS: Record<BundleImportMode, string> = {
+  copy: 'Import as copy',
+  merge: 'Merge into existing'
+};
+
+// Lists a product may carry; older schemas leave some out, which migration fills in
+const PRODUCT_LISTS = [
+  'weeklyProjections',
+  'actuals',
+  'risks',
+  'seasonalAnalysis',
+  'seasonalAdjustments',
+  'longTermProjections',
+  'scenarios',
+  'baselineHistory',
+  'forecastSnapshots'
+] as const;
+
+// Metric groups and the defaults whose numeric fields they must keep numeric
+const METRIC_GROUPS = [
+  ['growthMetrics', DEFAULT_GROWTH_METRICS],
+  ['revenueMetrics', DEFAULT_REVENUE_METRICS],
+  ['costMetrics', DEFAULT_COST_METRICS]
+] as const;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const newId = () => crypto.randomUUID();
+
+/**
+ * A bundle of the products, with their marketing KPIs and the API connections
+ * less their keys
+ */
+export function createProductBundle(
+  entries: { product: Product; marketingKpis: MarketingKPI[] }[],
+  apiConfigs: Partial<Record<MarketingPlatform, ApiConfig | null>>
+): ProductBundle {
+  const bundledConfigs: Partial<Record<MarketingPlatform, BundledApiConfig>> = {};
+  (Object.keys(apiConfigs) as MarketingPlatform[]).forEach(platform => {
+    const config = apiConfigs[platform];
+    if (config) {
+      bundledConfigs[platform] = { platformName: config.platformName, endpoint: config.endpoint, isActive: config.isActive };
+    }
+  });
+
+  return {
+    format: PRODUCT_BUNDLE_FORMAT,
+    version: PRODUCT_BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    products: entries.map(({ product, marketingKpis }) => ({ product, marketingKpis })),
+    apiConfigs: bundledConfigs
+  };
+}
+
+/**
+ * What's wrong with a bundle read from a file, as messages naming the product
+ * and field; empty when it can be imported
+ */
+export function validateProductBundle(data: unknown): string[] {
+  if (!isObject(data) || data.format !== PRODUCT_BUNDLE_FORMAT) {
+    return ['This file is not a product bundle.'];
+  }
+  if (typeof data.version !== 'number' || data.version > PRODUCT_BUNDLE_VERSION) {
+    return [`This bundle was made by a newer version of the app (bundle format ${String(data.version)}).`];
+  }
+  if (!Array.isArray(data.products) || data.products.length === 0) {
+    return ['The bundle has no products.'];
+  }
+
+  const issues: string[] = [];
+  if (data.apiConfigs !== undefined && !isObject(data.apiConfigs)) {
+    issues.push('apiConfigs should be an object.');
+  }
+
+  data.products.forEach((entry: unknown, index) => {
+    const product = isObject(entry) ? entry.product : undefined;
+    if (!isObject(product) || !isObject(product.info)) {
+      issues.push(`Product ${index + 1} has no product info.`);
+      return;
+    }
+
+    const { info } = product;
+    const label = typeof info.name === 'string' && info.name.trim() ? `"${info.name}"` : `Product ${index + 1}`;
+    if (typeof info.id !== 'string' || !info.id) issues.push(`${label} has no id.`);
+    if (typeof info.name !== 'string' || !info.name.trim()) issues.push(`${label} has no name.`);
+    if (!PRODUCT_TYPES.includes(info.type as ProductInfo['type'])) {
+      issues.push(`${label} has an unknown product type "${String(info.type)}".`);
+    }
+    if (typeof product.schemaVersion === 'number' && product.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      issues.push(`${label} was saved by a newer version of the app (schema ${product.schemaVersion}).`);
+    }
+
+    PRODUCT_LISTS.forEach(list => {
+      if (product[list] !== undefined && !Array.isArray(product[list])) issues.push(`${label}: ${list} should be a list.`);
+    });
+
+    METRIC_GROUPS.forEach(([group, defaults]) => {
+      const metrics = product[group];
+      if (metrics === null || metrics === undefined) return;
+      if (!isObject(metrics)) {
+        issues.push(`${label}: ${group} should be an object.`);
+        return;
+      }
+      Object.entries(defaults).forEach(([field, defaultValue]) => {
+        const value = metrics[field];
+        if (typeof defaultValue === 'number' && value !== undefined && value !== null && typeof value !== 'number') {
+          issues.push(`${label}: ${group}.${field} should be a number.`);
+        }
+      });
+    });
+
+    if (isObject(entry) && entry.marketingKpis !== undefined && !Array.isArray(entry.marketingKpis)) {
+      issues.push(`${label}: marketingKpis should be a list.`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Read a bundle from the text of a file, upgrading its products to the current
+ * schema. Throws a BundleValidationError listing what's wrong when it can't be imported.
+ */
+export function parseProductBundle(text: string): ProductBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    console.error('Error reading product bundle:', error);
+    throw new BundleValidationError('The bundle could not be read', ['This file is not valid JSON.']);
+  }
+
+  const issues = validateProductBundle(data);
+  if (issues.length > 0) {
+    throw new BundleValidationError('The bundle could not be imported', issues);
+  }
+
+  const bundle = data as ProductBundle;
+  const entries = bundle.products.map(entry => ({
+    ...entry,
+    product: { ...entry.product, id: entry.product.id || entry.product.info.id },
+    marketingKpis: entry.marketingKpis || []
+  }));
+  const products = migrateProducts(entries.map(entry => entry.product), 'bundle import');
+
+  return {
+    ...bundle,
+    apiConfigs: bundle.apiConfigs || {},
+    products: entries.map((entry, index) => ({
+      product: migrateProductScenarios(products[index], entry.scenarioModels || []),
+      marketingKpis: entry.marketingKpis
+    }))
+  };
+}
+
+/**
+ * The entry with new ids throughout, so it can sit alongside the product it
+ * was exported from. Links between scenarios, and from promotions to the
+ * scenarios promoted, follow the new ids.
+ */
+export function copyBundleEntry(entry: ProductBundleEntry, takenNames: string[] = []): ProductBundleEntry {
+  const { product } = entry;
+  const productId = newId();
+  const scenarioIds = new Map((product.scenarios || []).map(scenario => [scenario.id, newId()]));
+  const remapScenario = (id: string) => scenarioIds.get(id) ?? id;
+
+  let name = product.info.name;
+  if (takenNames.includes(name)) {
+    name = `${product.info.name} (copy)`;
+    for (let n = 2; takenNames.includes(name); n++) name = `${product.info.name} (copy ${n})`;
+  }
+
+  return {
+    product: {
+      ...product,
+      id: productId,
+      info: { ...product.info, id: productId, name },
+      weeklyProjections: (product.weeklyProjections || []).map(week => ({ ...week, id: undefined, productId })),
+      actuals: (product.actuals || []).map(actual => ({ ...actual, id: newId() })),
+      risks: (product.risks || []).map(risk => ({ ...risk, id: newId() })),
+      seasonalAnalysis: product.seasonalAnalysis?.map(quarter => ({ ...quarter, id: undefined, productId })),
+      seasonalAdjustments: product.seasonalAdjustments?.map(adjustment => ({ ...adjustment, id: newId() })),
+      scenarios: product.scenarios?.map(scenario => ({
+        ...scenario,
+        id: remapScenario(scenario.id),
+        productId,
+        parentId: scenario.parentId && remapScenario(scenario.parentId)
+      })),
+      baselineHistory: product.baselineHistory?.map(promotion => ({
+        ...promotion,
+        scenarioId: remapScenario(promotion.scenarioId)
+      })),
+      forecastSnapshots: product.forecastSnapshots?.map(snapshot => ({
+        ...snapshot,
+        id: newId(),
+        inputs: { ...snapshot.inputs, info: { ...snapshot.inputs.info, id: productId, name } }
+      })),
+      version: undefined,
+      schemaVersion: CURRENT_SCHEMA_VERSION
+    },
+    marketingKpis: entry.marketingKpis.map(kpi => ({ ...kpi, id: newId(), productId }))
+  };
+}
+
+// Items from the import replace those with the same key, and new ones are added after the rest
+function mergeItems<T>(existing: T[] | undefined, imported: T[] | undefined, key: (item: T) => unknown): T[] | undefined {
+  if (!imported) return existing;
+  if (!existing) return imported;
+
+  const importedKeys = new Map(imported.map(item => [key(item), item]));
+  const existingKeys = new Set(existing.map(key));
+  return [
+    ...existing.map(item => importedKeys.get(key(item)) ?? item),
+    ...imported.filter(item => !existingKeys.has(key(item)))
+  ];
+}
+
+/**
+ * The existing product updated from the entry: its info and inputs are taken
+ * from the bundle, and list items are matched by id, so anything recorded only
+ * in the app is kept. The projections follow the bundle's inputs.
+ */
+export function mergeBundleEntry(existing: Product, entry: ProductBundleEntry): Product {
+  const { product } = entry;
+  const byId = (item: { id?: string }) => item.id;
+
+  const merged: Product = {
+    ...existing,
+    info: { ...existing.info, ...product.info, id: existing.info.id },
+    growthMetrics: product.growthMetrics ?? existing.growthMetrics,
+    revenueMetrics: product.revenueMetrics ?? existing.revenueMetrics,
+    costMetrics: product.costMetrics ?? existing.costMetrics,
+    customerMetrics: product.customerMetrics ?? existing.customerMetrics,
+    marketMetrics: product.marketMetrics ?? existing.marketMetrics,
+    actuals: mergeItems(existing.actuals, product.actuals, byId) || [],
+    risks: mergeItems(existing.risks, product.risks, byId) || [],
+    seasonalAnalysis: mergeItems(existing.seasonalAnalysis, product.seasonalAnalysis, quarter => quarter.quarter),
+    seasonalAdjustments: mergeItems(existing.seasonalAdjustments, product.seasonalAdjustments, byId),
+    scenarios: mergeItems(existing.scenarios, product.scenarios, byId)?.map(scenario => ({
+      ...scenario,
+      productId: existing.info.id
+    })),
+    baselineHistory: product.baselineHistory ?? existing.baselineHistory,
+    forecastSnapshots: mergeItems(existing.forecastSnapshots, product.forecastSnapshots, byId),
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+
+  // Worked out from the merged inputs, as the bundle may leave the lists out
+  return withLongTermForecast({
+    ...merged,
+    weeklyProjections: generateWeeklyProjections(
+      merged.info, merged.growthMetrics, merged.revenueMetrics, merged.costMetrics, merged
+    )
+  });
+}
+
+/**
+ * Set up the bundle's API connections for platforms not connected here yet,
+ * switched off until someone enters a key. Returns the platforms added.
+ */
+export function importBundledApiConfigs(apiConfigs: ProductBundle['apiConfigs']): MarketingPlatform[] {
+  const added = (Object.keys(apiConfigs) as MarketingPlatform[]).filter(platform => {
+    const config = apiConfigs[platform];
+    if (!config || getApiConfig(platform)) return false;
+    configureMarketingApi(platform, { ...config, apiKey: '', isActive: false });
+    return true;
+  });
+
+  if (added.length > 0) saveApiConfigurations();
+  return added;
+}
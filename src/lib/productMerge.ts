@@ -0,0 +1,270 @@
+/**
+ * Product Merge
+ * Three-way merge of concurrent edits to a product. Sub-objects are merged
+ * field by field and lists item by item, so two planners editing different
+ * fields, staff roles, channels or risks both keep their changes; only a field
+ * both of them changed to different values is reported as a conflict.
+ */
+
+import type { Product } from '../types';
+import { deepEqual } from './utils';
+import { generateWeeklyProjections } from './calculations';
+import { withLongTermForecast } from './longTermForecast';
+
+// Which side's value to keep for a colliding field
+export type MergeSide = 'local' | 'remote';
+
+export interface MergeConflict {
+  path: string; // e.g. 'costMetrics.staffRoles[id=abc].count'
+  label: string; // e.g. 'Cost Metrics › Staff Roles › Bar Staff › Count'
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+// A save held back because it collides with changes saved by someone else
+export interface ProductMergeConflict {
+  productId: string;
+  base: Product; // The copy both edits started from
+  local: Product;
+  remote: Product;
+  conflicts: MergeConflict[];
+  detectedAt: Date;
+}
+
+export interface MergeResult {
+  merged: Product;
+  conflicts: MergeConflict[];
+}
+
+// Worked out from the inputs, so the local copy is kept and recalculated rather than merged
+const DERIVED_FIELDS = ['weeklyProjections', 'longTermProjections'];
+
+// Bookkeeping set on every save, which would otherwise collide on every concurrent edit
+const IGNORED_FIELDS = ['version', 'schemaVersion', 'updatedAt', '_updatedAt'];
+
+// Fields that identify a list item across copies, in order of preference
+const ITEM_KEYS = ['id', 'channelId', 'quarter', 'week'];
+
+// Fields used to name a list item in conflict labels
+const ITEM_NAME_FIELDS = ['name', 'role', 'title', 'category'];
+
+type Fields = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !isDateLike(value);
+
+const isDateLike = (value: unknown): boolean =>
+  value instanceof Date || (typeof value === 'object' && value !== null && typeof (value as Fields).toDate === 'function');
+
+// A Firestore Timestamp that has been through JSON, as in copies kept in the browser
+const isSerializedTimestamp = (value: unknown): value is { seconds: number; nanoseconds: number } =>
+  isPlainObject(value) && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number' &&
+  Object.keys(value).length === 2;
+
+/**
+ * Dates arrive as Dates, ISO strings or (serialized) Firestore Timestamps depending on
+ * where the copy came from; compare them by time so the same date matches
+ */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  if (isDateLike(value)) return (value as { toDate: () => Date }).toDate().getTime();
+  if (isSerializedTimestamp(value)) return value.seconds * 1000 + Math.round(value.nanoseconds / 1e6);
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+    const time = Date.parse(value);
+    return isNaN(time) ? value : time;
+  }
+  if (Array.isArray(value)) return value.map(comparable);
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach(key => {
+      if (value[key] !== undefined) result[key] = comparable(value[key]);
+    });
+    return result;
+  }
+  return value;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => deepEqual(comparable(a), comparable(b));
+
+const humanize = (key: string): string =>
+  key.replace(/^_/, '').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, char => char.toUpperCase());
+
+// The field identifying every item of the lists, or null when they are merged as a whole
+function findItemKey(...lists: unknown[][]): string | null {
+  const items = lists.flat();
+  if (items.length === 0) return null;
+
+  return ITEM_KEYS.find(key => items.every(item =>
+    isPlainObject(item) && (typeof item[key] === 'string' || typeof item[key] === 'number')
+  )) || null;
+}
+
+function describeItem(key: string, item: Fields): string {
+  const nameField = ITEM_NAME_FIELDS.find(field => typeof item[field] === 'string' && item[field]);
+  if (nameField) return item[nameField] as string;
+  return key === 'week' ? `Week ${item.week}` : String(item[key]);
+}
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  resolutions: Record<string, MergeSide>;
+}
+
+function mergeValue(
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  path: string,
+  label: string,
+  context: MergeContext
+): unknown {
+  if (sameValue(local, remote)) return local;
+  if (sameValue(base, remote)) return local;
+  if (sameValue(base, local)) return remote;
+
+  // Both sides changed the value; look inside it for the parts that actually collide
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObject(isPlainObject(base) ? base : {}, local, remote, path, label, context);
+  }
+
+  if (Array.isArray(local) && Array.isArray(remote)) {
+    const baseList = Array.isArray(base) ? base : [];
+    const itemKey = findItemKey(baseList, local, remote);
+    if (itemKey) {
+      return mergeList(baseList, local, remote, itemKey, path, label, context);
+    }
+  }
+
+  const resolution = context.resolutions[path];
+  if (resolution) {
+    return resolution === 'remote' ? remote : local;
+  }
+
+  context.conflicts.push({ path, label, base, local, remote });
+  return local;
+}
+
+function mergeObject(
+  base: Fields,
+  local: Fields,
+  remote: Fields,
+  path: string,
+  label: string,
+  context: MergeContext
+): Fields {
+  const merged: Fields = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.includes(key)) {
+      if (local[key] !== undefined) merged[key] = local[key];
+      return;
+    }
+
+    const value = mergeValue(
+      base[key],
+      local[key],
+      remote[key],
+      path ? `${path}.${key}` : key,
+      label ? `${label} › ${humanize(key)}` : humanize(key),
+      context
+    );
+    if (value !== undefined) merged[key] = value;
+  });
+
+  return merged;
+}
+
+/**
+ * Merge lists of identified items: each side's additions and removals are kept,
+ * and items both sides kept are merged field by field. Local order wins, with
+ * items only the other side added appended at the end.
+ */
+function mergeList(
+  base: unknown[],
+  local: unknown[],
+  remote: unknown[],
+  itemKey: string,
+  path: string,
+  label: string,
+  context: MergeContext
+): unknown[] {
+  const byKey = (list: unknown[]) => new Map(list.map(item => [String((item as Fields)[itemKey]), item as Fields]));
+  const baseItems = byKey(base);
+  const localItems = byKey(local);
+  const remoteItems = byKey(remote);
+
+  const order = [
+    ...localItems.keys(),
+    ...[...remoteItems.keys()].filter(key => !localItems.has(key))
+  ];
+
+  const merged: unknown[] = [];
+  order.forEach(key => {
+    const localItem = localItems.get(key);
+    const remoteItem = remoteItems.get(key);
+    const item = (localItem || remoteItem) as Fields;
+    const value = mergeValue(
+      baseItems.get(key),
+      localItem,
+      remoteItem,
+      `${path}[${itemKey}=${key}]`,
+      `${label} › ${describeItem(itemKey, item)}`,
+      context
+    );
+    if (value !== undefined) merged.push(value);
+  });
+
+  return merged;
+}
+
+/**
+ * Three-way merge of a product edited locally and on the server since `base`,
+ * the copy both started from. Colliding fields keep the local value unless
+ * `resolutions` says which side to take for their path.
+ */
+export function mergeProducts(
+  base: Product,
+  local: Product,
+  remote: Product,
+  resolutions: Record<string, MergeSide> = {}
+): MergeResult {
+  const context: MergeContext = { conflicts: [], resolutions };
+  const baseFields = base as unknown as Fields;
+  const localFields = local as unknown as Fields;
+  const remoteFields = remote as unknown as Fields;
+  const merged: Fields = {};
+  const keys = new Set([...Object.keys(localFields), ...Object.keys(remoteFields)]);
+
+  keys.forEach(key => {
+    const localValue = localFields[key];
+    if (IGNORED_FIELDS.includes(key) || DERIVED_FIELDS.includes(key)) {
+      if (localValue !== undefined) merged[key] = localValue;
+      return;
+    }
+
+    const value = mergeValue(baseFields[key], localValue, remoteFields[key], key, humanize(key), context);
+    if (value !== undefined) merged[key] = value;
+  });
+
+  // The inputs may now carry changes from both sides, so the local projections are stale
+  let product = merged as unknown as Product;
+  if (product.info) {
+    product.weeklyProjections = generateWeeklyProjections(
+      product.info, product.growthMetrics, product.revenueMetrics, product.costMetrics, product
+    );
+    product = withLongTermForecast(product);
+  }
+
+  return { merged: product, conflicts: context.conflicts };
+}
+
+/**
+ * Whether the merge took anything from the other copy into the local one
+ */
+export function mergeChangedLocal(local: Product, merged: Product): boolean {
+  return Object.keys({ ...local, ...merged })
+    .filter(key => !IGNORED_FIELDS.includes(key) && !DERIVED_FIELDS.includes(key))
+    .some(key => !sameValue((local as unknown as Fields)[key], (merged as unknown as Fields)[key]));
+}
@@ -0,0 +1,315 @@
+/**
+ * Product Setup
+ * The steps of the guided setup that turns a template, or a blank sheet, into
+ * a complete product: details, growth, revenue, costs, staffing, marketing
+ * and risks. Each step is checked before the next opens, and a quick forecast
+ * of the draft is shown while figures are entered.
+ */
+
+import { DEFAULT_CURRENCY } from '../types';
+import type {
+  GrowthMetrics,
+  MarketingChannelItem,
+  ProductInfo,
+  ProductTemplate,
+  RevenueMetrics,
+  WeeklyProjection
+} from '../types';
+import { createProductFromTemplate } from './productTemplates';
+import { getBaseWeeklyVisitors } from './growthModels';
+import { getBreakEvenWeek } from './projectionEngine';
+
+export const SETUP_STEPS = ['start', 'details', 'growth', 'revenue', 'costs', 'staffing', 'marketing', 'risks', 'review'] as const;
+
+export type SetupStep = typeof SETUP_STEPS[number];
+
+export const SETUP_STEP_LABELS: Record<SetupStep, string> = {
+  start: 'Start',
+  details: 'Details',
+  growth: 'Growth',
+  revenue: 'Revenue',
+  costs: 'Costs',
+  staffing: 'Staffing',
+  marketing: 'Marketing',
+  risks: 'Risks',
+  review: 'Review'
+};
+
+export const SETUP_STEP_DESCRIPTIONS: Record<SetupStep, string> = {
+  start: 'Start from a template or a blank product',
+  details: 'Name the product and set when it runs',
+  growth: 'How many visitors to expect and how that changes week to week',
+  revenue: 'What visitors spend and how many of them buy',
+  costs: 'Running costs per event, setup costs and cost of goods',
+  staffing: 'Who works each event and who is on a weekly salary',
+  marketing: 'The marketing budget and the channels it is spent on',
+  risks: 'What could knock the forecast off course',
+  review: 'Check the model before the product is created'
+};
+
+// Product details entered in the first steps
+export type SetupDetails = Pick<
+  ProductInfo,
+  'name' | 'description' | 'type' | 'logo' | 'launchDate' | 'forecastPeriod' | 'eventsPerWeek' | 'currency'
+>;
+
+// A product being set up: its details, and the template's assumptions as edited so far
+export interface SetupDraft {
+  details: SetupDetails;
+  assumptions: ProductTemplate;
+}
+
+export interface SetupPreviewWeek {
+  week: number;
+  revenue: number;
+  costs: number;
+  profit: number;
+  cumulativeProfit: number;
+}
+
+export interface SetupPreview {
+  weeks: SetupPreviewWeek[];
+  totalRevenue: number;
+  totalCosts: number;
+  totalProfit: number;
+  breakEvenWeek: number | null;
+}
+
+const MAX_FORECAST_WEEKS = 104;
+
+const MAX_EVENTS_PER_WEEK = 50;
+
+const GROWTH_RATE_LABELS: Partial<Record<keyof GrowthMetrics, string>> = {
+  returnVisitRate: 'Return visit rate',
+  wordOfMouthRate: 'Word of mouth rate',
+  socialMediaConversion: 'Social media conversion'
+};
+
+const REVENUE_STREAMS: { price: keyof RevenueMetrics; rate: keyof RevenueMetrics; label: string }[] = [
+  { price: 'ticketPrice', rate: 'ticketSalesRate', label: 'Ticket sales rate' },
+  { price: 'fbSpend', rate: 'fbConversionRate', label: 'F&B conversion rate' },
+  { price: 'merchandiseSpend', rate: 'merchandiseConversionRate', label: 'Merchandise conversion rate' },
+  { price: 'digitalPrice', rate: 'digitalConversionRate', label: 'Digital conversion rate' }
+];
+
+const isAmount = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const isRate = (value: unknown) => isAmount(value) && (value as number) <= 1;
+
+const isWholeNumber = (value: unknown) => isAmount(value) && Number.isInteger(value);
+
+/**
+ * A draft starting from the template. Details already entered, such as the
+ * name when the template is changed, are kept.
+ */
+export function createSetupDraft(template: ProductTemplate, details: Partial<SetupDetails> = {}): SetupDraft {
+  const launchDate = new Date();
+  launchDate.setHours(0, 0, 0, 0);
+
+  return {
+    details: {
+      name: '',
+      description: '',
+      type: template.productType,
+      logo: null,
+      launchDate,
+      currency: DEFAULT_CURRENCY,
+      ...details,
+      forecastPeriod: template.forecastPeriod,
+      eventsPerWeek: template.eventsPerWeek ?? 1
+    },
+    assumptions: template
+  };
+}
+
+/**
+ * What needs fixing before the setup can move on from the step; empty when it can
+ */
+export function validateSetupStep(step: SetupStep, draft: SetupDraft): string[] {
+  const { details, assumptions } = draft;
+  const { growthMetrics, revenueMetrics, costMetrics, risks } = assumptions;
+  const issues: string[] = [];
+
+  switch (step) {
+    case 'details': {
+      if (!details.name.trim()) {
+        issues.push('Enter a product name.');
+      }
+      if (!(details.launchDate instanceof Date) || isNaN(details.launchDate.getTime())) {
+        issues.push('Enter a launch date.');
+      }
+      if (!isWholeNumber(details.forecastPeriod) || details.forecastPeriod < 1 || details.forecastPeriod > MAX_FORECAST_WEEKS) {
+        issues.push(`The forecast period must be a whole number of weeks from 1 to ${MAX_FORECAST_WEEKS}.`);
+      }
+      if (!isAmount(details.eventsPerWeek) || (details.eventsPerWeek || 0) > MAX_EVENTS_PER_WEEK) {
+        issues.push(`Events per week must be between 0 and ${MAX_EVENTS_PER_WEEK}.`);
+      }
+      break;
+    }
+    case 'growth': {
+      const counts = [growthMetrics.weeklyVisitors, growthMetrics.visitorsPerEvent, growthMetrics.peakDayAttendance, growthMetrics.lowDayAttendance];
+      if (!counts.every(isAmount)) {
+        issues.push("Visitor numbers can't be negative.");
+      } else if (getBaseWeeklyVisitors({ ...details, forecastType: assumptions.forecastType } as ProductInfo, growthMetrics) <= 0) {
+        issues.push(assumptions.forecastType === 'per-event'
+          ? 'Enter the visitors you expect at each event.'
+          : 'Enter the visitors you expect each week.');
+      }
+      if (!isFinite(growthMetrics.weeklyGrowthRate) || Math.abs(growthMetrics.weeklyGrowthRate) > 100) {
+        issues.push('The weekly growth rate must be between -100% and 100%.');
+      }
+      if (growthMetrics.growthModel === 'Custom' && !(growthMetrics.attendanceCurve || []).length) {
+        issues.push('The Custom model needs an attendance curve. Pick another model here and set the curve in Revenue Forecast once the product is created.');
+      }
+      if (growthMetrics.growthModel === 'Seasonal' && growthMetrics.peakDayAttendance < growthMetrics.lowDayAttendance) {
+        issues.push('Peak day attendance must be at least the low day attendance.');
+      }
+      (Object.keys(GROWTH_RATE_LABELS) as (keyof GrowthMetrics)[]).forEach(key => {
+        if (!isRate(growthMetrics[key])) {
+          issues.push(`${GROWTH_RATE_LABELS[key]} must be between 0% and 100%.`);
+        }
+      });
+      break;
+    }
+    case 'revenue': {
+      if (!REVENUE_STREAMS.every(stream => isAmount(revenueMetrics[stream.price]))) {
+        issues.push("Prices and spend can't be negative.");
+      }
+      REVENUE_STREAMS.forEach(stream => {
+        if (!isRate(revenueMetrics[stream.rate])) {
+          issues.push(`${stream.label} must be between 0% and 100%.`);
+        }
+      });
+      const hasStream = REVENUE_STREAMS.some(stream =>
+        Number(revenueMetrics[stream.price]) > 0 && Number(revenueMetrics[stream.rate]) > 0
+      );
+      if (!hasStream) {
+        issues.push('Set a price and take-up rate for at least one revenue stream.');
+      }
+      break;
+    }
+    case 'costs': {
+      const items = [...costMetrics.eventCosts, ...costMetrics.setupCosts];
+      if (items.some(item => !item.name.trim())) {
+        issues.push('Name every cost item.');
+      }
+      if (!items.every(item => isAmount(item.amount))) {
+        issues.push("Cost amounts can't be negative.");
+      }
+      if (!isAmount(costMetrics.fbCogPercentage) || costMetrics.fbCogPercentage > 100) {
+        issues.push('F&B cost of goods must be between 0% and 100%.');
+      }
+      if (!isAmount(costMetrics.merchandiseCogPerUnit)) {
+        issues.push("Merchandise cost per unit can't be negative.");
+      }
+      break;
+    }
+    case 'staffing': {
+      const roles = costMetrics.staffRoles;
+      if (roles.some(role => !role.role.trim())) {
+        issues.push('Name every staff role.');
+      }
+      if (!roles.every(role => isWholeNumber(role.count))) {
+        issues.push('Staff counts must be whole numbers.');
+      }
+      if (!roles.every(role => isAmount(role.costPerPerson))) {
+        issues.push("Staff costs can't be negative.");
+      }
+      if (roles.length === 0 && !(isWholeNumber(costMetrics.additionalStaffingPerEvent) && isAmount(costMetrics.staffingCostPerPerson))) {
+        issues.push('Staff per event must be a whole number, and the cost per person not negative.');
+      }
+      break;
+    }
+    case 'marketing': {
+      const marketing = costMetrics.marketing;
+      if (marketing.allocationMode === 'channels') {
+        const channels = marketing.channels || [];
+        if (channels.length === 0) {
+          issues.push('Add at least one channel, or set a single budget instead.');
+        }
+        if (channels.some(channel => !(channel.name || '').trim())) {
+          issues.push('Name every marketing channel.');
+        }
+        if (!channels.every(channel => isAmount(channel.budget || 0))) {
+          issues.push("Channel budgets can't be negative.");
+        }
+      } else if (marketing.type === 'campaign') {
+        if (!isAmount(marketing.campaignBudget || 0)) {
+          issues.push("The campaign budget can't be negative.");
+        }
+        if (!isWholeNumber(marketing.campaignDurationWeeks) || (marketing.campaignDurationWeeks || 0) < 1) {
+          issues.push('The campaign must run for at least one whole week.');
+        }
+      } else if (!isAmount(marketing.weeklyBudget || 0)) {
+        issues.push("The weekly budget can't be negative.");
+      }
+      break;
+    }
+    case 'risks': {
+      if (risks.some(risk => !risk.description.trim())) {
+        issues.push('Describe every risk.');
+      }
+      if (!risks.every(risk => isAmount(risk.financialImpact))) {
+        issues.push("Financial impacts can't be negative.");
+      }
+      break;
+    }
+    case 'review':
+      return SETUP_STEPS.filter(setupStep => setupStep !== 'review')
+        .flatMap(setupStep => validateSetupStep(setupStep, draft));
+    default:
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * First step that still needs fixing, or null when the draft is ready
+ */
+export function findInvalidSetupStep(draft: SetupDraft): SetupStep | null {
+  return SETUP_STEPS.find(step => step !== 'review' && validateSetupStep(step, draft).length > 0) || null;
+}
+
+/**
+ * Channels with each one's share of the total budget filled in
+ */
+export function allocateChannelBudgets(channels: MarketingChannelItem[]): MarketingChannelItem[] {
+  const total = channels.reduce((sum, channel) => sum + (channel.budget || 0), 0);
+  return channels.map(channel => ({
+    ...channel,
+    allocation: total > 0 ? Math.round(((channel.budget || 0) / total) * 1000) / 10 : 0
+  }));
+}
+
+const toPreviewWeek = (projection: WeeklyProjection): SetupPreviewWeek => ({
+  week: projection.week,
+  revenue: projection.totalRevenue,
+  costs: projection.totalCosts,
+  profit: projection.weeklyProfit,
+  cumulativeProfit: projection.cumulativeProfit
+});
+
+/**
+ * The forecast the draft would produce, as it stands. Empty while the forecast
+ * period isn't usable yet.
+ */
+export function previewSetupDraft(draft: SetupDraft): SetupPreview {
+  const { forecastPeriod } = draft.details;
+  if (!isWholeNumber(forecastPeriod) || forecastPeriod < 1 || forecastPeriod > MAX_FORECAST_WEEKS) {
+    return { weeks: [], totalRevenue: 0, totalCosts: 0, totalProfit: 0, breakEvenWeek: null };
+  }
+
+  const projections = createProductFromTemplate(draft.assumptions, draft.details).weeklyProjections;
+  const weeks = projections.map(toPreviewWeek);
+  const totalRevenue = weeks.reduce((sum, week) => sum + week.revenue, 0);
+  const totalCosts = weeks.reduce((sum, week) => sum + week.costs, 0);
+
+  return {
+    weeks,
+    totalRevenue,
+    totalCosts,
+    totalProfit: totalRevenue - totalCosts,
+    breakEvenWeek: getBreakEvenWeek(projections)
+  };
+}
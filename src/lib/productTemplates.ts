@@ -0,0 +1,495 @@
+/**
+ * Product Templates
+ * Reusable sets of assumptions a new product starts from: growth, revenue,
+ * cost structure with its staff roles and marketing channels, and a risk
+ * register. The app ships a starter template for each product type, and any
+ * product's current assumptions can be saved as a template of its own.
+ * Amounts are plain numbers, read in whichever currency the new product uses.
+ */
+
+import {
+  DEFAULT_COST_METRICS,
+  DEFAULT_CUSTOMER_METRICS,
+  DEFAULT_GROWTH_METRICS,
+  DEFAULT_REVENUE_METRICS,
+  DEFAULT_SEASONAL_ANALYSIS
+} from '../types';
+import type {
+  CostMetrics,
+  GrowthMetrics,
+  ImpactLevel,
+  LikelihoodLevel,
+  Product,
+  ProductInfo,
+  ProductTemplate,
+  RevenueMetrics,
+  RiskAssessment,
+  RiskType
+} from '../types';
+import { generateWeeklyProjections } from './calculations';
+import { withLongTermForecast } from './longTermForecast';
+import { CURRENT_SCHEMA_VERSION } from './schemaMigrations';
+
+// A saved template before the store gives it an id
+export type NewProductTemplate = Omit<ProductTemplate, 'id' | 'createdAt'>;
+
+// Values entered while creating a product that replace the template's
+export interface TemplateOverrides {
+  growthMetrics?: Partial<GrowthMetrics>;
+  revenueMetrics?: Partial<RevenueMetrics>;
+  costMetrics?: Partial<CostMetrics>;
+}
+
+const LEVEL_SCORES: Record<LikelihoodLevel | ImpactLevel, number> = { Low: 1, Medium: 2, High: 3 };
+
+/**
+ * Risk score on the 1-9 scale the risk register uses: likelihood × impact
+ */
+export function getRiskScore(likelihood: LikelihoodLevel, impact: ImpactLevel): number {
+  return LEVEL_SCORES[likelihood] * LEVEL_SCORES[impact];
+}
+
+const BUILT_IN_CREATED_AT = new Date(2024, 0, 1);
+
+const starterRisk = (
+  type: RiskType,
+  description: string,
+  likelihood: LikelihoodLevel,
+  impact: ImpactLevel,
+  financialImpact: number,
+  mitigationStrategy: string
+): RiskAssessment => ({
+  id: '',
+  type,
+  description,
+  likelihood,
+  impact,
+  financialImpact,
+  mitigationStrategy,
+  owner: '',
+  status: 'Open',
+  riskScore: getRiskScore(likelihood, impact)
+});
+
+const baseCosts = (costs: Partial<CostMetrics> & Pick<CostMetrics, 'marketing'>): CostMetrics => ({
+  additionalStaffingPerEvent: 0,
+  staffingCostPerPerson: 0,
+  staffRoles: [],
+  staffingAllocationMode: 'detailed',
+  eventCosts: [],
+  setupCosts: [],
+  fbCogPercentage: 30,
+  merchandiseCogPerUnit: 0,
+  ...costs
+});
+
+/**
+ * Starter templates shipped with the app, one for each product type
+ */
+export const BUILT_IN_TEMPLATES: ProductTemplate[] = [
+  {
+    id: 'builtin-experiential-events',
+    name: 'Immersive pop-up experience',
+    description: 'Ticketed sessions that open strong and ease off, with a bar and merch stand on the way out',
+    productType: 'Experiential Events',
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 12,
+    eventsPerWeek: 5,
+    growthMetrics: {
+      totalVisitors: 20000,
+      weeklyVisitors: 1500,
+      visitorsPerEvent: 300,
+      growthModel: 'Decay',
+      weeklyGrowthRate: 8,
+      peakDayAttendance: 450,
+      lowDayAttendance: 200,
+      returnVisitRate: 0.1,
+      wordOfMouthRate: 0.15,
+      socialMediaConversion: 0.05
+    },
+    revenueMetrics: {
+      ticketPrice: 35,
+      ticketSalesRate: 1,
+      fbSpend: 12,
+      fbConversionRate: 0.5,
+      merchandiseSpend: 30,
+      merchandiseConversionRate: 0.15,
+      digitalPrice: 0,
+      digitalConversionRate: 0
+    },
+    costMetrics: baseCosts({
+      marketing: {
+        allocationMode: 'channels',
+        type: 'weekly',
+        weeklyBudget: 3000,
+        channels: [
+          { id: 'social', name: 'Instagram & TikTok', budget: 1500, allocation: 50 },
+          { id: 'search', name: 'Google Search', budget: 900, allocation: 30 },
+          { id: 'influencers', name: 'Influencers', budget: 600, allocation: 20 }
+        ]
+      },
+      staffRoles: [
+        { id: 'hosts', role: 'Experience host', count: 4, costPerPerson: 180, notes: 'Per session' },
+        { id: 'technician', role: 'Technician', count: 1, costPerPerson: 220, notes: 'Per session' },
+        { id: 'manager', role: 'Venue manager', count: 1, costPerPerson: 1800, isFullTime: true, notes: 'Weekly salary' }
+      ],
+      eventCosts: [
+        { id: 'consumables', name: 'Consumables', amount: 250 },
+        { id: 'cleaning', name: 'Cleaning', amount: 150 }
+      ],
+      setupCosts: [{ id: 'build', name: 'Set design and build', amount: 25000, amortize: true }],
+      merchandiseCogPerUnit: 12
+    }),
+    risks: [
+      starterRisk('Revenue', 'Attendance falls away faster than forecast after launch', 'Medium', 'High', 15000, 'Plan a mid-run content refresh and hold back part of the marketing budget'),
+      starterRisk('Operational', 'Set or technical failure cancels sessions', 'Low', 'High', 8000, 'Keep spares on site and a technician rostered for every session'),
+      starterRisk('Reputational', 'Poor reviews from queues at peak times', 'Medium', 'Medium', 5000, 'Timed ticketing with capped session sizes')
+    ],
+    createdAt: BUILT_IN_CREATED_AT
+  },
+  {
+    id: 'builtin-venue-based-activations',
+    name: 'Brand activation at a host venue',
+    description: 'Free-entry activation in a partner venue, paid for by F&B and merch sales',
+    productType: 'Venue-Based Activations',
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 8,
+    eventsPerWeek: 3,
+    growthMetrics: {
+      totalVisitors: 8000,
+      weeklyVisitors: 900,
+      visitorsPerEvent: 300,
+      growthModel: 'Exponential',
+      weeklyGrowthRate: 3,
+      peakDayAttendance: 400,
+      lowDayAttendance: 150,
+      returnVisitRate: 0.15,
+      wordOfMouthRate: 0.1,
+      socialMediaConversion: 0.05
+    },
+    revenueMetrics: {
+      ticketPrice: 0,
+      ticketSalesRate: 0,
+      fbSpend: 15,
+      fbConversionRate: 0.6,
+      merchandiseSpend: 25,
+      merchandiseConversionRate: 0.1,
+      digitalPrice: 0,
+      digitalConversionRate: 0
+    },
+    costMetrics: baseCosts({
+      marketing: { allocationMode: 'simple', type: 'weekly', weeklyBudget: 1500 },
+      staffRoles: [
+        { id: 'ambassadors', role: 'Brand ambassador', count: 3, costPerPerson: 160, notes: 'Per activation day' }
+      ],
+      eventCosts: [{ id: 'venue-hire', name: 'Venue hire', amount: 1200 }],
+      setupCosts: [{ id: 'fit-out', name: 'Activation fit-out', amount: 8000, amortize: true }],
+      merchandiseCogPerUnit: 10
+    }),
+    risks: [
+      starterRisk('Sponsorship', 'Partner brand reduces or withdraws funding', 'Low', 'High', 10000, 'Agree staged payments in the partnership contract'),
+      starterRisk('Legal/Regulatory', 'Venue licence or permit conditions restrict trading', 'Medium', 'Medium', 4000, 'Confirm permits and licence conditions with the venue before launch'),
+      starterRisk('Community', 'Noise complaints from neighbours', 'Medium', 'Low', 1000, 'Set finishing times with the venue and brief staff on noise')
+    ],
+    createdAt: BUILT_IN_CREATED_AT
+  },
+  {
+    id: 'builtin-food-beverage-products',
+    name: 'Pop-up bar',
+    description: 'Four trading nights a week where drinks and food are the only income',
+    productType: 'Food & Beverage Products',
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 12,
+    eventsPerWeek: 4,
+    growthMetrics: {
+      totalVisitors: 14000,
+      weeklyVisitors: 1200,
+      visitorsPerEvent: 300,
+      growthModel: 'Exponential',
+      weeklyGrowthRate: 5,
+      peakDayAttendance: 450,
+      lowDayAttendance: 150,
+      returnVisitRate: 0.25,
+      wordOfMouthRate: 0.1,
+      socialMediaConversion: 0.03
+    },
+    revenueMetrics: {
+      ticketPrice: 0,
+      ticketSalesRate: 0,
+      fbSpend: 28,
+      fbConversionRate: 0.9,
+      merchandiseSpend: 0,
+      merchandiseConversionRate: 0,
+      digitalPrice: 0,
+      digitalConversionRate: 0
+    },
+    costMetrics: baseCosts({
+      marketing: {
+        allocationMode: 'channels',
+        type: 'weekly',
+        weeklyBudget: 1000,
+        channels: [
+          { id: 'social', name: 'Instagram', budget: 600, allocation: 60 },
+          { id: 'press', name: 'Local press and listings', budget: 400, allocation: 40 }
+        ]
+      },
+      staffRoles: [
+        { id: 'bartenders', role: 'Bartender', count: 4, costPerPerson: 200, notes: 'Per trading night' },
+        { id: 'manager', role: 'Bar manager', count: 1, costPerPerson: 1600, isFullTime: true, notes: 'Weekly salary' }
+      ],
+      eventCosts: [{ id: 'consumables', name: 'Ice and consumables', amount: 180 }],
+      setupCosts: [
+        { id: 'fit-out', name: 'Bar fit-out', amount: 15000, amortize: true },
+        { id: 'licence', name: 'Liquor licence', amount: 1200, amortize: false }
+      ],
+      fbCogPercentage: 28
+    }),
+    risks: [
+      starterRisk('Legal/Regulatory', 'Liquor licence delayed or granted with tighter conditions', 'Medium', 'High', 12000, 'Apply early and plan a soft opening that can move'),
+      starterRisk('Supply Chain', 'Stock runs short on busy nights', 'Medium', 'Medium', 3000, 'Par levels per night with a backup supplier'),
+      starterRisk('Environmental', 'Wet weather cuts outdoor trade', 'Medium', 'Medium', 4000, 'Covered seating and weather-triggered promotions')
+    ],
+    createdAt: BUILT_IN_CREATED_AT
+  },
+  {
+    id: 'builtin-merchandise-drops',
+    name: 'Limited merch drop',
+    description: 'A short campaign building to a launch-day drop, with sales tailing off after',
+    productType: 'Merchandise Drops',
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 6,
+    eventsPerWeek: 1,
+    growthMetrics: {
+      totalVisitors: 15000,
+      weeklyVisitors: 5000,
+      visitorsPerEvent: 5000,
+      growthModel: 'Decay',
+      weeklyGrowthRate: 25,
+      peakDayAttendance: 5000,
+      lowDayAttendance: 800,
+      returnVisitRate: 0.05,
+      wordOfMouthRate: 0.1,
+      socialMediaConversion: 0.08
+    },
+    revenueMetrics: {
+      ticketPrice: 0,
+      ticketSalesRate: 0,
+      fbSpend: 0,
+      fbConversionRate: 0,
+      merchandiseSpend: 45,
+      merchandiseConversionRate: 0.3,
+      digitalPrice: 0,
+      digitalConversionRate: 0
+    },
+    costMetrics: baseCosts({
+      marketing: { allocationMode: 'simple', type: 'campaign', campaignBudget: 6000, campaignDurationWeeks: 2 },
+      staffRoles: [
+        { id: 'retail', role: 'Retail staff', count: 3, costPerPerson: 200, notes: 'Per drop day' }
+      ],
+      eventCosts: [{ id: 'fulfilment', name: 'Packing and fulfilment', amount: 300 }],
+      setupCosts: [{ id: 'store', name: 'Store fit-out', amount: 4000, amortize: false }],
+      merchandiseCogPerUnit: 14
+    }),
+    risks: [
+      starterRisk('Supply Chain', 'Stock arrives late for the drop', 'Medium', 'High', 10000, 'Lock production dates with buffer weeks before announcing the drop'),
+      starterRisk('Market', 'Demand falls short of the first production run', 'Medium', 'Medium', 6000, 'Order a smaller first run with a fast reorder option'),
+      starterRisk('Technical', 'Online store fails under launch traffic', 'Low', 'High', 8000, 'Load test the store and queue visitors at launch')
+    ],
+    createdAt: BUILT_IN_CREATED_AT
+  },
+  {
+    id: 'builtin-digital-products',
+    name: 'Digital subscription launch',
+    description: 'Paid digital product sold to a daily audience, with a small full-time team',
+    productType: 'Digital Products',
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 12,
+    eventsPerWeek: 7,
+    growthMetrics: {
+      totalVisitors: 100000,
+      weeklyVisitors: 7000,
+      visitorsPerEvent: 1000,
+      growthModel: 'Exponential',
+      weeklyGrowthRate: 6,
+      peakDayAttendance: 1300,
+      lowDayAttendance: 700,
+      returnVisitRate: 0.3,
+      wordOfMouthRate: 0.05,
+      socialMediaConversion: 0.1
+    },
+    revenueMetrics: {
+      ticketPrice: 0,
+      ticketSalesRate: 0,
+      fbSpend: 0,
+      fbConversionRate: 0,
+      merchandiseSpend: 0,
+      merchandiseConversionRate: 0,
+      digitalPrice: 15,
+      digitalConversionRate: 0.08
+    },
+    costMetrics: baseCosts({
+      marketing: {
+        allocationMode: 'channels',
+        type: 'weekly',
+        weeklyBudget: 2000,
+        channels: [
+          { id: 'social', name: 'Paid social', budget: 1200, allocation: 60 },
+          { id: 'search', name: 'Search ads', budget: 800, allocation: 40 }
+        ]
+      },
+      staffRoles: [
+        { id: 'community', role: 'Community manager', count: 1, costPerPerson: 1500, isFullTime: true, notes: 'Weekly salary' },
+        { id: 'developer', role: 'Developer', count: 1, costPerPerson: 2500, isFullTime: true, notes: 'Weekly salary' }
+      ],
+      setupCosts: [{ id: 'platform', name: 'Platform build', amount: 20000, amortize: true }]
+    }),
+    risks: [
+      starterRisk('Technical', 'Outage during launch week', 'Low', 'High', 6000, 'Staged rollout with monitoring and a rollback plan'),
+      starterRisk('Market', 'Visitors convert to paid below forecast', 'Medium', 'High', 12000, 'Test pricing and the free trial before scaling spend'),
+      starterRisk('Financial', 'Payment provider fees higher than planned', 'Low', 'Low', 1000, 'Compare providers and fee tiers before launch')
+    ],
+    createdAt: BUILT_IN_CREATED_AT
+  }
+];
+
+/**
+ * Empty assumptions for a product built up from scratch
+ */
+export function createBlankTemplate(productType: ProductInfo['type']): ProductTemplate {
+  return {
+    id: 'blank',
+    name: 'Blank product',
+    description: 'Start with no assumptions and enter every figure yourself',
+    productType,
+    builtIn: true,
+    forecastType: 'weekly',
+    forecastPeriod: 12,
+    eventsPerWeek: 1,
+    growthMetrics: { ...DEFAULT_GROWTH_METRICS },
+    revenueMetrics: { ...DEFAULT_REVENUE_METRICS },
+    costMetrics: { ...DEFAULT_COST_METRICS, marketing: { ...DEFAULT_COST_METRICS.marketing, type: 'weekly' } },
+    risks: [],
+    createdAt: BUILT_IN_CREATED_AT
+  };
+}
+
+/**
+ * Built-in and saved templates, those for the product type first
+ */
+export function getTemplatesForType(
+  savedTemplates: ProductTemplate[],
+  productType: ProductInfo['type']
+): ProductTemplate[] {
+  const templates = [...BUILT_IN_TEMPLATES, ...savedTemplates];
+  return [
+    ...templates.filter(template => template.productType === productType),
+    ...templates.filter(template => template.productType !== productType)
+  ];
+}
+
+// Drop the bookkeeping fields metrics pick up once saved against a product
+const stripRecordFields = <T extends { id?: string; productId?: string; createdAt?: Date; updatedAt?: Date }>(
+  metrics: T
+): T => {
+  const copy = { ...metrics };
+  delete copy.id;
+  delete copy.productId;
+  delete copy.createdAt;
+  delete copy.updatedAt;
+  return copy;
+};
+
+/**
+ * The product's current assumptions as a template. Its risks become a fresh
+ * register: each is reopened and unassigned, ready for the next product.
+ */
+export function createTemplateFromProduct(
+  product: Product,
+  name: string,
+  description: string
+): NewProductTemplate {
+  return {
+    name,
+    description,
+    productType: product.info.type,
+    forecastType: product.info.forecastType,
+    forecastPeriod: product.info.forecastPeriod,
+    eventsPerWeek: product.info.eventsPerWeek,
+    growthMetrics: stripRecordFields(product.growthMetrics || DEFAULT_GROWTH_METRICS),
+    revenueMetrics: stripRecordFields(product.revenueMetrics || DEFAULT_REVENUE_METRICS),
+    costMetrics: stripRecordFields(product.costMetrics || DEFAULT_COST_METRICS),
+    risks: (product.risks || []).map(risk => ({ ...risk, owner: '', status: 'Open' })),
+    ...(product.seasonalAnalysis ? { seasonalAnalysis: product.seasonalAnalysis } : {})
+  };
+}
+
+const newId = () => crypto.randomUUID();
+
+/**
+ * A new product built from the template, with the details entered for it and
+ * any assumptions changed along the way. Staff roles, channels, costs and
+ * risks get ids of their own, and the weekly forecast is generated ready to view.
+ */
+export function createProductFromTemplate(
+  template: ProductTemplate,
+  info: Pick<ProductInfo, 'name'> & Partial<ProductInfo>,
+  overrides: TemplateOverrides = {}
+): Product {
+  const now = new Date();
+  const productId = newId();
+  const productInfo: ProductInfo = {
+    description: '',
+    logo: null,
+    targetAudience: '',
+    developmentStartDate: now,
+    developmentEndDate: now,
+    launchDate: now,
+    forecastType: template.forecastType,
+    forecastPeriod: template.forecastPeriod,
+    eventsPerWeek: template.eventsPerWeek,
+    ...info,
+    type: info.type || template.productType,
+    id: productId,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const costs = { ...template.costMetrics, ...overrides.costMetrics };
+  const growthMetrics: GrowthMetrics = { ...template.growthMetrics, ...overrides.growthMetrics };
+  const revenueMetrics: RevenueMetrics = { ...template.revenueMetrics, ...overrides.revenueMetrics };
+  const costMetrics: CostMetrics = {
+    ...costs,
+    marketing: {
+      ...costs.marketing,
+      channels: (costs.marketing.channels || []).map(channel => ({ ...channel, id: newId() }))
+    },
+    staffRoles: (costs.staffRoles || []).map(role => ({ ...role, id: newId() })),
+    eventCosts: (costs.eventCosts || []).map(cost => ({ ...cost, id: newId() })),
+    setupCosts: (costs.setupCosts || []).map(cost => ({ ...cost, id: newId() }))
+  };
+
+  const product: Product = {
+    id: productId,
+    info: productInfo,
+    growthMetrics,
+    revenueMetrics,
+    costMetrics,
+    customerMetrics: { ...DEFAULT_CUSTOMER_METRICS },
+    weeklyProjections: [],
+    actuals: [],
+    risks: template.risks.map(risk => ({ ...risk, id: newId(), createdAt: now, updatedAt: now })),
+    seasonalAnalysis: (template.seasonalAnalysis || DEFAULT_SEASONAL_ANALYSIS).map(quarter => ({ ...quarter })),
+    scenarios: [],
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+
+  return withLongTermForecast({
+    ...product,
+    weeklyProjections: generateWeeklyProjections(productInfo, growthMetrics, revenueMetrics, costMetrics, product)
+  });
+}
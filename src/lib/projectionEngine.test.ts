@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import { runProjection, getLineTrace, getBreakEvenWeek } from './projectionEngine';
+import type { ProjectionInputs } from './projectionEngine';
+import { PRODUCT_TYPES } from '../types';
+import type { CostMetrics, GrowthMetrics, ProductInfo, RevenueMetrics } from '../types';
+
+const FORECAST_TYPES: ProductInfo['forecastType'][] = ['per-event', 'weekly', 'monthly', 'quarterly'];
+
+const growthMetrics: GrowthMetrics = {
+  totalVisitors: 0,
+  weeklyVisitors: 1000,
+  visitorsPerEvent: 300,
+  growthModel: 'Exponential',
+  weeklyGrowthRate: 10,
+  peakDayAttendance: 0,
+  lowDayAttendance: 0,
+  returnVisitRate: 0,
+  wordOfMouthRate: 0,
+  socialMediaConversion: 0
+};
+
+// Per visitor: 20 × 0.5 + 10 × 0.4 + 25 × 0.1 + 5 × 0.2 = 17.5
+const revenueMetrics: RevenueMetrics = {
+  ticketPrice: 20,
+  ticketSalesRate: 0.5,
+  fbSpend: 10,
+  fbConversionRate: 0.4,
+  merchandiseSpend: 25,
+  merchandiseConversionRate: 0.1,
+  digitalPrice: 5,
+  digitalConversionRate: 0.2
+};
+
+const costMetrics: CostMetrics = {
+  marketing: { allocationMode: 'simple', type: 'weekly', weeklyBudget: 500 },
+  additionalStaffingPerEvent: 3,
+  staffingCostPerPerson: 100,
+  staffRoles: [],
+  staffingAllocationMode: 'simple',
+  weeklyStaffCost: 0,
+  eventCosts: [
+    { id: 'venue', name: 'Venue', amount: 200 },
+    { id: 'security', name: 'Security', amount: 50 }
+  ],
+  setupCosts: [
+    { id: 'fitout', name: 'Fit-out', amount: 800, amortize: true },
+    { id: 'launch', name: 'Launch party', amount: 1000, amortize: false }
+  ],
+  fbCogPercentage: 30,
+  merchandiseCogPerUnit: 8
+};
+
+const makeInputs = (type: ProductInfo['type'], forecastType: ProductInfo['forecastType']): ProjectionInputs => ({
+  productInfo: {
+    id: 'product',
+    name: 'Test product',
+    type,
+    description: '',
+    logo: null,
+    targetAudience: '',
+    developmentStartDate: new Date('2024-01-01'),
+    developmentEndDate: new Date('2024-02-01'),
+    launchDate: new Date('2024-03-04'),
+    forecastPeriod: 4,
+    forecastType,
+    eventsPerWeek: 2,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01')
+  },
+  growthMetrics,
+  revenueMetrics,
+  costMetrics
+});
+
+const hasMerchandiseCogs = (type: ProductInfo['type']) =>
+  type === 'Food & Beverage Products' || type === 'Merchandise Drops';
+
+// The forecast worked by hand from the inputs above
+function expectedWeek(type: ProductInfo['type'], forecastType: ProductInfo['forecastType'], week: number) {
+  const baseVisitors = forecastType === 'per-event' ? 300 * 2 : 1000;
+  const footTraffic = Math.round(baseVisitors * Math.pow(1.1, week - 1));
+  const totalRevenue = footTraffic * 17.5;
+  const fixedCosts = 500 + 2 * 3 * 100 + 250 + 800 / 4 + (week === 1 ? 1000 : 0);
+  const fbCogs = footTraffic * 4 * 0.3;
+  const merchandiseCogs = hasMerchandiseCogs(type) ? footTraffic * 0.1 * 8 : 0;
+  const totalCosts = fixedCosts + fbCogs + merchandiseCogs;
+  return { footTraffic, totalRevenue, totalCosts, weeklyProfit: totalRevenue - totalCosts };
+}
+
+describe('runProjection', () => {
+  PRODUCT_TYPES.forEach(type => {
+    FORECAST_TYPES.forEach(forecastType => {
+      it(`matches the baseline math for ${type} forecast ${forecastType}`, () => {
+        const { projections, traces } = runProjection(makeInputs(type, forecastType));
+
+        expect(projections).toHaveLength(4);
+        expect(traces).toHaveLength(4);
+
+        let cumulativeProfit = 0;
+        projections.forEach(projection => {
+          const expected = expectedWeek(type, forecastType, projection.week);
+          cumulativeProfit += expected.weeklyProfit;
+
+          expect(projection.footTraffic).toBe(expected.footTraffic);
+          expect(projection.totalRevenue).toBeCloseTo(expected.totalRevenue, 6);
+          expect(projection.totalCosts).toBeCloseTo(expected.totalCosts, 6);
+          expect(projection.weeklyProfit).toBeCloseTo(expected.weeklyProfit, 6);
+          expect(projection.cumulativeProfit).toBeCloseTo(cumulativeProfit, 6);
+          expect(projection.numberOfEvents).toBe(2);
+        });
+      });
+    });
+  });
+
+  it('pins the forecast totals for each product type and forecast type', () => {
+    const totals = (type: ProductInfo['type'], forecastType: ProductInfo['forecastType']) => {
+      const { projections } = runProjection(makeInputs(type, forecastType));
+      return {
+        footTraffic: projections.reduce((sum, week) => sum + week.footTraffic, 0),
+        revenue: projections.reduce((sum, week) => sum + week.totalRevenue, 0),
+        costs: projections.reduce((sum, week) => sum + week.totalCosts, 0)
+      };
+    };
+
+    PRODUCT_TYPES.forEach(type => {
+      const merchandise = hasMerchandiseCogs(type);
+
+      const perEvent = totals(type, 'per-event');
+      expect(perEvent.footTraffic).toBe(2785);
+      expect(perEvent.revenue).toBeCloseTo(48737.5, 6);
+      expect(perEvent.costs).toBeCloseTo(merchandise ? 12770 : 10542, 6);
+
+      (['weekly', 'monthly', 'quarterly'] as const).forEach(forecastType => {
+        const visitorBased = totals(type, forecastType);
+        expect(visitorBased.footTraffic).toBe(4641);
+        expect(visitorBased.revenue).toBeCloseTo(81217.5, 6);
+        expect(visitorBased.costs).toBeCloseTo(merchandise ? 16482 : 12769.2, 6);
+      });
+    });
+  });
+
+  it('falls back to the default metrics when groups are missing', () => {
+    const { projections } = runProjection({
+      ...makeInputs('Experiential Events', 'weekly'),
+      growthMetrics: null,
+      revenueMetrics: null,
+      costMetrics: null
+    });
+
+    expect(projections).toHaveLength(4);
+    projections.forEach(projection => {
+      expect(projection.footTraffic).toBe(0);
+      expect(projection.totalRevenue).toBe(0);
+      expect(projection.totalCosts).toBe(0);
+    });
+  });
+});
+
+describe('getLineTrace', () => {
+  const result = runProjection(makeInputs('Merchandise Drops', 'weekly'));
+
+  it('traces foot traffic back to the growth inputs', () => {
+    const footTraffic = getLineTrace(result, 2, 'footTraffic');
+
+    expect(footTraffic?.value).toBe(1100);
+    expect(footTraffic?.formula).toBe(
+      'round((baseVisitors × Exponential growthFactor × (1 + socialMediaConversion) + referredVisitors + returningVisitors) × seasonalAttendanceFactor)'
+    );
+    expect(footTraffic?.inputs.baseVisitors).toBe(1000);
+    expect(footTraffic?.inputs.growthFactor).toBeCloseTo(1.1, 10);
+    expect(footTraffic?.inputs.seasonalAttendanceFactor).toBe(1);
+  });
+
+  it('traces revenue lines to price and take-up', () => {
+    expect(getLineTrace(result, 1, 'ticketRevenue')).toEqual({
+      line: 'ticketRevenue',
+      formula: 'footTraffic × ticketPrice × ticketSalesRate',
+      inputs: { footTraffic: 1000, ticketPrice: 20, ticketSalesRate: 0.5 },
+      value: 10000
+    });
+    expect(getLineTrace(result, 1, 'fbRevenue')).toEqual({
+      line: 'fbRevenue',
+      formula: 'footTraffic × fbSpend × fbConversionRate × seasonalSpendFactor',
+      inputs: { footTraffic: 1000, fbSpend: 10, fbConversionRate: 0.4, seasonalSpendFactor: 1 },
+      value: 4000
+    });
+  });
+
+  it('traces cost lines to their inputs', () => {
+    expect(getLineTrace(result, 1, 'marketingCosts')).toEqual({
+      line: 'marketingCosts',
+      formula: 'weeklyBudget',
+      inputs: { weeklyBudget: 500 },
+      value: 500
+    });
+    expect(getLineTrace(result, 1, 'staffingCosts')).toEqual({
+      line: 'staffingCosts',
+      formula: 'eventsPerWeek × additionalStaffingPerEvent × staffingCostPerPerson',
+      inputs: { eventsPerWeek: 2, additionalStaffingPerEvent: 3, staffingCostPerPerson: 100 },
+      value: 600
+    });
+    expect(getLineTrace(result, 1, 'setupCosts')?.inputs).toEqual({ amortized: 200, upfront: 1000, forecastPeriod: 4, week: 1 });
+    expect(getLineTrace(result, 2, 'setupCosts')?.value).toBe(200);
+    expect(getLineTrace(result, 1, 'merchandiseCogs')?.value).toBeCloseTo(800, 6);
+    expect(getLineTrace(result, 1, 'totalCosts')?.inputs).toEqual({
+      marketingCosts: 500,
+      setupCosts: 1200,
+      staffingCosts: 600,
+      eventCosts: 250,
+      fbCogs: 1200,
+      merchandiseCogs: expect.closeTo(800, 6)
+    });
+  });
+
+  it('marks merchandise COGS as not applicable to products without physical goods', () => {
+    const digital = runProjection(makeInputs('Digital Products', 'weekly'));
+
+    expect(getLineTrace(digital, 1, 'merchandiseCogs')).toEqual({
+      line: 'merchandiseCogs',
+      formula: '0 (not applicable to Digital Products)',
+      inputs: {},
+      value: 0
+    });
+  });
+
+  it('returns undefined for weeks outside the forecast', () => {
+    expect(getLineTrace(result, 5, 'totalRevenue')).toBeUndefined();
+  });
+});
+
+describe('getBreakEvenWeek', () => {
+  it('finds the first week with positive cumulative profit', () => {
+    const { projections } = runProjection(makeInputs('Experiential Events', 'weekly'));
+    expect(getBreakEvenWeek(projections)).toBe(1);
+  });
+
+  it('returns null when the forecast never breaks even', () => {
+    const { projections } = runProjection({
+      ...makeInputs('Experiential Events', 'weekly'),
+      revenueMetrics: { ...revenueMetrics, ticketPrice: 0, fbSpend: 0, merchandiseSpend: 0, digitalPrice: 0 }
+    });
+    expect(getBreakEvenWeek(projections)).toBeNull();
+  });
+});
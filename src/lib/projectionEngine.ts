@@ -0,0 +1,437 @@
+/**
+ * Projection Engine
+ * Side-effect-free weekly forecast calculations. Every revenue and cost line
+ * is returned together with a trace of the formula and inputs that produced it,
+ * so any figure in the forecast can be audited without re-deriving it.
+ */
+
+import type {
+  ProductInfo,
+  GrowthMetrics,
+  RevenueMetrics,
+  CostMetrics,
+  GrowthModel,
+  WeeklyProjection
+} from '../types';
+import {
+  DEFAULT_GROWTH_METRICS,
+  DEFAULT_REVENUE_METRICS,
+  DEFAULT_COST_METRICS
+} from '../types';
+import { projectAttendance } from './growthModels';
+import type { AttendanceWeek } from './growthModels';
+import { getSeasonalFactors, getWeekStartDate, toDate, NEUTRAL_SEASONAL_FACTORS } from './seasonality';
+import type { SeasonalFactors, SeasonalityInputs } from './seasonality';
+
+export const DEFAULT_FORECAST_PERIOD = 12;
+
+export type ProjectionLine =
+  | 'footTraffic'
+  | 'ticketRevenue'
+  | 'fbRevenue'
+  | 'merchandiseRevenue'
+  | 'digitalRevenue'
+  | 'totalRevenue'
+  | 'marketingCosts'
+  | 'staffingCosts'
+  | 'eventCosts'
+  | 'setupCosts'
+  | 'fbCogs'
+  | 'merchandiseCogs'
+  | 'totalCosts'
+  | 'weeklyProfit';
+
+export interface LineItemTrace {
+  line: ProjectionLine;
+  formula: string;
+  inputs: Record<string, number>;
+  value: number;
+}
+
+export interface WeeklyProjectionTrace {
+  week: number;
+  lines: LineItemTrace[];
+}
+
+export interface ProjectionInputs {
+  productInfo: ProductInfo;
+  growthMetrics: GrowthMetrics | null;
+  revenueMetrics: RevenueMetrics | null;
+  costMetrics: CostMetrics | null;
+  seasonality?: SeasonalityInputs;
+}
+
+export interface ProjectionResult {
+  projections: WeeklyProjection[];
+  traces: WeeklyProjectionTrace[];
+}
+
+const trace = (
+  line: ProjectionLine,
+  formula: string,
+  inputs: Record<string, number>,
+  value: number
+): LineItemTrace => ({ line, formula, inputs, value });
+
+function projectFootTraffic(
+  attendance: AttendanceWeek,
+  growthModel: GrowthModel,
+  seasonalAttendanceFactor: number
+): LineItemTrace {
+  const unseasonalVisitors = attendance.acquiredVisitors + attendance.referredVisitors + attendance.returningVisitors;
+
+  return trace(
+    'footTraffic',
+    `round((baseVisitors × ${growthModel} growthFactor × (1 + socialMediaConversion) + referredVisitors + returningVisitors) × seasonalAttendanceFactor)`,
+    {
+      baseVisitors: attendance.baseVisitors,
+      growthFactor: attendance.growthFactor,
+      acquiredVisitors: attendance.acquiredVisitors,
+      referredVisitors: attendance.referredVisitors,
+      returningVisitors: attendance.returningVisitors,
+      seasonalAttendanceFactor
+    },
+    Math.round(unseasonalVisitors * seasonalAttendanceFactor)
+  );
+}
+
+function projectMarketingCosts(week: number, costMetrics: CostMetrics): LineItemTrace {
+  const marketing = costMetrics.marketing;
+  const useChannels = marketing.allocationMode === 'channels' ||
+    (!marketing.allocationMode && !!marketing.channels && marketing.channels.length > 0);
+
+  let formula: string;
+  let inputs: Record<string, number>;
+  let baseCost = 0;
+
+  if (useChannels) {
+    const channels = marketing.channels || [];
+    baseCost = channels.reduce((total, channel) => total + (channel.budget || 0), 0);
+    formula = 'Σ channel.budget';
+    inputs = { channelCount: channels.length, channelBudgetTotal: baseCost };
+  } else if (marketing.type === 'campaign') {
+    const campaignBudget = marketing.campaignBudget || 0;
+    const campaignDuration = marketing.campaignDurationWeeks || 1;
+    // Campaign budget is only spent during the campaign itself
+    baseCost = week <= campaignDuration ? campaignBudget / campaignDuration : 0;
+    formula = 'week ≤ campaignDurationWeeks ? campaignBudget ÷ campaignDurationWeeks : 0';
+    inputs = { campaignBudget, campaignDurationWeeks: campaignDuration, week };
+  } else if (marketing.type === 'weekly') {
+    baseCost = marketing.weeklyBudget || 0;
+    formula = 'weeklyBudget';
+    inputs = { weeklyBudget: baseCost };
+  } else {
+    formula = '0 (no marketing budget configured)';
+    inputs = {};
+  }
+
+  const depreciation = marketing.depreciation;
+  if (depreciation?.enabled) {
+    const startWeek = depreciation.startWeek || 1;
+    const rate = depreciation.weeklyDepreciationRate || 0;
+    const minimumAmount = depreciation.minimumAmount || 0;
+
+    if (week >= startWeek) {
+      const depreciationFactor = Math.pow(1 - (rate / 100), week - startWeek);
+      inputs = { ...inputs, baseCost, depreciationFactor, minimumAmount };
+      formula = `max((${formula}) × (1 − weeklyDepreciationRate)^(week − startWeek), minimumAmount)`;
+      baseCost = Math.max(baseCost * depreciationFactor, minimumAmount);
+    }
+  }
+
+  return trace('marketingCosts', formula, inputs, baseCost);
+}
+
+function projectStaffingCosts(productInfo: ProductInfo, costMetrics: CostMetrics): LineItemTrace {
+  const eventsPerWeek = productInfo.eventsPerWeek || 1;
+
+  if (costMetrics.staffRoles && costMetrics.staffRoles.length > 0) {
+    let fullTimeCost = 0;
+    let eventStaffCost = 0;
+
+    costMetrics.staffRoles.forEach(role => {
+      const roleCost = (role.count || 0) * (role.costPerPerson || 0);
+      // Full-time staff are a fixed weekly cost, event staff scale with events
+      if (role.isFullTime) {
+        fullTimeCost += roleCost;
+      } else {
+        eventStaffCost += roleCost * eventsPerWeek;
+      }
+    });
+
+    return trace(
+      'staffingCosts',
+      'Σ fullTime(count × costPerPerson) + Σ eventStaff(count × costPerPerson × eventsPerWeek)',
+      { fullTimeCost, eventStaffCost, eventsPerWeek, roleCount: costMetrics.staffRoles.length },
+      fullTimeCost + eventStaffCost
+    );
+  }
+
+  const additionalStaffingPerEvent = costMetrics.additionalStaffingPerEvent || 0;
+  const staffingCostPerPerson = costMetrics.staffingCostPerPerson || 0;
+
+  return trace(
+    'staffingCosts',
+    'eventsPerWeek × additionalStaffingPerEvent × staffingCostPerPerson',
+    { eventsPerWeek, additionalStaffingPerEvent, staffingCostPerPerson },
+    eventsPerWeek * (additionalStaffingPerEvent * staffingCostPerPerson)
+  );
+}
+
+function projectEventCosts(costMetrics: CostMetrics): LineItemTrace {
+  const eventCosts = Array.isArray(costMetrics.eventCosts) ? costMetrics.eventCosts : [];
+  const total = eventCosts.reduce((sum, cost) => sum + (cost.amount || 0), 0);
+
+  return trace('eventCosts', 'Σ eventCost.amount', { itemCount: eventCosts.length }, total);
+}
+
+function projectSetupCosts(week: number, forecastPeriod: number, costMetrics: CostMetrics): LineItemTrace {
+  const setupCosts = Array.isArray(costMetrics.setupCosts) ? costMetrics.setupCosts : [];
+  let amortized = 0;
+  let upfront = 0;
+
+  setupCosts.forEach(cost => {
+    if (cost.amortize) {
+      amortized += cost.amount / forecastPeriod;
+    } else if (week === 1) {
+      upfront += cost.amount;
+    }
+  });
+
+  return trace(
+    'setupCosts',
+    'Σ amortized(amount ÷ forecastPeriod) + (week = 1 ? Σ upfront amount : 0)',
+    { amortized, upfront, forecastPeriod, week },
+    amortized + upfront
+  );
+}
+
+/**
+ * Project a single week of the forecast, returning the row and its trace
+ */
+function projectWeek(
+  week: number,
+  attendance: AttendanceWeek,
+  productInfo: ProductInfo,
+  growthMetrics: GrowthMetrics,
+  revenueMetrics: RevenueMetrics,
+  costMetrics: CostMetrics,
+  seasonal: SeasonalFactors,
+  weekStartDate: Date | null,
+  previousCumulativeProfit: number
+): { projection: WeeklyProjection; trace: WeeklyProjectionTrace } {
+  const forecastPeriod = productInfo.forecastPeriod || DEFAULT_FORECAST_PERIOD;
+  const eventsPerWeek = productInfo.eventsPerWeek || 1;
+
+  const footTraffic = projectFootTraffic(attendance, growthMetrics.growthModel, seasonal.attendanceFactor);
+  const visitors = footTraffic.value;
+
+  const revenueLine = (
+    line: ProjectionLine,
+    priceKey: string,
+    price: number,
+    rateKey: string,
+    rate: number
+  ): LineItemTrace => trace(
+    line,
+    `footTraffic × ${priceKey} × ${rateKey}`,
+    { footTraffic: visitors, [priceKey]: price, [rateKey]: rate },
+    visitors * price * rate
+  );
+
+  // Per-head spend lines also carry the seasonal spend multiplier
+  const spendLine = (
+    line: ProjectionLine,
+    spendKey: string,
+    spend: number,
+    rateKey: string,
+    rate: number
+  ): LineItemTrace => trace(
+    line,
+    `footTraffic × ${spendKey} × ${rateKey} × seasonalSpendFactor`,
+    { footTraffic: visitors, [spendKey]: spend, [rateKey]: rate, seasonalSpendFactor: seasonal.spendFactor },
+    visitors * spend * rate * seasonal.spendFactor
+  );
+
+  const ticketRevenue = revenueLine(
+    'ticketRevenue', 'ticketPrice', revenueMetrics.ticketPrice || 0,
+    'ticketSalesRate', revenueMetrics.ticketSalesRate || 0
+  );
+  const fbRevenue = spendLine(
+    'fbRevenue', 'fbSpend', revenueMetrics.fbSpend || 0,
+    'fbConversionRate', revenueMetrics.fbConversionRate || 0
+  );
+  const merchandiseRevenue = spendLine(
+    'merchandiseRevenue', 'merchandiseSpend', revenueMetrics.merchandiseSpend || 0,
+    'merchandiseConversionRate', revenueMetrics.merchandiseConversionRate || 0
+  );
+  const digitalRevenue = revenueLine(
+    'digitalRevenue', 'digitalPrice', revenueMetrics.digitalPrice || 0,
+    'digitalConversionRate', revenueMetrics.digitalConversionRate || 0
+  );
+  const totalRevenue = trace(
+    'totalRevenue',
+    'ticketRevenue + fbRevenue + merchandiseRevenue + digitalRevenue',
+    {
+      ticketRevenue: ticketRevenue.value,
+      fbRevenue: fbRevenue.value,
+      merchandiseRevenue: merchandiseRevenue.value,
+      digitalRevenue: digitalRevenue.value
+    },
+    ticketRevenue.value + fbRevenue.value + merchandiseRevenue.value + digitalRevenue.value
+  );
+
+  const marketingCosts = projectMarketingCosts(week, costMetrics);
+  const setupCosts = projectSetupCosts(week, forecastPeriod, costMetrics);
+  const eventCosts = projectEventCosts(costMetrics);
+  const staffingCosts = projectStaffingCosts(productInfo, costMetrics);
+
+  // A missing or zero COGS percentage falls back to the 30% default
+  const fbCogPercentage = Math.min(Math.max(costMetrics.fbCogPercentage || 30, 0), 100);
+  const fbCogs = trace(
+    'fbCogs',
+    'fbRevenue × fbCogPercentage',
+    { fbRevenue: fbRevenue.value, fbCogPercentage: fbCogPercentage / 100 },
+    fbRevenue.value * (fbCogPercentage / 100)
+  );
+
+  // Per-unit merchandise COGS only applies to products that sell physical goods
+  const hasMerchandiseCogs = productInfo.type === 'Food & Beverage Products' ||
+    productInfo.type === 'Merchandise Drops';
+  const effectiveMerchandiseSpend = (revenueMetrics.merchandiseSpend || 0) * seasonal.spendFactor;
+  const merchandiseUnits = merchandiseRevenue.value / (effectiveMerchandiseSpend || 1);
+  const merchandiseCogPerUnit = costMetrics.merchandiseCogPerUnit || 0;
+  const merchandiseCogs = hasMerchandiseCogs
+    ? trace(
+      'merchandiseCogs',
+      '(merchandiseRevenue ÷ merchandiseSpend) × merchandiseCogPerUnit',
+      { merchandiseRevenue: merchandiseRevenue.value, merchandiseUnits, merchandiseCogPerUnit },
+      merchandiseUnits * merchandiseCogPerUnit
+    )
+    : trace('merchandiseCogs', `0 (not applicable to ${productInfo.type})`, {}, 0);
+
+  const costLines = [marketingCosts, setupCosts, staffingCosts, eventCosts, fbCogs, merchandiseCogs];
+  const totalCosts = trace(
+    'totalCosts',
+    'marketingCosts + setupCosts + staffingCosts + eventCosts + fbCogs + merchandiseCogs',
+    Object.fromEntries(costLines.map(item => [item.line, item.value])),
+    costLines.reduce((sum, item) => sum + item.value, 0)
+  );
+
+  const weeklyProfit = trace(
+    'weeklyProfit',
+    'totalRevenue − totalCosts',
+    { totalRevenue: totalRevenue.value, totalCosts: totalCosts.value },
+    totalRevenue.value - totalCosts.value
+  );
+
+  const projection: WeeklyProjection = {
+    week,
+    numberOfEvents: eventsPerWeek,
+    footTraffic: visitors,
+    averageEventAttendance: Math.round(visitors / eventsPerWeek),
+    ticketRevenue: ticketRevenue.value,
+    fbRevenue: fbRevenue.value,
+    merchandiseRevenue: merchandiseRevenue.value,
+    digitalRevenue: digitalRevenue.value,
+    totalRevenue: totalRevenue.value,
+    marketingCosts: marketingCosts.value,
+    staffingCosts: staffingCosts.value,
+    eventCosts: eventCosts.value,
+    setupCosts: setupCosts.value,
+    fbCogs: fbCogs.value,
+    merchandiseCogs: merchandiseCogs.value,
+    totalCosts: totalCosts.value,
+    weeklyProfit: weeklyProfit.value,
+    cumulativeProfit: previousCumulativeProfit + weeklyProfit.value,
+    notes: ''
+  };
+
+  if (weekStartDate) {
+    projection.weekStartDate = weekStartDate.toISOString().slice(0, 10);
+    projection.seasonalAttendanceFactor = seasonal.attendanceFactor;
+    projection.seasonalSpendFactor = seasonal.spendFactor;
+  }
+
+  return {
+    projection,
+    trace: {
+      week,
+      lines: [
+        footTraffic,
+        ticketRevenue,
+        fbRevenue,
+        merchandiseRevenue,
+        digitalRevenue,
+        totalRevenue,
+        ...costLines,
+        totalCosts,
+        weeklyProfit
+      ]
+    }
+  };
+}
+
+/**
+ * Run the weekly forecast for a product.
+ * Missing metric groups fall back to the shared defaults in `types`; seasonal
+ * multipliers are only applied when seasonality is supplied and the product has a launch date.
+ */
+export function runProjection(inputs: ProjectionInputs): ProjectionResult {
+  const { productInfo } = inputs;
+  const growthMetrics = inputs.growthMetrics || DEFAULT_GROWTH_METRICS;
+  const revenueMetrics = inputs.revenueMetrics || DEFAULT_REVENUE_METRICS;
+  const costMetrics = inputs.costMetrics || DEFAULT_COST_METRICS;
+  const forecastPeriod = productInfo.forecastPeriod || DEFAULT_FORECAST_PERIOD;
+
+  const projections: WeeklyProjection[] = [];
+  const traces: WeeklyProjectionTrace[] = [];
+  const attendance = projectAttendance(productInfo, growthMetrics, forecastPeriod);
+  const launchDate = toDate(productInfo.launchDate);
+  let cumulativeProfit = 0;
+
+  for (let week = 1; week <= forecastPeriod; week++) {
+    const weekStartDate = launchDate ? getWeekStartDate(launchDate, week) : null;
+    const seasonal = weekStartDate && inputs.seasonality
+      ? getSeasonalFactors(weekStartDate, inputs.seasonality)
+      : NEUTRAL_SEASONAL_FACTORS;
+
+    const result = projectWeek(
+      week,
+      attendance[week - 1],
+      productInfo,
+      growthMetrics,
+      revenueMetrics,
+      costMetrics,
+      seasonal,
+      weekStartDate,
+      cumulativeProfit
+    );
+    cumulativeProfit = result.projection.cumulativeProfit;
+    projections.push(result.projection);
+    traces.push(result.trace);
+  }
+
+  return { projections, traces };
+}
+
+/**
+ * Look up how a single line of a given week was calculated
+ */
+export function getLineTrace(
+  result: ProjectionResult,
+  week: number,
+  line: ProjectionLine
+): LineItemTrace | undefined {
+  return result.traces
+    .find(weekTrace => weekTrace.week === week)
+    ?.lines.find(item => item.line === line);
+}
+
+/**
+ * First week in which cumulative profit turns positive, or null if it never does
+ */
+export function getBreakEvenWeek(projections: WeeklyProjection[]): number | null {
+  const breakEven = projections.find(projection => projection.cumulativeProfit > 0);
+  return breakEven ? breakEven.week : null;
+}
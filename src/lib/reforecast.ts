@@ -0,0 +1,271 @@
+/**
+ * Reforecast
+ * The latest estimate: recorded weeks taken from the actuals ledger and the
+ * rest of the forecast re-projected with attendance, per-head yields and
+ * venue cost rates recalibrated from those weeks. Saved reforecasts are kept
+ * on the product as forecast snapshots.
+ */
+
+import type {
+  ActualsEntry,
+  ForecastSnapshot,
+  ForecastWeek,
+  Product,
+  ReforecastCalibration,
+  RevenueMetrics,
+  WeeklyProjection
+} from '../types';
+import { DEFAULT_REVENUE_METRICS } from '../types';
+import { getActualsForWeek } from './actualsLedger';
+import { getSnapshotInputs } from './forecastSnapshots';
+
+type RevenueLine = keyof ReforecastCalibration['revenueFactors'];
+type CostLine = keyof ReforecastCalibration['costFactors'];
+
+const REVENUE_LINES: RevenueLine[] = ['ticketRevenue', 'fbRevenue', 'merchandiseRevenue', 'digitalRevenue'];
+const COST_LINES: CostLine[] = ['staffingCosts', 'eventCosts'];
+
+/**
+ * Actuals record takings rather than transactions, so a stream's per-head
+ * yield is credited to the driver that usually moves: the conversion rate
+ * where the price is set, and the spend per head where it isn't.
+ */
+const YIELD_DRIVERS: Record<RevenueLine, 'ticketSalesRate' | 'fbSpend' | 'merchandiseSpend' | 'digitalConversionRate'> = {
+  ticketRevenue: 'ticketSalesRate',
+  fbRevenue: 'fbSpend',
+  merchandiseRevenue: 'merchandiseSpend',
+  digitalRevenue: 'digitalConversionRate'
+};
+
+export interface LatestEstimate {
+  weeks: ForecastWeek[];
+  calibration: ReforecastCalibration;
+  actualsThroughWeek: number; // 0 when nothing has been recorded yet
+}
+
+// A month of the latest estimate, split into what was recorded and what is still forecast
+export interface MonthEndSummary {
+  month: string; // 'yyyy-MM'
+  actualRevenue: number;
+  forecastRevenue: number;
+  actualProfit: number;
+  forecastProfit: number;
+  planRevenue: number;
+  planProfit: number;
+  actualWeeks: number;
+  forecastWeeks: number;
+}
+
+const ratio = (actual: number, planned: number): number => planned > 0 ? actual / planned : 1;
+
+/**
+ * Work out calibration factors from the weeks recorded in actuals. Weeks
+ * without foot traffic are left out of the attendance and yield factors, and
+ * a week only counts towards a line it has figures for; with nothing to go
+ * on, a factor stays at 1 (the plan).
+ */
+export function calibrateFromActuals(
+  plan: WeeklyProjection[],
+  actuals: ActualsEntry[] | undefined,
+  revenueMetrics: RevenueMetrics | null
+): ReforecastCalibration {
+  const recorded = plan
+    .map(week => ({ week, actual: getActualsForWeek(actuals, week.week) }))
+    .filter((pair): pair is { week: WeeklyProjection; actual: ActualsEntry } => !!pair.actual);
+  const withTraffic = recorded.filter(({ week, actual }) => (actual.footTraffic || 0) > 0 && week.footTraffic > 0);
+
+  const attendanceFactor = ratio(
+    withTraffic.reduce((sum, { actual }) => sum + (actual.footTraffic || 0), 0),
+    withTraffic.reduce((sum, { week }) => sum + week.footTraffic, 0)
+  );
+
+  // Per-head yields compare actual takings with the plan's takings at the traffic that actually came
+  const plannedAtActualTraffic = (week: WeeklyProjection, actual: ActualsEntry, line: RevenueLine | 'totalRevenue') =>
+    (week[line] / week.footTraffic) * (actual.footTraffic || 0);
+
+  const totalFactor = ratio(
+    withTraffic.reduce((sum, { actual }) => sum + actual.totalRevenue, 0),
+    withTraffic.reduce((sum, { week, actual }) => sum + plannedAtActualTraffic(week, actual, 'totalRevenue'), 0)
+  );
+
+  const revenueFactors = {} as ReforecastCalibration['revenueFactors'];
+  REVENUE_LINES.forEach(line => {
+    const weeks = withTraffic.filter(({ actual }) => actual[line] !== undefined);
+    revenueFactors[line] = weeks.length === 0
+      ? totalFactor
+      : ratio(
+        weeks.reduce((sum, { actual }) => sum + (actual[line] || 0), 0),
+        weeks.reduce((sum, { week, actual }) => sum + plannedAtActualTraffic(week, actual, line), 0)
+      );
+  });
+
+  const costFactors = {} as ReforecastCalibration['costFactors'];
+  COST_LINES.forEach(line => {
+    const weeks = recorded.filter(({ actual }) => actual[line] !== undefined);
+    costFactors[line] = ratio(
+      weeks.reduce((sum, { actual }) => sum + (actual[line] || 0), 0),
+      weeks.reduce((sum, { week }) => sum + (week[line] || 0), 0)
+    );
+  });
+
+  const calibratedMetrics: RevenueMetrics = { ...(revenueMetrics || DEFAULT_REVENUE_METRICS) };
+  REVENUE_LINES.forEach(line => {
+    const driver = YIELD_DRIVERS[line];
+    calibratedMetrics[driver] = (calibratedMetrics[driver] || 0) * revenueFactors[line];
+  });
+
+  return {
+    weeksUsed: recorded.map(({ week }) => week.week),
+    attendanceFactor,
+    revenueFactors,
+    costFactors,
+    revenueMetrics: calibratedMetrics
+  };
+}
+
+// A recorded week in the shape of a forecast row; lines it has no figures for are 0
+function actualWeek(week: WeeklyProjection, actual: ActualsEntry): ForecastWeek {
+  return {
+    ...week,
+    numberOfEvents: actual.numberOfEvents ?? week.numberOfEvents,
+    footTraffic: actual.footTraffic ?? 0,
+    averageEventAttendance: actual.averageEventAttendance ?? 0,
+    ticketRevenue: actual.ticketRevenue ?? 0,
+    fbRevenue: actual.fbRevenue ?? 0,
+    merchandiseRevenue: actual.merchandiseRevenue ?? 0,
+    digitalRevenue: actual.digitalRevenue ?? 0,
+    totalRevenue: actual.totalRevenue,
+    marketingCosts: actual.marketingCosts ?? 0,
+    staffingCosts: actual.staffingCosts ?? 0,
+    eventCosts: actual.eventCosts ?? 0,
+    setupCosts: actual.setupCosts ?? 0,
+    fbCogs: actual.fbCogs ?? 0,
+    merchandiseCogs: actual.merchandiseCogs ?? 0,
+    totalCosts: actual.totalCosts,
+    weeklyProfit: actual.totalRevenue - actual.totalCosts,
+    notes: actual.notes || '',
+    source: 'actual'
+  };
+}
+
+/**
+ * Re-project a planned week with the calibration. Revenue scales with traffic
+ * and yield, F&B COGS with F&B revenue and merchandise COGS with traffic (the
+ * yield goes into spend per head, not units sold). Marketing and setup costs
+ * stay as budgeted.
+ */
+function reprojectWeek(week: WeeklyProjection, calibration: ReforecastCalibration): ForecastWeek {
+  const { attendanceFactor, revenueFactors, costFactors } = calibration;
+  const footTraffic = Math.round(week.footTraffic * attendanceFactor);
+
+  const revenue = {} as Record<RevenueLine, number>;
+  REVENUE_LINES.forEach(line => {
+    revenue[line] = week[line] * attendanceFactor * revenueFactors[line];
+  });
+  const totalRevenue = REVENUE_LINES.reduce((sum, line) => sum + revenue[line], 0);
+
+  const staffingCosts = week.staffingCosts * costFactors.staffingCosts;
+  const eventCosts = week.eventCosts * costFactors.eventCosts;
+  const fbCogs = (week.fbCogs || 0) * attendanceFactor * revenueFactors.fbRevenue;
+  const merchandiseCogs = (week.merchandiseCogs || 0) * attendanceFactor;
+  const totalCosts = week.marketingCosts + week.setupCosts + staffingCosts + eventCosts + fbCogs + merchandiseCogs;
+
+  return {
+    ...week,
+    footTraffic,
+    averageEventAttendance: Math.round(footTraffic / (week.numberOfEvents || 1)),
+    ...revenue,
+    totalRevenue,
+    staffingCosts,
+    eventCosts,
+    fbCogs,
+    merchandiseCogs,
+    totalCosts,
+    weeklyProfit: totalRevenue - totalCosts,
+    source: 'forecast'
+  };
+}
+
+/**
+ * The latest estimate for a product: actual weeks as recorded, and the weeks
+ * after the last recorded one re-projected from the plan with the calibration.
+ * A gap before the last recorded week is re-projected too.
+ */
+export function buildLatestEstimate(product: Product): LatestEstimate {
+  const plan = product.weeklyProjections || [];
+  const calibration = calibrateFromActuals(plan, product.actuals, product.revenueMetrics);
+  let cumulativeProfit = 0;
+
+  const weeks = plan.map(week => {
+    const actual = getActualsForWeek(product.actuals, week.week);
+    const estimate = actual ? actualWeek(week, actual) : reprojectWeek(week, calibration);
+    cumulativeProfit += estimate.weeklyProfit;
+    return { ...estimate, cumulativeProfit };
+  });
+
+  return {
+    weeks,
+    calibration,
+    actualsThroughWeek: Math.max(0, ...calibration.weeksUsed)
+  };
+}
+
+/**
+ * Save the latest estimate as a reforecast snapshot
+ */
+export function createReforecastSnapshot(product: Product, name?: string): ForecastSnapshot {
+  const estimate = buildLatestEstimate(product);
+  return {
+    id: crypto.randomUUID(),
+    name: name?.trim() || (estimate.actualsThroughWeek > 0
+      ? `Reforecast after week ${estimate.actualsThroughWeek}`
+      : 'Reforecast'),
+    kind: 'reforecast',
+    createdAt: new Date(),
+    inputs: getSnapshotInputs(product),
+    actualsThroughWeek: estimate.actualsThroughWeek,
+    calibration: estimate.calibration,
+    weeks: estimate.weeks
+  };
+}
+
+/**
+ * Month-end view of the latest estimate: actual to date plus forecast for the
+ * rest of each month, next to the plan. Weeks count towards the month they
+ * start in, so this needs the week start dates set from a launch date.
+ */
+export function summarizeByMonth(weeks: ForecastWeek[], plan: WeeklyProjection[]): MonthEndSummary[] {
+  const months = new Map<string, MonthEndSummary>();
+
+  weeks.forEach(week => {
+    if (!week.weekStartDate) return;
+    const month = week.weekStartDate.slice(0, 7);
+    const summary = months.get(month) || {
+      month,
+      actualRevenue: 0,
+      forecastRevenue: 0,
+      actualProfit: 0,
+      forecastProfit: 0,
+      planRevenue: 0,
+      planProfit: 0,
+      actualWeeks: 0,
+      forecastWeeks: 0
+    };
+    const planned = plan.find(row => row.week === week.week);
+
+    if (week.source === 'actual') {
+      summary.actualRevenue += week.totalRevenue;
+      summary.actualProfit += week.weeklyProfit;
+      summary.actualWeeks++;
+    } else {
+      summary.forecastRevenue += week.totalRevenue;
+      summary.forecastProfit += week.weeklyProfit;
+      summary.forecastWeeks++;
+    }
+    summary.planRevenue += planned?.totalRevenue || 0;
+    summary.planProfit += planned?.weeklyProfit || 0;
+    months.set(month, summary);
+  });
+
+  return [...months.values()];
+}
@@ -0,0 +1,165 @@
+/**
+ * Scenario Diff
+ * Field-level differences between two scenarios (or a scenario and the live
+ * baseline), and the branching tree formed by scenarios' parent references.
+ */
+
+import type { Scenario } from '../types';
+import { getBreakEvenWeek } from './projectionEngine';
+import { MODEL_INPUTS, findModelInput } from './modelInputs';
+import type { ModelInputGroup, ModelInputs } from './modelInputs';
+import { applyScenario, runScenario, sumProjections } from './scenarioEngine';
+
+// One side of a diff: a scenario's overrides, or null for the baseline
+export type DiffSide = Pick<Scenario, 'overrides'> | null;
+
+export interface DriverDiff {
+  key: string;
+  label: string;
+  group: ModelInputGroup;
+  leftValue: number;
+  rightValue: number;
+}
+
+export interface OutcomeDiff {
+  key: 'totalRevenue' | 'totalCosts' | 'profit' | 'footTraffic' | 'breakEvenWeek';
+  label: string;
+  leftValue: number | null;
+  rightValue: number | null;
+}
+
+export interface ScenarioDiff {
+  // Only the drivers whose effective value differs
+  drivers: DriverDiff[];
+  outcomes: OutcomeDiff[];
+  // Override drivers on either side that aren't model inputs, so have no effect
+  unknownDrivers: string[];
+}
+
+export interface ScenarioTreeNode {
+  scenario: Scenario;
+  depth: number;
+  children: ScenarioTreeNode[];
+}
+
+const VALUE_TOLERANCE = 1e-9;
+
+const OUTCOME_LABELS: Record<OutcomeDiff['key'], string> = {
+  totalRevenue: 'Total Revenue',
+  totalCosts: 'Total Costs',
+  profit: 'Total Profit',
+  footTraffic: 'Attendance',
+  breakEvenWeek: 'Break-even Week'
+};
+
+function getOutcomes(inputs: ModelInputs, side: DiffSide): Record<OutcomeDiff['key'], number | null> {
+  const { projections } = runScenario(inputs, side || {});
+  const totals = sumProjections(projections);
+  return {
+    totalRevenue: totals.totalRevenue,
+    totalCosts: totals.totalCosts,
+    profit: totals.profit,
+    footTraffic: totals.footTraffic,
+    breakEvenWeek: getBreakEvenWeek(projections)
+  };
+}
+
+/**
+ * Compare the effective driver values and forecast outcomes of two sides.
+ * Drivers are compared after overrides are applied, so an absolute and a
+ * percentage override that land on the same value show no difference.
+ */
+export function diffScenarios(inputs: ModelInputs, left: DiffSide, right: DiffSide): ScenarioDiff {
+  const leftInputs = applyScenario(inputs, left || {});
+  const rightInputs = applyScenario(inputs, right || {});
+
+  const drivers = MODEL_INPUTS
+    .map(input => ({
+      key: input.key,
+      label: input.label,
+      group: input.group,
+      leftValue: input.get(leftInputs),
+      rightValue: input.get(rightInputs)
+    }))
+    .filter(diff => Math.abs(diff.leftValue - diff.rightValue) > VALUE_TOLERANCE);
+
+  const leftOutcomes = getOutcomes(inputs, left);
+  const rightOutcomes = getOutcomes(inputs, right);
+  const outcomes = (Object.keys(OUTCOME_LABELS) as OutcomeDiff['key'][]).map(key => ({
+    key,
+    label: OUTCOME_LABELS[key],
+    leftValue: leftOutcomes[key],
+    rightValue: rightOutcomes[key]
+  }));
+
+  const unknownDrivers = [...(left?.overrides || []), ...(right?.overrides || [])]
+    .map(override => override.driver)
+    .filter((driver, index, all) => !findModelInput(driver) && all.indexOf(driver) === index);
+
+  return { drivers, outcomes, unknownDrivers };
+}
+
+/**
+ * Arrange scenarios into trees by parent. Scenarios whose parent is missing
+ * (deleted, or never set) are roots; order within each level is kept.
+ */
+export function buildScenarioTree(scenarios: Scenario[]): ScenarioTreeNode[] {
+  const ids = new Set(scenarios.map(scenario => scenario.id));
+  const childrenOf = new Map<string, Scenario[]>();
+  scenarios.forEach(scenario => {
+    if (scenario.parentId && ids.has(scenario.parentId) && scenario.parentId !== scenario.id) {
+      childrenOf.set(scenario.parentId, [...(childrenOf.get(scenario.parentId) || []), scenario]);
+    }
+  });
+
+  const visited = new Set<string>();
+  const buildNode = (scenario: Scenario, depth: number): ScenarioTreeNode => {
+    visited.add(scenario.id);
+    return {
+      scenario,
+      depth,
+      children: (childrenOf.get(scenario.id) || [])
+        .filter(child => !visited.has(child.id))
+        .map(child => buildNode(child, depth + 1))
+    };
+  };
+
+  const roots = scenarios
+    .filter(scenario => !scenario.parentId || !ids.has(scenario.parentId) || scenario.parentId === scenario.id)
+    .map(scenario => buildNode(scenario, 0));
+
+  // Scenarios caught in a parent cycle have no root; show them at the top level
+  scenarios.forEach(scenario => {
+    if (!visited.has(scenario.id)) {
+      roots.push(buildNode(scenario, 0));
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Depth-first list of the tree, for indented tables
+ */
+export function flattenScenarioTree(nodes: ScenarioTreeNode[]): ScenarioTreeNode[] {
+  return nodes.flatMap(node => [node, ...flattenScenarioTree(node.children)]);
+}
+
+/**
+ * Chain of parents from the scenario's direct parent up to its root
+ */
+export function getScenarioAncestors(scenarios: Scenario[], scenarioId: string): Scenario[] {
+  const ancestors: Scenario[] = [];
+  const seen = new Set<string>([scenarioId]);
+  let parentId = scenarios.find(scenario => scenario.id === scenarioId)?.parentId;
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = scenarios.find(scenario => scenario.id === parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+}
@@ -0,0 +1,299 @@
+/**
+ * Scenario Engine
+ * Applies a scenario's driver overrides to the base forecast inputs and runs the
+ * result through the projection engine, and migrates the older stored scenario
+ * shapes (percentage modifiers and *Adjustment fields) to overrides.
+ */
+
+import type { Product, Scenario, ScenarioOverride, ScenarioType, WeeklyProjection } from '../types';
+import { runProjection } from './projectionEngine';
+import type { ProjectionResult } from './projectionEngine';
+import { findModelInput } from './modelInputs';
+import type { ModelInputs } from './modelInputs';
+
+/**
+ * Line-level levers used by the slider editors. Each moves the drivers behind
+ * one projection line by the same percentage.
+ */
+export const SCENARIO_LEVERS = [
+  'ticketRevenue',
+  'fbRevenue',
+  'merchandiseRevenue',
+  'digitalRevenue',
+  'marketingCost',
+  'staffingCost',
+  'eventCost',
+  'setupCost',
+  'attendance'
+] as const;
+
+export type ScenarioLever = typeof SCENARIO_LEVERS[number];
+
+export const SCENARIO_LEVER_DRIVERS: Record<ScenarioLever, string[]> = {
+  ticketRevenue: ['ticketPrice'],
+  fbRevenue: ['fbSpend'],
+  merchandiseRevenue: ['merchandiseSpend'],
+  digitalRevenue: ['digitalPrice'],
+  marketingCost: ['marketing.weeklyBudget', 'marketing.campaignBudget', 'marketing.channels'],
+  staffingCost: ['staffingCostPerPerson', 'staffRoles'],
+  eventCost: ['eventCosts'],
+  setupCost: ['setupCosts'],
+  attendance: ['weeklyVisitors', 'visitorsPerEvent']
+};
+
+export interface ProjectionTotals {
+  footTraffic: number;
+  ticketRevenue: number;
+  fbRevenue: number;
+  merchandiseRevenue: number;
+  digitalRevenue: number;
+  totalRevenue: number;
+  marketingCosts: number;
+  staffingCosts: number;
+  eventCosts: number;
+  setupCosts: number;
+  totalCosts: number;
+  profit: number;
+}
+
+/**
+ * Apply overrides in order. Percent overrides scale the value left by the ones
+ * before them; drivers that aren't model inputs are skipped.
+ */
+export function applyOverrides(inputs: ModelInputs, overrides: ScenarioOverride[] = []): ModelInputs {
+  return overrides.reduce((current, override) => {
+    const input = findModelInput(override.driver);
+    if (!input) return current;
+
+    const value = override.mode === 'percent'
+      ? input.get(current) * (1 + override.value / 100)
+      : override.value;
+    return input.apply(current, input.max !== undefined ? Math.min(value, input.max) : value);
+  }, inputs);
+}
+
+export function applyScenario(inputs: ModelInputs, scenario: Pick<Scenario, 'overrides'>): ModelInputs {
+  return applyOverrides(inputs, scenario.overrides);
+}
+
+/**
+ * Run the weekly forecast with the scenario's overrides applied
+ */
+export function runScenario(inputs: ModelInputs, scenario: Pick<Scenario, 'overrides'>): ProjectionResult {
+  return runProjection(applyScenario(inputs, scenario));
+}
+
+/**
+ * Sum each projection line over the forecast
+ */
+export function sumProjections(projections: WeeklyProjection[]): ProjectionTotals {
+  const totals: ProjectionTotals = {
+    footTraffic: 0,
+    ticketRevenue: 0,
+    fbRevenue: 0,
+    merchandiseRevenue: 0,
+    digitalRevenue: 0,
+    totalRevenue: 0,
+    marketingCosts: 0,
+    staffingCosts: 0,
+    eventCosts: 0,
+    setupCosts: 0,
+    totalCosts: 0,
+    profit: 0
+  };
+
+  projections.forEach(week => {
+    totals.footTraffic += week.footTraffic;
+    totals.ticketRevenue += week.ticketRevenue;
+    totals.fbRevenue += week.fbRevenue;
+    totals.merchandiseRevenue += week.merchandiseRevenue;
+    totals.digitalRevenue += week.digitalRevenue;
+    totals.totalRevenue += week.totalRevenue;
+    totals.marketingCosts += week.marketingCosts;
+    totals.staffingCosts += week.staffingCosts;
+    totals.eventCosts += week.eventCosts;
+    totals.setupCosts += week.setupCosts;
+    totals.totalCosts += week.totalCosts;
+  });
+  totals.profit = totals.totalRevenue - totals.totalCosts;
+
+  return totals;
+}
+
+/**
+ * Projected and original totals to store on a scenario, so lists and
+ * comparisons can show them without re-running the forecast
+ */
+export function getScenarioOutcome(
+  inputs: ModelInputs,
+  scenario: Pick<Scenario, 'overrides'>
+): Pick<Scenario, 'projectedRevenue' | 'projectedCosts' | 'projectedProfit' | 'projectedAttendance' |
+  'originalRevenue' | 'originalCosts' | 'originalProfit' | 'originalAttendance'> {
+  const original = sumProjections(runProjection(inputs).projections);
+  const projected = sumProjections(runScenario(inputs, scenario).projections);
+
+  return {
+    projectedRevenue: projected.totalRevenue,
+    projectedCosts: projected.totalCosts,
+    projectedProfit: projected.profit,
+    projectedAttendance: projected.footTraffic,
+    originalRevenue: original.totalRevenue,
+    originalCosts: original.totalCosts,
+    originalProfit: original.profit,
+    originalAttendance: original.footTraffic
+  };
+}
+
+/**
+ * Current percentage set on a lever, or 0 when it is untouched
+ */
+export function getLeverPercent(scenario: Pick<Scenario, 'overrides'> | null | undefined, lever: ScenarioLever): number {
+  const [driver] = SCENARIO_LEVER_DRIVERS[lever];
+  const override = scenario?.overrides?.find(o => o.driver === driver && o.mode === 'percent');
+  return override ? override.value : 0;
+}
+
+/**
+ * Replace any overrides on the lever's drivers with a single percentage change
+ */
+export function setLeverPercent(
+  overrides: ScenarioOverride[] = [],
+  lever: ScenarioLever,
+  percent: number
+): ScenarioOverride[] {
+  const drivers = SCENARIO_LEVER_DRIVERS[lever];
+  const others = overrides.filter(o => !drivers.includes(o.driver));
+  if (percent === 0) return others;
+
+  return [...others, ...drivers.map(driver => ({ driver, mode: 'percent' as const, value: percent }))];
+}
+
+// Migration of stored scenarios
+
+/**
+ * Scenario shape used by the original scenario pages, stored separately from
+ * products. Some records keep attendance as `{ footTraffic }` and `lastModified`.
+ */
+export interface LegacyScenarioModel {
+  id: string;
+  name: string;
+  productId: string;
+  description: string;
+  modifiers: {
+    revenue: Partial<Record<'ticketRevenue' | 'fbRevenue' | 'merchandiseRevenue' | 'digitalRevenue', number>>;
+    costs: Partial<Record<'marketingCost' | 'staffingCost' | 'eventCost' | 'setupCost', number>>;
+    attendance: number | { footTraffic: number };
+  };
+  createdAt?: string;
+  updatedAt?: string;
+  lastModified?: string;
+  variant?: 'optimistic' | 'pessimistic' | 'neutral' | 'custom';
+}
+
+// Percentage *Adjustment fields once carried on Scenario, and the drivers they moved
+const LEGACY_ADJUSTMENT_DRIVERS: Record<string, string[]> = {
+  ticketPriceAdjustment: ['ticketPrice'],
+  ticketSalesRateAdjustment: ['ticketSalesRate'],
+  fbSpendAdjustment: ['fbSpend'],
+  fbConversionRateAdjustment: ['fbConversionRate'],
+  merchandiseSpendAdjustment: ['merchandiseSpend'],
+  merchandiseConversionRateAdjustment: ['merchandiseConversionRate'],
+  digitalPriceAdjustment: ['digitalPrice'],
+  venueCostAdjustment: ['eventCosts'],
+  licensingCostAdjustment: ['eventCosts'],
+  equipmentCostAdjustment: ['setupCosts'],
+  developmentCostAdjustment: ['setupCosts'],
+  staffingCostAdjustment: SCENARIO_LEVER_DRIVERS.staffingCost,
+  marketingCostAdjustment: SCENARIO_LEVER_DRIVERS.marketingCost,
+  merchandiseCostAdjustment: ['merchandiseCogPerUnit'],
+  weeklyVisitorsAdjustment: ['weeklyVisitors'],
+  visitorsPerEventAdjustment: ['visitorsPerEvent'],
+  weeklyGrowthRateAdjustment: ['weeklyGrowthRate'],
+  returnVisitRateAdjustment: ['returnVisitRate']
+};
+
+const VARIANT_TYPES: Record<NonNullable<LegacyScenarioModel['variant']>, ScenarioType> = {
+  optimistic: 'Best Case',
+  pessimistic: 'Worst Case',
+  neutral: 'Base Case',
+  custom: 'Custom'
+};
+
+export type StoredScenario = Scenario | LegacyScenarioModel;
+
+const isLegacyScenarioModel = (stored: StoredScenario): stored is LegacyScenarioModel =>
+  'modifiers' in stored && typeof stored.modifiers === 'object' && stored.modifiers !== null;
+
+const hasLegacyAdjustments = (stored: StoredScenario): boolean =>
+  Object.keys(LEGACY_ADJUSTMENT_DRIVERS).some(field => field in stored);
+
+const toDateOrUndefined = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+function fromScenarioModel(legacy: LegacyScenarioModel): Scenario {
+  const { revenue = {}, costs = {}, attendance } = legacy.modifiers;
+  const levers: Partial<Record<ScenarioLever, number>> = {
+    ...revenue,
+    ...costs,
+    attendance: typeof attendance === 'number' ? attendance : attendance?.footTraffic
+  };
+
+  const overrides = SCENARIO_LEVERS.reduce<ScenarioOverride[]>(
+    (result, lever) => setLeverPercent(result, lever, levers[lever] || 0),
+    []
+  );
+
+  return {
+    id: legacy.id,
+    name: legacy.name,
+    description: legacy.description || '',
+    productId: legacy.productId,
+    type: legacy.variant ? VARIANT_TYPES[legacy.variant] : 'Custom',
+    overrides,
+    createdAt: toDateOrUndefined(legacy.createdAt),
+    updatedAt: toDateOrUndefined(legacy.updatedAt || legacy.lastModified)
+  };
+}
+
+function fromAdjustmentFields(stored: Scenario): Scenario {
+  const migrated: Scenario & Record<string, unknown> = { ...stored };
+  const overrides = [...(stored.overrides || [])];
+
+  // Fields sharing a driver (venue and licensing costs, say) compound, as both line items moved
+  Object.entries(LEGACY_ADJUSTMENT_DRIVERS).forEach(([field, drivers]) => {
+    const value = migrated[field];
+    delete migrated[field];
+    if (typeof value === 'number' && value !== 0) {
+      drivers.forEach(driver => overrides.push({ driver, mode: 'percent', value }));
+    }
+  });
+
+  return { ...migrated, overrides };
+}
+
+/**
+ * Bring a stored scenario of either older shape up to the current one.
+ * Scenarios already in the current shape are returned unchanged.
+ */
+export function migrateScenario(stored: StoredScenario): Scenario {
+  if (isLegacyScenarioModel(stored)) return fromScenarioModel(stored);
+  if (hasLegacyAdjustments(stored)) return fromAdjustmentFields(stored);
+  return stored;
+}
+
+/**
+ * Migrate a product's own scenarios and fold in legacy scenarios saved
+ * separately for it. Returns the same product when nothing changed.
+ */
+export function migrateProductScenarios(product: Product, legacyScenarios: LegacyScenarioModel[] = []): Product {
+  const current = (product.scenarios || []) as StoredScenario[];
+  const existingIds = new Set(current.map(scenario => scenario.id));
+  const additions = legacyScenarios.filter(legacy =>
+    legacy.productId === product.info.id && !existingIds.has(legacy.id)
+  );
+
+  const migrated = current.map(migrateScenario);
+  const changed = additions.length > 0 || migrated.some((scenario, index) => scenario !== current[index]);
+  if (!changed) return product;
+
+  return { ...product, scenarios: [...migrated, ...additions.map(fromScenarioModel)] };
+}
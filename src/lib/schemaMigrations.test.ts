@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  getMigrationBackups,
+  migrateProduct,
+  migrateProducts
+} from './schemaMigrations';
+import type { Product } from '../types';
+
+// Products as older versions of the app saved them
+const legacyWeeklyActuals = [
+  {
+    id: 'tracker-1',
+    date: '2024-03-04',
+    week: 1,
+    footTraffic: 950,
+    revenue: 12000,
+    ticketRevenue: 9000,
+    expenses: 7000,
+    marketingCosts: 500
+  },
+  {
+    // Saved by the tracker with zeros for the totals it didn't record
+    id: 'tracker-2',
+    date: '2024-03-11',
+    week: 2,
+    footTraffic: 1020,
+    revenue: 0,
+    expenses: 0,
+    marketingCosts: 0
+  }
+];
+
+const legacyActualMetrics = [
+  {
+    id: 'metric-1',
+    week: 1,
+    year: 2024,
+    revenue: 11500, // Legacy field, before version 2
+    eventCount: 3, // Legacy field, before version 2
+    totalCosts: 6800,
+    channelPerformance: [{ channelId: 'social', spend: 200, revenue: 900, conversions: 12 }]
+  },
+  {
+    id: 'metric-2',
+    week: 2,
+    year: 2024,
+    totalRevenue: 13400,
+    totalCosts: 7600,
+    marketingCost: 650,
+    technologyCost: 100,
+    otherCosts: 50
+  },
+  {
+    id: 'metric-3',
+    week: 3,
+    year: 2024,
+    revenue: 14100,
+    eventCount: 4,
+    totalCosts: 8100
+  }
+];
+
+const legacyScenario = {
+  id: 'scenario-1',
+  name: 'Price rise',
+  description: '',
+  type: 'Custom',
+  assumptions: [],
+  projectedRevenue: 0,
+  projectedCosts: 0,
+  projectedProfit: 0,
+  probabilityOfOccurrence: 50,
+  riskFactors: [],
+  ticketPriceAdjustment: 10,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+function makeV0Product(): Product {
+  return {
+    id: 'product-1',
+    info: { id: 'product-1', name: 'Night market', type: 'Experiential Events' },
+    scenarios: [{ ...legacyScenario }],
+    actuals: legacyWeeklyActuals.map(entry => ({ ...entry })),
+    actualMetrics: legacyActualMetrics.map(metric => ({ ...metric }))
+  } as unknown as Product;
+}
+
+const step = (version: number) => {
+  const migration = SCHEMA_MIGRATIONS.find(item => item.version === version);
+  if (!migration) throw new Error(`No migration to version ${version}`);
+  return migration.migrate;
+};
+
+// Run every step up to and including `version`, as migrateProduct would
+const migrateTo = (product: Product, version: number) =>
+  SCHEMA_MIGRATIONS
+    .filter(migration => migration.version <= version)
+    .reduce((current, migration) => migration.migrate(current), product);
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key: string) => items.get(key) ?? null,
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key: string) => { items.delete(key); },
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('schema migration steps', () => {
+  it('runs in version order up to the current version', () => {
+    expect(SCHEMA_MIGRATIONS.map(migration => migration.version)).toEqual([1, 2, 3, 4]);
+    expect(CURRENT_SCHEMA_VERSION).toBe(4);
+  });
+
+  it('v1 fills in lists missing from old products', () => {
+    const bare = { id: 'bare', info: { id: 'bare' }, scenarios: [] } as unknown as Product;
+    const migrated = step(1)(bare) as Product & { actualMetrics: unknown[] };
+
+    expect(migrated.weeklyProjections).toEqual([]);
+    expect(migrated.actuals).toEqual([]);
+    expect(migrated.actualMetrics).toEqual([]);
+    expect(migrated.risks).toEqual([]);
+  });
+
+  it('v1 keeps lists that are already there', () => {
+    const product = makeV0Product();
+    const migrated = step(1)(product);
+
+    expect(migrated.actuals).toBe(product.actuals);
+  });
+
+  it('v2 moves actual metrics off the legacy revenue and eventCount fields', () => {
+    const migrated = step(2)(step(1)(makeV0Product())) as unknown as { actualMetrics: Record<string, unknown>[] };
+    const [first, second, third] = migrated.actualMetrics;
+
+    expect(first).toMatchObject({ totalRevenue: 11500, numberOfEvents: 3 });
+    expect(first).not.toHaveProperty('revenue');
+    expect(first).not.toHaveProperty('eventCount');
+    expect(second).toMatchObject({ totalRevenue: 13400 });
+    expect(third).toMatchObject({ totalRevenue: 14100, numberOfEvents: 4 });
+  });
+
+  it('v2 keeps a current total over the legacy revenue field', () => {
+    const product = {
+      ...makeV0Product(),
+      actualMetrics: [{ id: 'metric', week: 1, year: 2024, revenue: 100, totalRevenue: 250 }]
+    } as unknown as Product;
+    const migrated = step(2)(product) as unknown as { actualMetrics: Record<string, unknown>[] };
+
+    expect(migrated.actualMetrics[0]).toEqual({ id: 'metric', week: 1, year: 2024, totalRevenue: 250, numberOfEvents: undefined });
+  });
+
+  it('v3 converts scenario adjustment fields to overrides', () => {
+    const migrated = step(3)(migrateTo(makeV0Product(), 2));
+    const [scenario] = migrated.scenarios ?? [];
+
+    expect(scenario).not.toHaveProperty('ticketPriceAdjustment');
+    expect(scenario.overrides).toEqual([{ driver: 'ticketPrice', mode: 'percent', value: 10 }]);
+  });
+
+  it('v4 consolidates weekly actuals and actual metrics into one ledger', () => {
+    const migrated = step(4)(migrateTo(makeV0Product(), 3));
+
+    expect(migrated).not.toHaveProperty('actualMetrics');
+    expect(migrated.actuals.map(entry => entry.week)).toEqual([1, 2, 3]);
+    migrated.actuals.forEach(entry => {
+      expect(entry).not.toHaveProperty('revenue');
+      expect(entry).not.toHaveProperty('expenses');
+    });
+  });
+
+  it('v4 keeps the tracker figures for a week both recorded, filling gaps from the metrics', () => {
+    const [week1] = step(4)(migrateTo(makeV0Product(), 3)).actuals;
+
+    expect(week1).toMatchObject({
+      id: 'tracker-1',
+      date: '2024-03-04',
+      footTraffic: 950,
+      totalRevenue: 12000,
+      ticketRevenue: 9000,
+      totalCosts: 7000,
+      marketingCosts: 500,
+      numberOfEvents: 3,
+      channelPerformance: [{ channelId: 'social', spend: 200, revenue: 900, conversions: 12 }]
+    });
+  });
+
+  it('v4 takes totals from the metrics when the tracker only has zero defaults', () => {
+    const week2 = step(4)(migrateTo(makeV0Product(), 3)).actuals[1];
+
+    expect(week2).toMatchObject({
+      id: 'tracker-2',
+      footTraffic: 1020,
+      totalRevenue: 13400,
+      totalCosts: 7600,
+      marketingCosts: 650,
+      additionalCosts: 150
+    });
+  });
+
+  it('v4 keeps a zero both sources agree on', () => {
+    const product = {
+      ...makeV0Product(),
+      actuals: [{ id: 'tracker', date: '2024-03-04', week: 1, revenue: 0, expenses: 0 }],
+      actualMetrics: [{ id: 'metric', week: 1, year: 2024, totalRevenue: 0 }]
+    } as unknown as Product;
+    const [entry] = step(4)(product).actuals;
+
+    expect(entry).toMatchObject({ id: 'tracker', totalRevenue: 0, totalCosts: 0 });
+  });
+
+  it('v4 adds weeks only the metrics recorded, dated from the year and week', () => {
+    const week3 = step(4)(migrateTo(makeV0Product(), 3)).actuals[2];
+
+    expect(week3).toEqual({
+      id: 'metric-3',
+      week: 3,
+      date: '2024-01-15T00:00:00.000Z',
+      totalRevenue: 14100,
+      numberOfEvents: 4,
+      totalCosts: 8100
+    });
+  });
+});
+
+describe('migrateProduct', () => {
+  it('upgrades a version 0 product to the current version', () => {
+    const migrated = migrateProduct(makeV0Product());
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated).toEqual({ ...migrateTo(makeV0Product(), CURRENT_SCHEMA_VERSION), schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('only runs the steps newer than the saved version', () => {
+    const atVersion3 = { ...migrateTo(makeV0Product(), 3), schemaVersion: 3 };
+    const migrated = migrateProduct(atVersion3);
+
+    expect(migrated).toEqual({ ...step(4)(atVersion3), schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+
+  it('is idempotent', () => {
+    const once = migrateProduct(makeV0Product());
+    const twice = migrateProduct(once);
+
+    expect(twice).toBe(once);
+    expect(migrateProduct(JSON.parse(JSON.stringify(once)))).toEqual(JSON.parse(JSON.stringify(once)));
+  });
+
+  it('leaves products from a newer version of the app alone', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const newer = { ...makeV0Product(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    expect(migrateProduct(newer)).toBe(newer);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('migrateProducts', () => {
+  it('backs up the outdated products before migrating them', () => {
+    const current = migrateProduct(makeV0Product());
+    const outdated = { ...makeV0Product(), id: 'product-2', schemaVersion: 2 } as Product;
+    const migrated = migrateProducts([current, makeV0Product(), outdated], 'localStorage');
+
+    expect(migrated.every(product => product.schemaVersion === CURRENT_SCHEMA_VERSION)).toBe(true);
+
+    const backups = getMigrationBackups();
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatchObject({ source: 'localStorage', fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(backups[0].data).toEqual(JSON.parse(JSON.stringify([makeV0Product(), outdated])));
+  });
+
+  it('takes no backup when every product is current', () => {
+    const current = [migrateProduct(makeV0Product())];
+
+    expect(migrateProducts(current, 'cloud')).toBe(current);
+    expect(getMigrationBackups()).toEqual([]);
+  });
+
+  it('keeps only the most recent backups', () => {
+    for (let run = 0; run < 12; run++) {
+      migrateProducts([{ ...makeV0Product(), id: `product-${run}` } as Product], `run-${run}`);
+    }
+
+    const backups = getMigrationBackups();
+    expect(backups).toHaveLength(10);
+    expect(backups[0].source).toBe('run-2');
+    expect(backups[9].source).toBe('run-11');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Schema Migrations
+ * Ordered upgrade steps for stored products. Every product carries the schema
+ * version it was saved with; on load each step newer than that runs in turn and
+ * the result is stamped with the current version. The data as it was before a
+ * migration is backed up in the browser first, so nothing from an older copy
+ * is lost if a step gets it wrong.
+ */
+
+import type { ActualsEntry, MarketingChannelPerformance, Product } from '../types';
+import { migrateProductScenarios } from './scenarioEngine';
+
+export interface SchemaMigration {
+  version: number; // Schema version the step upgrades to
+  description: string;
+  migrate: (product: Product) => Product;
+}
+
+export interface MigrationBackup {
+  id: string;
+  source: string; // Where the data was read from, e.g. 'localStorage' or 'cloud'
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+  data: unknown;
+}
+
+// Weekly actuals as written by the actuals tracker before the ledger
+interface LegacyWeeklyActuals {
+  id: string;
+  date: string;
+  week: number;
+  numberOfEvents?: number;
+  footTraffic?: number;
+  averageEventAttendance?: number;
+  revenue: number;
+  ticketRevenue?: number;
+  fbRevenue?: number;
+  merchandiseRevenue?: number;
+  digitalRevenue?: number;
+  expenses: number;
+  marketingCosts?: number;
+  staffingCosts?: number;
+  eventCosts?: number;
+  additionalCosts?: number;
+  fbCogs?: number;
+  conversions?: number;
+  notes?: string;
+}
+
+// Actual metrics, kept alongside the weekly actuals before the ledger
+interface LegacyActualMetrics {
+  id: string;
+  week: number;
+  year: number;
+  date?: string;
+  ticketRevenue?: number;
+  fbRevenue?: number;
+  merchandiseRevenue?: number;
+  digitalRevenue?: number;
+  totalRevenue?: number;
+  revenue?: number; // Before version 2
+  numberOfEvents?: number;
+  eventCount?: number; // Before version 2
+  footTraffic?: number;
+  averageEventAttendance?: number;
+  marketingCost?: number;
+  staffCost?: number;
+  headcount?: number;
+  eventsCosts?: number;
+  setupCosts?: number;
+  technologyCost?: number;
+  officeCost?: number;
+  otherCosts?: number;
+  totalCosts?: number;
+  channelPerformance?: MarketingChannelPerformance[];
+  notes?: string;
+}
+
+// Products as saved before the actuals ledger (version 4)
+type LegacyProduct = Omit<Product, 'actuals'> & {
+  actuals?: LegacyWeeklyActuals[];
+  actualMetrics?: LegacyActualMetrics[];
+};
+
+const BACKUPS_KEY = 'fortress-schema-backups';
+const MAX_BACKUPS = 10;
+
+function migrateActualMetric(metric: LegacyActualMetrics): LegacyActualMetrics {
+  if (!('revenue' in metric) && !('eventCount' in metric)) return metric;
+
+  const { revenue, eventCount, ...rest } = metric;
+  return {
+    ...rest,
+    totalRevenue: rest.totalRevenue ?? revenue,
+    numberOfEvents: rest.numberOfEvents ?? eventCount
+  };
+}
+
+// Drop the fields a legacy record left unset, so they don't hide the other record's values
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function entryFromWeeklyActuals({ revenue, expenses, ...rest }: LegacyWeeklyActuals): ActualsEntry {
+  return {
+    ...rest,
+    totalRevenue: revenue || 0,
+    totalCosts: expenses || 0
+  };
+}
+
+function entryFieldsFromMetric(metric: LegacyActualMetrics): Partial<ActualsEntry> {
+  const otherCosts = (metric.technologyCost || 0) + (metric.officeCost || 0) + (metric.otherCosts || 0);
+  return definedFields({
+    date: metric.date ? new Date(metric.date).toISOString() : new Date(Date.UTC(metric.year, 0, 1 + (metric.week - 1) * 7)).toISOString(),
+    numberOfEvents: metric.numberOfEvents,
+    footTraffic: metric.footTraffic,
+    averageEventAttendance: metric.averageEventAttendance,
+    ticketRevenue: metric.ticketRevenue,
+    fbRevenue: metric.fbRevenue,
+    merchandiseRevenue: metric.merchandiseRevenue,
+    digitalRevenue: metric.digitalRevenue,
+    totalRevenue: metric.totalRevenue,
+    marketingCosts: metric.marketingCost,
+    staffingCosts: metric.staffCost,
+    eventCosts: metric.eventsCosts,
+    setupCosts: metric.setupCosts,
+    additionalCosts: otherCosts || undefined,
+    totalCosts: metric.totalCosts,
+    headcount: metric.headcount,
+    channelPerformance: metric.channelPerformance?.length ? metric.channelPerformance : undefined,
+    notes: metric.notes || undefined
+  });
+}
+
+// The tracker saved zeros for figures it didn't record, so its value only wins
+// when it is non-zero or the metrics didn't record the figure either
+function mergeWeekFields(tracker: ActualsEntry, metric: Partial<ActualsEntry>): ActualsEntry {
+  const merged: Record<string, unknown> = { ...metric };
+  Object.entries(tracker).forEach(([key, value]) => {
+    const metricValue = merged[key];
+    if (value === undefined) return;
+    if (value === 0 && typeof metricValue === 'number' && metricValue !== 0) return;
+    merged[key] = value;
+  });
+  return merged as unknown as ActualsEntry;
+}
+
+/**
+ * Fold the weekly actuals and actual metrics into one ledger. Where both
+ * recorded a week, the figures from the actuals tracker are kept and the
+ * metrics fill in what it didn't record, such as channel performance or
+ * totals the tracker left at zero.
+ */
+function consolidateActuals(product: LegacyProduct): Product {
+  const { actualMetrics = [], actuals = [], ...rest } = product;
+  const ledger = actuals.map(entryFromWeeklyActuals);
+
+  actualMetrics.forEach(metric => {
+    const fields = entryFieldsFromMetric(migrateActualMetric(metric));
+    const index = ledger.findIndex(entry => entry.week === metric.week);
+    if (index === -1) {
+      ledger.push({ id: metric.id, week: metric.week, date: '', totalRevenue: 0, totalCosts: 0, ...fields });
+    } else {
+      ledger[index] = mergeWeekFields(ledger[index], fields);
+    }
+  });
+
+  return { ...rest, actuals: ledger };
+}
+
+/**
+ * Upgrade steps, oldest first. Add new steps to the end with the next version;
+ * never change a step that has shipped, as stored data may already be past it.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Fill in lists missing from products saved before they existed',
+    migrate: (product) => ({
+      ...product,
+      weeklyProjections: product.weeklyProjections || [],
+      actualMetrics: (product as unknown as LegacyProduct).actualMetrics || [],
+      actuals: product.actuals || [],
+      risks: product.risks || []
+    } as unknown as Product)
+  },
+  {
+    version: 2,
+    description: 'Move actual metrics off the legacy revenue and eventCount fields',
+    migrate: (product) => ({
+      ...product,
+      actualMetrics: ((product as unknown as LegacyProduct).actualMetrics || []).map(migrateActualMetric)
+    } as unknown as Product)
+  },
+  {
+    version: 3,
+    description: 'Convert scenarios to the override-based model',
+    migrate: (product) => migrateProductScenarios(product)
+  },
+  {
+    version: 4,
+    description: 'Consolidate weekly actuals and actual metrics into the actuals ledger',
+    migrate: (product) => consolidateActuals(product as unknown as LegacyProduct)
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = (product: Pick<Product, 'schemaVersion'>): number => product.schemaVersion ?? 0;
+
+/**
+ * Bring a product up to the current schema. Returns the same product when it
+ * is already current, or was saved by a newer version of the app.
+ */
+export function migrateProduct(product: Product): Product {
+  const fromVersion = getSchemaVersion(product);
+  if (fromVersion === CURRENT_SCHEMA_VERSION) return product;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Product ${product.info?.id} has schema version ${fromVersion}, newer than ${CURRENT_SCHEMA_VERSION}; leaving it as it is`);
+    return product;
+  }
+
+  const migrated = SCHEMA_MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .reduce((current, step) => step.migrate(current), product);
+
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+/**
+ * Migrate a set of products read from `source`, backing up the originals
+ * first when any of them needs upgrading
+ */
+export function migrateProducts(products: Product[], source: string): Product[] {
+  const outdated = products.filter(product => getSchemaVersion(product) < CURRENT_SCHEMA_VERSION);
+  if (outdated.length === 0) return products;
+
+  backupBeforeMigration(
+    source,
+    Math.min(...outdated.map(getSchemaVersion)),
+    outdated
+  );
+  return products.map(migrateProduct);
+}
+
+/**
+ * Keep a copy of data about to be migrated. The oldest backups are dropped
+ * once there are more than MAX_BACKUPS.
+ */
+export function backupBeforeMigration(source: string, fromVersion: number, data: unknown): void {
+  try {
+    const backups = getMigrationBackups();
+    backups.push({
+      id: crypto.randomUUID(),
+      source,
+      fromVersion,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      data
+    });
+    localStorage.setItem(BACKUPS_KEY, JSON.stringify(backups.slice(-MAX_BACKUPS)));
+  } catch (error) {
+    // Don't hold the migration up when the browser is out of space
+    console.error('Error backing up data before migration:', error);
+  }
+}
+
+/**
+ * Backups taken before migrations, oldest first
+ */
+export function getMigrationBackups(): MigrationBackup[] {
+  try {
+    const saved = localStorage.getItem(BACKUPS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading migration backups:', error);
+    return [];
+  }
+}
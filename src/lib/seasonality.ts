@@ -0,0 +1,98 @@
+/**
+ * Seasonality
+ * Maps forecast weeks onto calendar dates from the launch date and works out
+ * the quarterly, monthly and holiday multipliers that apply to each week.
+ */
+
+import type { SeasonalAnalysis, SeasonalAdjustment } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Anything carrying seasonal settings - a Product satisfies this directly
+export interface SeasonalityInputs {
+  seasonalAnalysis?: SeasonalAnalysis[];
+  seasonalAdjustments?: SeasonalAdjustment[];
+}
+
+export interface SeasonalFactors {
+  attendanceFactor: number;
+  spendFactor: number;
+}
+
+export const NEUTRAL_SEASONAL_FACTORS: SeasonalFactors = { attendanceFactor: 1, spendFactor: 1 };
+
+/**
+ * Normalise a stored date (Date, ISO string or Firestore Timestamp) to a Date
+ */
+export function toDate(value: unknown): Date | null {
+  if (!value) return null;
+
+  const timestamp = value as { toDate?: () => Date };
+  const date = typeof timestamp.toDate === 'function'
+    ? timestamp.toDate()
+    : new Date(value as string | number | Date);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Calendar date on which a forecast week starts (week 1 starts on the launch date)
+ */
+export function getWeekStartDate(launchDate: Date, week: number): Date {
+  return new Date(launchDate.getTime() + (week - 1) * 7 * MS_PER_DAY);
+}
+
+/**
+ * Forecast week a calendar date falls in (0 or less before the launch date).
+ * Whole days are compared, so a date saved at UTC midnight lands on its own day.
+ */
+export function getWeekForDate(launchDate: Date, date: Date): number {
+  const days = Math.round((date.getTime() - launchDate.getTime()) / MS_PER_DAY);
+  return Math.floor(days / 7) + 1;
+}
+
+export function getQuarter(date: Date): SeasonalAnalysis['quarter'] {
+  return `Q${Math.floor(date.getMonth() / 3) + 1}` as SeasonalAnalysis['quarter'];
+}
+
+/**
+ * Whether a holiday window overlaps the 7 days starting at weekStart
+ */
+function overlapsWeek(adjustment: SeasonalAdjustment, weekStart: Date): boolean {
+  const start = toDate(adjustment.startDate);
+  if (!start) return false;
+
+  const end = toDate(adjustment.endDate) || start;
+  const weekEnd = new Date(weekStart.getTime() + 7 * MS_PER_DAY);
+
+  return start < weekEnd && end.getTime() + MS_PER_DAY > weekStart.getTime();
+}
+
+/**
+ * Combined seasonal multipliers for the week starting on the given date.
+ * The quarterly impact factor scales attendance; monthly and holiday
+ * adjustments scale attendance and per-head spend independently.
+ */
+export function getSeasonalFactors(weekStart: Date, seasonality: SeasonalityInputs): SeasonalFactors {
+  let attendanceFactor = 1;
+  let spendFactor = 1;
+
+  const quarter = getQuarter(weekStart);
+  const quarterRow = seasonality.seasonalAnalysis?.find(row => row.quarter === quarter);
+  if (quarterRow && quarterRow.seasonalImpactFactor >= 0) {
+    attendanceFactor *= quarterRow.seasonalImpactFactor;
+  }
+
+  (seasonality.seasonalAdjustments || []).forEach(adjustment => {
+    const applies = adjustment.kind === 'month'
+      ? adjustment.month === weekStart.getMonth() + 1
+      : overlapsWeek(adjustment, weekStart);
+
+    if (applies) {
+      attendanceFactor *= adjustment.attendanceFactor ?? 1;
+      spendFactor *= adjustment.spendFactor ?? 1;
+    }
+  });
+
+  return { attendanceFactor, spendFactor };
+}
@@ -0,0 +1,130 @@
+/**
+ * Sensitivity Analysis
+ * One-at-a-time sensitivity of total profit and break-even week to every
+ * numeric forecast input, ranked for a tornado chart.
+ */
+
+import type { VariableSensitivity } from '../types';
+import { runProjection, getBreakEvenWeek } from './projectionEngine';
+import { MODEL_INPUTS } from './modelInputs';
+import type { ModelInput, ModelInputs, ModelInputGroup } from './modelInputs';
+
+export const DEFAULT_SENSITIVITY_SWING = 0.2;
+
+interface Outcome {
+  profit: number;
+  breakEvenWeek: number | null;
+}
+
+export interface InputSensitivity {
+  key: string;
+  label: string;
+  group: ModelInputGroup;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  lowProfit: number;
+  highProfit: number;
+  // Change in total profit against the base forecast
+  lowProfitDelta: number;
+  highProfitDelta: number;
+  lowBreakEvenWeek: number | null;
+  highBreakEvenWeek: number | null;
+  // Spread between the two profit outcomes, used for ranking
+  profitSwing: number;
+  impact: VariableSensitivity['impact'];
+}
+
+export interface SensitivityAnalysisResult {
+  swing: number;
+  baseProfit: number;
+  baseBreakEvenWeek: number | null;
+  // Ranked by profitSwing, largest first
+  inputs: InputSensitivity[];
+  // Inputs left out because they are zero, so a percentage swing can't move them
+  unsetInputs: string[];
+}
+
+function runOutcome(inputs: ModelInputs): Outcome {
+  const { projections } = runProjection(inputs);
+  return {
+    profit: projections.length > 0 ? projections[projections.length - 1].cumulativeProfit : 0,
+    breakEvenWeek: getBreakEvenWeek(projections)
+  };
+}
+
+/**
+ * Impact band relative to the most influential input: High within the top
+ * third of its swing, Medium down to a tenth, Low below that.
+ */
+export function classifyImpact(profitSwing: number, largestSwing: number): VariableSensitivity['impact'] {
+  if (largestSwing <= 0) return 'Low';
+
+  const share = profitSwing / largestSwing;
+  if (share >= 1 / 3) return 'High';
+  if (share >= 0.1) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Low and high test values for an input, respecting its upper bound
+ */
+export function getSwingValues(input: ModelInput, baseValue: number, swing: number): { lowValue: number; highValue: number } {
+  const highValue = baseValue * (1 + swing);
+  return {
+    lowValue: Math.max(0, baseValue * (1 - swing)),
+    highValue: input.max !== undefined ? Math.min(highValue, input.max) : highValue
+  };
+}
+
+/**
+ * Move each input down and up by `swing` (0.2 = ±20%) with everything else held
+ * at its base value, and measure the change in total profit and break-even week.
+ */
+export function runSensitivityAnalysis(
+  inputs: ModelInputs,
+  swing: number = DEFAULT_SENSITIVITY_SWING
+): SensitivityAnalysisResult {
+  const base = runOutcome(inputs);
+  const unsetInputs: string[] = [];
+  const results: Omit<InputSensitivity, 'impact'>[] = [];
+
+  MODEL_INPUTS.forEach(input => {
+    const baseValue = input.get(inputs);
+    if (baseValue === 0) {
+      unsetInputs.push(input.label);
+      return;
+    }
+
+    const { lowValue, highValue } = getSwingValues(input, baseValue, swing);
+    const low = runOutcome(input.apply(inputs, lowValue));
+    const high = runOutcome(input.apply(inputs, highValue));
+
+    results.push({
+      key: input.key,
+      label: input.label,
+      group: input.group,
+      baseValue,
+      lowValue,
+      highValue,
+      lowProfit: low.profit,
+      highProfit: high.profit,
+      lowProfitDelta: low.profit - base.profit,
+      highProfitDelta: high.profit - base.profit,
+      lowBreakEvenWeek: low.breakEvenWeek,
+      highBreakEvenWeek: high.breakEvenWeek,
+      profitSwing: Math.abs(high.profit - low.profit)
+    });
+  });
+
+  results.sort((a, b) => b.profitSwing - a.profitSwing);
+  const largestSwing = results[0]?.profitSwing || 0;
+
+  return {
+    swing,
+    baseProfit: base.profit,
+    baseBreakEvenWeek: base.breakEvenWeek,
+    inputs: results.map(result => ({ ...result, impact: classifyImpact(result.profitSwing, largestSwing) })),
+    unsetInputs
+  };
+}
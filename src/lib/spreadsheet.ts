@@ -0,0 +1,221 @@
+/**
+ * Spreadsheet
+ * Reads the cells of CSV and Excel (.xlsx) files as rows of text, for importing
+ * data exported from POS, ticketing and other systems. Excel workbooks are
+ * unzipped with the browser's own decompression, so only the first worksheet's
+ * values are read; formulas come through as their last calculated value.
+ */
+
+import { ValidationError } from './errorHandling';
+
+// Rows of cell text, top row first
+export type SpreadsheetRows = string[][];
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+
+/**
+ * The delimiter used in the first line, outside quotes: comma, semicolon or tab
+ */
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char]++;
+  }
+
+  return Object.keys(counts).reduce((best, delimiter) => counts[delimiter] > counts[best] ? delimiter : best, ',');
+}
+
+const isEmptyRow = (row: string[]): boolean => row.every(cell => cell.trim() === '');
+
+/**
+ * Parse CSV text, with quoted cells that may contain delimiters, quotes ("")
+ * and line breaks. Blank lines are dropped.
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const content = text.replace(/^\uFEFF/, ''); // Byte order mark added for Excel
+  const delimiter = detectDelimiter(content);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(current => !isEmptyRow(current));
+}
+
+/**
+ * Files in a zip archive, by path, read lazily
+ */
+function readZipEntries(data: ArrayBuffer): Map<string, () => Promise<string>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+
+  let endOffset = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new ValidationError('The file is not a valid Excel workbook');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, () => Promise<string>>();
+
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === ZIP_DIRECTORY_ENTRY; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      if (view.getUint32(localOffset, true) !== ZIP_LOCAL_HEADER) {
+        throw new ValidationError('The Excel workbook is damaged');
+      }
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const compressed = bytes.slice(start, start + compressedSize);
+
+      if (method === 0) return decoder.decode(compressed);
+      if (method !== 8) {
+        throw new ValidationError('The Excel workbook uses an unsupported compression method');
+      }
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Zero-based column of a cell reference such as 'AB12'
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// All text runs of a shared or inline string, joined
+const stringText = (element: Element): string =>
+  Array.from(element.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+/**
+ * Path of the workbook's first worksheet
+ */
+async function findFirstSheet(entries: Map<string, () => Promise<string>>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relsEntry) return fallback;
+
+  const sheet = parseXml(await workbookEntry()).getElementsByTagName('sheet')[0];
+  const relationId = sheet?.getAttribute('r:id');
+  const relation = Array.from(parseXml(await relsEntry()).getElementsByTagName('Relationship'))
+    .find(rel => rel.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the first worksheet of an Excel workbook
+ */
+export async function parseXlsx(data: ArrayBuffer): Promise<SpreadsheetRows> {
+  const entries = readZipEntries(data);
+  const sheetEntry = entries.get(await findFirstSheet(entries));
+  if (!sheetEntry) {
+    throw new ValidationError('The Excel workbook has no worksheets');
+  }
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await sharedStringsEntry()).getElementsByTagName('si')).map(stringText)
+    : [];
+
+  const rows: SpreadsheetRows = [];
+  Array.from(parseXml(await sheetEntry()).getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cellElement, position) => {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cellElement.getAttribute('t');
+      const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = stringText(cellElement);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    rows.push(row);
+  });
+
+  return rows.filter(row => !isEmptyRow(row));
+}
+
+/**
+ * Read a CSV or Excel file. Files are told apart by their content rather than
+ * their extension, as some systems (and our own Excel export) save CSV text
+ * with an .xlsx name.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetRows> {
+  const data = await file.arrayBuffer();
+  const signature = new Uint8Array(data.slice(0, 2));
+  const isZip = signature[0] === 0x50 && signature[1] === 0x4b; // 'PK'
+
+  if (isZip) {
+    return parseXlsx(data);
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new ValidationError('Older .xls workbooks are not supported; save the file as .xlsx or CSV');
+  }
+  return parseCsv(new TextDecoder().decode(data));
+}
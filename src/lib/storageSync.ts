@@ -0,0 +1,372 @@
+/**
+ * Storage Sync
+ * Keeps the products saved in the browser and in Firestore in step. Each sync
+ * pairs the two copies of every product by id against the copy both sides last
+ * agreed on: changes made on one side are carried to the other, changes made on
+ * both are merged field by field with the most recently updated side winning
+ * where they collide, and deletions are only carried over for copies the other
+ * side hasn't changed since, so working in local mode never loses data.
+ */
+
+import { collection, doc, getDoc, getDocs, deleteDoc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import type { Product } from '../types';
+import { mergeProducts, mergeChangedLocal } from './productMerge';
+import type { MergeSide } from './productMerge';
+import { getOfflineOperations, getSyncBase, recordServerVersion, recordSyncBase } from './syncQueue';
+import { toDate } from './seasonality';
+
+export const PRODUCT_SYNC_STATUSES = ['synced', 'localChanges', 'pending', 'notSynced', 'error'] as const;
+export type ProductSyncStatus = typeof PRODUCT_SYNC_STATUSES[number];
+
+export const PRODUCT_SYNC_STATUS_LABELS: Record<ProductSyncStatus, string> = {
+  synced: 'Synced',
+  localChanges: 'Local changes',
+  pending: 'Waiting to sync',
+  notSynced: 'Not yet synced',
+  error: 'Sync failed'
+};
+
+// What happened to a product in a sync
+export type ProductSyncAction = 'unchanged' | 'pushed' | 'pulled' | 'merged' | 'deletedLocally' | 'deletedInCloud' | 'skipped' | 'failed';
+
+export interface ProductSyncResult {
+  productId: string;
+  action: ProductSyncAction;
+  error?: string;
+}
+
+export interface CloudSyncResult {
+  // Products to keep locally once the sync is done
+  products: Product[];
+  results: ProductSyncResult[];
+}
+
+// Per-product sync bookkeeping kept in the browser. The copy both sides last
+// agreed on can be large, so it is kept with the sync queue in IndexedDB instead
+interface SyncRecord {
+  syncedAt: number;
+  localChangedAt: number | null;
+  error?: string;
+}
+
+const PRODUCTS_COLLECTION = 'products';
+const SYNC_RECORDS_KEY = 'fortress-cloud-sync';
+
+let legacyBaseMigration: Promise<void> | null = null;
+
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Call `listener` whenever a product's sync status may have changed
+ */
+export function subscribeToCloudSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function loadRecords(): Record<string, SyncRecord> {
+  try {
+    const saved = localStorage.getItem(SYNC_RECORDS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading sync records:', error);
+    return {};
+  }
+}
+
+function saveRecords(records: Record<string, SyncRecord>): void {
+  try {
+    localStorage.setItem(SYNC_RECORDS_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('Error saving sync records:', error);
+  }
+  notifyListeners();
+}
+
+function updateRecord(productId: string, update: (record: SyncRecord | undefined) => SyncRecord | null): void {
+  const records = loadRecords();
+  const record = update(records[productId]);
+  if (record) {
+    records[productId] = record;
+  } else {
+    delete records[productId];
+  }
+  saveRecords(records);
+}
+
+// Records saved before the base copies moved to IndexedDB carry them inline
+function migrateLegacyBases(): Promise<void> {
+  if (!legacyBaseMigration) {
+    legacyBaseMigration = (async () => {
+      const records = loadRecords() as Record<string, SyncRecord & { base?: Product | null }>;
+      const legacy = Object.entries(records).filter(([, record]) => 'base' in record);
+      if (legacy.length === 0) return;
+
+      for (const [productId, { base, ...record }] of legacy) {
+        if (base) await recordSyncBase(PRODUCTS_COLLECTION, productId, base);
+        records[productId] = record;
+      }
+      saveRecords(records);
+    })();
+  }
+  return legacyBaseMigration;
+}
+
+// Projections are worked out again from the inputs, so they aren't worth keeping in the base
+const toBase = (product: Product): Product => ({ ...product, weeklyProjections: [], longTermProjections: undefined });
+
+async function getBase(productId: string): Promise<Product | null> {
+  return (await getSyncBase(PRODUCTS_COLLECTION, productId)) as Product | null;
+}
+
+/**
+ * Note a change saved only in the browser, to be carried to the cloud on the next sync
+ */
+export function markLocalChange(productId: string): void {
+  updateRecord(productId, record => ({
+    syncedAt: record?.syncedAt ?? 0,
+    localChangedAt: Date.now(),
+    error: record?.error
+  }));
+}
+
+/**
+ * Note that the browser and cloud copies of a product now match
+ */
+export async function markProductSynced(product: Product): Promise<void> {
+  await recordSyncBase(PRODUCTS_COLLECTION, product.info.id, toBase(product));
+  updateRecord(product.info.id, () => ({
+    syncedAt: Date.now(),
+    localChangedAt: null
+  }));
+}
+
+/**
+ * Forget a product deleted on both sides
+ */
+export async function forgetProduct(productId: string): Promise<void> {
+  await recordSyncBase(PRODUCTS_COLLECTION, productId, null);
+  updateRecord(productId, () => null);
+}
+
+/**
+ * Sync status of each product, keyed by product id
+ */
+export async function getProductSyncStatuses(productIds: string[]): Promise<Record<string, ProductSyncStatus>> {
+  await migrateLegacyBases();
+  const records = loadRecords();
+  const operations = await getOfflineOperations();
+  const pendingIds = new Set(operations
+    .filter(operation => operation.collection === PRODUCTS_COLLECTION)
+    .map(operation => operation.docId));
+
+  const statuses: Record<string, ProductSyncStatus> = {};
+  productIds.forEach(productId => {
+    const record = records[productId];
+    if (pendingIds.has(productId)) {
+      statuses[productId] = 'pending';
+    } else if (!record || !record.syncedAt) {
+      statuses[productId] = 'notSynced';
+    } else if (record.error) {
+      statuses[productId] = 'error';
+    } else if (record.localChangedAt !== null && record.localChangedAt > record.syncedAt) {
+      statuses[productId] = 'localChanges';
+    } else {
+      statuses[productId] = 'synced';
+    }
+  });
+  return statuses;
+}
+
+// Fill in what older documents may be missing, as they are read from Firestore
+function normalizeCloudProduct(productId: string, data: Product): Product {
+  const product = { ...data };
+  if (!product.info) {
+    const now = new Date();
+    product.info = {
+      id: productId,
+      name: '',
+      type: 'Experiential Events',
+      description: '',
+      logo: null,
+      targetAudience: '',
+      developmentStartDate: now,
+      developmentEndDate: now,
+      launchDate: now,
+      forecastPeriod: 12,
+      forecastType: 'weekly',
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+  if (!product.info.id) product.info = { ...product.info, id: productId };
+  if (!product.actuals) product.actuals = [];
+  return product;
+}
+
+function getTime(value: unknown): number {
+  // Timestamps kept in the browser lose their methods on the way through JSON
+  const seconds = (value as { seconds?: unknown } | null)?.seconds;
+  if (typeof seconds === 'number') return seconds * 1000;
+  return toDate(value)?.getTime() ?? 0;
+}
+
+// Server timestamp Firestore set on the document's last write
+const getCloudUpdatedAt = (product: Product): unknown => (product as Product & { updatedAt?: unknown }).updatedAt;
+
+// When each copy was last changed, for picking a side where both changed the same field
+const getLocalChangedAt = (product: Product, record: SyncRecord | undefined): number =>
+  record?.localChangedAt ?? getTime(product.info?.updatedAt);
+
+const getCloudChangedAt = (product: Product): number =>
+  getTime(getCloudUpdatedAt(product)) || getTime(product.info?.updatedAt);
+
+/**
+ * Merge copies changed on both sides since `base`; colliding fields go to the
+ * side changed most recently. Without a base every field either side has is
+ * kept, and only fields both have with different values go to the newer side.
+ */
+function mergeBothChanged(base: Product | null, local: Product, cloud: Product, localIsNewer: boolean): Product {
+  if (!base) base = {} as Product;
+
+  const { conflicts } = mergeProducts(base, local, cloud);
+  const side: MergeSide = localIsNewer ? 'local' : 'remote';
+  const resolutions = Object.fromEntries(conflicts.map(conflict => [conflict.path, side]));
+  return mergeProducts(base, local, cloud, resolutions).merged;
+}
+
+// Written in a transaction that checks the cloud copy is still the version the
+// sync compared against, as saves from the store do. A copy changed meanwhile
+// fails the product, so the next sync merges it again instead of overwriting it.
+async function pushProduct(firestore: Firestore, product: Product, cloudVersion: number): Promise<Product> {
+  const docRef = doc(firestore, PRODUCTS_COLLECTION, product.info.id);
+  const saved = { ...product, version: cloudVersion + 1 };
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    const currentVersion = snapshot.exists() ? (snapshot.data().version || 0) : 0;
+    if (currentVersion !== cloudVersion) {
+      throw new Error('The cloud copy changed during the sync');
+    }
+    transaction.set(docRef, {
+      ...saved,
+      updatedAt: serverTimestamp()
+    });
+  });
+
+  const snapshot = await getDoc(docRef);
+  await recordServerVersion(PRODUCTS_COLLECTION, product.info.id, snapshot.data()?.updatedAt);
+  return saved;
+}
+
+/**
+ * Sync the products saved in the browser with those in Firestore. Products
+ * with offline changes still queued are left for the sync queue to send.
+ */
+export async function syncProductsWithCloud(firestore: Firestore, localProducts: Product[]): Promise<CloudSyncResult> {
+  const snapshot = await getDocs(collection(firestore, PRODUCTS_COLLECTION));
+  const cloudProducts = new Map<string, Product>();
+  snapshot.forEach(docSnapshot => {
+    cloudProducts.set(docSnapshot.id, normalizeCloudProduct(docSnapshot.id, docSnapshot.data() as Product));
+  });
+
+  const localById = new Map(localProducts.map(product => [product.info.id, product]));
+  await migrateLegacyBases();
+  const records = loadRecords();
+  const operations = await getOfflineOperations();
+  const pendingIds = new Set(operations
+    .filter(operation => operation.collection === PRODUCTS_COLLECTION)
+    .map(operation => operation.docId));
+
+  const products: Product[] = [];
+  const results: ProductSyncResult[] = [];
+  const productIds = [...new Set([...localById.keys(), ...cloudProducts.keys()])];
+
+  for (const productId of productIds) {
+    const local = localById.get(productId);
+    const cloud = cloudProducts.get(productId);
+    const record = records[productId];
+    const base = record ? await getBase(productId) : null;
+
+    if (pendingIds.has(productId)) {
+      if (local) products.push(local);
+      results.push({ productId, action: 'skipped' });
+      continue;
+    }
+
+    try {
+      if (local && cloud) {
+        const localChanged = base ? mergeChangedLocal(base, local) : true;
+        const cloudChanged = base ? mergeChangedLocal(base, cloud) : true;
+
+        if (!mergeChangedLocal(local, cloud) || (!localChanged && !cloudChanged)) {
+          products.push({ ...local, version: cloud.version });
+          await markProductSynced(cloud);
+          await recordServerVersion(PRODUCTS_COLLECTION, productId, getCloudUpdatedAt(cloud));
+          results.push({ productId, action: 'unchanged' });
+        } else if (!cloudChanged) {
+          const saved = await pushProduct(firestore, local, cloud.version || 0);
+          products.push(saved);
+          await markProductSynced(saved);
+          results.push({ productId, action: 'pushed' });
+        } else if (!localChanged) {
+          products.push(cloud);
+          await markProductSynced(cloud);
+          await recordServerVersion(PRODUCTS_COLLECTION, productId, getCloudUpdatedAt(cloud));
+          results.push({ productId, action: 'pulled' });
+        } else {
+          const localIsNewer = getLocalChangedAt(local, record) >= getCloudChangedAt(cloud);
+          const merged = mergeBothChanged(base, local, cloud, localIsNewer);
+          const saved = await pushProduct(firestore, merged, cloud.version || 0);
+          products.push(saved);
+          await markProductSynced(saved);
+          results.push({ productId, action: 'merged' });
+        }
+      } else if (local) {
+        if (base && !mergeChangedLocal(base, local)) {
+          // Deleted in the cloud, and not changed here since
+          await forgetProduct(productId);
+          results.push({ productId, action: 'deletedLocally' });
+        } else {
+          const saved = await pushProduct(firestore, local, 0);
+          products.push(saved);
+          await markProductSynced(saved);
+          results.push({ productId, action: 'pushed' });
+        }
+      } else if (cloud) {
+        if (base && !mergeChangedLocal(base, cloud)) {
+          // Deleted here, and not changed in the cloud since
+          await deleteDoc(doc(firestore, PRODUCTS_COLLECTION, productId));
+          await recordServerVersion(PRODUCTS_COLLECTION, productId, null);
+          await forgetProduct(productId);
+          results.push({ productId, action: 'deletedInCloud' });
+        } else {
+          products.push(cloud);
+          await markProductSynced(cloud);
+          await recordServerVersion(PRODUCTS_COLLECTION, productId, getCloudUpdatedAt(cloud));
+          results.push({ productId, action: 'pulled' });
+        }
+      }
+    } catch (error) {
+      console.error(`Error syncing product ${productId}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      // Keep whichever copy we have; the next sync tries again
+      const kept = local || cloud;
+      if (kept) products.push(kept);
+      updateRecord(productId, current => ({
+        syncedAt: current?.syncedAt ?? 0,
+        localChangedAt: current?.localChangedAt ?? Date.now(),
+        error: message
+      }));
+      results.push({ productId, action: 'failed', error: message });
+    }
+  }
+
+  return { products, results };
+}
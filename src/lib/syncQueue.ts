@@ -0,0 +1,488 @@
+/**
+ * Sync Queue
+ * Durable queue of Firestore writes made while offline. Operations, along with
+ * the server versions and base copies used to spot changes made elsewhere, are
+ * kept in IndexedDB (localStorage where it isn't available). Operations are
+ * replayed in the order they were made, with exponential backoff between failed
+ * attempts. A write is held back as a conflict, instead of overwriting, when the
+ * server copy has changed since the change it carries was made.
+ */
+
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import type { DocumentData, DocumentReference, Firestore } from 'firebase/firestore';
+import { toDate } from './seasonality';
+
+export type OfflineOperationType = 'create' | 'update' | 'delete';
+
+export interface SyncConflict {
+  detectedAt: number;
+  // Server copy when the conflict was found; null when it has been deleted
+  serverData: DocumentData | null;
+  serverUpdatedAt: number | null;
+}
+
+export interface OfflineOperation {
+  id: string;
+  type: OfflineOperationType;
+  collection: string;
+  docId: string;
+  data?: DocumentData;
+  timestamp: number;
+  retryCount: number;
+  // Server updatedAt (ms) the change was made against; null when unknown or not on the server
+  baseUpdatedAt: number | null;
+  // Earliest time the next attempt may run
+  nextAttemptAt: number;
+  lastError?: string;
+  conflict?: SyncConflict;
+}
+
+export type ConflictResolution = 'keepLocal' | 'keepServer';
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+  remaining: number;
+}
+
+// Last server updatedAt seen for a document, keyed by collection/docId
+interface ServerVersion {
+  id: string;
+  updatedAt: number | null;
+}
+
+// Copy of a document the browser and server last agreed on, keyed by collection/docId
+interface SyncBase {
+  id: string;
+  data: DocumentData;
+}
+
+const DB_NAME = 'fortress-sync';
+const DB_VERSION = 2;
+const OPERATIONS_STORE = 'operations';
+const VERSIONS_STORE = 'versions';
+const BASES_STORE = 'bases';
+type StoreName = typeof OPERATIONS_STORE | typeof VERSIONS_STORE | typeof BASES_STORE;
+
+// Queue kept by the original localStorage implementation, moved into the store on first use
+const LEGACY_STORAGE_KEY = 'offlineOperations';
+const FALLBACK_STORAGE_PREFIX = 'fortress-sync-';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Storage
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+let legacyMigration: Promise<void> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        [OPERATIONS_STORE, VERSIONS_STORE, BASES_STORE].forEach(storeName => {
+          if (!database.objectStoreNames.contains(storeName)) {
+            database.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening sync queue database, falling back to localStorage:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readFallback<T>(storeName: StoreName): T[] {
+  try {
+    const saved = localStorage.getItem(FALLBACK_STORAGE_PREFIX + storeName);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error reading sync queue from localStorage:', error);
+    return [];
+  }
+}
+
+function writeFallback<T>(storeName: StoreName, records: T[]): void {
+  localStorage.setItem(FALLBACK_STORAGE_PREFIX + storeName, JSON.stringify(records));
+}
+
+async function readAll<T>(storeName: StoreName): Promise<T[]> {
+  const database = await openDatabase();
+  if (!database) return readFallback<T>(storeName);
+  return requestToPromise(database.transaction(storeName).objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+async function readRecord<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+  const database = await openDatabase();
+  if (!database) return readFallback<T & { id: string }>(storeName).find(record => record.id === id);
+  return requestToPromise(database.transaction(storeName).objectStore(storeName).get(id) as IDBRequest<T | undefined>);
+}
+
+async function putRecord<T extends { id: string }>(storeName: StoreName, record: T): Promise<void> {
+  const database = await openDatabase();
+  if (!database) {
+    writeFallback(storeName, [...readFallback<T>(storeName).filter(r => r.id !== record.id), record]);
+    return;
+  }
+  await requestToPromise(database.transaction(storeName, 'readwrite').objectStore(storeName).put(record));
+}
+
+async function deleteRecord(storeName: StoreName, id: string): Promise<void> {
+  const database = await openDatabase();
+  if (!database) {
+    writeFallback(storeName, readFallback<{ id: string }>(storeName).filter(r => r.id !== id));
+    return;
+  }
+  await requestToPromise(database.transaction(storeName, 'readwrite').objectStore(storeName).delete(id));
+}
+
+async function clearRecords(storeName: StoreName): Promise<void> {
+  const database = await openDatabase();
+  if (!database) {
+    localStorage.removeItem(FALLBACK_STORAGE_PREFIX + storeName);
+    return;
+  }
+  await requestToPromise(database.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+}
+
+function migrateLegacyQueue(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!saved) return;
+
+      try {
+        const legacy: Partial<OfflineOperation>[] = JSON.parse(saved);
+        for (const operation of legacy) {
+          if (!operation.id || !operation.type || !operation.collection || !operation.docId) continue;
+          await putRecord(OPERATIONS_STORE, {
+            ...operation,
+            timestamp: operation.timestamp || Date.now(),
+            retryCount: operation.retryCount || 0,
+            baseUpdatedAt: null,
+            nextAttemptAt: 0
+          } as OfflineOperation);
+        }
+      } catch (error) {
+        console.error('Error migrating offline operations from localStorage:', error);
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })();
+  }
+  return legacyMigration;
+}
+
+// Change notifications, so views can follow a queue that is written from the store
+
+const listeners = new Set<() => void>();
+
+export function subscribeToSyncQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+// Helpers
+
+const getDocKey = (collection: string, docId: string) => `${collection}/${docId}`;
+
+function toMillis(value: unknown): number | null {
+  return toDate(value)?.getTime() ?? null;
+}
+
+/**
+ * Delay before the given retry: doubles each time, up to MAX_RETRY_DELAY_MS
+ */
+export function getRetryDelay(retryCount: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, retryCount - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Queue
+
+/**
+ * Pending operations, oldest first
+ */
+export async function getOfflineOperations(): Promise<OfflineOperation[]> {
+  try {
+    await migrateLegacyQueue();
+    const operations = await readAll<OfflineOperation>(OPERATIONS_STORE);
+    return operations.sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error('Error retrieving offline operations:', error);
+    return [];
+  }
+}
+
+export async function hasPendingOperations(collection: string, docId: string): Promise<boolean> {
+  const operations = await getOfflineOperations();
+  return operations.some(operation => operation.collection === collection && operation.docId === docId);
+}
+
+/**
+ * Queue a write for replay. A write to a document that already has one
+ * waiting is folded into it where the result is the same: updates merge,
+ * and deleting a document that was only ever created offline drops both.
+ */
+export async function queueOfflineOperation(
+  type: OfflineOperationType,
+  collection: string,
+  docId: string,
+  data?: DocumentData,
+  baseUpdatedAt: number | null = null
+): Promise<string> {
+  const operations = await getOfflineOperations();
+  const previous = [...operations]
+    .reverse()
+    .find(operation => operation.collection === collection && operation.docId === docId);
+
+  if (previous && !previous.conflict && previous.type !== 'delete') {
+    if (type === 'update') {
+      await putRecord(OPERATIONS_STORE, { ...previous, data: { ...previous.data, ...data } });
+      notifyListeners();
+      return previous.id;
+    }
+    if (type === 'delete' && previous.type === 'create') {
+      await deleteRecord(OPERATIONS_STORE, previous.id);
+      notifyListeners();
+      return previous.id;
+    }
+    if (type === 'delete') {
+      await putRecord(OPERATIONS_STORE, { ...previous, type, data: undefined });
+      notifyListeners();
+      return previous.id;
+    }
+  }
+
+  const operation: OfflineOperation = {
+    id: `offline-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    type,
+    collection,
+    docId,
+    data,
+    timestamp: Date.now(),
+    retryCount: 0,
+    // Later writes share the base of the first one waiting, as none of them has reached the server
+    baseUpdatedAt: previous ? previous.baseUpdatedAt : baseUpdatedAt,
+    nextAttemptAt: 0
+  };
+
+  await putRecord(OPERATIONS_STORE, operation);
+  notifyListeners();
+  return operation.id;
+}
+
+export async function removeOfflineOperation(id: string): Promise<boolean> {
+  const existing = await readRecord<OfflineOperation>(OPERATIONS_STORE, id);
+  if (!existing) return false;
+
+  await deleteRecord(OPERATIONS_STORE, id);
+  notifyListeners();
+  return true;
+}
+
+export async function clearOfflineOperations(): Promise<void> {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  await clearRecords(OPERATIONS_STORE);
+  notifyListeners();
+}
+
+// Server versions
+
+/**
+ * Remember the server's updatedAt for a document, to detect later changes
+ * made elsewhere. Pass null once the document is known to be gone.
+ */
+export async function recordServerVersion(collection: string, docId: string, updatedAt: unknown): Promise<void> {
+  try {
+    await putRecord<ServerVersion>(VERSIONS_STORE, { id: getDocKey(collection, docId), updatedAt: toMillis(updatedAt) });
+  } catch (error) {
+    console.error('Error recording server version:', error);
+  }
+}
+
+export async function getServerVersion(collection: string, docId: string): Promise<number | null> {
+  try {
+    const version = await readRecord<ServerVersion>(VERSIONS_STORE, getDocKey(collection, docId));
+    return version?.updatedAt ?? null;
+  } catch (error) {
+    console.error('Error reading server version:', error);
+    return null;
+  }
+}
+
+// Sync bases
+
+/**
+ * Remember the copy of a document the browser and server last agreed on, to
+ * tell later which side changed it. Pass null to forget it.
+ */
+export async function recordSyncBase(collection: string, docId: string, data: DocumentData | null): Promise<void> {
+  try {
+    const id = getDocKey(collection, docId);
+    if (data) {
+      await putRecord<SyncBase>(BASES_STORE, { id, data });
+    } else {
+      await deleteRecord(BASES_STORE, id);
+    }
+  } catch (error) {
+    console.error('Error recording sync base:', error);
+  }
+}
+
+export async function getSyncBase(collection: string, docId: string): Promise<DocumentData | null> {
+  try {
+    const base = await readRecord<SyncBase>(BASES_STORE, getDocKey(collection, docId));
+    return base?.data ?? null;
+  } catch (error) {
+    console.error('Error reading sync base:', error);
+    return null;
+  }
+}
+
+// Replay
+
+function findConflict(operation: OfflineOperation, exists: boolean, serverUpdatedAt: number | null): boolean {
+  if (operation.type === 'create') return exists;
+  // Nothing left to delete is the outcome the delete wanted
+  if (!exists) return operation.type === 'update';
+  return operation.baseUpdatedAt !== null && serverUpdatedAt !== null && serverUpdatedAt > operation.baseUpdatedAt;
+}
+
+async function applyOperation(docRef: DocumentReference, operation: OfflineOperation): Promise<void> {
+  switch (operation.type) {
+    case 'create':
+      await setDoc(docRef, { ...operation.data, updatedAt: serverTimestamp() });
+      break;
+    case 'update':
+      await updateDoc(docRef, { ...operation.data, updatedAt: serverTimestamp() });
+      break;
+    case 'delete':
+      await deleteDoc(docRef);
+      break;
+  }
+}
+
+/**
+ * Replay queued operations in order. Operations on a document wait behind
+ * an earlier one on the same document that failed, is backing off or is in
+ * conflict; `force` ignores the backoff, for a manual sync.
+ */
+export async function replayOperations(
+  firestore: Firestore,
+  options: { force?: boolean; onProgress?: (done: number, total: number) => void } = {}
+): Promise<SyncResult> {
+  const now = Date.now();
+  const operations = await getOfflineOperations();
+  const blockedDocs = new Set<string>();
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: 0, remaining: 0 };
+
+  for (const [index, operation] of operations.entries()) {
+    options.onProgress?.(index, operations.length);
+    const key = getDocKey(operation.collection, operation.docId);
+    const isWaiting = !options.force && operation.nextAttemptAt > now;
+    if (operation.conflict || blockedDocs.has(key) || isWaiting) {
+      blockedDocs.add(key);
+      if (operation.conflict) result.conflicts++;
+      continue;
+    }
+
+    const docRef = doc(firestore, operation.collection, operation.docId);
+    try {
+      const snapshot = await getDoc(docRef);
+      const exists = snapshot.exists();
+      const serverUpdatedAt = exists ? toMillis(snapshot.data().updatedAt) : null;
+
+      if (findConflict(operation, exists, serverUpdatedAt)) {
+        await putRecord(OPERATIONS_STORE, {
+          ...operation,
+          conflict: { detectedAt: now, serverData: exists ? snapshot.data() : null, serverUpdatedAt }
+        });
+        blockedDocs.add(key);
+        result.conflicts++;
+        continue;
+      }
+
+      if (operation.type !== 'delete' || exists) {
+        await applyOperation(docRef, operation);
+      }
+      await deleteRecord(OPERATIONS_STORE, operation.id);
+      result.synced++;
+
+      // The write has landed; not knowing its new version only weakens the next conflict check
+      const written = operation.type === 'delete' ? null : await getDoc(docRef).catch(() => null);
+      await recordServerVersion(operation.collection, operation.docId, written?.data()?.updatedAt ?? null);
+    } catch (error) {
+      const retryCount = operation.retryCount + 1;
+      await putRecord(OPERATIONS_STORE, {
+        ...operation,
+        retryCount,
+        nextAttemptAt: now + getRetryDelay(retryCount),
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+      blockedDocs.add(key);
+      result.failed++;
+    }
+  }
+
+  options.onProgress?.(operations.length, operations.length);
+  result.remaining = (await getOfflineOperations()).length;
+  notifyListeners();
+  return result;
+}
+
+/**
+ * Settle a conflict. keepLocal replays the queued change over the server copy;
+ * keepServer drops it, leaving the server copy as it is.
+ */
+export async function resolveConflict(operationId: string, resolution: ConflictResolution): Promise<void> {
+  const operation = await readRecord<OfflineOperation>(OPERATIONS_STORE, operationId);
+  if (!operation?.conflict) return;
+
+  const { serverData, serverUpdatedAt } = operation.conflict;
+  if (resolution === 'keepServer') {
+    await deleteRecord(OPERATIONS_STORE, operation.id);
+    await recordServerVersion(operation.collection, operation.docId, serverData ? serverUpdatedAt : null);
+    notifyListeners();
+    return;
+  }
+
+  // A create meeting an existing document overwrites it; an update whose document was deleted recreates it
+  const type: OfflineOperationType = operation.type === 'delete'
+    ? 'delete'
+    : serverData ? (operation.type === 'create' ? 'update' : operation.type) : 'create';
+
+  await putRecord<OfflineOperation>(OPERATIONS_STORE, {
+    ...operation,
+    type,
+    baseUpdatedAt: serverUpdatedAt,
+    conflict: undefined,
+    retryCount: 0,
+    nextAttemptAt: 0,
+    lastError: undefined
+  });
+  notifyListeners();
+}
@@ -64,6 +64,13 @@ export function formatNumber(
   }).format(roundedValue);
 }
 
+/**
+ * Format a break-even week, or say it isn't reached within the forecast
+ */
+export function formatBreakEvenWeek(week: number | null): string {
+  return week === null ? 'Not reached' : `Week ${week}`;
+}
+
 /**
  * Format date
  */
@@ -0,0 +1,339 @@
+/**
+ * Variance Analysis
+ * Explains why a recorded week came in above or below plan. Each revenue
+ * stream's variance is split into a volume effect (foot traffic), a conversion
+ * effect (the share of visitors who bought) and a price effect (price or spend
+ * per buyer); each cost line's into a volume effect (what the cost scales with)
+ * and a rate effect (what it cost per unit of that). Effects are taken in
+ * that order, so they add up exactly to the difference between actual and plan.
+ */
+
+import type { ActualsEntry, RevenueMetrics, WeeklyProjection } from '../types';
+import { getActualProfit, getActualsForWeek } from './actualsLedger';
+
+export const REVENUE_EFFECTS = ['volume', 'conversion', 'price'] as const;
+export type RevenueEffect = typeof REVENUE_EFFECTS[number];
+
+export const COST_EFFECTS = ['volume', 'rate'] as const;
+export type CostEffect = typeof COST_EFFECTS[number];
+
+export const REVENUE_EFFECT_LABELS: Record<RevenueEffect, string> = {
+  volume: 'Attendance',
+  conversion: 'Conversion rate',
+  price: 'Price / spend per head'
+};
+
+export const COST_EFFECT_LABELS: Record<CostEffect, string> = {
+  volume: 'Cost volume',
+  rate: 'Cost rate'
+};
+
+type RevenueStream = 'ticketRevenue' | 'fbRevenue' | 'merchandiseRevenue' | 'digitalRevenue';
+type CostLine = 'marketingCosts' | 'staffingCosts' | 'eventCosts' | 'setupCosts' | 'fbCogs' | 'merchandiseCogs';
+
+// 'other' is whatever a total holds beyond its recorded lines; 'total' stands in when no lines were recorded
+export type RevenueVarianceLine = RevenueStream | 'other' | 'total';
+export type CostVarianceLine = CostLine | 'additionalCosts' | 'other' | 'total';
+
+export interface StreamVariance {
+  line: RevenueVarianceLine;
+  label: string;
+  planned: number;
+  actual: number;
+  effects: Record<RevenueEffect, number>;
+  // The conversion and price effects were split using counted sales rather than attributed
+  fromSalesCounts: boolean;
+}
+
+export interface CostLineVariance {
+  line: CostVarianceLine;
+  label: string;
+  planned: number;
+  actual: number;
+  effects: Record<CostEffect, number>;
+}
+
+export interface VarianceFigures {
+  plannedRevenue: number;
+  actualRevenue: number;
+  plannedCosts: number;
+  actualCosts: number;
+  plannedProfit: number;
+  actualProfit: number;
+  revenueEffects: Record<RevenueEffect, number>;
+  costEffects: Record<CostEffect, number>;
+}
+
+export interface WeekVariance extends VarianceFigures {
+  week: number;
+  streams: StreamVariance[];
+  costLines: CostLineVariance[];
+}
+
+export interface VarianceAnalysis {
+  weeks: WeekVariance[];
+  totals: VarianceFigures;
+}
+
+// A bar of the profit waterfall: plan and actual profit are totals, the effects float between them
+export interface WaterfallStep {
+  key: 'plan' | `revenue-${RevenueEffect}` | `cost-${CostEffect}` | 'actual';
+  label: string;
+  value: number; // effect on profit
+  start: number;
+  end: number;
+  isTotal: boolean;
+}
+
+const STREAMS: RevenueStream[] = ['ticketRevenue', 'fbRevenue', 'merchandiseRevenue', 'digitalRevenue'];
+const COST_LINES: CostLine[] = ['marketingCosts', 'staffingCosts', 'eventCosts', 'setupCosts', 'fbCogs', 'merchandiseCogs'];
+
+const REVENUE_LINE_LABELS: Record<RevenueVarianceLine, string> = {
+  ticketRevenue: 'Tickets',
+  fbRevenue: 'F&B',
+  merchandiseRevenue: 'Merchandise',
+  digitalRevenue: 'Digital',
+  other: 'Other revenue',
+  total: 'Revenue (not broken down)'
+};
+
+const COST_LINE_LABELS: Record<CostVarianceLine, string> = {
+  marketingCosts: 'Marketing',
+  staffingCosts: 'Staffing',
+  eventCosts: 'Event costs',
+  setupCosts: 'Setup',
+  fbCogs: 'F&B COGS',
+  merchandiseCogs: 'Merchandise COGS',
+  additionalCosts: 'Additional costs',
+  other: 'Other costs',
+  total: 'Costs (not broken down)'
+};
+
+// The plan's conversion rate for each stream, and the count of buyers actuals may carry for it
+const STREAM_DRIVERS: Record<RevenueStream, {
+  rate: 'ticketSalesRate' | 'fbConversionRate' | 'merchandiseConversionRate' | 'digitalConversionRate';
+  count: 'ticketsSold' | 'fbTransactions' | 'merchandiseTransactions' | 'digitalPurchases';
+}> = {
+  ticketRevenue: { rate: 'ticketSalesRate', count: 'ticketsSold' },
+  fbRevenue: { rate: 'fbConversionRate', count: 'fbTransactions' },
+  merchandiseRevenue: { rate: 'merchandiseConversionRate', count: 'merchandiseTransactions' },
+  digitalRevenue: { rate: 'digitalConversionRate', count: 'digitalPurchases' }
+};
+
+/**
+ * Without a count of buyers, a stream's change in takings per head goes to
+ * the driver that usually moves, as in the reforecast: conversion where the
+ * price is set, spend per head where it isn't.
+ */
+const ATTRIBUTED_EFFECT: Record<RevenueVarianceLine, 'conversion' | 'price'> = {
+  ticketRevenue: 'conversion',
+  fbRevenue: 'price',
+  merchandiseRevenue: 'price',
+  digitalRevenue: 'conversion',
+  other: 'price',
+  total: 'price'
+};
+
+// What each cost line scales with in the projection; lines without a driver only have a rate effect
+const COST_DRIVERS: Partial<Record<CostLine, (week: { numberOfEvents?: number; fbRevenue?: number; merchandiseRevenue?: number }) => number | undefined>> = {
+  staffingCosts: week => week.numberOfEvents,
+  eventCosts: week => week.numberOfEvents,
+  fbCogs: week => week.fbRevenue,
+  merchandiseCogs: week => week.merchandiseRevenue
+};
+
+const TOLERANCE = 0.005;
+
+const zeroRevenueEffects = (): Record<RevenueEffect, number> => ({ volume: 0, conversion: 0, price: 0 });
+const zeroCostEffects = (): Record<CostEffect, number> => ({ volume: 0, rate: 0 });
+
+/**
+ * Recorded lines of a total, with unrecorded ones as 0 and anything the total
+ * holds beyond them as 'other'; null when none of the lines were recorded
+ */
+function splitLines<T extends RevenueStream | CostLine | 'additionalCosts'>(
+  actual: ActualsEntry,
+  lines: T[],
+  total: number
+): { line: T | 'other'; value: number }[] | null {
+  if (lines.every(line => actual[line] === undefined)) return null;
+
+  const split: { line: T | 'other'; value: number }[] = lines.map(line => ({ line, value: actual[line] || 0 }));
+  const remainder = total - split.reduce((sum, { value }) => sum + value, 0);
+  if (Math.abs(remainder) > TOLERANCE) split.push({ line: 'other', value: remainder });
+  return split;
+}
+
+function streamVariance(
+  line: RevenueVarianceLine,
+  planned: number,
+  actual: number,
+  plannedTraffic: number,
+  actualTraffic: number | undefined,
+  plannedRate: number,
+  buyers: number | undefined
+): StreamVariance {
+  const effects = zeroRevenueEffects();
+  const plannedPerHead = plannedTraffic > 0 ? planned / plannedTraffic : 0;
+
+  // Without recorded traffic there's nothing to say about volume
+  if (actualTraffic !== undefined) {
+    effects.volume = (actualTraffic - plannedTraffic) * plannedPerHead;
+  }
+  const yieldEffect = actual - planned - effects.volume;
+
+  const fromSalesCounts = buyers !== undefined && plannedRate > 0 && !!actualTraffic;
+  if (fromSalesCounts) {
+    const plannedPerBuyer = plannedPerHead / plannedRate;
+    effects.conversion = ((buyers as number) - (actualTraffic as number) * plannedRate) * plannedPerBuyer;
+    effects.price = yieldEffect - effects.conversion;
+  } else {
+    effects[ATTRIBUTED_EFFECT[line]] = yieldEffect;
+  }
+
+  return { line, label: REVENUE_LINE_LABELS[line], planned, actual, effects, fromSalesCounts };
+}
+
+function costLineVariance(
+  line: CostVarianceLine,
+  planned: number,
+  actual: number,
+  plannedDriver: number | undefined,
+  actualDriver: number | undefined
+): CostLineVariance {
+  const effects = zeroCostEffects();
+  if (plannedDriver && actualDriver !== undefined) {
+    effects.volume = (actualDriver - plannedDriver) * (planned / plannedDriver);
+  }
+  effects.rate = actual - planned - effects.volume;
+  return { line, label: COST_LINE_LABELS[line], planned, actual, effects };
+}
+
+/**
+ * Break down one recorded week's variance against its planned week
+ */
+export function analyzeWeekVariance(
+  plan: WeeklyProjection,
+  actual: ActualsEntry,
+  revenueMetrics: RevenueMetrics | null
+): WeekVariance {
+  const rates = (revenueMetrics || {}) as Partial<RevenueMetrics>;
+
+  const revenueSplit = splitLines(actual, STREAMS, actual.totalRevenue);
+  const streams = revenueSplit
+    ? revenueSplit.map(({ line, value }) => line === 'other'
+      ? streamVariance('other', 0, value, plan.footTraffic, actual.footTraffic, 0, undefined)
+      : streamVariance(
+        line,
+        plan[line],
+        value,
+        plan.footTraffic,
+        actual.footTraffic,
+        rates[STREAM_DRIVERS[line].rate] || 0,
+        actual[STREAM_DRIVERS[line].count]
+      ))
+    : [streamVariance('total', plan.totalRevenue, actual.totalRevenue, plan.footTraffic, actual.footTraffic, 0, undefined)];
+
+  const costSplit = splitLines<CostLine | 'additionalCosts'>(actual, [...COST_LINES, 'additionalCosts'], actual.totalCosts);
+  const costLines = costSplit
+    ? costSplit.map(({ line, value }) => {
+      if (line === 'other' || line === 'additionalCosts') {
+        return costLineVariance(line, 0, value, undefined, undefined);
+      }
+      const driver = COST_DRIVERS[line];
+      return costLineVariance(line, plan[line] || 0, value, driver?.(plan), driver?.(actual));
+    })
+    : [costLineVariance('total', plan.totalCosts, actual.totalCosts, undefined, undefined)];
+
+  // Lines neither planned nor recorded have nothing to explain
+  const hasFigures = (line: { planned: number; actual: number }) => line.planned !== 0 || line.actual !== 0;
+
+  const revenueEffects = zeroRevenueEffects();
+  streams.forEach(stream => REVENUE_EFFECTS.forEach(effect => { revenueEffects[effect] += stream.effects[effect]; }));
+  const costEffects = zeroCostEffects();
+  costLines.forEach(cost => COST_EFFECTS.forEach(effect => { costEffects[effect] += cost.effects[effect]; }));
+
+  return {
+    week: plan.week,
+    plannedRevenue: plan.totalRevenue,
+    actualRevenue: actual.totalRevenue,
+    plannedCosts: plan.totalCosts,
+    actualCosts: actual.totalCosts,
+    plannedProfit: plan.weeklyProfit,
+    actualProfit: getActualProfit(actual),
+    revenueEffects,
+    costEffects,
+    streams: streams.filter(hasFigures),
+    costLines: costLines.filter(hasFigures)
+  };
+}
+
+/**
+ * Break down the variance of every week recorded in actuals, with totals over them
+ */
+export function analyzeVariance(
+  plan: WeeklyProjection[],
+  actuals: ActualsEntry[] | undefined,
+  revenueMetrics: RevenueMetrics | null
+): VarianceAnalysis {
+  const weeks = plan.flatMap(week => {
+    const actual = getActualsForWeek(actuals, week.week);
+    return actual ? [analyzeWeekVariance(week, actual, revenueMetrics)] : [];
+  });
+
+  const totals: VarianceFigures = {
+    plannedRevenue: 0,
+    actualRevenue: 0,
+    plannedCosts: 0,
+    actualCosts: 0,
+    plannedProfit: 0,
+    actualProfit: 0,
+    revenueEffects: zeroRevenueEffects(),
+    costEffects: zeroCostEffects()
+  };
+  weeks.forEach(week => {
+    totals.plannedRevenue += week.plannedRevenue;
+    totals.actualRevenue += week.actualRevenue;
+    totals.plannedCosts += week.plannedCosts;
+    totals.actualCosts += week.actualCosts;
+    totals.plannedProfit += week.plannedProfit;
+    totals.actualProfit += week.actualProfit;
+    REVENUE_EFFECTS.forEach(effect => { totals.revenueEffects[effect] += week.revenueEffects[effect]; });
+    COST_EFFECTS.forEach(effect => { totals.costEffects[effect] += week.costEffects[effect]; });
+  });
+
+  return { weeks, totals };
+}
+
+/**
+ * Steps of a profit waterfall from planned to actual profit. Cost effects
+ * are turned into their effect on profit, so an overspend is a step down.
+ */
+export function buildProfitWaterfall(figures: VarianceFigures): WaterfallStep[] {
+  const steps: WaterfallStep[] = [{
+    key: 'plan',
+    label: 'Planned profit',
+    value: figures.plannedProfit,
+    start: 0,
+    end: figures.plannedProfit,
+    isTotal: true
+  }];
+  let running = figures.plannedProfit;
+
+  const addStep = (key: WaterfallStep['key'], label: string, value: number) => {
+    steps.push({ key, label, value, start: running, end: running + value, isTotal: false });
+    running += value;
+  };
+  REVENUE_EFFECTS.forEach(effect => addStep(`revenue-${effect}`, REVENUE_EFFECT_LABELS[effect], figures.revenueEffects[effect]));
+  COST_EFFECTS.forEach(effect => addStep(`cost-${effect}`, COST_EFFECT_LABELS[effect], -figures.costEffects[effect]));
+
+  steps.push({
+    key: 'actual',
+    label: 'Actual profit',
+    value: figures.actualProfit,
+    start: 0,
+    end: figures.actualProfit,
+    isTotal: true
+  });
+  return steps;
+}
@@ -0,0 +1,383 @@
+/**
+ * XLSX Writer
+ * Writes Office Open XML workbooks (.xlsx) without a spreadsheet library:
+ * each sheet's cells are typed (text, numbers, dates, currency and percentages
+ * with their number formats), may hold formulas, and the workbook can name
+ * cells so formulas read like the model. Parts are stored uncompressed in the
+ * zip, which Excel, Numbers and LibreOffice all open; Excel recalculates the
+ * formulas on load.
+ */
+
+export type XlsxNumberFormat = 'general' | 'integer' | 'number' | 'currency' | 'percent' | 'date';
+
+export type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxCell {
+  value?: XlsxValue; // for formulas, the result shown until the workbook is recalculated
+  formula?: string;  // without the leading '='
+  format?: XlsxNumberFormat;
+  bold?: boolean;
+}
+
+export type XlsxCellInput = XlsxValue | XlsxCell;
+
+export interface XlsxColumn {
+  header: string;
+  width?: number;
+  format?: XlsxNumberFormat; // for numbers in the column that don't set their own
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellInput[][]; // below the header row, so the first is spreadsheet row 2
+}
+
+// A workbook-level name for a single cell, e.g. TicketPrice for Inputs!$B$2
+export interface XlsxDefinedName {
+  name: string;
+  sheet: string;
+  cell: string;
+}
+
+export interface XlsxWorkbook {
+  sheets: XlsxSheet[];
+  definedNames?: XlsxDefinedName[];
+  currencySymbol?: string; // for 'currency' cells; '$' when not given
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const DEFAULT_COLUMN_WIDTH = 14;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Built-in number formats; dates and currency get custom ones
+const BUILT_IN_FORMAT_IDS: Partial<Record<XlsxNumberFormat, number>> = {
+  general: 0,
+  integer: 3,  // #,##0
+  number: 4,   // #,##0.00
+  percent: 10  // 0.00%
+};
+const DATE_FORMAT_ID = 164;
+const CURRENCY_FORMAT_ID = 165;
+
+// Control characters other than tab and line breaks aren't allowed in XML
+const isAllowedInXml = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D;
+};
+
+const escapeXml = (text: string): string =>
+  Array.from(text)
+    .filter(isAllowedInXml)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Column letters for a zero-based column index: 0 is A, 26 is AA
+ */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * A1-style reference for a zero-based column and a spreadsheet row number
+ */
+export function cellReference(column: number, row: number, absolute = false): string {
+  return absolute ? `$${columnLetter(column)}$${row}` : `${columnLetter(column)}${row}`;
+}
+
+/**
+ * A cell on another sheet, quoting the sheet name as formulas need it
+ */
+export function sheetReference(sheet: string, cell: string): string {
+  return `'${sheet.replace(/'/g, "''")}'!${cell}`;
+}
+
+/**
+ * Sheet names Excel accepts: no []:*?/\ characters, at most 31 long and unique
+ * in the workbook (compared case-insensitively)
+ */
+export function toSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = (name.replace(/[[\]:*?/\\]/g, ' ').replace(/^'+|'+$/g, '').trim() || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+// Days since 30 December 1899 (Excel's day 0), keeping the date's local calendar day and time
+const toExcelDate = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) -
+    EXCEL_EPOCH) / DAY_MS;
+
+const isCell = (input: XlsxCellInput): input is XlsxCell =>
+  typeof input === 'object' && input !== null && !(input instanceof Date);
+
+interface StyleRegistry {
+  get: (format: XlsxNumberFormat, bold: boolean) => number;
+  toXml: (currencySymbol: string) => string;
+}
+
+/**
+ * Cell formats (styles.xml `cellXfs`) by number format and weight, added as
+ * cells use them; 0 is the default
+ */
+function createStyleRegistry(): StyleRegistry {
+  const styles: { format: XlsxNumberFormat; bold: boolean }[] = [{ format: 'general', bold: false }];
+
+  const get = (format: XlsxNumberFormat, bold: boolean): number => {
+    const index = styles.findIndex(style => style.format === format && style.bold === bold);
+    if (index !== -1) return index;
+    styles.push({ format, bold });
+    return styles.length - 1;
+  };
+
+  const toXml = (currencySymbol: string): string => {
+    const symbol = `"${currencySymbol.replace(/"/g, '')}"`;
+    const currencyCode = `${symbol}#,##0.00;-${symbol}#,##0.00`;
+    const formatId = (format: XlsxNumberFormat) =>
+      format === 'date' ? DATE_FORMAT_ID : format === 'currency' ? CURRENCY_FORMAT_ID : BUILT_IN_FORMAT_IDS[format] ?? 0;
+
+    const cellFormats = styles.map(({ format, bold }) => {
+      const numFmtId = formatId(format);
+      return `<xf numFmtId="${numFmtId}" fontId="${bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"` +
+        `${numFmtId !== 0 ? ' applyNumberFormat="1"' : ''}${bold ? ' applyFont="1"' : ''}/>`;
+    });
+
+    return XML_HEADER +
+      `<styleSheet xmlns="${NAMESPACE}">` +
+      '<numFmts count="2">' +
+      `<numFmt numFmtId="${DATE_FORMAT_ID}" formatCode="yyyy-mm-dd"/>` +
+      `<numFmt numFmtId="${CURRENCY_FORMAT_ID}" formatCode="${escapeXml(currencyCode)}"/>` +
+      '</numFmts>' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${cellFormats.length}">${cellFormats.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>';
+  };
+
+  return { get, toXml };
+}
+
+function cellXml(input: XlsxCellInput, reference: string, columnFormat: XlsxNumberFormat | undefined, styles: StyleRegistry): string {
+  const cell: XlsxCell = isCell(input) ? input : { value: input };
+  const { value, formula, bold = false } = cell;
+  if (formula === undefined && (value === null || value === undefined || value === '')) return '';
+
+  let type = '';
+  let content = '';
+  let format: XlsxNumberFormat = 'general';
+
+  if (value instanceof Date) {
+    if (!isNaN(value.getTime())) content = `<v>${toExcelDate(value)}</v>`;
+    format = cell.format || 'date';
+  } else if (typeof value === 'number') {
+    if (Number.isFinite(value)) content = `<v>${value}</v>`;
+    format = cell.format || columnFormat || 'general';
+  } else if (typeof value === 'boolean') {
+    type = ' t="b"';
+    content = `<v>${value ? 1 : 0}</v>`;
+  } else if (value !== null && value !== undefined) {
+    if (formula !== undefined) {
+      type = ' t="str"';
+      content = `<v>${escapeXml(value)}</v>`;
+    } else {
+      type = ' t="inlineStr"';
+      content = `<is><t xml:space="preserve">${escapeXml(value)}</t></is>`;
+    }
+  } else if (formula !== undefined) {
+    format = cell.format || columnFormat || 'general';
+  }
+
+  const formulaXml = formula !== undefined ? `<f>${escapeXml(formula.replace(/^=/, ''))}</f>` : '';
+  const style = styles.get(format, bold);
+  return `<c r="${reference}"${style ? ` s="${style}"` : ''}${type}>${formulaXml}${content}</c>`;
+}
+
+function sheetXml(sheet: XlsxSheet, styles: StyleRegistry): string {
+  const header = sheet.columns.map(column => ({ value: column.header, bold: true }) as XlsxCell);
+  const rows = [header, ...sheet.rows].map((cells, rowIndex) => {
+    const row = rowIndex + 1;
+    const cellsXml = cells
+      .map((cell, column) => cellXml(cell, cellReference(column, row), rowIndex > 0 ? sheet.columns[column]?.format : undefined, styles))
+      .join('');
+    return `<row r="${row}">${cellsXml}</row>`;
+  });
+
+  const columns = sheet.columns.map((column, index) =>
+    `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(DEFAULT_COLUMN_WIDTH, column.header.length + 2)}" customWidth="1"/>`
+  );
+
+  return XML_HEADER +
+    `<worksheet xmlns="${NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (columns.length > 0 ? `<cols>${columns.join('')}</cols>` : '') +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+// CRC-32 (IEEE) as zip entries need it
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Zip archive with every file stored uncompressed
+ */
+function createZip(files: { path: string; content: string }[], modified: Date): Uint8Array {
+  const encoder = new TextEncoder();
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+
+  const entries = files.map(file => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const directorySize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const output = new Uint8Array(localSize + directorySize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  entries.forEach(entry => {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);      // version needed
+    view.setUint16(offset + 6, 0x0800, true);  // UTF-8 names
+    view.setUint16(offset + 8, 0, true);       // stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(entry.name, offset + 30);
+    output.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  });
+
+  const directoryOffset = offset;
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);      // version made by
+    view.setUint16(offset + 6, 20, true);      // version needed
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    output.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, directoryOffset, true);
+
+  return output;
+}
+
+/**
+ * The workbook as the bytes of an .xlsx file. Sheet names should already be
+ * valid (see toSheetNames), as formulas refer to sheets by name.
+ */
+export function writeXlsx(workbook: XlsxWorkbook, modified: Date = new Date()): Uint8Array {
+  const styles = createStyleRegistry();
+  const sheets = workbook.sheets.map((sheet, index) => ({
+    name: sheet.name,
+    path: `xl/worksheets/sheet${index + 1}.xml`,
+    xml: sheetXml(sheet, styles)
+  }));
+
+  const sheetIndex = new Map(workbook.sheets.map((sheet, index) => [sheet.name, index]));
+  const definedNames = (workbook.definedNames || [])
+    .filter(definedName => sheetIndex.has(definedName.sheet))
+    .map(definedName => `<definedName name="${escapeXml(definedName.name)}">${escapeXml(sheetReference(definedName.sheet, definedName.cell))}</definedName>`);
+
+  const workbookXml = XML_HEADER +
+    `<workbook xmlns="${NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">` +
+    '<bookViews><workbookView/></bookViews>' +
+    `<sheets>${sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+    (definedNames.length > 0 ? `<definedNames>${definedNames.join('')}</definedNames>` : '') +
+    '<calcPr calcId="191029" fullCalcOnLoad="1"/>' +
+    '</workbook>';
+
+  const workbookRelationships = XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    sheets.map((_sheet, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const contentTypes = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map(sheet =>
+      `<Override PartName="/${sheet.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+  const packageRelationships = XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  return createZip([
+    { path: '[Content_Types].xml', content: contentTypes },
+    { path: '_rels/.rels', content: packageRelationships },
+    { path: 'xl/workbook.xml', content: workbookXml },
+    { path: 'xl/_rels/workbook.xml.rels', content: workbookRelationships },
+    { path: 'xl/styles.xml', content: styles.toXml(workbook.currencySymbol ?? '$') },
+    ...sheets.map(sheet => ({ path: sheet.path, content: sheet.xml }))
+  ], modified);
+}
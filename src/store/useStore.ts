@@ -5,11 +5,15 @@ import type {
   RiskAssessment, 
   SeasonalAnalysis, 
   Scenario, 
+  BaselinePromotion,
+  Currency,
+  FxRate,
+  ProductInfo,
+  ProductTemplate,
   LikelihoodLevel, 
-  ImpactLevel,
-  ScenarioModel 
+  ImpactLevel
 } from '../types';
-import { DEFAULT_GROWTH_METRICS, DEFAULT_REVENUE_METRICS, DEFAULT_COST_METRICS, DEFAULT_CUSTOMER_METRICS, DEFAULT_SEASONAL_ANALYSIS } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_GROWTH_METRICS, DEFAULT_REVENUE_METRICS, DEFAULT_COST_METRICS, DEFAULT_CUSTOMER_METRICS, DEFAULT_SEASONAL_ANALYSIS } from '../types';
 import { db } from '../lib/firebase';
 import { 
   collection, 
@@ -21,7 +25,7 @@ import {
   query, 
   where, 
   getDoc,
-  setDoc,
+  runTransaction,
   serverTimestamp,
   Firestore,
   CollectionReference,
@@ -32,6 +36,22 @@ import type { StorageMode } from '../contexts/StorageContext';
 import { useCallback, useState } from 'react';
 import { getDb } from '../lib/firebase-lazy';
 import { persist } from 'zustand/middleware';
+import { migrateProductScenarios, applyScenario } from '../lib/scenarioEngine';
+import { toModelInputs } from '../lib/modelInputs';
+import { generateWeeklyProjections } from '../lib/calculations';
+import { withLongTermForecast } from '../lib/longTermForecast';
+import { createReforecastSnapshot } from '../lib/reforecast';
+import { createForecastSnapshot } from '../lib/forecastSnapshots';
+import { createProductFromTemplate } from '../lib/productTemplates';
+import type { NewProductTemplate, TemplateOverrides } from '../lib/productTemplates';
+import type { LegacyScenarioModel } from '../lib/scenarioEngine';
+import { migrateProduct, migrateProducts, CURRENT_SCHEMA_VERSION } from '../lib/schemaMigrations';
+import { queueOfflineOperation, hasPendingOperations, recordServerVersion, getServerVersion } from '../lib/syncQueue';
+import { isOfflineError } from '../lib/errorHandling';
+import { mergeProducts, mergeChangedLocal } from '../lib/productMerge';
+import type { MergeConflict, MergeSide, ProductMergeConflict } from '../lib/productMerge';
+import { syncProductsWithCloud, markLocalChange, markProductSynced, forgetProduct } from '../lib/storageSync';
+import type { ProductSyncResult } from '../lib/storageSync';
 
 // Collection names
 const PRODUCTS_COLLECTION = 'products';
@@ -41,6 +61,12 @@ const SCENARIOS_COLLECTION = 'scenarios';
 const STORAGE_KEY = 'fortress-products';
 const SCENARIOS_STORAGE_KEY = 'fortress-scenarios';
 
+// Last copy of each product read from or saved to Firestore, the base for merging concurrent edits
+const syncedProducts = new Map<string, Product>();
+
+// Cloud saves in flight per product, run one after another so each merges against the last
+const pendingSaves = new Map<string, Promise<void>>();
+
 // Global variable to track storage mode - can be updated from outside
 let currentStorageMode: StorageMode = 'cloud';
 
@@ -51,7 +77,7 @@ export const setStorageMode = (mode: StorageMode) => {
 };
 
 // Check if we should use Firebase or localStorage
-const useFirebase = (): boolean => {
+const shouldUseFirebase = (): boolean => {
   return currentStorageMode === 'cloud' && Boolean(
     typeof db === 'object' && (db as any).type
   );
@@ -59,7 +85,7 @@ const useFirebase = (): boolean => {
 
 // Helper to ensure we're using Firestore properly
 const getFirestore = (): Firestore => {
-  if (!useFirebase()) {
+  if (!shouldUseFirebase()) {
     console.warn('Using local storage instead of Firebase');
     return null as any;
   }
@@ -81,52 +107,27 @@ const getDocument = (collectionPath: string, docId: string): DocumentReference =
   return doc(getFirestore(), collectionPath, docId);
 };
 
-// Load products from storage (Firestore or localStorage)
+// Load products from storage, bringing the browser and cloud copies in step when using the cloud
 const loadProducts = async (): Promise<Product[]> => {
-  if (useFirebase()) {
+  const localProducts = loadLocalProducts();
+  
+  if (shouldUseFirebase()) {
     try {
-      const productsSnapshot = await getDocs(getCollection(PRODUCTS_COLLECTION));
-      const products: Product[] = [];
-      
-      productsSnapshot.forEach((doc) => {
-        const data = doc.data() as Product;
-        // Ensure the ID is set correctly
-        if (!data.info) {
-          const now = new Date();
-          data.info = { 
-            id: doc.id, 
-            name: '', 
-            type: 'Experiential Events',
-            description: '', 
-            logo: null,
-            targetAudience: '',
-            developmentStartDate: now,
-            developmentEndDate: now,
-            launchDate: now,
-            forecastPeriod: 12,
-            forecastType: 'weekly',
-            createdAt: now,
-            updatedAt: now
-          };
-        }
-        if (!data.info.id) data.info.id = doc.id;
-        
-        // Ensure actuals array is initialized
-        if (!data.actuals) {
-          data.actuals = [];
-        }
-        
-        products.push(data);
-      });
-      
+      const { products, results } = await syncProductsWithCloud(getFirestore(), localProducts);
+      rememberSyncedProducts(products, results);
+      saveLocalProducts(products);
       return products;
     } catch (error) {
-      console.error('Error loading products from Firestore:', error);
+      console.error('Error syncing products with Firestore:', error);
       // Fall through to localStorage as backup
     }
   }
   
-  // Use localStorage (either by preference or as fallback)
+  return localProducts;
+};
+
+// Load products saved in the browser
+const loadLocalProducts = (): Product[] => {
   try {
     const savedProducts = localStorage.getItem(STORAGE_KEY);
     const products = savedProducts ? JSON.parse(savedProducts) : [];
@@ -145,8 +146,30 @@ const loadProducts = async (): Promise<Product[]> => {
   }
 };
 
-// Save product to storage (Firestore or localStorage)
-const saveProduct = async (product: Product): Promise<void> => {
+// Replace the products saved in the browser
+const saveLocalProducts = (products: Product[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(products));
+  } catch (localError) {
+    console.error('Error saving products to localStorage:', localError);
+  }
+};
+
+// Products now matching their cloud copy become the base for merging later edits
+const rememberSyncedProducts = (products: Product[], results: ProductSyncResult[]): void => {
+  const syncedIds = new Set(results
+    .filter(result => result.action !== 'skipped' && result.action !== 'failed')
+    .map(result => result.productId));
+  products
+    .filter(product => syncedIds.has(product.info.id))
+    .forEach(product => syncedProducts.set(product.info.id, product));
+};
+
+// Save product to storage (Firestore or localStorage). Resolves to false when
+// the browser copy, which cloud saves fall back on, couldn't be written
+const saveProduct = async (product: Product): Promise<boolean> => {
+  let savedLocally = true;
+  
   // Always save to localStorage as a backup regardless of storage mode
   try {
     const savedProducts = localStorage.getItem(STORAGE_KEY);
@@ -155,100 +178,198 @@ const saveProduct = async (product: Product): Promise<void> => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newProducts));
   } catch (localError) {
     console.error('Error saving product to localStorage:', localError);
+    savedLocally = false;
   }
   
   // If using cloud storage, also save to Firestore
-  if (useFirebase()) {
+  if (!shouldUseFirebase()) {
+    // Carried to the cloud by the next sync
+    markLocalChange(product.info.id);
+  } else {
+    const productId = product.info.id;
+    // The copy this edit was made from, taken now as saves ahead of it may move it on
+    const base = syncedProducts.get(productId);
+    const save = (pendingSaves.get(productId) || Promise.resolve()).then(() => saveProductToFirestore(product, base));
+    pendingSaves.set(productId, save);
+    
     try {
-      const docRef = getDocument(PRODUCTS_COLLECTION, product.info.id);
-      await setDoc(docRef, {
-        ...product,
+      await save;
+    } finally {
+      if (pendingSaves.get(productId) === save) {
+        pendingSaves.delete(productId);
+      }
+    }
+  }
+  
+  return savedLocally;
+};
+
+// Save a product to Firestore, merging it with any changes saved by someone else since `base`
+const saveProductToFirestore = async (product: Product, base: Product | undefined): Promise<void> => {
+  const productId = product.info.id;
+  
+  // Offline, or behind changes still waiting to sync: queue it so changes reach the server in order
+  if (!navigator.onLine || await hasPendingOperations(PRODUCTS_COLLECTION, productId)) {
+    markLocalChange(productId);
+    await queueProductWrite(product);
+    return;
+  }
+  
+  try {
+    const docRef = getDocument(PRODUCTS_COLLECTION, productId);
+    const result = await runTransaction(getFirestore(), async (transaction) => {
+      const snapshot = await transaction.get(docRef);
+      const remote = snapshot.exists() ? snapshot.data() as Product : null;
+      const remoteVersion = remote?.version || 0;
+      let saved = product;
+      let conflicts: MergeConflict[] = [];
+      
+      // Saved elsewhere since our copy was read: keep both sets of changes where they don't collide
+      if (remote && base && remoteVersion !== (base.version || 0)) {
+        ({ merged: saved, conflicts } = mergeProducts(base, product, remote));
+        if (conflicts.length > 0) {
+          return { saved, remote, conflicts };
+        }
+      }
+      
+      saved = { ...saved, version: remoteVersion + 1 };
+      transaction.set(docRef, {
+        ...saved,
         updatedAt: serverTimestamp()
       });
-    } catch (error) {
-      console.error('Error saving product to Firestore:', error);
+      return { saved, remote, conflicts };
+    });
+    
+    if (result.conflicts.length > 0 && base && result.remote) {
+      // Hold the save back until the planner picks which changes to keep
+      markLocalChange(productId);
+      reportMergeConflict({
+        productId,
+        base,
+        local: product,
+        remote: result.remote,
+        conflicts: result.conflicts,
+        detectedAt: new Date()
+      });
+      return;
+    }
+    
+    syncedProducts.set(productId, result.saved);
+    await markProductSynced(result.saved);
+    if (mergeChangedLocal(product, result.saved)) {
+      applySavedProduct(product, result.saved);
+    }
+    
+    const saved = await getDoc(docRef);
+    await recordServerVersion(PRODUCTS_COLLECTION, productId, saved.data()?.updatedAt);
+  } catch (error) {
+    console.error('Error saving product to Firestore:', error);
+    markLocalChange(productId);
+    if (isOfflineError(error)) {
+      await queueProductWrite(product);
     }
   }
 };
 
-// Load scenarios from storage (Firestore or localStorage)
-const loadScenarios = async (): Promise<ScenarioModel[]> => {
-  if (useFirebase()) {
+// Rebuild the saved long-term series when the weekly forecast or market metrics it comes from changed
+const refreshLongTermForecast = (product: Product, previous?: Product): Product =>
+  previous &&
+  product.weeklyProjections === previous.weeklyProjections &&
+  product.marketMetrics === previous.marketMetrics
+    ? product
+    : withLongTermForecast(product);
+
+// Bring changes merged in from the server into the store, on top of any edits made since the save began
+const applySavedProduct = (product: Product, saved: Product): void => {
+  useStore.setState((state) => ({
+    products: state.products.map((p: Product) => {
+      if (p.info.id !== product.info.id) return p;
+      
+      const { merged } = mergeProducts(product, p, saved);
+      return { ...merged, version: saved.version };
+    })
+  }));
+};
+
+// Show colliding edits to the planner, replacing any earlier ones for the same product
+const reportMergeConflict = (conflict: ProductMergeConflict): void => {
+  useStore.setState((state) => ({
+    mergeConflicts: [
+      ...state.mergeConflicts.filter(c => c.productId !== conflict.productId),
+      conflict
+    ]
+  }));
+};
+
+// Queue a product save for the sync queue to replay once back online
+const queueProductWrite = async (product: Product): Promise<void> => {
+  const baseUpdatedAt = await getServerVersion(PRODUCTS_COLLECTION, product.info.id);
+  // A product the server has never returned is created rather than updated
+  await queueOfflineOperation(
+    baseUpdatedAt === null ? 'create' : 'update',
+    PRODUCTS_COLLECTION,
+    product.info.id,
+    { ...product, version: (syncedProducts.get(product.info.id)?.version || 0) + 1 },
+    baseUpdatedAt
+  );
+};
+
+// Load scenarios saved before they were stored on their product (Firestore or localStorage)
+const loadLegacyScenarios = async (): Promise<LegacyScenarioModel[]> => {
+  const scenarios: LegacyScenarioModel[] = [];
+  
+  if (shouldUseFirebase()) {
     try {
       const scenariosSnapshot = await getDocs(getCollection(SCENARIOS_COLLECTION));
-      const scenarios: ScenarioModel[] = [];
       
       scenariosSnapshot.forEach((doc) => {
-        const data = doc.data() as ScenarioModel;
+        const data = doc.data() as LegacyScenarioModel;
         // Ensure the ID is set correctly
         if (!data.id) data.id = doc.id;
         
         scenarios.push(data);
       });
-      
-      return scenarios;
     } catch (error) {
-      console.error('Error loading scenarios from Firestore:', error);
-      // Fall through to localStorage as backup
+      console.error('Error loading legacy scenarios from Firestore:', error);
     }
   }
   
-  // Use localStorage (either by preference or as fallback)
-  try {
-    const savedScenarios = localStorage.getItem(SCENARIOS_STORAGE_KEY);
-    return savedScenarios ? JSON.parse(savedScenarios) : [];
-  } catch (localError) {
-    console.error('Error loading scenarios from localStorage:', localError);
-    return [];
-  }
-};
-
-// Save scenario to storage (Firestore or localStorage)
-const saveScenario = async (scenario: ScenarioModel): Promise<void> => {
-  // Always save to localStorage as a backup regardless of storage mode
+  // localStorage holds a copy of every legacy scenario, whichever storage mode saved it
   try {
     const savedScenarios = localStorage.getItem(SCENARIOS_STORAGE_KEY);
-    const scenarios = savedScenarios ? JSON.parse(savedScenarios) : [];
-    const newScenarios = [...scenarios.filter((s: ScenarioModel) => s.id !== scenario.id), scenario];
-    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(newScenarios));
+    const localScenarios: LegacyScenarioModel[] = savedScenarios ? JSON.parse(savedScenarios) : [];
+    localScenarios.forEach(scenario => {
+      if (!scenarios.some(s => s.id === scenario.id)) {
+        scenarios.push(scenario);
+      }
+    });
   } catch (localError) {
-    console.error('Error saving scenario to localStorage:', localError);
+    console.error('Error loading legacy scenarios from localStorage:', localError);
   }
   
-  // If using cloud storage, also save to Firestore
-  if (useFirebase()) {
-    try {
-      const docRef = getDocument(SCENARIOS_COLLECTION, scenario.id);
-      await setDoc(docRef, {
-        ...scenario,
-        updatedAt: serverTimestamp()
-      });
-    } catch (error) {
-      console.error('Error saving scenario to Firestore:', error);
-    }
-  }
+  return scenarios;
 };
 
-// Delete scenario from storage
-const deleteScenarioFromDB = async (scenarioId: string): Promise<void> => {
-  // Remove from localStorage first
+// Remove the given legacy scenarios once they have been saved on their products, keeping the rest
+const clearLegacyScenarios = async (scenarioIds: Set<string>): Promise<void> => {
   try {
     const savedScenarios = localStorage.getItem(SCENARIOS_STORAGE_KEY);
-    if (savedScenarios) {
-      const scenarios = JSON.parse(savedScenarios);
-      const filteredScenarios = scenarios.filter((s: ScenarioModel) => s.id !== scenarioId);
-      localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(filteredScenarios));
+    const remaining = (savedScenarios ? JSON.parse(savedScenarios) as LegacyScenarioModel[] : [])
+      .filter(scenario => !scenarioIds.has(scenario.id));
+    if (remaining.length > 0) {
+      localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(SCENARIOS_STORAGE_KEY);
     }
-  } catch (error) {
-    console.error('Error deleting scenario from localStorage:', error);
+  } catch (localError) {
+    console.error('Error clearing legacy scenarios from localStorage:', localError);
   }
   
-  // If using cloud storage, also delete from Firestore
-  if (useFirebase()) {
+  if (shouldUseFirebase()) {
     try {
-      await deleteDoc(getDocument(SCENARIOS_COLLECTION, scenarioId));
+      await Promise.all([...scenarioIds].map(id => deleteDoc(getDocument(SCENARIOS_COLLECTION, id))));
     } catch (error) {
-      console.error('Error deleting scenario from Firestore:', error);
+      console.error('Error deleting legacy scenarios from Firestore:', error);
     }
   }
 };
@@ -268,11 +389,30 @@ const deleteProductFromDB = async (productId: string): Promise<void> => {
   }
   
   // If using cloud storage, also delete from Firestore
-  if (useFirebase()) {
+  if (shouldUseFirebase()) {
+    const queueDelete = async () => queueOfflineOperation(
+      'delete',
+      PRODUCTS_COLLECTION,
+      productId,
+      undefined,
+      await getServerVersion(PRODUCTS_COLLECTION, productId)
+    );
+    
+    if (!navigator.onLine || await hasPendingOperations(PRODUCTS_COLLECTION, productId)) {
+      await queueDelete();
+      return;
+    }
+    
     try {
       await deleteDoc(getDocument(PRODUCTS_COLLECTION, productId));
+      await recordServerVersion(PRODUCTS_COLLECTION, productId, null);
+      syncedProducts.delete(productId);
+      await forgetProduct(productId);
     } catch (error) {
       console.error('Error deleting product from Firestore:', error);
+      if (isOfflineError(error)) {
+        await queueDelete();
+      }
     }
   }
 };
@@ -282,13 +422,18 @@ interface StoreState {
   currentProductId: string | null;
   isLoading: boolean;
   error: string | null;
-  scenarios: ScenarioModel[];
   recentlyViewed: string[];
-  addScenarioModel: (scenario: ScenarioModel) => void;
-  updateScenarioModel: (scenario: ScenarioModel) => void;
-  deleteScenarioModel: (scenarioId: string) => void;
-  getScenariosByProduct: (productId: string) => ScenarioModel[];
+  reportingCurrency: Currency;
+  fxRates: FxRate[];
+  productTemplates: ProductTemplate[]; // Saved by the user; built-in templates live in lib/productTemplates
+  mergeConflicts: ProductMergeConflict[];
   addProduct: (product: Product) => void;
+  importProducts: (products: Product[]) => void;
+  addProductFromTemplate: (
+    template: ProductTemplate,
+    info: Pick<ProductInfo, 'name'> & Partial<ProductInfo>,
+    overrides?: TemplateOverrides
+  ) => string;
   updateProduct: ((productId: string, updates: Partial<Product>) => void) & ((product: Product) => void);
   deleteProduct: (productId: string) => void;
   setCurrentProduct: (productId: string | null) => void;
@@ -297,10 +442,24 @@ interface StoreState {
   updateRiskAssessment: (productId: string, riskId: string, updates: Partial<RiskAssessment>) => void;
   deleteRiskAssessment: (productId: string, riskId: string) => void;
   updateSeasonalAnalysis: (productId: string, seasonalAnalysis: SeasonalAnalysis[]) => void;
-  addScenario: (productId: string, scenario: Omit<Scenario, 'id'>) => void;
+  addScenario: (productId: string, scenario: Omit<Scenario, 'id'>) => string;
   updateScenario: (productId: string, scenarioId: string, updates: Partial<Scenario>) => void;
   deleteScenario: (productId: string, scenarioId: string) => void;
+  promoteScenario: (productId: string, scenarioId: string) => void;
+  undoBaselinePromotion: (productId: string) => void;
+  saveReforecast: (productId: string, name?: string) => void;
+  saveForecastSnapshot: (productId: string, name: string) => void;
+  deleteForecastSnapshot: (productId: string, snapshotId: string) => void;
+  setReportingCurrency: (currency: Currency) => void;
+  addFxRate: (rate: Omit<FxRate, 'id'>) => void;
+  updateFxRate: (rateId: string, updates: Partial<FxRate>) => void;
+  deleteFxRate: (rateId: string) => void;
+  saveProductTemplate: (template: NewProductTemplate) => string;
+  deleteProductTemplate: (templateId: string) => void;
+  resolveMergeConflict: (productId: string, resolutions: Record<string, MergeSide>) => void;
+  keepServerProduct: (productId: string, serverData: DocumentData | null) => Promise<void>;
   initializeStore: () => Promise<void>;
+  syncWithCloud: () => Promise<ProductSyncResult[]>;
   syncStorage: (mode: StorageMode) => Promise<void>;
 }
 
@@ -312,20 +471,39 @@ const useStore = create<StoreState>()(
         currentProductId: null,
         isLoading: false,
         error: null,
-        scenarios: [],
         recentlyViewed: [],
+        reportingCurrency: DEFAULT_CURRENCY,
+        fxRates: [],
+        productTemplates: [],
+        mergeConflicts: [],
 
         // Initialize store with data from storage
         initializeStore: async () => {
           set({ isLoading: true });
           try {
             // Load from storage based on current mode
-            const products = await loadProducts();
-            const scenarios = await loadScenarios();
+            const loadedProducts = await loadProducts();
+            const legacyScenarios = await loadLegacyScenarios();
+            
+            // Upgrade products saved with an older schema, fold in separately saved scenarios, and save any that changed
+            const products = migrateProducts(loadedProducts, shouldUseFirebase() ? 'cloud' : 'localStorage')
+              .map(product => migrateProductScenarios(product, legacyScenarios));
+            const changed = products.filter((product, index) => product !== loadedProducts[index]);
+            const saved = await Promise.all(changed.map(product => saveProduct(product)));
+            
+            // Legacy scenarios are only removed once they are kept on a product that saved;
+            // ones for products that didn't load or save stay for a later load
+            const unsavedIds = new Set(changed.filter((_, index) => !saved[index]).map(product => product.info.id));
+            const foldedIds = new Set(legacyScenarios
+              .filter(legacy => !unsavedIds.has(legacy.productId) && products.some(product =>
+                product.info.id === legacy.productId && product.scenarios?.some(scenario => scenario.id === legacy.id)))
+              .map(legacy => legacy.id));
+            if (foldedIds.size > 0) {
+              await clearLegacyScenarios(foldedIds);
+            }
             
             set({ 
               products, 
-              scenarios,
               isLoading: false
             });
             
@@ -345,56 +523,54 @@ const useStore = create<StoreState>()(
           }
         },
 
-        // Sync storage when mode changes
-        syncStorage: async (mode: StorageMode) => {
-          setStorageMode(mode);
-          return get().initializeStore();
-        },
-
-        addScenarioModel: (scenario: ScenarioModel) => {
-          // Generate ID if not present
-          const newScenario = {
-            ...scenario,
-            id: scenario.id || crypto.randomUUID(),
-            updatedAt: new Date().toISOString()
-          };
+        // Bring the browser and cloud copies in step in the background, keeping edits made meanwhile
+        syncWithCloud: async () => {
+          if (!shouldUseFirebase()) {
+            return [];
+          }
           
-          set((state) => {
-            const newScenarios = [...state.scenarios, newScenario];
-            return { scenarios: newScenarios };
-          });
+          const localProducts = get().products;
+          const { products: pulled, results } = await syncProductsWithCloud(getFirestore(), localProducts);
+          // Copies saved by an older version of the app elsewhere are brought up to date as they arrive
+          const syncedList = migrateProducts(pulled, 'cloud');
+          rememberSyncedProducts(syncedList, results);
           
-          // Save to storage (Firestore or localStorage)
-          saveScenario(newScenario);
-        },
-
-        updateScenarioModel: (scenario: ScenarioModel) => {
-          set((state) => {
-            const newScenarios = state.scenarios.map((s) => 
-              s.id === scenario.id ? { ...scenario, updatedAt: new Date().toISOString() } : s
-            );
-            return { scenarios: newScenarios };
-          });
+          const before = new Map(localProducts.map(product => [product.info.id, product]));
+          const after = new Map(syncedList.map(product => [product.info.id, product]));
           
-          // Save to storage (Firestore or localStorage)
-          saveScenario({
-            ...scenario,
-            updatedAt: new Date().toISOString()
-          });
-        },
-
-        deleteScenarioModel: (scenarioId: string) => {
           set((state) => {
-            const newScenarios = state.scenarios.filter((s) => s.id !== scenarioId);
-            return { scenarios: newScenarios };
+            const products = state.products
+              .map((product: Product) => {
+                const previous = before.get(product.info.id);
+                const synced = after.get(product.info.id);
+                // Added since the sync began
+                if (!previous) return product;
+                // Deleted in the cloud
+                if (!synced) return null;
+                // Edited since the sync began
+                return product === previous ? synced : mergeProducts(previous, product, synced).merged;
+              })
+              .filter((product): product is Product => product !== null);
+            
+            // Products that only existed in the cloud
+            syncedList
+              .filter(product => !before.has(product.info.id))
+              .forEach(product => products.push(product));
+            
+            saveLocalProducts(products);
+            return {
+              products,
+              currentProductId: products.some(p => p.info.id === state.currentProductId) ? state.currentProductId : null
+            };
           });
           
-          // Delete from storage
-          deleteScenarioFromDB(scenarioId);
+          return results;
         },
 
-        getScenariosByProduct: (productId: string) => {
-          return get().scenarios.filter((s) => s.productId === productId);
+        // Sync storage when mode changes
+        syncStorage: async (mode: StorageMode) => {
+          setStorageMode(mode);
+          return get().initializeStore();
         },
 
         clearError: () => set({ error: null }),
@@ -413,11 +589,11 @@ const useStore = create<StoreState>()(
             costMetrics: { ...DEFAULT_COST_METRICS },
             customerMetrics: { ...DEFAULT_CUSTOMER_METRICS },
             weeklyProjections: [],
-            actualMetrics: [],
             actuals: [],  // Initialize as empty array instead of undefined
             risks: [],
             seasonalAnalysis: [...DEFAULT_SEASONAL_ANALYSIS],
-            scenarios: []
+            scenarios: [],
+            schemaVersion: CURRENT_SCHEMA_VERSION
           };
           
           set((state) => {
@@ -435,11 +611,43 @@ const useStore = create<StoreState>()(
           saveProduct(newProduct);
         },
 
+        // Add products read from a bundle as they are, replacing any with the same id
+        importProducts: (products: Product[]) => {
+          if (products.length === 0) return;
+          
+          set((state) => {
+            const importedIds = new Set(products.map(product => product.info.id));
+            return {
+              products: [...state.products.filter((p: Product) => !importedIds.has(p.info.id)), ...products]
+            };
+          });
+          
+          // Save each imported product
+          products.forEach(product => saveProduct(product));
+        },
+
+        // Create a product from a template, keeping the template's assumptions
+        addProductFromTemplate: (template, info, overrides = {}) => {
+          const newProduct = createProductFromTemplate(template, info, overrides);
+          const productId = newProduct.info.id;
+          
+          set((state) => ({
+            products: [...state.products, newProduct],
+            currentProductId: productId
+          }));
+          
+          localStorage.setItem('currentProductId', productId);
+          saveProduct(newProduct);
+          
+          return productId;
+        },
+
         updateProduct: ((productIdOrProduct: string | Product, updates?: Partial<Product>) => {
           // Check if first argument is a product object or a product ID
           if (typeof productIdOrProduct === 'object') {
             // First argument is a product object
-            const product = productIdOrProduct;
+            const previous = get().products.find(p => p.id === productIdOrProduct.id);
+            const product = refreshLongTermForecast(productIdOrProduct, previous);
             
             set((state) => {
               const newProducts = state.products.map((p: Product) => 
@@ -463,7 +671,7 @@ const useStore = create<StoreState>()(
             set((state) => {
               const newProducts = state.products.map((p: Product) => 
                 p.info.id === productId 
-                  ? { ...p, ...updates }
+                  ? refreshLongTermForecast({ ...p, ...updates }, p)
                   : p
               );
               return { products: newProducts };
@@ -473,7 +681,7 @@ const useStore = create<StoreState>()(
             try {
               const product = get().products.find(p => p.info.id === productId);
               if (product) {
-                saveProduct({ ...product, ...updates! });
+                saveProduct(product);
               }
             } catch (error) {
               console.error('Error saving product:', error);
@@ -578,12 +786,14 @@ const useStore = create<StoreState>()(
         },
 
         addScenario: (productId: string, scenario: Omit<Scenario, 'id'>) => {
+          const scenarioId = crypto.randomUUID();
+          
           set((state) => {
             const newProducts = state.products.map((p: Product) => {
               if (p.info.id === productId) {
                 const newScenario = {
                   ...scenario,
-                  id: crypto.randomUUID(),
+                  id: scenarioId,
                   projectedProfit: (scenario.projectedRevenue || 0) - (scenario.projectedCosts || 0),
                   createdAt: new Date(),
                   updatedAt: new Date()
@@ -603,6 +813,8 @@ const useStore = create<StoreState>()(
           if (product) {
             saveProduct(product);
           }
+          
+          return scenarioId;
         },
 
         updateScenario: (productId: string, scenarioId: string, updates: Partial<Scenario>) => {
@@ -645,9 +857,13 @@ const useStore = create<StoreState>()(
           set((state) => {
             const newProducts = state.products.map((p: Product) => {
               if (p.info.id === productId && p.scenarios) {
+                const deleted = p.scenarios.find((s: Scenario) => s.id === scenarioId);
                 return {
                   ...p,
-                  scenarios: p.scenarios.filter((s: Scenario) => s.id !== scenarioId)
+                  // Branches of the deleted scenario move up to its parent
+                  scenarios: p.scenarios
+                    .filter((s: Scenario) => s.id !== scenarioId)
+                    .map((s: Scenario) => s.parentId === scenarioId ? { ...s, parentId: deleted?.parentId } : s)
                 };
               }
               return p;
@@ -662,6 +878,114 @@ const useStore = create<StoreState>()(
           }
         },
 
+        promoteScenario: (productId: string, scenarioId: string) => {
+          const product = get().products.find(p => p.info.id === productId);
+          const scenario = product?.scenarios?.find((s: Scenario) => s.id === scenarioId);
+          if (!product || !scenario) return;
+          
+          const { growthMetrics, revenueMetrics, costMetrics } = applyScenario(
+            toModelInputs(product.info, product.growthMetrics, product.revenueMetrics, product.costMetrics, product),
+            scenario
+          );
+          const promotion: BaselinePromotion = {
+            scenarioId,
+            scenarioName: scenario.name,
+            promotedAt: new Date(),
+            growthMetrics: product.growthMetrics,
+            revenueMetrics: product.revenueMetrics,
+            costMetrics: product.costMetrics
+          };
+          const updatedProduct: Product = withLongTermForecast({
+            ...product,
+            growthMetrics,
+            revenueMetrics,
+            costMetrics,
+            weeklyProjections: generateWeeklyProjections(product.info, growthMetrics, revenueMetrics, costMetrics, product),
+            baselineHistory: [...(product.baselineHistory || []), promotion]
+          });
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? updatedProduct : p)
+          }));
+          
+          // Save the updated product
+          saveProduct(updatedProduct);
+        },
+
+        undoBaselinePromotion: (productId: string) => {
+          const product = get().products.find(p => p.info.id === productId);
+          const history = product?.baselineHistory || [];
+          if (!product || history.length === 0) return;
+          
+          const { growthMetrics, revenueMetrics, costMetrics } = history[history.length - 1];
+          const updatedProduct: Product = withLongTermForecast({
+            ...product,
+            growthMetrics,
+            revenueMetrics,
+            costMetrics,
+            weeklyProjections: generateWeeklyProjections(product.info, growthMetrics, revenueMetrics, costMetrics, product),
+            baselineHistory: history.slice(0, -1)
+          });
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? updatedProduct : p)
+          }));
+          
+          // Save the updated product
+          saveProduct(updatedProduct);
+        },
+
+        saveReforecast: (productId: string, name?: string) => {
+          const product = get().products.find(p => p.info.id === productId);
+          if (!product) return;
+          
+          const updatedProduct: Product = {
+            ...product,
+            forecastSnapshots: [...(product.forecastSnapshots || []), createReforecastSnapshot(product, name)]
+          };
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? updatedProduct : p)
+          }));
+          
+          // Save the updated product
+          saveProduct(updatedProduct);
+        },
+
+        saveForecastSnapshot: (productId: string, name: string) => {
+          const product = get().products.find(p => p.info.id === productId);
+          if (!product || !name.trim()) return;
+          
+          const updatedProduct: Product = {
+            ...product,
+            forecastSnapshots: [...(product.forecastSnapshots || []), createForecastSnapshot(product, name)]
+          };
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? updatedProduct : p)
+          }));
+          
+          // Save the updated product
+          saveProduct(updatedProduct);
+        },
+
+        deleteForecastSnapshot: (productId: string, snapshotId: string) => {
+          const product = get().products.find(p => p.info.id === productId);
+          if (!product) return;
+          
+          const updatedProduct: Product = {
+            ...product,
+            forecastSnapshots: (product.forecastSnapshots || []).filter(snapshot => snapshot.id !== snapshotId)
+          };
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? updatedProduct : p)
+          }));
+          
+          // Save the updated product
+          saveProduct(updatedProduct);
+        },
+
         deleteProduct: (productId: string) => {
           set((state) => {
             const newProducts = state.products.filter((p: Product) => p.info.id !== productId);
@@ -698,14 +1022,104 @@ const useStore = create<StoreState>()(
           } else {
             localStorage.removeItem('currentProductId');
           }
+        },
+
+        // Portfolio currency settings - persisted with the rest of the store state
+        setReportingCurrency: (currency: Currency) => {
+          set({ reportingCurrency: currency });
+        },
+
+        addFxRate: (rate: Omit<FxRate, 'id'>) => {
+          set((state) => ({
+            fxRates: [...state.fxRates, { ...rate, id: crypto.randomUUID() }]
+          }));
+        },
+
+        updateFxRate: (rateId: string, updates: Partial<FxRate>) => {
+          set((state) => ({
+            fxRates: state.fxRates.map(rate => rate.id === rateId ? { ...rate, ...updates, id: rateId } : rate)
+          }));
+        },
+
+        deleteFxRate: (rateId: string) => {
+          set((state) => ({
+            fxRates: state.fxRates.filter(rate => rate.id !== rateId)
+          }));
+        },
+
+        saveProductTemplate: (template: NewProductTemplate) => {
+          const templateId = crypto.randomUUID();
+          set((state) => ({
+            productTemplates: [...state.productTemplates, { ...template, id: templateId, createdAt: new Date() }]
+          }));
+          return templateId;
+        },
+
+        deleteProductTemplate: (templateId: string) => {
+          set((state) => ({
+            productTemplates: state.productTemplates.filter(template => template.id !== templateId)
+          }));
+        },
+
+        // Apply the planner's pick for each colliding field and save the result
+        resolveMergeConflict: (productId: string, resolutions: Record<string, MergeSide>) => {
+          const conflict = get().mergeConflicts.find(c => c.productId === productId);
+          if (!conflict) return;
+          
+          // Merge any edits made while the dialog was open too
+          const current = get().products.find(p => p.info.id === productId) || conflict.local;
+          const { merged: resolvedProduct } = mergeProducts(conflict.base, current, conflict.remote, resolutions);
+          
+          // The merge already holds the server's changes, so it now builds on the server copy
+          syncedProducts.set(productId, conflict.remote);
+          
+          set((state) => ({
+            products: state.products.map((p: Product) => p.info.id === productId ? resolvedProduct : p),
+            mergeConflicts: state.mergeConflicts.filter(c => c.productId !== productId)
+          }));
+          
+          saveProduct(resolvedProduct);
+        },
+
+        // Replace the local copy with the server's after a queued save lost to it, so
+        // neither the reload nor the next sync brings the discarded edits back
+        keepServerProduct: async (productId: string, serverData: DocumentData | null) => {
+          if (!serverData) {
+            // Deleted on the server
+            const products = get().products.filter(p => p.info.id !== productId);
+            set({ products });
+            saveLocalProducts(products);
+            syncedProducts.delete(productId);
+            await forgetProduct(productId);
+            return;
+          }
+
+          const migrated = migrateProduct(serverData as Product);
+          const serverProduct = { ...migrated, info: { ...migrated.info, id: productId } };
+          const exists = get().products.some(p => p.info.id === productId);
+          const products = exists
+            ? get().products.map(p => p.info.id === productId ? serverProduct : p)
+            : [...get().products, serverProduct];
+
+          set({ products });
+          saveLocalProducts(products);
+          syncedProducts.set(productId, serverProduct);
+          await markProductSynced(serverProduct);
         }
       }),
       {
         name: 'fortress-financial-store',
+        version: CURRENT_SCHEMA_VERSION,
+        // Products in state saved by an older version of the app
+        migrate: (persistedState) => {
+          const state = persistedState as Partial<StoreState>;
+          return { ...state, products: migrateProducts(state.products || [], 'persisted store') } as StoreState;
+        },
         partialize: (state) => {
           // Update to include recentlyViewed in persistence
           const { isLoading, error, ...rest } = state;
-          return rest;
+          // Conflicts hold whole product copies, so they aren't kept between sessions
+          return { ...rest, mergeConflicts: [] as ProductMergeConflict[] };
         },
       }
     )
@@ -61,6 +61,12 @@ declare module 'lucide-react' {
   export const Wifi: Icon;
   export const Upload: Icon;
   export const GripVertical: Icon;
+  export const Dices: Icon;
+  export const Target: Icon;
+  export const GitBranch: Icon;
+  export const GitCompare: Icon;
+  export const Undo2: Icon;
+  export const ArrowUpCircle: Icon;
   // Add other icons as needed
 }
 
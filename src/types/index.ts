@@ -1,33 +1,75 @@
 // Export event handler types
 export * from './eventHandlers';
 
-// New interfaces for Weekly Actuals tracking
-export interface WeeklyActuals {
+// One week of the actuals ledger. Field names match WeeklyProjection so actuals
+// and forecasts line up field for field in dashboards, variance analysis and exports.
+export interface ActualsEntry {
   id: string;
-  date: string;
   week: number;
+  date: string; // ISO date the week was recorded against
+  
   // Attendance metrics
   numberOfEvents?: number;
   footTraffic?: number;
   averageEventAttendance?: number;
   
   // Revenue breakdown
-  revenue: number;  // Total revenue (for backward compatibility)
   ticketRevenue?: number;
   fbRevenue?: number;
   merchandiseRevenue?: number;
   digitalRevenue?: number;
+  totalRevenue: number;  // Sum of all revenue sources
+
+  // Buyers per revenue stream, when counted; lets variance analysis tell conversion from price
+  ticketsSold?: number;
+  fbTransactions?: number;
+  merchandiseTransactions?: number;
+  digitalPurchases?: number;
   
   // Cost breakdown
-  expenses: number;  // Total expenses (for backward compatibility)
   marketingCosts?: number;
   staffingCosts?: number;
   eventCosts?: number;
+  setupCosts?: number;
   additionalCosts?: number;
   fbCogs?: number;  // F&B Cost of Goods Sold
+  merchandiseCogs?: number;
+  totalCosts: number;  // Sum of all costs
+  headcount?: number;
   
-  conversions: number;
-  notes: string;
+  // Marketing performance
+  conversions?: number;
+  channelPerformance?: MarketingChannelPerformance[];
+  notes?: string;
+
+  // Event nights or trading days the week's attendance, revenue and venue costs
+  // were rolled up from, when captured at that level; see lib/actualsLedger
+  records?: ActualsRecord[];
+}
+
+export type ActualsRecordKind = 'event' | 'day';
+
+// Takings for one event night or trading day, tied to its date
+export interface ActualsRecord {
+  id: string;
+  kind: ActualsRecordKind;
+  date: string; // ISO date of the event or day
+  name?: string; // e.g. 'Friday Late'
+  numberOfEvents?: number; // Events run on a trading day; an event record counts as one
+  attendance?: number;
+
+  ticketRevenue?: number;
+  fbRevenue?: number;
+  merchandiseRevenue?: number;
+  digitalRevenue?: number;
+  totalRevenue: number;
+
+  staffingCosts?: number;
+  eventCosts?: number;
+  additionalCosts?: number;
+  fbCogs?: number;
+  totalCosts: number;
+  notes?: string;
 }
 
 // Projected financials interface
@@ -56,23 +98,53 @@ export interface ProductInfo {
   forecastPeriod: number;
   forecastType: 'per-event' | 'weekly' | 'monthly' | 'quarterly';
   eventsPerWeek?: number;
+  currency?: Currency; // Currency the product's amounts are entered in; DEFAULT_CURRENCY when unset
   createdAt: Date;
   updatedAt: Date;
 }
 
+export const PRODUCT_TYPES: ProductInfo['type'][] = [
+  'Experiential Events',
+  'Venue-Based Activations',
+  'Food & Beverage Products',
+  'Merchandise Drops',
+  'Digital Products'
+];
+
+export const CURRENCIES = ['AUD', 'NZD', 'USD'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: Currency = 'USD';
+
+// One unit of `from` buys `rate` units of `to`, from effectiveDate until a later rate for the pair
+export interface FxRate {
+  id: string;
+  from: Currency;
+  to: Currency;
+  rate: number;
+  effectiveDate: Date;
+}
+
+export const GROWTH_MODELS = ['Exponential', 'Decay', 'Seasonal', 'Custom'] as const;
+
+export type GrowthModel = typeof GROWTH_MODELS[number];
+
 export interface GrowthMetrics {
   id?: string;
   productId?: string;
   totalVisitors: number;
   weeklyVisitors: number;
   visitorsPerEvent: number;
-  growthModel: 'Exponential' | 'Decay' | 'Seasonal';
+  growthModel: GrowthModel;
   weeklyGrowthRate: number;
   peakDayAttendance: number;
   lowDayAttendance: number;
   returnVisitRate: number;
   wordOfMouthRate: number;
   socialMediaConversion: number;
+  // Weekly attendance multipliers relative to week 1, used by the 'Custom' model
+  attendanceCurve?: number[];
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -194,6 +266,10 @@ export interface WeeklyProjection {
   totalCosts: number;
   weeklyProfit: number;
   cumulativeProfit: number;
+  // Calendar mapping and seasonal multipliers, set when the product has a launch date
+  weekStartDate?: string;
+  seasonalAttendanceFactor?: number;
+  seasonalSpendFactor?: number;
   notes: string;
   createdAt?: Date;
   updatedAt?: Date;
@@ -208,43 +284,18 @@ export interface MarketingChannelPerformance {
   conversions?: number;
 }
 
-export interface ActualMetrics {
+// Marketing target tracked against a product, kept apart from the product document
+export interface MarketingKPI {
   id: string;
-  week: number;
-  year: number;
-  name?: string;
-  date?: string;
-  
-  // Revenue breakdowns - aligned with WeeklyProjection
-  revenue?: number;  // Total revenue (legacy support)
-  ticketRevenue?: number;
-  fbRevenue?: number;
-  merchandiseRevenue?: number;
-  digitalRevenue?: number;
-  totalRevenue?: number;  // Sum of all revenue sources
-  
-  // Attendance metrics - aligned with WeeklyProjection
-  eventCount?: number;  // Legacy support
-  numberOfEvents?: number;  // New field aligned with WeeklyProjection
-  footTraffic?: number;
-  averageEventAttendance?: number;
-  
-  // Cost breakdowns - aligned with WeeklyProjection where possible
-  marketingCost?: number;
-  staffCost?: number;
-  headcount?: number;
-  eventsCosts?: number;
-  setupCosts?: number;
-  technologyCost?: number;
-  officeCost?: number;
-  otherCosts?: number;
-  totalCosts?: number;  // Sum of all costs
-  
-  // Performance metrics
-  channelPerformance?: MarketingChannelPerformance[];
-  weeklyProfit?: number;
-  cumulativeProfit?: number;
-  notes?: string;
+  name: string;
+  category: 'revenue' | 'engagement' | 'conversion' | 'cost';
+  target: number;
+  current: number;
+  unit: 'currency' | 'percent' | 'number';
+  timeframe: 'weekly' | 'monthly' | 'quarterly';
+  startDate: string;
+  endDate: string;
+  productId?: string;
 }
 
 export const RISK_TYPES = [
@@ -293,6 +344,9 @@ export interface MarketMetrics {
   servicableObtainableMarket: number;
   yearlyGrowthRate: number;
   costScalingRate: number;
+  marketGrowthRate?: number; // Yearly growth of the SAM/SOM, in percent
+  inflationRate?: number; // Yearly cost inflation, in percent
+  forecastYears?: number; // Length of the long-term forecast, 3-5 years
   competitiveBenchmarks?: {
     competitorName: string;
     marketShare: number;
@@ -303,6 +357,20 @@ export interface MarketMetrics {
   industryTrends?: string[];
 }
 
+export interface LongTermMonth {
+  month: number; // 1-based month of the forecast
+  year: number; // 1-based forecast year
+  date?: string; // Calendar month (YYYY-MM) when the product has a launch date
+  revenue: number;
+  uncappedRevenue: number;
+  costs: number;
+  profit: number;
+  cumulativeProfit: number;
+  marketShare: number; // Annualised revenue as a share of the SAM
+  isCapped: boolean; // Revenue was limited by the obtainable market
+  isExtrapolated: boolean; // Month lies beyond the weekly forecast
+}
+
 export interface SeasonalAnalysis {
   id?: string;
   productId?: string;
@@ -313,12 +381,29 @@ export interface SeasonalAnalysis {
   notes: string;
 }
 
+// Finer-grained seasonality than the quarterly factors: a calendar month or a dated holiday window
+export interface SeasonalAdjustment {
+  id: string;
+  name: string;
+  kind: 'month' | 'holiday';
+  month?: number; // 1-12, for 'month' adjustments
+  startDate?: string; // ISO date, for 'holiday' adjustments
+  endDate?: string;
+  attendanceFactor: number;
+  spendFactor: number;
+}
+
+export const SENSITIVITY_DISTRIBUTIONS = ['triangular', 'normal'] as const;
+
+export type SensitivityDistribution = typeof SENSITIVITY_DISTRIBUTIONS[number];
+
 export interface VariableSensitivity {
   variable: string;
   baseValue: number;
   lowValue: number;
   highValue: number;
   impact: 'High' | 'Medium' | 'Low';
+  distribution?: SensitivityDistribution; // How the simulation samples low/base/high (default triangular)
 }
 
 export interface ScenarioParameter {
@@ -329,37 +414,35 @@ export interface ScenarioParameter {
   description: string;
 }
 
+export const SCENARIO_TYPES = ['Base Case', 'Best Case', 'Worst Case', 'Custom'] as const;
+
+export type ScenarioType = typeof SCENARIO_TYPES[number];
+
+export const SCENARIO_OVERRIDE_MODES = ['absolute', 'percent'] as const;
+
+export type ScenarioOverrideMode = typeof SCENARIO_OVERRIDE_MODES[number];
+
+export interface ScenarioOverride {
+  driver: string; // Model input key, e.g. 'ticketPrice' or 'marketing.weeklyBudget'
+  mode: ScenarioOverrideMode;
+  value: number; // The new value when absolute, a percentage change (10 = +10%) when percent
+}
+
 export interface Scenario {
   id: string;
   name: string;
   description: string;
   productId: string;
+  parentId?: string; // Scenario this one was branched from
   createdAt?: Date;
   updatedAt?: Date;
   
-  // Revenue adjustments
-  ticketPriceAdjustment?: number;
-  ticketSalesRateAdjustment?: number;
-  fbSpendAdjustment?: number;
-  fbConversionRateAdjustment?: number;
-  merchandiseSpendAdjustment?: number;
-  merchandiseConversionRateAdjustment?: number;
-  digitalPriceAdjustment?: number;
+  type?: ScenarioType;
+  assumptions?: string[];
+  riskFactors?: string[];
   
-  // Cost adjustments
-  venueCostAdjustment?: number;
-  staffingCostAdjustment?: number;
-  marketingCostAdjustment?: number;
-  merchandiseCostAdjustment?: number;
-  equipmentCostAdjustment?: number;
-  licensingCostAdjustment?: number;
-  developmentCostAdjustment?: number;
-  
-  // Attendance adjustments
-  weeklyVisitorsAdjustment?: number;
-  visitorsPerEventAdjustment?: number;
-  weeklyGrowthRateAdjustment?: number;
-  returnVisitRateAdjustment?: number;
+  // Driver overrides, applied to the base forecast inputs by the scenario engine
+  overrides?: ScenarioOverride[];
   
   // Projected outcomes
   projectedRevenue?: number;
@@ -373,7 +456,12 @@ export interface Scenario {
   originalProfit?: number;
   originalAttendance?: number;
   
+  // Simulation inputs
+  probabilityOfOccurrence?: number; // Percentage weight when sampling scenarios
+  sensitivities?: VariableSensitivity[];
+  
   // Additional properties
+  parameters?: ScenarioParameter[]; // Free-form figures tracked with the scenario; overrides drive the forecast
   isActive?: boolean;
   notes?: string;
 }
@@ -387,11 +475,84 @@ export interface Product {
   customerMetrics: CustomerMetrics | null;
   marketMetrics?: MarketMetrics;
   weeklyProjections: WeeklyProjection[];
-  actualMetrics: ActualMetrics[];
-  actuals: WeeklyActuals[];
+  actuals: ActualsEntry[]; // Actuals ledger, one entry per week; see lib/actualsLedger
   risks: RiskAssessment[];
   seasonalAnalysis?: SeasonalAnalysis[];
+  seasonalAdjustments?: SeasonalAdjustment[];
+  longTermProjections?: LongTermMonth[];
   scenarios?: Scenario[];
+  baselineHistory?: BaselinePromotion[]; // Most recent last
+  forecastSnapshots?: ForecastSnapshot[]; // Oldest first
+  version?: number; // Document version, bumped on every cloud save
+  schemaVersion?: number; // Schema the product was saved with; see lib/schemaMigrations
+}
+
+// Whether a week of a latest estimate was recorded or is still forecast
+export type ForecastWeekSource = 'actual' | 'forecast';
+
+export interface ForecastWeek extends WeeklyProjection {
+  source: ForecastWeekSource;
+}
+
+// How the remaining weeks of a reforecast were recalibrated from the recorded ones
+export interface ReforecastCalibration {
+  weeksUsed: number[]; // Recorded weeks the factors were worked out from
+  attendanceFactor: number; // Actual ÷ planned foot traffic
+  revenueFactors: Record<'ticketRevenue' | 'fbRevenue' | 'merchandiseRevenue' | 'digitalRevenue', number>; // Per-head yield, actual ÷ planned
+  costFactors: Record<'staffingCosts' | 'eventCosts', number>; // Actual ÷ planned
+  revenueMetrics: RevenueMetrics; // Planned drivers with the calibrated yields applied
+}
+
+export type ForecastSnapshotKind = 'plan' | 'reforecast';
+
+// Model inputs a snapshot's weeks were projected from
+export interface ForecastSnapshotInputs {
+  info: ProductInfo;
+  growthMetrics: GrowthMetrics | null;
+  revenueMetrics: RevenueMetrics | null;
+  costMetrics: CostMetrics | null;
+  seasonalAnalysis?: SeasonalAnalysis[];
+  seasonalAdjustments?: SeasonalAdjustment[];
+}
+
+// Named forecast saved as it stood at a point in time, e.g. 'Board-approved Q3'; never edited once saved
+export interface ForecastSnapshot {
+  id: string;
+  name: string;
+  kind: ForecastSnapshotKind; // The plan as modelled, or a reforecast blending in actuals
+  createdAt: Date;
+  inputs: ForecastSnapshotInputs;
+  actualsThroughWeek: number; // Last week taken from actuals; 0 for a plan
+  calibration?: ReforecastCalibration; // Reforecasts only
+  weeks: ForecastWeek[];
+}
+
+// Assumptions a new product can start from instead of empty metrics; see lib/productTemplates
+export interface ProductTemplate {
+  id: string;
+  name: string;
+  description: string;
+  productType: ProductInfo['type'];
+  builtIn?: boolean; // Starter shipped with the app; can't be edited or deleted
+  forecastType: ProductInfo['forecastType'];
+  forecastPeriod: number;
+  eventsPerWeek?: number;
+  growthMetrics: GrowthMetrics;
+  revenueMetrics: RevenueMetrics;
+  costMetrics: CostMetrics; // Includes staff roles and marketing channels
+  risks: RiskAssessment[];
+  seasonalAnalysis?: SeasonalAnalysis[];
+  createdAt: Date;
+}
+
+// Inputs replaced when a scenario was promoted to the baseline, kept so the promotion can be undone
+export interface BaselinePromotion {
+  scenarioId: string;
+  scenarioName: string;
+  promotedAt: Date;
+  growthMetrics: GrowthMetrics | null;
+  revenueMetrics: RevenueMetrics | null;
+  costMetrics: CostMetrics | null;
 }
 
 export const DEFAULT_GROWTH_METRICS: GrowthMetrics = {
@@ -444,40 +605,20 @@ export const DEFAULT_CUSTOMER_METRICS: CustomerMetrics = {
   communityEngagement: 0
 };
 
+export const DEFAULT_MARKET_METRICS: MarketMetrics = {
+  totalAddressableMarket: 100000000,
+  servicableAddressableMarket: 50000000,
+  servicableObtainableMarket: 25000000,
+  yearlyGrowthRate: 25,
+  costScalingRate: 20,
+  marketGrowthRate: 5,
+  inflationRate: 3,
+  forecastYears: 3
+};
+
 export const DEFAULT_SEASONAL_ANALYSIS: SeasonalAnalysis[] = [
   { quarter: 'Q1', seasonalImpactFactor: 1.0, projectedRevenue: 0, projectedCosts: 0, notes: '' },
   { quarter: 'Q2', seasonalImpactFactor: 1.0, projectedRevenue: 0, projectedCosts: 0, notes: '' },
   { quarter: 'Q3', seasonalImpactFactor: 1.0, projectedRevenue: 0, projectedCosts: 0, notes: '' },
   { quarter: 'Q4', seasonalImpactFactor: 1.0, projectedRevenue: 0, projectedCosts: 0, notes: '' }
 ];
-
-export interface ScenarioModel {
-  id: string;
-  name: string;
-  productId: string;
-  description: string;
-  modifiers: {
-    revenue: {
-      ticketRevenue: number; // percentage change
-      fbRevenue: number;
-      merchandiseRevenue: number;
-      digitalRevenue: number;
-    };
-    costs: {
-      marketingCost: number;
-      staffingCost: number;
-      eventCost: number;
-      setupCost: number;
-    };
-    attendance: number; // percentage change to footTraffic
-  };
-  createdAt: string;
-  updatedAt: string; // was lastModified before
-  variant?: 'optimistic' | 'pessimistic' | 'neutral' | 'custom';
-}
-
-// If StoreState exists, augment it, otherwise create it
-export interface StoreState {
-  // ... existing state properties ...
-  scenarios: ScenarioModel[];
-}
\ No newline at end of file